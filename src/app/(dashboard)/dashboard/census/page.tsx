@@ -0,0 +1,283 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { supabase } from '@/lib/supabase/client';
+import {
+  Box,
+  Typography,
+  CircularProgress,
+  Alert,
+  Paper,
+  Stack,
+  Grid,
+  Button,
+  Chip,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell,
+  TableContainer,
+} from '@mui/material';
+import { useTheme } from '@mui/material/styles';
+import DownloadIcon from '@mui/icons-material/Download';
+import { DatePicker } from '@mui/x-date-pickers/DatePicker';
+import { LocalizationProvider } from '@mui/x-date-pickers/LocalizationProvider';
+import { AdapterDateFns } from '@mui/x-date-pickers/AdapterDateFnsV3';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip as ChartTooltip, ResponsiveContainer } from 'recharts';
+import { format, parseISO, subDays } from 'date-fns';
+import toast from 'react-hot-toast';
+import {
+  CENSUS_STATUS_LABELS,
+  CensusService,
+  DailyCensus,
+  DailyCensusResident,
+  PAYER_SOURCE_LABELS,
+  PayerSource,
+} from '@/lib/services/CensusService';
+import { CARE_LEVEL_LABELS, CareLevel } from '@/lib/services/IncidentAnalyticsService';
+
+const formatPct = (pct: number | null) => pct === null ? '—' : `${pct}%`;
+
+export default function CensusPage() {
+  const theme = useTheme();
+  const yesterday = subDays(new Date(), 1);
+  const [from, setFrom] = useState<Date | null>(() => subDays(new Date(), 30));
+  const [to, setTo] = useState<Date | null>(() => subDays(new Date(), 1));
+  const [snapshots, setSnapshots] = useState<DailyCensus[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedDate, setSelectedDate] = useState<string | null>(null);
+  const [dayResidents, setDayResidents] = useState<DailyCensusResident[]>([]);
+  const [loadingResidents, setLoadingResidents] = useState(false);
+
+  useEffect(() => {
+    if (!from || !to || from > to) return;
+
+    const fetchSnapshots = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const data = await CensusService.fetchSnapshots(supabase, CensusService.formatDate(from), CensusService.formatDate(to));
+        setSnapshots(data);
+        setSelectedDate(data.length > 0 ? data[data.length - 1].census_date : null);
+      } catch (err) {
+        console.error('Error fetching census:', err);
+        const errorMessage = `Failed to load census: ${err instanceof Error ? err.message : String(err)}`;
+        setError(errorMessage);
+        toast.error(errorMessage);
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchSnapshots();
+  }, [from, to]);
+
+  useEffect(() => {
+    setDayResidents([]);
+    if (!selectedDate) return;
+
+    const fetchResidents = async () => {
+      setLoadingResidents(true);
+      try {
+        setDayResidents(await CensusService.fetchSnapshotResidents(supabase, selectedDate));
+      } catch (err) {
+        console.error('Error fetching census residents:', err);
+        toast.error(`Failed to load residents for ${selectedDate}: ${err instanceof Error ? err.message : String(err)}`);
+      } finally {
+        setLoadingResidents(false);
+      }
+    };
+    fetchResidents();
+  }, [selectedDate]);
+
+  const handleExport = () => {
+    if (!from || !to) return;
+    const blob = new Blob([CensusService.toCsv(snapshots)], { type: 'text/csv;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `census_${CensusService.formatDate(from)}_${CensusService.formatDate(to)}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const selected = snapshots.find(census => census.census_date === selectedDate) || null;
+  const chartData = snapshots.map(census => ({
+    label: format(parseISO(census.census_date), 'MMM d'),
+    occupancy: census.occupancy_pct,
+    census: CensusService.totalCensus(census),
+  }));
+
+  const summaryCard = (title: string, value: string | number, caption?: string) => (
+    <Paper variant="outlined" sx={{ p: 2, height: '100%' }}>
+      <Typography variant="body2" color="text.secondary">{title}</Typography>
+      <Typography variant="h4" sx={{ fontWeight: 600 }}>{value}</Typography>
+      {caption && <Typography variant="caption" color="text.secondary">{caption}</Typography>}
+    </Paper>
+  );
+
+  const breakdown = <K extends string>(title: string, labels: Record<K, string>, counts: Partial<Record<K, number>>) => (
+    <Paper variant="outlined" sx={{ p: 2, height: '100%' }}>
+      <Typography variant="subtitle1" gutterBottom>{title}</Typography>
+      <Table size="small">
+        <TableBody>
+          {(Object.keys(labels) as K[]).map(key => (
+            <TableRow key={key}>
+              <TableCell>{labels[key]}</TableCell>
+              <TableCell align="right">{counts[key] || 0}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </Paper>
+  );
+
+  return (
+    <LocalizationProvider dateAdapter={AdapterDateFns}>
+      <Paper sx={{ p: 3, width: '100%' }}>
+        <Stack direction={{ xs: 'column', md: 'row' }} justifyContent="space-between" alignItems={{ md: 'center' }} spacing={2} sx={{ mb: 2 }}>
+          <Box>
+            <Typography variant="h4">Daily Census</Typography>
+            <Typography variant="body2" color="text.secondary">Taken at midnight each day</Typography>
+          </Box>
+          <Stack direction="row" spacing={2}>
+            <DatePicker label="From" value={from} onChange={setFrom} maxDate={to || undefined} slotProps={{ textField: { size: 'small' } }} />
+            <DatePicker label="To" value={to} onChange={setTo} minDate={from || undefined} maxDate={yesterday} slotProps={{ textField: { size: 'small' } }} />
+            <Button variant="outlined" startIcon={<DownloadIcon />} onClick={handleExport} disabled={loading || snapshots.length === 0}>
+              Export CSV
+            </Button>
+          </Stack>
+        </Stack>
+
+        {loading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', height: '50vh' }}>
+            <CircularProgress />
+            <Typography sx={{ ml: 2 }}>Loading census...</Typography>
+          </Box>
+        ) : error ? (
+          <Alert severity="error">{error}</Alert>
+        ) : snapshots.length === 0 ? (
+          <Typography color="text.secondary">No census has been taken for these dates.</Typography>
+        ) : (
+          <>
+            {selected && (
+              <Grid container spacing={2} sx={{ mb: 3 }}>
+                <Grid item xs={6} md={3}>
+                  {summaryCard('Census', CensusService.totalCensus(selected), `${selected.in_house} in house, ${selected.on_leave} on hospital leave`)}
+                </Grid>
+                <Grid item xs={6} md={3}>
+                  {summaryCard('Occupancy', formatPct(selected.occupancy_pct), `${selected.beds_total - selected.beds_out_of_service} beds in service`)}
+                </Grid>
+                <Grid item xs={6} md={3}>
+                  {summaryCard('Admissions / Discharges', `${selected.admissions} / ${selected.discharges}`, `${selected.hospital_leaves} to hospital, ${selected.returns_from_leave} returned`)}
+                </Grid>
+                <Grid item xs={6} md={3}>
+                  {summaryCard('Beds Available', selected.beds_available, `${selected.beds_out_of_service} out of service`)}
+                </Grid>
+              </Grid>
+            )}
+
+            <Paper variant="outlined" sx={{ p: 2, mb: 3 }}>
+              <Typography variant="subtitle1" gutterBottom>Occupancy</Typography>
+              <Box sx={{ height: 260 }}>
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={chartData}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="label" interval="preserveStartEnd" />
+                    <YAxis yAxisId="pct" domain={[0, 100]} unit="%" />
+                    <YAxis yAxisId="count" orientation="right" allowDecimals={false} />
+                    <ChartTooltip />
+                    <Line yAxisId="pct" type="monotone" dataKey="occupancy" name="Occupancy %" stroke={theme.palette.primary.main} dot={false} />
+                    <Line yAxisId="count" type="monotone" dataKey="census" name="Census" stroke={theme.palette.secondary.main} dot={false} />
+                  </LineChart>
+                </ResponsiveContainer>
+              </Box>
+            </Paper>
+
+            <TableContainer component={Paper} variant="outlined" sx={{ mb: 3, maxHeight: 400 }}>
+              <Table size="small" stickyHeader>
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Date</TableCell>
+                    <TableCell align="right">In House</TableCell>
+                    <TableCell align="right">Hospital Leave</TableCell>
+                    <TableCell align="right">Admissions</TableCell>
+                    <TableCell align="right">Discharges</TableCell>
+                    <TableCell align="right">Beds Available</TableCell>
+                    <TableCell align="right">Occupancy</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {[...snapshots].reverse().map(census => (
+                    <TableRow
+                      key={census.census_date}
+                      hover
+                      selected={census.census_date === selectedDate}
+                      onClick={() => setSelectedDate(census.census_date)}
+                      sx={{ cursor: 'pointer' }}
+                    >
+                      <TableCell>{format(parseISO(census.census_date), 'EEE, MMM d, yyyy')}</TableCell>
+                      <TableCell align="right">{census.in_house}</TableCell>
+                      <TableCell align="right">{census.on_leave}</TableCell>
+                      <TableCell align="right">{census.admissions}</TableCell>
+                      <TableCell align="right">{census.discharges}</TableCell>
+                      <TableCell align="right">{census.beds_available}</TableCell>
+                      <TableCell align="right">{formatPct(census.occupancy_pct)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+
+            {selected && (
+              <>
+                <Typography variant="h6" gutterBottom>
+                  {format(parseISO(selected.census_date), 'EEEE, MMMM d, yyyy')}
+                </Typography>
+                <Grid container spacing={2} sx={{ mb: 2 }}>
+                  <Grid item xs={12} md={6}>
+                    {breakdown<CareLevel>('By Care Level', CARE_LEVEL_LABELS, selected.by_care_level)}
+                  </Grid>
+                  <Grid item xs={12} md={6}>
+                    {breakdown<PayerSource>('By Payer', PAYER_SOURCE_LABELS, selected.by_payer)}
+                  </Grid>
+                </Grid>
+                {loadingResidents ? (
+                  <CircularProgress size={20} />
+                ) : (
+                  <TableContainer component={Paper} variant="outlined">
+                    <Table size="small">
+                      <TableHead>
+                        <TableRow>
+                          <TableCell>Resident</TableCell>
+                          <TableCell>Room</TableCell>
+                          <TableCell>Status</TableCell>
+                          <TableCell>Care Level</TableCell>
+                          <TableCell>Payer</TableCell>
+                        </TableRow>
+                      </TableHead>
+                      <TableBody>
+                        {dayResidents.map(row => (
+                          <TableRow key={row.resident_id}>
+                            <TableCell>{row.residents?.profiles?.full_name || 'Unknown resident'}</TableCell>
+                            <TableCell>{row.room_number || '—'}</TableCell>
+                            <TableCell>
+                              <Chip label={CENSUS_STATUS_LABELS[row.status]} size="small" color={row.status === 'ADMITTED' ? 'success' : 'warning'} variant="outlined" />
+                            </TableCell>
+                            <TableCell>{row.care_level ? CARE_LEVEL_LABELS[row.care_level] : '—'}</TableCell>
+                            <TableCell>{row.payer_source ? PAYER_SOURCE_LABELS[row.payer_source] : '—'}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </TableContainer>
+                )}
+              </>
+            )}
+          </>
+        )}
+      </Paper>
+    </LocalizationProvider>
+  );
+}
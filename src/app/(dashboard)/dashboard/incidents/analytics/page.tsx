@@ -0,0 +1,232 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { supabase } from '@/lib/supabase/client';
+import {
+  Box,
+  Typography,
+  CircularProgress,
+  Alert,
+  Paper,
+  Stack,
+  Grid,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell,
+  TableContainer,
+} from '@mui/material';
+import { useTheme } from '@mui/material/styles';
+import { DatePicker } from '@mui/x-date-pickers/DatePicker';
+import { LocalizationProvider } from '@mui/x-date-pickers/LocalizationProvider';
+import { AdapterDateFns } from '@mui/x-date-pickers/AdapterDateFnsV3';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip as ChartTooltip, Legend, ResponsiveContainer } from 'recharts';
+import { addMonths, format, startOfMonth } from 'date-fns';
+import toast from 'react-hot-toast';
+import {
+  CARE_LEVEL_LABELS,
+  CareLevel,
+  CountBucket,
+  IncidentAnalytics,
+  IncidentAnalyticsService,
+  REPEAT_FALL_THRESHOLD,
+} from '@/lib/services/IncidentAnalyticsService';
+import { INCIDENT_TYPE_LABELS, INCIDENT_TYPES } from '@/lib/services/IncidentWorkflowService';
+
+const formatRate = (rate: number | null) => rate === null ? '—' : rate.toFixed(2);
+
+export default function IncidentAnalyticsPage() {
+  const theme = useTheme();
+  const [from, setFrom] = useState<Date | null>(() => startOfMonth(addMonths(new Date(), -5)));
+  const [to, setTo] = useState<Date | null>(() => new Date());
+  const [careLevel, setCareLevel] = useState<CareLevel | 'ALL'>('ALL');
+  const [analytics, setAnalytics] = useState<IncidentAnalytics | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // One colour per incident type for the stacked trend chart
+  const typeColors = [
+    theme.palette.error.main,
+    theme.palette.warning.main,
+    theme.palette.info.main,
+    theme.palette.secondary.main,
+    theme.palette.success.main,
+    theme.palette.grey[500],
+  ];
+
+  useEffect(() => {
+    if (!from || !to || from > to) return;
+
+    const fetchAnalytics = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        setAnalytics(await IncidentAnalyticsService.fetchAnalytics(supabase, { from, to, careLevel }));
+      } catch (err) {
+        console.error('Error fetching incident analytics:', err);
+        const errorMessage = `Failed to load incident analytics: ${err instanceof Error ? err.message : String(err)}`;
+        setError(errorMessage);
+        toast.error(errorMessage);
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchAnalytics();
+  }, [from, to, careLevel]);
+
+  const countChart = (title: string, data: CountBucket[]) => (
+    <Paper variant="outlined" sx={{ p: 2 }}>
+      <Typography variant="subtitle1" gutterBottom>{title}</Typography>
+      <Box sx={{ height: 220 }}>
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart data={data}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="label" interval="preserveStartEnd" />
+            <YAxis allowDecimals={false} />
+            <ChartTooltip />
+            <Bar dataKey="count" name="Incidents" fill={theme.palette.primary.main} />
+          </BarChart>
+        </ResponsiveContainer>
+      </Box>
+    </Paper>
+  );
+
+  const summaryCard = (title: string, value: string | number, caption?: string) => (
+    <Paper variant="outlined" sx={{ p: 2, height: '100%' }}>
+      <Typography variant="body2" color="text.secondary">{title}</Typography>
+      <Typography variant="h4" sx={{ fontWeight: 600 }}>{value}</Typography>
+      {caption && <Typography variant="caption" color="text.secondary">{caption}</Typography>}
+    </Paper>
+  );
+
+  return (
+    <LocalizationProvider dateAdapter={AdapterDateFns}>
+      <Paper sx={{ p: 3, width: '100%' }}>
+        <Stack direction={{ xs: 'column', md: 'row' }} justifyContent="space-between" alignItems={{ md: 'center' }} spacing={2} sx={{ mb: 2 }}>
+          <Typography variant="h4">
+            Incident Analytics
+          </Typography>
+          <Stack direction="row" spacing={2}>
+            <DatePicker label="From" value={from} onChange={setFrom} maxDate={to || undefined} slotProps={{ textField: { size: 'small' } }} />
+            <DatePicker label="To" value={to} onChange={setTo} minDate={from || undefined} disableFuture slotProps={{ textField: { size: 'small' } }} />
+            <FormControl size="small" sx={{ minWidth: 140 }}>
+              <InputLabel id="care-level-label">Care Level</InputLabel>
+              <Select
+                labelId="care-level-label"
+                label="Care Level"
+                value={careLevel}
+                onChange={(e) => setCareLevel(e.target.value as CareLevel | 'ALL')}
+              >
+                <MenuItem value="ALL">All care levels</MenuItem>
+                {(Object.keys(CARE_LEVEL_LABELS) as CareLevel[]).map(level => (
+                  <MenuItem key={level} value={level}>{CARE_LEVEL_LABELS[level]}</MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          </Stack>
+        </Stack>
+
+        {loading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', height: '50vh' }}>
+            <CircularProgress />
+            <Typography sx={{ ml: 2 }}>Loading incident analytics...</Typography>
+          </Box>
+        ) : error ? (
+          <Alert severity="error">{error}</Alert>
+        ) : analytics && (
+          <>
+            <Grid container spacing={2} sx={{ mb: 3 }}>
+              <Grid item xs={12} sm={6} md={3}>
+                {summaryCard('Incidents', analytics.incidents)}
+              </Grid>
+              <Grid item xs={12} sm={6} md={3}>
+                {summaryCard('Incidents per 1,000 resident-days', formatRate(analytics.incidentRate), `${analytics.residentDays.toLocaleString()} resident-days`)}
+              </Grid>
+              <Grid item xs={12} sm={6} md={3}>
+                {summaryCard('Falls', analytics.falls)}
+              </Grid>
+              <Grid item xs={12} sm={6} md={3}>
+                {summaryCard('Falls per 1,000 resident-days', formatRate(analytics.fallRate))}
+              </Grid>
+            </Grid>
+
+            <Paper variant="outlined" sx={{ p: 2, mb: 2 }}>
+              <Typography variant="subtitle1" gutterBottom>Incidents by Type per Month</Typography>
+              <Box sx={{ height: 280 }}>
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={analytics.byMonth}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="month" />
+                    <YAxis allowDecimals={false} />
+                    <ChartTooltip />
+                    <Legend />
+                    {INCIDENT_TYPES.map((type, index) => (
+                      <Bar key={type} dataKey={type} name={INCIDENT_TYPE_LABELS[type]} stackId="type" fill={typeColors[index % typeColors.length]} />
+                    ))}
+                  </BarChart>
+                </ResponsiveContainer>
+              </Box>
+            </Paper>
+
+            <Grid container spacing={2} sx={{ mb: 2 }}>
+              <Grid item xs={12} md={6}>
+                {countChart('Hour of Day', analytics.byHour)}
+              </Grid>
+              <Grid item xs={12} md={6}>
+                {countChart('Day of Week', analytics.byWeekday)}
+              </Grid>
+              <Grid item xs={12} md={6}>
+                {countChart('Location (falls)', analytics.byLocation)}
+              </Grid>
+              <Grid item xs={12} md={6}>
+                {countChart('Room at time of incident (top 10)', analytics.byRoom.slice(0, 10))}
+              </Grid>
+            </Grid>
+
+            <Typography variant="h6" gutterBottom>
+              Repeat Fallers
+            </Typography>
+            <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+              Residents with {REPEAT_FALL_THRESHOLD} or more falls in the selected period.
+            </Typography>
+            {analytics.repeatFallers.length === 0 ? (
+              <Typography color="text.secondary">No repeat fallers in this period.</Typography>
+            ) : (
+              <TableContainer>
+                <Table size="small">
+                  <TableHead>
+                    <TableRow>
+                      <TableCell>Resident</TableCell>
+                      <TableCell>Room</TableCell>
+                      <TableCell>Care Level</TableCell>
+                      <TableCell align="right">Falls</TableCell>
+                      <TableCell>Last Fall</TableCell>
+                      <TableCell align="right">Days Since Previous Fall</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {analytics.repeatFallers.map(faller => (
+                      <TableRow key={faller.resident.id}>
+                        <TableCell>{faller.resident.profiles?.full_name || 'N/A'}</TableCell>
+                        <TableCell>{faller.resident.room_number || 'N/A'}</TableCell>
+                        <TableCell>{CARE_LEVEL_LABELS[faller.resident.care_level]}</TableCell>
+                        <TableCell align="right">{faller.falls}</TableCell>
+                        <TableCell>{format(faller.lastFallAt, 'Pp')}</TableCell>
+                        <TableCell align="right">{faller.daysBetweenLastTwo}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </TableContainer>
+            )}
+          </>
+        )}
+      </Paper>
+    </LocalizationProvider>
+  );
+}
@@ -1,14 +1,35 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
+import { useRouter } from 'next/navigation';
 import { supabase } from '@/lib/supabase/client';
-import { Box, Typography, CircularProgress, Alert, Paper, Chip } from '@mui/material';
+import { Box, Typography, CircularProgress, Alert, Paper, Chip, FormControl, InputLabel, Select, MenuItem, Stack, Button, Tooltip } from '@mui/material';
 import { DataGrid, GridColDef, GridActionsCellItem, GridValueGetterParams, GridRenderCellParams } from '@mui/x-data-grid';
 import Link from 'next/link';
 import EditIcon from '@mui/icons-material/Edit';
 import DeleteIcon from '@mui/icons-material/Delete';
 import toast from 'react-hot-toast';
 import UpdateIncidentDialog from '@/components/dialogs/UpdateIncidentDialog';
+import IncidentWorkflowDialog from '@/components/dialogs/IncidentWorkflowDialog';
+import IncidentReportDialog from '@/components/dialogs/IncidentReportDialog';
+import AccountTreeIcon from '@mui/icons-material/AccountTree'; // Icon for the workflow
+import AssessmentIcon from '@mui/icons-material/Assessment';
+import InsightsIcon from '@mui/icons-material/Insights';
+import PictureAsPdfIcon from '@mui/icons-material/PictureAsPdf';
+import { format } from 'date-fns';
+import {
+  INCIDENT_SEVERITIES,
+  INCIDENT_SEVERITY_COLORS,
+  INCIDENT_SEVERITY_LABELS,
+  INCIDENT_TYPE_LABELS,
+  INCIDENT_STATUS_COLORS,
+  INCIDENT_STATUS_LABELS,
+  IncidentSeverity,
+  IncidentStatus,
+  IncidentType,
+} from '@/lib/services/IncidentWorkflowService';
+import { INCIDENT_SLA_HOURS, IncidentSlaService, SLA_KIND_LABELS, SLA_WARNING_FRACTION } from '@/lib/services/IncidentSlaService';
+import { ACTIVE_RESIDENT_STATUSES } from '@/lib/services/ResidentAdtService';
 
 // Define types
 type IncidentWithDetails = {
@@ -16,8 +37,18 @@ type IncidentWithDetails = {
   created_at: string;
   title: string;
   description: string | null;
-  severity: 'LOW' | 'MEDIUM' | 'HIGH';
-  status: 'OPEN' | 'IN_PROGRESS' | 'RESOLVED';
+  incident_type: IncidentType;
+  severity: IncidentSeverity;
+  status: IncidentStatus;
+  root_cause: string | null;
+  action_plan: string | null;
+  closed_at: string | null;
+  acknowledged_at: string | null;
+  reopened_at: string | null;
+  family_notified_at: string | null;
+  family_notified_contact: string | null;
+  physician_notified_at: string | null;
+  physician_name: string | null;
   resident_id: string;
   reported_by: string;
   assigned_to: string | null;
@@ -34,6 +65,12 @@ type IncidentWithDetails = {
   } | null;
 };
 
+type ResidentOption = {
+  id: string;
+  room_number: string | null;
+  profiles: { full_name: string | null } | null;
+};
+
 type StaffOrAdminProfile = {
   id: string;
   full_name: string | null;
@@ -41,8 +78,10 @@ type StaffOrAdminProfile = {
 };
 
 export default function IncidentsPage() {
+  const router = useRouter();
   const [incidents, setIncidents] = useState<IncidentWithDetails[]>([]);
   const [potentialAssignees, setPotentialAssignees] = useState<StaffOrAdminProfile[]>([]);
+  const [residents, setResidents] = useState<ResidentOption[]>([]);
   const [loading, setLoading] = useState(true);
   const [deleting, setDeleting] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
@@ -50,11 +89,31 @@ export default function IncidentsPage() {
   const [isUpdateDialogOpen, setIsUpdateDialogOpen] = useState(false);
   const [incidentToUpdate, setIncidentToUpdate] = useState<IncidentWithDetails | null>(null);
 
+  // State for the workflow (status change and history) dialog
+  const [workflowIncident, setWorkflowIncident] = useState<IncidentWithDetails | null>(null);
+
+  // State for the regulatory report (notifications, signatures and PDF export) dialog
+  const [reportIncident, setReportIncident] = useState<IncidentWithDetails | null>(null);
+
+  const [severityFilter, setSeverityFilter] = useState<IncidentSeverity | 'ALL'>('ALL');
+
+  // Ticks every minute so the SLA countdowns stay current
+  const [now, setNow] = useState(() => new Date());
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), 60_000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const filteredIncidents = useMemo(
+    () => severityFilter === 'ALL' ? incidents : incidents.filter(inc => inc.severity === severityFilter),
+    [incidents, severityFilter]
+  );
+
   const fetchData = async () => {
     setLoading(true);
     setError(null);
     try {
-      const [incidentsRes, assigneesRes] = await Promise.all([
+      const [incidentsRes, assigneesRes, residentsRes] = await Promise.all([
         supabase
           .from('incidents')
           .select(`
@@ -71,6 +130,10 @@ export default function IncidentsPage() {
           // TODO: Re-enable soft delete filter when Supabase local schema cache issue is resolved
           // .eq('status', 'active') // <-- Temporarily commented out due to "column does not exist" error
           .order('full_name'),
+        supabase
+          .from('residents')
+          .select('id, room_number, profiles ( full_name )')
+          .in('status', ACTIVE_RESIDENT_STATUSES),
       ]);
 
       if (incidentsRes.error) {
@@ -79,9 +142,13 @@ export default function IncidentsPage() {
       if (assigneesRes.error) {
         throw new Error(`Assignees fetch failed: ${assigneesRes.error.message}`);
       }
+      if (residentsRes.error) {
+        throw new Error(`Residents fetch failed: ${residentsRes.error.message}`);
+      }
 
       setIncidents(incidentsRes.data || []);
       setPotentialAssignees(assigneesRes.data || []);
+      setResidents((residentsRes.data || []) as unknown as ResidentOption[]);
 
     } catch (err: any) {
       console.error("Error fetching data:", err);
@@ -117,6 +184,11 @@ export default function IncidentsPage() {
     toast.success('Incident details updated successfully!');
   };
 
+  const handleWorkflowChanged = () => {
+    setWorkflowIncident(null);
+    fetchData();
+  };
+
   const handleDelete = async (id: string) => {
     if (window.confirm('Are you sure you want to delete this incident? This action cannot be undone.')) {
       setDeleting(true);
@@ -144,6 +216,12 @@ export default function IncidentsPage() {
 
   const columns: GridColDef[] = [
     { field: 'title', headerName: 'Title', width: 200 },
+    {
+      field: 'incident_type',
+      headerName: 'Type',
+      width: 130,
+      valueGetter: (params: GridValueGetterParams) => INCIDENT_TYPE_LABELS[params.row.incident_type as IncidentType] || params.row.incident_type,
+    },
     {
       field: 'resident',
       headerName: 'Resident',
@@ -209,17 +287,59 @@ export default function IncidentsPage() {
       headerName: 'Severity',
       width: 100,
       renderCell: (params) => (
-        <Chip label={params.value} color={params.value === 'HIGH' ? 'error' : params.value === 'MEDIUM' ? 'warning' : 'default'} size="small" />
+        <Chip
+          label={INCIDENT_SEVERITY_LABELS[params.value as IncidentSeverity] || params.value}
+          color={INCIDENT_SEVERITY_COLORS[params.value as IncidentSeverity] || 'default'}
+          size="small"
+        />
       ),
     },
     {
       field: 'status',
       headerName: 'Status',
-      width: 120,
+      width: 130,
       renderCell: (params) => (
-        <Chip label={params.value} color={params.value === 'OPEN' ? 'primary' : params.value === 'RESOLVED' ? 'success' : 'default'} size="small" />
+        <Chip
+          label={INCIDENT_STATUS_LABELS[params.value as IncidentStatus] || params.value}
+          color={INCIDENT_STATUS_COLORS[params.value as IncidentStatus] || 'default'}
+          size="small"
+          onClick={() => setWorkflowIncident(params.row as IncidentWithDetails)}
+        />
       ),
     },
+    {
+      field: 'sla',
+      headerName: 'SLA',
+      width: 170,
+      sortable: false,
+      renderCell: (params: GridRenderCellParams) => {
+        const incident = params.row as IncidentWithDetails;
+        const active = IncidentSlaService.getActive(incident, now);
+
+        if (!active) {
+          const resolve = IncidentSlaService.getState(incident, 'RESOLVE', now);
+          return (
+            <Chip
+              label={resolve.breached ? 'Resolved late' : 'Resolved in SLA'}
+              color={resolve.breached ? 'error' : 'success'}
+              variant="outlined"
+              size="small"
+            />
+          );
+        }
+
+        const windowMs = INCIDENT_SLA_HOURS[incident.severity][active.kind] * 3_600_000;
+        const color = active.breached ? 'error' : active.remainingMs < windowMs * SLA_WARNING_FRACTION ? 'warning' : 'default';
+        const countdown = active.breached
+          ? `${IncidentSlaService.formatDuration(active.remainingMs)} overdue`
+          : `${IncidentSlaService.formatDuration(active.remainingMs)} left`;
+        return (
+          <Tooltip title={`${SLA_KIND_LABELS[active.kind]} by ${format(active.dueAt, 'Pp')}`}>
+            <Chip label={`${SLA_KIND_LABELS[active.kind]}: ${countdown}`} color={color} size="small" />
+          </Tooltip>
+        );
+      },
+    },
     {
       field: 'created_at',
       headerName: 'Reported At',
@@ -231,9 +351,25 @@ export default function IncidentsPage() {
       field: 'actions',
       type: 'actions',
       headerName: 'Actions',
-      width: 100,
+      width: 160,
       cellClassName: 'actions',
-      getActions: ({ id }) => [
+      getActions: ({ id, row }) => [
+        <GridActionsCellItem
+          key="workflow"
+          icon={<AccountTreeIcon />}
+          label="Status & History"
+          onClick={() => setWorkflowIncident(row as IncidentWithDetails)}
+          color="primary"
+          disabled={deleting}
+        />,
+        <GridActionsCellItem
+          key="report"
+          icon={<PictureAsPdfIcon />}
+          label="Regulatory Report"
+          onClick={() => setReportIncident(row as IncidentWithDetails)}
+          color="inherit"
+          disabled={deleting}
+        />,
         <GridActionsCellItem
           key="update"
           icon={<EditIcon />}
@@ -269,12 +405,44 @@ export default function IncidentsPage() {
 
   return (
     <Paper sx={{ p: 3, height: '80vh', width: '100%' }}>
-      <Typography variant="h4" gutterBottom>
-        Manage Incidents
-      </Typography>
+      <Stack direction="row" justifyContent="space-between" alignItems="center" sx={{ mb: 1 }}>
+        <Typography variant="h4">
+          Manage Incidents
+        </Typography>
+        <Stack direction="row" spacing={2}>
+          <FormControl size="small" sx={{ minWidth: 160 }}>
+            <InputLabel id="severity-filter-label">Severity</InputLabel>
+            <Select
+              labelId="severity-filter-label"
+              label="Severity"
+              value={severityFilter}
+              onChange={(e) => setSeverityFilter(e.target.value as IncidentSeverity | 'ALL')}
+            >
+              <MenuItem value="ALL">All severities</MenuItem>
+              {INCIDENT_SEVERITIES.map(severity => (
+                <MenuItem key={severity} value={severity}>{INCIDENT_SEVERITY_LABELS[severity]}</MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          <Button
+            variant="outlined"
+            startIcon={<AssessmentIcon />}
+            onClick={() => router.push('/dashboard/incidents/sla-report')}
+          >
+            SLA Report
+          </Button>
+          <Button
+            variant="outlined"
+            startIcon={<InsightsIcon />}
+            onClick={() => router.push('/dashboard/incidents/analytics')}
+          >
+            Analytics
+          </Button>
+        </Stack>
+      </Stack>
       <Box sx={{ height: 'calc(100% - 60px)', width: '100%' }}>
          <DataGrid
-           rows={incidents}
+           rows={filteredIncidents}
            columns={columns}
            loading={loading || deleting}
            getRowHeight={() => 'auto'}
@@ -298,6 +466,22 @@ export default function IncidentsPage() {
         onSuccess={handleIncidentUpdated}
         incident={incidentToUpdate}
         assignees={potentialAssignees}
+        residents={residents}
+      />
+
+      <IncidentWorkflowDialog
+        open={!!workflowIncident}
+        onClose={() => setWorkflowIncident(null)}
+        onSuccess={handleWorkflowChanged}
+        incident={workflowIncident}
+        assignees={potentialAssignees}
+      />
+
+      <IncidentReportDialog
+        open={!!reportIncident}
+        onClose={() => setReportIncident(null)}
+        onSuccess={fetchData}
+        incident={reportIncident}
       />
     </Paper>
   );
@@ -0,0 +1,178 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { supabase } from '@/lib/supabase/client';
+import {
+  Box,
+  Typography,
+  CircularProgress,
+  Alert,
+  Paper,
+  Stack,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell,
+  TableContainer,
+} from '@mui/material';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip as ChartTooltip, Legend, ResponsiveContainer } from 'recharts';
+import { format } from 'date-fns';
+import toast from 'react-hot-toast';
+import {
+  INCIDENT_SLA_HOURS,
+  IncidentSlaService,
+  SLA_KIND_LABELS,
+  SlaKind,
+  SlaMonthSummary,
+} from '@/lib/services/IncidentSlaService';
+import { INCIDENT_SEVERITIES, INCIDENT_SEVERITY_LABELS } from '@/lib/services/IncidentWorkflowService';
+
+const MONTH_OPTIONS = [3, 6, 12];
+
+export default function IncidentSlaReportPage() {
+  const [months, setMonths] = useState(6);
+  const [summaries, setSummaries] = useState<SlaMonthSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchReport = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        setSummaries(await IncidentSlaService.fetchMonthlyBreaches(supabase, months));
+      } catch (err) {
+        console.error('Error fetching SLA report:', err);
+        const errorMessage = `Failed to load SLA report: ${err instanceof Error ? err.message : String(err)}`;
+        setError(errorMessage);
+        toast.error(errorMessage);
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchReport();
+  }, [months]);
+
+  if (loading) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', height: '80vh' }}>
+        <CircularProgress />
+        <Typography sx={{ ml: 2 }}>Loading SLA report...</Typography>
+      </Box>
+    );
+  }
+
+  if (error) {
+    return <Alert severity="error">{error}</Alert>;
+  }
+
+  const chartData = summaries.map(summary => ({
+    month: format(summary.month, 'MMM yyyy'),
+    acknowledge: summary.acknowledgeBreaches,
+    resolve: summary.resolveBreaches,
+  }));
+
+  return (
+    <Paper sx={{ p: 3, width: '100%' }}>
+      <Stack direction="row" justifyContent="space-between" alignItems="center" sx={{ mb: 2 }}>
+        <Typography variant="h4">
+          Incident SLA Breaches
+        </Typography>
+        <FormControl size="small" sx={{ minWidth: 160 }}>
+          <InputLabel id="months-label">Period</InputLabel>
+          <Select
+            labelId="months-label"
+            label="Period"
+            value={months}
+            onChange={(e) => setMonths(Number(e.target.value))}
+          >
+            {MONTH_OPTIONS.map(option => (
+              <MenuItem key={option} value={option}>Last {option} months</MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+      </Stack>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+        Incidents are counted in the month they were reported. Open incidents past their deadline count as breached.
+      </Typography>
+
+      <Box sx={{ height: 280, mb: 3 }}>
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart data={chartData}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="month" />
+            <YAxis allowDecimals={false} />
+            <ChartTooltip />
+            <Legend />
+            <Bar dataKey="acknowledge" name="Acknowledgement breaches" fill="#ed6c02" />
+            <Bar dataKey="resolve" name="Resolution breaches" fill="#d32f2f" />
+          </BarChart>
+        </ResponsiveContainer>
+      </Box>
+
+      <TableContainer sx={{ mb: 3 }}>
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>Month</TableCell>
+              <TableCell align="right">Incidents</TableCell>
+              <TableCell align="right">Acknowledgement Breaches</TableCell>
+              <TableCell align="right">Resolution Breaches</TableCell>
+              <TableCell align="right">Escalations Sent</TableCell>
+              <TableCell align="right">Resolved in SLA</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {summaries.map(summary => (
+              <TableRow key={summary.month.toISOString()}>
+                <TableCell>{format(summary.month, 'MMMM yyyy')}</TableCell>
+                <TableCell align="right">{summary.incidents}</TableCell>
+                <TableCell align="right">{summary.acknowledgeBreaches}</TableCell>
+                <TableCell align="right">{summary.resolveBreaches}</TableCell>
+                <TableCell align="right">{summary.escalations}</TableCell>
+                <TableCell align="right">
+                  {summary.incidents > 0
+                    ? `${Math.round(((summary.incidents - summary.resolveBreaches) / summary.incidents) * 100)}%`
+                    : '—'}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </TableContainer>
+
+      <Typography variant="h6" gutterBottom>
+        SLA Targets
+      </Typography>
+      <TableContainer>
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>Severity</TableCell>
+              {(Object.keys(SLA_KIND_LABELS) as SlaKind[]).map(kind => (
+                <TableCell key={kind} align="right">{SLA_KIND_LABELS[kind]} within</TableCell>
+              ))}
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {INCIDENT_SEVERITIES.map(severity => (
+              <TableRow key={severity}>
+                <TableCell>{INCIDENT_SEVERITY_LABELS[severity]}</TableCell>
+                {(Object.keys(SLA_KIND_LABELS) as SlaKind[]).map(kind => (
+                  <TableCell key={kind} align="right">
+                    {IncidentSlaService.formatDuration(INCIDENT_SLA_HOURS[severity][kind] * 3_600_000)}
+                  </TableCell>
+                ))}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </TableContainer>
+    </Paper>
+  );
+}
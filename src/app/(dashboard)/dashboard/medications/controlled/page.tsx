@@ -0,0 +1,236 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { supabase } from '@/lib/supabase/client';
+import {
+  Box,
+  Typography,
+  CircularProgress,
+  Alert,
+  Paper,
+  Button,
+  Chip,
+  Stack,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell,
+  TableContainer,
+} from '@mui/material';
+import { format } from 'date-fns';
+import toast from 'react-hot-toast';
+import ControlledSubstanceEntryDialog from '@/components/dialogs/ControlledSubstanceEntryDialog';
+import {
+  ControlledLedgerEntry,
+  ControlledMedication,
+  ControlledSubstanceService,
+  CONTROLLED_ENTRY_LABELS,
+  ManualControlledEntryType,
+} from '@/lib/services/ControlledSubstanceService';
+
+// Row actions, in the order they appear
+const ENTRY_ACTIONS: Record<ManualControlledEntryType, string> = {
+  SHIFT_COUNT: 'Count',
+  RECEIVED: 'Receive',
+  WASTED: 'Waste',
+  DESTROYED: 'Destroy',
+};
+
+export default function ControlledSubstancesPage() {
+  const [medications, setMedications] = useState<ControlledMedication[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [ledger, setLedger] = useState<ControlledLedgerEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadingLedger, setLoadingLedger] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // State for the entry dialog
+  const [entryTarget, setEntryTarget] = useState<{ medication: ControlledMedication; entryType: ManualControlledEntryType } | null>(null);
+
+  const selectedMedication = medications.find(med => med.id === selectedId) || null;
+
+  const fetchMedications = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setMedications(await ControlledSubstanceService.fetchControlledMedications(supabase));
+    } catch (err) {
+      console.error('Error fetching controlled medications:', err);
+      const errorMessage = `Failed to load controlled medications: ${err instanceof Error ? err.message : String(err)}`;
+      setError(errorMessage);
+      toast.error(errorMessage);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchLedger = async (medicationId: string) => {
+    setLoadingLedger(true);
+    try {
+      setLedger(await ControlledSubstanceService.fetchLedger(supabase, medicationId));
+    } catch (err) {
+      console.error('Error fetching ledger:', err);
+      toast.error(`Failed to load ledger: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setLoadingLedger(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchMedications();
+  }, []);
+
+  useEffect(() => {
+    if (selectedId) {
+      fetchLedger(selectedId);
+    } else {
+      setLedger([]);
+    }
+  }, [selectedId]);
+
+  const handleEntrySuccess = () => {
+    fetchMedications();
+    if (selectedId) fetchLedger(selectedId);
+  };
+
+  if (loading) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', height: '80vh' }}>
+        <CircularProgress />
+        <Typography sx={{ ml: 2 }}>Loading controlled substances...</Typography>
+      </Box>
+    );
+  }
+
+  if (error) {
+    return <Alert severity="error">{error}</Alert>;
+  }
+
+  return (
+    <Paper sx={{ p: 3, width: '100%' }}>
+      <Typography variant="h4" gutterBottom>
+        Controlled Substances
+      </Typography>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+        Counts, receipts, waste and destruction require a witness signature. Doses logged as given are deducted automatically.
+      </Typography>
+
+      {medications.length === 0 ? (
+        <Typography color="text.secondary">No medications are marked as controlled.</Typography>
+      ) : (
+        <TableContainer>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Resident</TableCell>
+                <TableCell>Room</TableCell>
+                <TableCell>Medication</TableCell>
+                <TableCell align="right">On Hand</TableCell>
+                <TableCell>Last Count</TableCell>
+                <TableCell>Actions</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {medications.map(med => {
+                const discrepancy = med.lastCount && Number(med.lastCount.counted_quantity) !== Number(med.lastCount.expected_quantity);
+                return (
+                  <TableRow
+                    key={med.id}
+                    hover
+                    selected={med.id === selectedId}
+                    onClick={() => setSelectedId(med.id)}
+                    sx={{ cursor: 'pointer' }}
+                  >
+                    <TableCell>{med.residents?.profiles?.full_name || 'N/A'}</TableCell>
+                    <TableCell>{med.residents?.room_number || 'N/A'}</TableCell>
+                    <TableCell>
+                      <Typography variant="body2" fontWeight={500}>{med.name}</Typography>
+                      <Typography variant="caption" color="text.secondary">{med.dosage}</Typography>
+                    </TableCell>
+                    <TableCell align="right">{med.onHand} {med.count_unit || ''}</TableCell>
+                    <TableCell>
+                      {med.lastCount ? (
+                        <Stack direction="row" spacing={1} alignItems="center">
+                          <Typography variant="body2">{format(new Date(med.lastCount.created_at), 'MMM d, p')}</Typography>
+                          {discrepancy && <Chip label="Discrepancy" size="small" color="error" />}
+                        </Stack>
+                      ) : (
+                        <Typography variant="body2" color="text.secondary">Never counted</Typography>
+                      )}
+                    </TableCell>
+                    <TableCell onClick={(e) => e.stopPropagation()}>
+                      <Stack direction="row" spacing={0.5}>
+                        {(Object.keys(ENTRY_ACTIONS) as ManualControlledEntryType[]).map(entryType => (
+                          <Button key={entryType} size="small" onClick={() => setEntryTarget({ medication: med, entryType })}>
+                            {ENTRY_ACTIONS[entryType]}
+                          </Button>
+                        ))}
+                      </Stack>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+
+      {selectedMedication && (
+        <Box sx={{ mt: 4 }}>
+          <Typography variant="h6" gutterBottom>
+            Ledger: {selectedMedication.name} {selectedMedication.dosage}
+          </Typography>
+          {loadingLedger ? (
+            <Box sx={{ display: 'flex', justifyContent: 'center', p: 2 }}><CircularProgress /></Box>
+          ) : ledger.length === 0 ? (
+            <Typography color="text.secondary">No entries yet. Record a receipt to set the opening count.</Typography>
+          ) : (
+            <TableContainer>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Date/Time</TableCell>
+                    <TableCell>Entry</TableCell>
+                    <TableCell align="right">Change</TableCell>
+                    <TableCell align="right">Balance</TableCell>
+                    <TableCell>By</TableCell>
+                    <TableCell>Witness</TableCell>
+                    <TableCell>Notes</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {ledger.map(entry => (
+                    <TableRow key={entry.id}>
+                      <TableCell>{format(new Date(entry.created_at), 'MMM d, p')}</TableCell>
+                      <TableCell>{CONTROLLED_ENTRY_LABELS[entry.entry_type]}</TableCell>
+                      <TableCell align="right">
+                        {entry.entry_type === 'SHIFT_COUNT'
+                          ? `${entry.counted_quantity} counted / ${entry.expected_quantity} expected`
+                          : entry.quantity > 0 ? `+${entry.quantity}` : entry.quantity}
+                      </TableCell>
+                      <TableCell align="right">{entry.balance_after}</TableCell>
+                      <TableCell>{entry.performer?.full_name || 'N/A'}</TableCell>
+                      <TableCell>{entry.witness?.full_name || '—'}</TableCell>
+                      <TableCell>{entry.notes || ''}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          )}
+        </Box>
+      )}
+
+      {entryTarget && (
+        <ControlledSubstanceEntryDialog
+          open={!!entryTarget}
+          onClose={() => setEntryTarget(null)}
+          onSuccess={handleEntrySuccess}
+          medication={entryTarget.medication}
+          entryType={entryTarget.entryType}
+        />
+      )}
+    </Paper>
+  );
+}
@@ -0,0 +1,352 @@
+'use client';
+
+import { useState, useEffect, useMemo } from 'react';
+import { useSearchParams } from 'next/navigation';
+import { supabase } from '@/lib/supabase/client';
+import {
+  Box,
+  Typography,
+  CircularProgress,
+  Alert,
+  Paper,
+  Button,
+  Chip,
+  Stack,
+  TextField,
+  Autocomplete,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell,
+  TableContainer,
+} from '@mui/material';
+import { DatePicker } from '@mui/x-date-pickers/DatePicker';
+import { LocalizationProvider } from '@mui/x-date-pickers/LocalizationProvider';
+import { AdapterDateFns } from '@mui/x-date-pickers/AdapterDateFnsV3';
+import { format, startOfDay, endOfDay } from 'date-fns';
+import PrintIcon from '@mui/icons-material/Print';
+import QrCode2Icon from '@mui/icons-material/QrCode2';
+import AddTaskIcon from '@mui/icons-material/AddTask';
+import toast from 'react-hot-toast';
+import LogMedicationDoseDialog from '@/components/dialogs/LogMedicationDoseDialog';
+import RecordPrnFollowUpDialog from '@/components/dialogs/RecordPrnFollowUpDialog';
+import CorrectMedicationLogDialog from '@/components/dialogs/CorrectMedicationLogDialog';
+import MarSlotChip from '@/components/MarSlotChip';
+import {
+  MarMedication,
+  MarService,
+  MarSlot,
+  MedicationLogEntry,
+  ShiftName,
+  SHIFT_HOURS,
+  TimeRange,
+} from '@/lib/services/MarService';
+import { MedicationScheduleService } from '@/lib/services/MedicationScheduleService';
+import { PRN_OUTCOME_LABELS, PrnService } from '@/lib/services/PrnService';
+import { ACTIVE_RESIDENT_STATUSES } from '@/lib/services/ResidentAdtService';
+
+// --- Types ---
+type ResidentOption = {
+  id: string; // Resident ID
+  room_number: string | null;
+  profiles: {
+    id: string;
+    full_name: string | null;
+  } | null;
+};
+
+type ShiftFilter = ShiftName | 'FULL_DAY';
+
+export default function MarPage() {
+  const searchParams = useSearchParams();
+  const [residents, setResidents] = useState<ResidentOption[]>([]);
+  const [residentId, setResidentId] = useState<string | null>(searchParams.get('residentId'));
+  const [day, setDay] = useState<Date>(new Date());
+  const [shift, setShift] = useState<ShiftFilter>(() => MarService.getCurrentShift().shift);
+  const [medications, setMedications] = useState<MarMedication[]>([]);
+  const [logs, setLogs] = useState<MedicationLogEntry[]>([]);
+  const [loadingResidents, setLoadingResidents] = useState(true);
+  const [loadingMar, setLoadingMar] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // State for the Log Dose dialog
+  const [logTarget, setLogTarget] = useState<{ medication: MarMedication; scheduledFor: Date | null } | null>(null);
+  // State for the PRN re-check dialog
+  const [followUpTarget, setFollowUpTarget] = useState<{ medication: MarMedication; log: MedicationLogEntry } | null>(null);
+  // State for the correction dialog (the entry as originally logged)
+  const [correctionTarget, setCorrectionTarget] = useState<{ medication: MarMedication; log: MedicationLogEntry } | null>(null);
+
+  const range: TimeRange = useMemo(
+    () => (shift === 'FULL_DAY' ? { from: startOfDay(day), to: endOfDay(day) } : MarService.getShiftRange(day, shift)),
+    [day, shift]
+  );
+
+  const selectedResident = residents.find(res => res.id === residentId) || null;
+
+  useEffect(() => {
+    const fetchResidents = async () => {
+      setLoadingResidents(true);
+      try {
+        const { data, error: fetchError } = await supabase
+          .from('residents')
+          .select('id, room_number, profiles(id, full_name)')
+          .in('status', ACTIVE_RESIDENT_STATUSES)
+          .order('room_number', { ascending: true });
+
+        if (fetchError) throw fetchError;
+        setResidents((data as unknown as ResidentOption[]) || []);
+      } catch (err) {
+        console.error('Error fetching residents:', err);
+        setError(`Failed to load residents: ${err instanceof Error ? err.message : String(err)}`);
+      } finally {
+        setLoadingResidents(false);
+      }
+    };
+    fetchResidents();
+  }, []);
+
+  const fetchMar = async () => {
+    if (!residentId) return;
+    setLoadingMar(true);
+    setError(null);
+    try {
+      const result = await MarService.fetchResidentMar(supabase, residentId, range);
+      setMedications(result.medications);
+      setLogs(result.logs);
+    } catch (err) {
+      console.error('Error fetching MAR:', err);
+      const errorMessage = err instanceof Error ? err.message : 'Failed to load MAR';
+      setError(errorMessage);
+      toast.error(errorMessage);
+    } finally {
+      setLoadingMar(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchMar();
+  }, [residentId, range]);
+
+  // Slots per medication plus the distinct times that make up the grid columns
+  const { slotsByMedication, slotTimes } = useMemo(() => {
+    const now = new Date();
+    const bySlot = new Map<string, MarSlot[]>();
+    const times = new Map<number, Date>();
+    medications.forEach(med => {
+      const slots = MarService.buildSlots(med, logs, range, now);
+      bySlot.set(med.id, slots);
+      slots.forEach(slot => times.set(slot.scheduledAt.getTime(), slot.scheduledAt));
+    });
+    return {
+      slotsByMedication: bySlot,
+      slotTimes: [...times.values()].sort((a, b) => a.getTime() - b.getTime()),
+    };
+  }, [medications, logs, range]);
+
+  // Logged slots open the correction dialog; unlogged (or fully voided) ones open Log Dose
+  const handleSlotClick = (medication: MarMedication, slot: MarSlot) => {
+    const original = slot.log && slot.entries.find(entry => entry.id === slot.log?.id);
+    if (original) {
+      setCorrectionTarget({ medication, log: original });
+      return;
+    }
+    setLogTarget({ medication, scheduledFor: slot.scheduledAt });
+  };
+
+  const handlePrint = () => {
+    if (!residentId) return;
+    window.open(`/print/mar/${residentId}/${format(day, 'yyyy-MM')}`, '_blank');
+  };
+
+  if (loadingResidents) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', height: '80vh' }}>
+        <CircularProgress />
+        <Typography sx={{ ml: 2 }}>Loading residents...</Typography>
+      </Box>
+    );
+  }
+
+  return (
+    <LocalizationProvider dateAdapter={AdapterDateFns}>
+      <Paper sx={{ p: 3, width: '100%' }}>
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
+          <Typography variant="h4" gutterBottom sx={{ mb: 0 }}>
+            Medication Administration Record
+          </Typography>
+          <Stack direction="row" spacing={1}>
+            <Button
+              variant="outlined"
+              startIcon={<QrCode2Icon />}
+              onClick={() => residentId && window.open(`/print/labels/${residentId}`, '_blank')}
+              disabled={!residentId}
+            >
+              Print Labels
+            </Button>
+            <Button variant="outlined" startIcon={<PrintIcon />} onClick={handlePrint} disabled={!residentId}>
+              Print Monthly MAR
+            </Button>
+          </Stack>
+        </Box>
+
+        {/* Filters */}
+        <Stack direction={{ xs: 'column', md: 'row' }} spacing={2} sx={{ mb: 3 }}>
+          <Autocomplete
+            options={residents}
+            getOptionLabel={(option) => `${option.profiles?.full_name || 'Unknown Resident'} (Room ${option.room_number || 'N/A'})`}
+            value={selectedResident}
+            onChange={(_, newValue) => setResidentId(newValue ? newValue.id : null)}
+            renderInput={(params) => <TextField {...params} label="Resident" />}
+            isOptionEqualToValue={(option, value) => option.id === value.id}
+            sx={{ minWidth: 300 }}
+          />
+          <DatePicker
+            label="Day"
+            value={day}
+            onChange={(newValue) => newValue && setDay(newValue)}
+          />
+          <FormControl sx={{ minWidth: 220 }}>
+            <InputLabel id="shift-select-label">Shift</InputLabel>
+            <Select
+              labelId="shift-select-label"
+              label="Shift"
+              value={shift}
+              onChange={(e) => setShift(e.target.value as ShiftFilter)}
+            >
+              {(Object.keys(SHIFT_HOURS) as ShiftName[]).map(name => (
+                <MenuItem key={name} value={name}>{SHIFT_HOURS[name].label}</MenuItem>
+              ))}
+              <MenuItem value="FULL_DAY">Full day</MenuItem>
+            </Select>
+          </FormControl>
+        </Stack>
+
+        {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+
+        {!residentId ? (
+          <Typography color="text.secondary">Select a resident to view their MAR.</Typography>
+        ) : loadingMar ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', p: 4 }}><CircularProgress /></Box>
+        ) : medications.length === 0 ? (
+          <Typography color="text.secondary">No active medications for this resident in the selected period.</Typography>
+        ) : (
+          <TableContainer>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Medication</TableCell>
+                  <TableCell>Schedule</TableCell>
+                  {slotTimes.map(time => (
+                    <TableCell key={time.getTime()} align="center">{format(time, shift === 'NIGHT' ? 'MMM d p' : 'p')}</TableCell>
+                  ))}
+                  <TableCell>PRN / Unscheduled</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {medications.map(med => {
+                  const slots = slotsByMedication.get(med.id) || [];
+                  const unscheduled = MarService.getUnscheduledLogs(med.id, logs, range);
+                  const canLogUnscheduled = MedicationScheduleService.isPrn(med) || !med.schedule;
+                  return (
+                    <TableRow key={med.id} hover>
+                      <TableCell>
+                        <Typography variant="body2" fontWeight={500}>{med.name}</Typography>
+                        <Typography variant="caption" color="text.secondary">{med.dosage}</Typography>
+                      </TableCell>
+                      <TableCell>
+                        <Typography variant="caption">{med.frequency}</Typography>
+                      </TableCell>
+                      {slotTimes.map(time => {
+                        const slot = slots.find(s => s.scheduledAt.getTime() === time.getTime());
+                        return (
+                          <TableCell key={time.getTime()} align="center">
+                            {slot ? <MarSlotChip slot={slot} onClick={() => handleSlotClick(med, slot)} /> : '—'}
+                          </TableCell>
+                        );
+                      })}
+                      <TableCell>
+                        <Stack direction="row" spacing={0.5} flexWrap="wrap" useFlexGap alignItems="center">
+                          {unscheduled.map(log => {
+                            const followUp = PrnService.getFollowUpStatus(log);
+                            const outcome = log.medication_prn_followups?.[0]?.outcome;
+                            const effective = MarService.getEffectiveLog(log);
+                            const correction = MarService.getLatestCorrection(log);
+                            return (
+                              <Stack key={log.id} direction="row" spacing={0.5}>
+                                <Chip
+                                  size="small"
+                                  label={effective
+                                    ? `${format(new Date(effective.administered_at), 'p')} ${effective.status}${correction ? '*' : ''}`
+                                    : `${format(new Date(log.administered_at), 'p')} ${log.status} VOID`}
+                                  title={correction ? `${correction.action === 'VOID' ? 'Voided' : `Corrected from ${log.status}`}: ${correction.reason}` : log.prn_indication || undefined}
+                                  color={!effective ? 'default' : effective.status === 'GIVEN' ? 'success' : effective.status === 'REFUSED' ? 'warning' : 'error'}
+                                  variant={effective ? 'filled' : 'outlined'}
+                                  sx={effective ? undefined : { textDecoration: 'line-through' }}
+                                  onClick={() => setCorrectionTarget({ medication: med, log })}
+                                />
+                                {followUp === 'DONE' && outcome && (
+                                  <Chip size="small" variant="outlined" label={PRN_OUTCOME_LABELS[outcome]} />
+                                )}
+                                {(followUp === 'PENDING' || followUp === 'OVERDUE') && log.effectiveness_due_at && (
+                                  <Chip
+                                    size="small"
+                                    variant="outlined"
+                                    color={followUp === 'OVERDUE' ? 'error' : 'info'}
+                                    label={`Re-check ${followUp === 'OVERDUE' ? 'overdue' : 'due'} ${format(new Date(log.effectiveness_due_at), 'p')}`}
+                                    onClick={() => setFollowUpTarget({ medication: med, log })}
+                                  />
+                                )}
+                              </Stack>
+                            );
+                          })}
+                          {canLogUnscheduled && (
+                            <Button size="small" startIcon={<AddTaskIcon />} onClick={() => setLogTarget({ medication: med, scheduledFor: null })}>
+                              Log
+                            </Button>
+                          )}
+                        </Stack>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        )}
+
+        <LogMedicationDoseDialog
+          open={!!logTarget}
+          onClose={() => setLogTarget(null)}
+          onSuccess={fetchMar}
+          medicationId={logTarget?.medication.id || null}
+          residentId={residentId}
+          medicationName={logTarget?.medication.name}
+          residentName={selectedResident?.profiles?.full_name || 'N/A'}
+          medication={logTarget?.medication}
+          scheduledFor={logTarget?.scheduledFor}
+        />
+
+        <CorrectMedicationLogDialog
+          open={!!correctionTarget}
+          onClose={() => setCorrectionTarget(null)}
+          onSuccess={fetchMar}
+          log={correctionTarget?.log || null}
+          medicationName={correctionTarget?.medication.name}
+        />
+
+        <RecordPrnFollowUpDialog
+          open={!!followUpTarget}
+          onClose={() => setFollowUpTarget(null)}
+          onSuccess={fetchMar}
+          log={followUpTarget?.log || null}
+          medicationName={followUpTarget?.medication.name}
+        />
+      </Paper>
+    </LocalizationProvider>
+  );
+}
@@ -0,0 +1,376 @@
+'use client';
+
+import { Fragment, useState, useEffect, useCallback, useMemo } from 'react';
+import { useRouter } from 'next/navigation';
+import { supabase } from '@/lib/supabase/client';
+import { useAuth } from '@/lib/hooks/useAuth';
+import {
+  Box,
+  Typography,
+  CircularProgress,
+  Alert,
+  Paper,
+  Button,
+  Chip,
+  Stack,
+  TextField,
+  Checkbox,
+  FormControlLabel,
+  LinearProgress,
+  List,
+  ListItemButton,
+  ListItemText,
+  ListSubheader,
+  Divider,
+} from '@mui/material';
+import { format } from 'date-fns';
+import RefreshIcon from '@mui/icons-material/Refresh';
+import ViewListIcon from '@mui/icons-material/ViewList';
+import toast from 'react-hot-toast';
+import { MarService, MedicationLogStatus, SHIFT_HOURS } from '@/lib/services/MarService';
+import { MedPassDose, MedPassService, MedicationRight, MEDICATION_RIGHTS } from '@/lib/services/MedPassService';
+import { ALLERGY_SEVERITY_LABELS } from '@/lib/services/MedicationSafetyService';
+import { BarcodeService } from '@/lib/services/BarcodeService';
+import { useBarcodeScanner } from '@/lib/hooks/useBarcodeScanner';
+import { useScanVerification } from '@/lib/hooks/useScanVerification';
+
+const STATUS_KEYS: Record<string, MedicationLogStatus> = { g: 'GIVEN', r: 'REFUSED', m: 'MISSED' };
+
+export default function MedPassPage() {
+  const { user } = useAuth();
+  const router = useRouter();
+  const [shift, setShift] = useState(() => MarService.getCurrentShift());
+  const [doses, setDoses] = useState<MedPassDose[]>([]);
+  const [currentKey, setCurrentKey] = useState<string | null>(null);
+  const [rights, setRights] = useState<Set<MedicationRight>>(new Set());
+  const [notes, setNotes] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const current = doses.find(dose => dose.key === currentKey) || null;
+  const completed = doses.filter(dose => !MedPassService.isPending(dose)).length;
+  const allRightsConfirmed = rights.size === MEDICATION_RIGHTS.length;
+
+  const scanTarget = useMemo(
+    () => (current ? { medicationId: current.medicationId, residentId: current.medication.resident_id } : null),
+    [current]
+  );
+  const scan = useScanVerification(scanTarget);
+  const { reset: resetScan, handleScan } = scan;
+
+  const fetchDoses = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const loaded = await MedPassService.fetchDoses(supabase, shift);
+      setDoses(loaded);
+      setCurrentKey(loaded.find(MedPassService.isPending)?.key ?? null);
+    } catch (err) {
+      console.error('Error loading med pass:', err);
+      const errorMessage = `Failed to load due doses: ${err instanceof Error ? err.message : String(err)}`;
+      setError(errorMessage);
+      toast.error(errorMessage);
+    } finally {
+      setLoading(false);
+    }
+  }, [shift]);
+
+  useEffect(() => {
+    fetchDoses();
+  }, [fetchDoses]);
+
+  // Every dose starts with the rights unconfirmed and nothing scanned
+  const selectDose = useCallback((key: string | null) => {
+    setCurrentKey(key);
+    setRights(new Set());
+    setNotes('');
+    resetScan();
+  }, [resetScan]);
+
+  // Next pending dose after `key` in room order, wrapping round to doses skipped earlier
+  const nextPendingKey = (list: MedPassDose[], key: string | null): string | null => {
+    const index = list.findIndex(dose => dose.key === key);
+    const ordered = [...list.slice(index + 1), ...list.slice(0, index + 1)];
+    return ordered.find(dose => dose.key !== key && MedPassService.isPending(dose))?.key ?? null;
+  };
+
+  const moveBy = useCallback((step: number) => {
+    const index = doses.findIndex(dose => dose.key === currentKey);
+    const next = doses[index + step];
+    if (next) selectDose(next.key);
+  }, [doses, currentKey, selectDose]);
+
+  const toggleRight = useCallback((right: MedicationRight) => {
+    setRights(prev => {
+      const next = new Set(prev);
+      if (next.has(right)) next.delete(right); else next.add(right);
+      return next;
+    });
+  }, []);
+
+  const logDose = useCallback(async (status: MedicationLogStatus) => {
+    if (!user || !current || saving || !MedPassService.isPending(current)) return;
+    if (scan.blockingError) {
+      toast.error(scan.blockingError);
+      return;
+    }
+    if (status === 'GIVEN' && !allRightsConfirmed) {
+      toast.error('Confirm all five rights before giving the dose.');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const markLogged = (loggedStatus: MedicationLogStatus) => {
+        const updated = doses.map(dose => (dose.key === current.key ? { ...dose, status: loggedStatus } : dose));
+        setDoses(updated);
+        selectDose(nextPendingKey(updated, current.key));
+      };
+
+      // Another nurse may have documented this slot since the pass was loaded
+      const existing = await MedPassService.fetchSlotLog(supabase, current);
+      if (existing) {
+        toast.error(`${current.medication.name} for ${current.residentName} was already logged as ${existing.status}.`);
+        markLogged(existing.status);
+        return;
+      }
+
+      const { error } = await supabase
+        .from('medication_log')
+        .insert({
+          medication_id: current.medicationId,
+          resident_id: current.medication.resident_id,
+          administered_at: new Date().toISOString(),
+          administered_by: user.id,
+          status,
+          notes: notes.trim() || null,
+          scheduled_for: current.scheduledAt.toISOString(),
+        });
+
+      if (error) {
+        throw error;
+      }
+
+      toast.success(`${current.medication.name} logged as ${status} for ${current.residentName}.`);
+      markLogged(status);
+    } catch (err) {
+      console.error('Error logging medication dose:', err);
+      toast.error(`Failed to log dose: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setSaving(false);
+    }
+  }, [user, current, saving, scan.blockingError, allRightsConfirmed, doses, notes, selectDose]);
+
+  // A matching wristband or label scan confirms that right; a mismatch blocks logging
+  const onScan = useCallback((value: string) => {
+    const parsed = BarcodeService.parseScan(value);
+    const mismatch = handleScan(value);
+    if (mismatch) {
+      toast.error(mismatch);
+    } else if (parsed && current) {
+      setRights(prev => new Set([...prev, parsed.kind === 'RESIDENT' ? 'RESIDENT' : 'MEDICATION']));
+    }
+  }, [handleScan, current]);
+
+  // Keyboard: G/R/M log the dose, 1-5 toggle a right, A confirms all, arrows move between doses.
+  // Keys go through the scanner hook so a scanned code never fires these shortcuts.
+  const handleShortcut = useCallback((event: KeyboardEvent) => {
+    const key = event.key.toLowerCase();
+    if (STATUS_KEYS[key]) {
+      logDose(STATUS_KEYS[key]);
+    } else if (key >= '1' && key <= String(MEDICATION_RIGHTS.length)) {
+      toggleRight(MEDICATION_RIGHTS[Number(key) - 1].right);
+    } else if (key === 'a') {
+      setRights(new Set(MEDICATION_RIGHTS.map(({ right }) => right)));
+    } else if (key === 'arrowdown' || key === 'n') {
+      event.preventDefault();
+      moveBy(1);
+    } else if (key === 'arrowup' || key === 'p') {
+      event.preventDefault();
+      moveBy(-1);
+    }
+  }, [logDose, toggleRight, moveBy]);
+
+  useBarcodeScanner({ onScan, onKey: handleShortcut, enabled: !loading });
+
+  if (loading) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', height: '80vh' }}>
+        <CircularProgress />
+        <Typography sx={{ ml: 2 }}>Loading due doses...</Typography>
+      </Box>
+    );
+  }
+
+  if (error) {
+    return <Alert severity="error">{error}</Alert>;
+  }
+
+  // Group headers in the list whenever the room or resident changes
+  const groupLabel = (dose: MedPassDose) => `Room ${dose.roomNumber || 'N/A'} — ${dose.residentName}`;
+
+  return (
+    <Paper sx={{ p: 3, width: '100%' }}>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
+        <Box>
+          <Typography variant="h4" gutterBottom sx={{ mb: 0 }}>
+            Med Pass
+          </Typography>
+          <Typography variant="body2" color="text.secondary">
+            {SHIFT_HOURS[shift.shift].label}, {format(shift.from, 'PP')}
+          </Typography>
+        </Box>
+        <Box sx={{ display: 'flex', gap: 1 }}>
+          <Button variant="outlined" startIcon={<ViewListIcon />} onClick={() => router.push('/dashboard/medications/mar')}>
+            MAR
+          </Button>
+          <Button variant="outlined" startIcon={<RefreshIcon />} onClick={() => setShift(MarService.getCurrentShift())} disabled={saving}>
+            Refresh
+          </Button>
+        </Box>
+      </Box>
+
+      <Box sx={{ mb: 2 }}>
+        <Typography variant="body2" gutterBottom>
+          {completed} of {doses.length} doses documented
+        </Typography>
+        <LinearProgress variant="determinate" value={doses.length > 0 ? (completed / doses.length) * 100 : 100} />
+      </Box>
+
+      {doses.length === 0 ? (
+        <Alert severity="info">No scheduled doses are due this shift.</Alert>
+      ) : (
+        <Stack direction={{ xs: 'column', md: 'row' }} spacing={3} alignItems="flex-start">
+          {/* Round order */}
+          <Paper variant="outlined" sx={{ width: { xs: '100%', md: 360 }, maxHeight: '65vh', overflow: 'auto', flexShrink: 0 }}>
+            <List dense disablePadding>
+              {doses.map((dose, index) => (
+                <Fragment key={dose.key}>
+                  {(index === 0 || groupLabel(doses[index - 1]) !== groupLabel(dose)) && (
+                    <ListSubheader>{groupLabel(dose)}</ListSubheader>
+                  )}
+                  <ListItemButton selected={dose.key === currentKey} onClick={() => selectDose(dose.key)}>
+                    <ListItemText
+                      primary={`${format(dose.scheduledAt, 'p')} ${dose.medication.name}`}
+                      secondary={dose.dosage}
+                    />
+                    <Chip
+                      label={dose.status}
+                      size="small"
+                      color={dose.status === 'GIVEN' ? 'success' : dose.status === 'OVERDUE' || dose.status === 'MISSED' ? 'error' : dose.status === 'REFUSED' ? 'warning' : 'default'}
+                      variant={MedPassService.isPending(dose) ? 'outlined' : 'filled'}
+                    />
+                  </ListItemButton>
+                </Fragment>
+              ))}
+            </List>
+          </Paper>
+
+          {/* Current dose */}
+          <Box sx={{ flexGrow: 1, width: '100%' }}>
+            {!current ? (
+              <Alert severity="success">All doses for this shift have been documented.</Alert>
+            ) : (
+              <Paper variant="outlined" sx={{ p: 3 }}>
+                <Typography variant="overline" color="text.secondary">Room {current.roomNumber || 'N/A'}</Typography>
+                <Typography variant="h5">{current.residentName}</Typography>
+                <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5, my: 1 }}>
+                  {current.allergies.length === 0 && <Typography variant="body2" color="text.secondary">No known allergies</Typography>}
+                  {current.allergies.map(allergy => (
+                    <Chip
+                      key={allergy.allergen}
+                      label={`Allergy: ${allergy.allergen} (${ALLERGY_SEVERITY_LABELS[allergy.severity]})`}
+                      size="small"
+                      color={allergy.severity === 'SEVERE' ? 'error' : 'warning'}
+                    />
+                  ))}
+                </Box>
+
+                <Divider sx={{ my: 2 }} />
+
+                <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                  <Typography variant="h6">{current.medication.name}</Typography>
+                  {current.medication.is_controlled && <Chip label="C" size="small" color="warning" title="Controlled substance" />}
+                </Box>
+                <Typography variant="subtitle1">Dose: <strong>{current.dosage}</strong></Typography>
+                <Typography variant="body2" color="text.secondary">
+                  Scheduled {format(current.scheduledAt, 'p')} ({current.status.toLowerCase()}) · {current.medication.frequency}
+                </Typography>
+                {current.medication.notes && (
+                  <Typography variant="body2" sx={{ mt: 1 }}>Instructions: {current.medication.notes}</Typography>
+                )}
+
+                {MedPassService.isPending(current) ? (
+                  <>
+                    {/* Scanner input is picked up anywhere on the page outside text fields */}
+                    <Stack direction="row" spacing={1} alignItems="center" sx={{ mt: 2 }}>
+                      <Typography variant="body2" color="text.secondary">Scan:</Typography>
+                      <Chip
+                        size="small"
+                        label="Wristband"
+                        color={scan.errors.RESIDENT ? 'error' : scan.verified.has('RESIDENT') ? 'success' : 'default'}
+                        variant={scan.verified.has('RESIDENT') || scan.errors.RESIDENT ? 'filled' : 'outlined'}
+                      />
+                      <Chip
+                        size="small"
+                        label="Medication label"
+                        color={scan.errors.MEDICATION ? 'error' : scan.verified.has('MEDICATION') ? 'success' : 'default'}
+                        variant={scan.verified.has('MEDICATION') || scan.errors.MEDICATION ? 'filled' : 'outlined'}
+                      />
+                    </Stack>
+                    {(scan.blockingError || scan.lastError) && (
+                      <Alert severity="error" sx={{ mt: 1 }}>{scan.blockingError || scan.lastError}</Alert>
+                    )}
+
+                    <Typography variant="subtitle2" sx={{ mt: 2 }}>Five rights (1-5, A for all)</Typography>
+                    <Stack direction="row" flexWrap="wrap" useFlexGap>
+                      {MEDICATION_RIGHTS.map(({ right, label }, index) => (
+                        <FormControlLabel
+                          key={right}
+                          control={<Checkbox checked={rights.has(right)} onChange={() => toggleRight(right)} />}
+                          label={`${index + 1}. ${label}`}
+                        />
+                      ))}
+                    </Stack>
+
+                    <TextField
+                      label="Notes (Optional)"
+                      value={notes}
+                      onChange={(e) => setNotes(e.target.value)}
+                      fullWidth
+                      multiline
+                      rows={2}
+                      margin="normal"
+                    />
+
+                    <Stack direction="row" spacing={1} sx={{ mt: 1 }}>
+                      <Button variant="contained" color="success" onClick={() => logDose('GIVEN')} disabled={saving || !allRightsConfirmed || !!scan.blockingError}>
+                        Given (G)
+                      </Button>
+                      <Button variant="outlined" color="warning" onClick={() => logDose('REFUSED')} disabled={saving || !!scan.blockingError}>
+                        Refused (R)
+                      </Button>
+                      <Button variant="outlined" color="error" onClick={() => logDose('MISSED')} disabled={saving || !!scan.blockingError}>
+                        Missed (M)
+                      </Button>
+                      {saving && <CircularProgress size={24} />}
+                    </Stack>
+                  </>
+                ) : (
+                  <Alert severity="info" sx={{ mt: 2 }}>
+                    Already documented as {current.status}. Use the MAR to correct it.
+                  </Alert>
+                )}
+
+                <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 2 }}>
+                  ↑/↓ to move between doses. Scanning a wristband or label confirms that right. Logging a dose moves on to the next pending one.
+                </Typography>
+              </Paper>
+            )}
+          </Box>
+        </Stack>
+      )}
+    </Paper>
+  );
+}
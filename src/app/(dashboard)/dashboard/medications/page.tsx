@@ -22,9 +22,18 @@ import toast from 'react-hot-toast';
 import LogMedicationDoseDialog from '@/components/dialogs/LogMedicationDoseDialog'; // Import the dialog
 import CreateMedicationDialog from '@/components/dialogs/CreateMedicationDialog'; // Import the new dialog
 import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import ViewListIcon from '@mui/icons-material/ViewList'; // Icon for MAR
+import Inventory2Icon from '@mui/icons-material/Inventory2'; // Icon for controlled substances
+import PlaylistAddCheckIcon from '@mui/icons-material/PlaylistAddCheck'; // Icon for med pass
 import EditIcon from '@mui/icons-material/Edit';
 import DeleteIcon from '@mui/icons-material/Delete';
 import NoteAddIcon from '@mui/icons-material/NoteAdd'; // Icon for Log Dose
+import LocalPharmacyIcon from '@mui/icons-material/LocalPharmacy'; // Icon for recording a pharmacy fill
+import { MedicationSchedule, MedicationScheduleService, SchedulableMedication } from '@/lib/services/MedicationScheduleService';
+import { SupplyProjection, SupplyService } from '@/lib/services/SupplyService';
+import { ACTIVE_RESIDENT_STATUSES } from '@/lib/services/ResidentAdtService';
+import RecordMedicationFillDialog from '@/components/dialogs/RecordMedicationFillDialog';
 
 // Define types (adapt based on actual schema and joins)
 type MedicationWithDetails = {
@@ -34,10 +43,18 @@ type MedicationWithDetails = {
   name: string;
   dosage: string;
   frequency: string;
+  schedule: MedicationSchedule | null;
   prescribed_by: string;
   start_date: string;
   end_date: string | null;
   notes: string | null;
+  is_controlled: boolean;
+  count_unit: string | null;
+  units_per_dose: number;
+  quantity_on_hand: number | null;
+  reorder_lead_days: number;
+  reorder_notified_at: string | null;
+  supply: SupplyProjection; // Computed client-side
   residents: {
     profiles: {
       full_name: string | null;
@@ -66,6 +83,7 @@ type PrescriberProfileOption = {
 
 export default function MedicationsPage() {
   const { user } = useAuth();
+  const router = useRouter();
   const [medications, setMedications] = useState<MedicationWithDetails[]>([]);
   const [allResidents, setAllResidents] = useState<ResidentProfileOption[]>([]); // For Create Dialog
   const [potentialPrescribers, setPotentialPrescribers] = useState<PrescriberProfileOption[]>([]); // For Create Dialog
@@ -79,11 +97,15 @@ export default function MedicationsPage() {
     residentId: string | null;
     medicationName?: string;
     residentName?: string;
+    medication?: SchedulableMedication | null;
   }>({ medicationId: null, residentId: null });
 
   // State for the Create Medication dialog
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
 
+  // State for the Record Fill dialog
+  const [fillMedication, setFillMedication] = useState<MedicationWithDetails | null>(null);
+
   const fetchData = async () => {
     setLoading(true);
     setError(null);
@@ -105,6 +127,7 @@ export default function MedicationsPage() {
         supabase // Fetch all residents for the create dialog dropdown
           .from('residents')
           .select('id, profiles(id, full_name)')
+          .in('status', ACTIVE_RESIDENT_STATUSES)
           // Correct way to order by nested profile name
           .order('full_name', { ascending: true, foreignTable: 'profiles' }), // <<< Comma added here
         supabase // Fetch potential prescribers (Staff/Admin) for dropdown
@@ -119,7 +142,19 @@ export default function MedicationsPage() {
       if (residentsRes.error) throw residentsRes.error;
       if (prescribersRes.error) throw prescribersRes.error;
 
-      setMedications(medicationsRes.data || []);
+      // Validate stored schedules; legacy rows only have free-text frequency
+      const meds = (medicationsRes.data || []).map((med: MedicationWithDetails) => ({
+        ...med,
+        schedule: MedicationScheduleService.parse(med.schedule),
+      }));
+
+      // Project run-out dates for medications with a tracked supply
+      const tracked = meds.filter(med => med.quantity_on_hand !== null);
+      const recentGiven = await SupplyService.fetchRecentGivenCounts(supabase, tracked.map(med => med.id));
+      setMedications(meds.map(med => ({
+        ...med,
+        supply: SupplyService.project(med, recentGiven.get(med.id) || 0),
+      })));
       
       // Map resident data to match the expected type
       const mappedResidents = (residentsRes.data || []).map(res => ({
@@ -152,6 +187,7 @@ export default function MedicationsPage() {
       residentId: med.resident_id,
       medicationName: med.name,
       residentName: med.residents?.profiles?.full_name || 'N/A',
+      medication: med,
     });
     setIsLogDialogOpen(true);
   };
@@ -167,9 +203,9 @@ export default function MedicationsPage() {
     // but might refresh a history view later
   };
 
-  // Placeholder handler for View History
-  const handleViewHistory = (medicationId: string) => {
-    toast(`View History clicked for Med ID: ${medicationId}`);
+  // View History opens the resident's MAR
+  const handleViewHistory = (med: MedicationWithDetails) => {
+    router.push(`/dashboard/medications/mar?residentId=${med.resident_id}`);
   };
 
   // Handlers for Create Medication Dialog
@@ -187,6 +223,17 @@ export default function MedicationsPage() {
   };
 
 
+  // Handlers for Record Fill Dialog
+  const handleFillRecorded = () => {
+    setFillMedication(null);
+    fetchData(); // Quantity on hand changed
+  };
+
+  // Soonest run-out first
+  const reorderQueue = medications
+    .filter(med => med.supply.needsReorder)
+    .sort((a, b) => (a.supply.runOutDate?.getTime() ?? 0) - (b.supply.runOutDate?.getTime() ?? 0));
+
   const columns: GridColDef[] = [
     {
       field: 'resident_name',
@@ -202,9 +249,54 @@ export default function MedicationsPage() {
       valueGetter: (params: GridValueGetterParams) => 
         params.row.residents?.room_number || 'N/A',
     },
-    { field: 'name', headerName: 'Medication', width: 180 },
+    {
+      field: 'name',
+      headerName: 'Medication',
+      width: 180,
+      renderCell: (params: GridRenderCellParams) => (
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+          {params.value}
+          {params.row.is_controlled && <Chip label="C" size="small" color="warning" title="Controlled substance" />}
+        </Box>
+      ),
+    },
     { field: 'dosage', headerName: 'Dosage', width: 100 },
-    { field: 'frequency', headerName: 'Frequency', width: 150 },
+    { field: 'frequency', headerName: 'Schedule', width: 180 },
+    {
+      field: 'next_due',
+      headerName: 'Next Due',
+      width: 150,
+      valueGetter: (_value, row: MedicationWithDetails) => MedicationScheduleService.getNextDue(row)?.scheduledAt ?? null,
+      renderCell: (params: GridRenderCellParams) => {
+        const row = params.row as MedicationWithDetails;
+        if (MedicationScheduleService.isPrn(row)) return <Chip label="PRN" size="small" variant="outlined" />;
+        if (!row.schedule) return <Typography variant="body2" color="text.secondary">Not scheduled</Typography>;
+        return params.value ? format(params.value, 'MMM d, p') : <Typography variant="body2" color="text.secondary">None</Typography>;
+      },
+    },
+    {
+      field: 'quantity_on_hand',
+      headerName: 'On Hand',
+      width: 110,
+      renderCell: (params: GridRenderCellParams) => {
+        const row = params.row as MedicationWithDetails;
+        if (row.quantity_on_hand === null) return <Typography variant="body2" color="text.secondary">Not tracked</Typography>;
+        return `${row.quantity_on_hand} ${row.count_unit || 'units'}`;
+      },
+    },
+    {
+      field: 'runs_out',
+      headerName: 'Runs Out',
+      width: 130,
+      valueGetter: (_value, row: MedicationWithDetails) => row.supply.runOutDate,
+      renderCell: (params: GridRenderCellParams) => {
+        const row = params.row as MedicationWithDetails;
+        if (!params.value) return <Typography variant="body2" color="text.secondary">{row.quantity_on_hand === null ? '—' : 'Not in use'}</Typography>;
+        return row.supply.needsReorder
+          ? <Chip label={format(params.value, 'MMM d')} size="small" color={row.quantity_on_hand === 0 ? 'error' : 'warning'} title="Reorder soon" />
+          : format(params.value, 'MMM d');
+      },
+    },
     {
       field: 'prescribed_by',
       headerName: 'Prescribed By',
@@ -252,9 +344,9 @@ export default function MedicationsPage() {
       field: 'actions',
       type: 'actions',
       headerName: 'Actions',
-      width: 120,
+      width: 150,
       cellClassName: 'actions',
-      getActions: ({ id, row }) => [
+      getActions: ({ row }) => [
         <GridActionsCellItem
           key="log"
           icon={<AddTaskIcon />}
@@ -266,7 +358,14 @@ export default function MedicationsPage() {
           key="history"
           icon={<HistoryIcon />}
           label="View History"
-          onClick={() => handleViewHistory(id as string)}
+          onClick={() => handleViewHistory(row as MedicationWithDetails)}
+          color="inherit"
+        />,
+        <GridActionsCellItem
+          key="fill"
+          icon={<LocalPharmacyIcon />}
+          label="Record Fill"
+          onClick={() => setFillMedication(row as MedicationWithDetails)}
           color="inherit"
         />,
       ],
@@ -292,14 +391,56 @@ export default function MedicationsPage() {
         <Typography variant="h4" gutterBottom sx={{ mb: 0 }}>
           Medication Administration
         </Typography>
-        <Button 
-          variant="contained"
-          startIcon={<AddCircleOutlineIcon />}
-          onClick={handleOpenCreateDialog}
-        >
-          Add Medication
-        </Button>
+        <Box sx={{ display: 'flex', gap: 1 }}>
+          <Button
+            variant="outlined"
+            startIcon={<ViewListIcon />}
+            onClick={() => router.push('/dashboard/medications/mar')}
+          >
+            MAR
+          </Button>
+          <Button
+            variant="outlined"
+            startIcon={<PlaylistAddCheckIcon />}
+            onClick={() => router.push('/dashboard/medications/med-pass')}
+          >
+            Med Pass
+          </Button>
+          <Button
+            variant="outlined"
+            startIcon={<Inventory2Icon />}
+            onClick={() => router.push('/dashboard/medications/controlled')}
+          >
+            Controlled
+          </Button>
+          <Button 
+            variant="contained"
+            startIcon={<AddCircleOutlineIcon />}
+            onClick={handleOpenCreateDialog}
+          >
+            Add Medication
+          </Button>
+        </Box>
       </Box>
+      {/* Reorder soon queue */}
+      {reorderQueue.length > 0 && (
+        <Alert severity="warning" sx={{ mb: 2 }}>
+          <Typography variant="subtitle2" gutterBottom>Reorder Soon ({reorderQueue.length})</Typography>
+          {reorderQueue.map(med => (
+            <Box key={med.id} sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+              <Typography variant="body2" sx={{ flexGrow: 1 }}>
+                <strong>{med.name}</strong> {med.dosage} — {med.residents?.profiles?.full_name || 'N/A'}
+                {med.residents?.room_number && ` (Room ${med.residents.room_number})`}: {med.quantity_on_hand} {med.count_unit || 'units'} left
+                {med.supply.runOutDate && `, runs out ${format(med.supply.runOutDate, 'MMM d')}`}
+                {med.reorder_notified_at && ` · prescriber notified ${format(new Date(med.reorder_notified_at), 'MMM d')}`}
+              </Typography>
+              <Button size="small" startIcon={<LocalPharmacyIcon />} onClick={() => setFillMedication(med)}>
+                Record Fill
+              </Button>
+            </Box>
+          ))}
+        </Alert>
+      )}
       {/* Add filters or date pickers here later? */}
       <Box sx={{ height: 'calc(100% - 60px - 32px)', width: '100%' }}> // Adjusted height for button
          <DataGrid
@@ -331,6 +472,7 @@ export default function MedicationsPage() {
         residentId={logMedicationInfo.residentId}
         medicationName={logMedicationInfo.medicationName}
         residentName={logMedicationInfo.residentName}
+        medication={logMedicationInfo.medication}
       />
 
       {/* Render the Create Medication Dialog */}
@@ -342,7 +484,14 @@ export default function MedicationsPage() {
          prescribers={potentialPrescribers}
        />
 
-      {/* TODO: Add Dialog/Component for View History */}
+      {/* Render the Record Fill Dialog */}
+      <RecordMedicationFillDialog
+        open={!!fillMedication}
+        onClose={() => setFillMedication(null)}
+        onSuccess={handleFillRecorded}
+        medication={fillMedication}
+        residentName={fillMedication?.residents?.profiles?.full_name || 'N/A'}
+      />
 
     </Paper>
   );
@@ -36,15 +36,11 @@ import {
   Add,
   Warning,
   Event,
-  TrendingUp,
   CalendarToday,
   AccessTime,
   Logout,
   ArrowUpward,
   ArrowDownward,
-  ShoppingCart,
-  AttachMoney,
-  Person,
   MoreVert,
   Medication as MedicationIcon,
   ArrowForward as ViewAllIcon
@@ -55,14 +51,28 @@ import CreateResidentDialog from '@/components/dialogs/CreateResidentDialog';
 import CreateStaffDialog from '@/components/dialogs/CreateStaffDialog';
 import CreateFamilyDialog from '@/components/dialogs/CreateFamilyDialog';
 import CreateIncidentDialog from '@/components/dialogs/CreateIncidentDialog';
+import {
+  INCIDENT_SEVERITIES,
+  INCIDENT_SEVERITY_LABELS,
+  INCIDENT_STATUS_COLORS,
+  INCIDENT_STATUS_LABELS,
+  IncidentSeverity,
+  IncidentStatus,
+  OPEN_INCIDENT_STATUSES,
+} from '@/lib/services/IncidentWorkflowService';
+import { IncidentDetailService, OverdueFollowUpAction } from '@/lib/services/IncidentDetailService';
+import { ACTIVE_RESIDENT_STATUSES } from '@/lib/services/ResidentAdtService';
+import { CensusService, DailyCensus } from '@/lib/services/CensusService';
 import { createClientComponentClient } from '@supabase/auth-helpers-nextjs';
 import toast from 'react-hot-toast';
 import PeopleIcon from '@mui/icons-material/PeopleOutline';
 import WarningIcon from '@mui/icons-material/WarningAmber';
 import EventIcon from '@mui/icons-material/Event';
 import GroupIcon from '@mui/icons-material/Group';
+import HotelIcon from '@mui/icons-material/Hotel';
 import AddCircleOutlineIcon from '@mui/icons-material/AddCircleOutline';
 import Link from 'next/link';
+import { format, parseISO } from 'date-fns';
 import { useAuth } from '@/lib/hooks/useAuth';
 
 // Access environment variables
@@ -91,8 +101,8 @@ type Incident = {
   id: string;
   created_at: string;
   title: string;
-  severity: 'LOW' | 'MEDIUM' | 'HIGH';
-  status: 'OPEN' | 'IN_PROGRESS' | 'RESOLVED';
+  severity: IncidentSeverity;
+  status: IncidentStatus;
   resident_id: string;
   reported_by: string;
   assigned_to: string | null;
@@ -156,8 +166,12 @@ export default function DashboardPage() {
   // State for dashboard data
   const [residents, setResidents] = useState<ResidentWithProfile[]>([]);
   const [staffCount, setStaffCount] = useState<number>(0);
+  const [censusHistory, setCensusHistory] = useState<DailyCensus[]>([]); // Last 30 midnight snapshots, oldest first
   const [incidents, setIncidents] = useState<Incident[]>([]);
   const [events, setEvents] = useState<Event[]>([]);
+  const [censusError, setCensusError] = useState<string | null>(null);
+  const [overdueActions, setOverdueActions] = useState<OverdueFollowUpAction[]>([]);
+  const [overdueActionsError, setOverdueActionsError] = useState<string | null>(null);
   const [dataLoading, setDataLoading] = useState(true);
   const [dataError, setDataError] = useState<string | null>(null);
   const [debugInfo, setDebugInfo] = useState<any>(null);
@@ -174,39 +188,61 @@ export default function DashboardPage() {
 
   // --- Hooks for Data Processing (MUST BE CALLED BEFORE conditional returns) ---
   const incidentSeverityData = useMemo(() => {
-    const counts = {
+    const counts: Record<IncidentSeverity, number> = {
       LOW: 0,
       MEDIUM: 0,
       HIGH: 0,
+      CRITICAL: 0,
     };
     incidents.forEach(inc => {
-      if (inc.severity) {
-        const severityKey = inc.severity as keyof typeof counts;
-        if (severityKey in counts) { 
-             counts[severityKey]++;
-        }
+      if (inc.severity in counts) {
+        counts[inc.severity]++;
       }
     });
-    return [
-      { name: 'Low', value: counts.LOW },
-      { name: 'Medium', value: counts.MEDIUM },
-      { name: 'High', value: counts.HIGH },
-    ].filter(item => item.value > 0); 
+    return INCIDENT_SEVERITIES
+      .map(severity => ({ severity, name: INCIDENT_SEVERITY_LABELS[severity], value: counts[severity] }))
+      .filter(item => item.value > 0);
   }, [incidents]);
 
-  const severityColors = useMemo(() => ({
+  const latestCensus = censusHistory.length > 0 ? censusHistory[censusHistory.length - 1] : null;
+
+  const severityColors: Record<IncidentSeverity, string> = useMemo(() => ({
     LOW: theme.palette.success.main,
     MEDIUM: theme.palette.warning.main,
     HIGH: theme.palette.error.main,
+    CRITICAL: theme.palette.error.dark,
   }), [theme]); // Depend on theme
 
+  // Census and overdue follow-ups are optional widgets: a failure shows in the widget rather than blanking the dashboard
+  const fetchCensusHistory = async () => {
+    setCensusError(null);
+    try {
+      setCensusHistory(await CensusService.fetchSnapshots(supabase, CensusService.addDays(CensusService.today(), -30), CensusService.today()));
+    } catch (error) {
+      console.error('Error fetching census history:', error);
+      setCensusError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const fetchOverdueActions = async () => {
+    setOverdueActionsError(null);
+    try {
+      setOverdueActions(await IncidentDetailService.fetchOverdueActions(supabase));
+    } catch (error) {
+      console.error('Error fetching overdue follow-up actions:', error);
+      setOverdueActionsError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
   // Fetch dashboard data function
   const fetchData = async () => {
     setDataLoading(true);
     setDataError(null);
+    fetchCensusHistory();
+    fetchOverdueActions();
     try {
       const fetches = [
-        supabase.from('residents').select('*, profiles (*)', { count: 'exact' }),
+        supabase.from('residents').select('*, profiles (*)', { count: 'exact' }).in('status', ACTIVE_RESIDENT_STATUSES),
         supabase.from('profiles').select('id', { count: 'exact' }).in('role', ['STAFF', 'ADMIN']),
         supabase
           .from('incidents')
@@ -214,7 +250,7 @@ export default function DashboardPage() {
           .order('created_at', { ascending: false })
           .limit(5),
         supabase.from('events').select('id, title, start_time, location').order('start_time').limit(5),
-        supabase.from('residents').select('*, profiles(*)'),
+        supabase.from('residents').select('*, profiles(*)').in('status', ACTIVE_RESIDENT_STATUSES),
         supabase.from('profiles').select('*').in('role', ['STAFF', 'ADMIN']),
       ];
 
@@ -424,51 +460,9 @@ export default function DashboardPage() {
 
   // Calculate counts for widgets
   const residentCount = residents.length;
-  const openIncidentCount = incidents.filter(i => i.status !== 'RESOLVED').length;
+  const openIncidentCount = incidents.filter(i => OPEN_INCIDENT_STATUSES.includes(i.status)).length;
   const eventCount = events.length;
 
-  const statsCards = [
-    {
-      title: 'Daily Visitors',
-      value: '1,352',
-      change: '+12.5%',
-      isPositive: true,
-      icon: <Person />,
-      color: theme.palette.primary.main
-    },
-    {
-      title: 'Average Daily Sales',
-      value: '51,352',
-      change: '+12.5%',
-      isPositive: true,
-      icon: <ShoppingCart />,
-      color: theme.palette.success.main
-    },
-    {
-      title: 'Orders This Month',
-      value: '1,352',
-      change: '-2.2%',
-      isPositive: false,
-      icon: <TrendingUp />,
-      color: theme.palette.warning.main
-    },
-    {
-      title: 'Monthly Earnings',
-      value: '$20,360',
-      change: '-2.2%',
-      isPositive: false,
-      icon: <AttachMoney />,
-      color: theme.palette.error.main
-    },
-  ];
-
-  const topSellers = [
-    { name: 'Gage Paquette', sales: 13440, amount: '$350K', avatar: '/avatars/1.png' },
-    { name: 'Lara Harvey', sales: 10240, amount: '$205K', avatar: '/avatars/2.png' },
-    { name: 'Evan Scott', sales: 10240, amount: '$145K', avatar: '/avatars/3.png' },
-    { name: 'Benja Johnston', sales: 10240, amount: '$143K', avatar: '/avatars/4.png' },
-  ];
-
   return (
     <Box>
       {/* Debug Info */}
@@ -529,7 +523,7 @@ export default function DashboardPage() {
       {/* Summary Widgets Grid - Keep this section */}
       <Grid container spacing={3} sx={{ mb: 4 }}>
           {/* Total Residents Widget */}
-          <Grid item xs={12} sm={6} md={3}>
+          <Grid item xs={12} sm={6} md={4}>
             <SummaryWidget
               title="Total Residents"
               value={residents.length} // Use fetched data length
@@ -539,7 +533,7 @@ export default function DashboardPage() {
           </Grid>
   
           {/* Active Staff Widget */}
-          <Grid item xs={12} sm={6} md={3}>
+          <Grid item xs={12} sm={6} md={4}>
             <SummaryWidget
               title="Active Staff/Admins"
               value={staffCount} // Use fetched staffCount
@@ -548,8 +542,69 @@ export default function DashboardPage() {
             />
           </Grid>
   
+          {/* Midnight Census Widget */}
+          <Grid item xs={12} sm={6} md={4}>
+            <SummaryWidget
+              title={latestCensus ? `Census (midnight ${format(parseISO(latestCensus.census_date), 'MMM d')})` : 'Census'}
+              value={latestCensus ? CensusService.totalCensus(latestCensus) : '—'}
+              icon={<PeopleIcon />}
+              color={theme.palette.primary.main}
+            >
+              {latestCensus ? (
+                <Box>
+                  <Typography variant="caption" color="text.secondary" display="block">
+                    {latestCensus.in_house} in house, {latestCensus.on_leave} on hospital leave
+                  </Typography>
+                  <Typography variant="caption" color="text.secondary" display="block">
+                    {latestCensus.admissions} admitted, {latestCensus.discharges} discharged
+                  </Typography>
+                  <Link href="/dashboard/census" style={{ fontSize: '0.75rem' }}>View census</Link>
+                </Box>
+              ) : censusError ? (
+                <Typography variant="caption" color="error" sx={{display:'block', textAlign:'center', mt: 1}}>
+                  Census could not be loaded.
+                </Typography>
+              ) : (
+                <Typography variant="caption" color="text.secondary" sx={{display:'block', textAlign:'center', mt: 1}}>
+                  No census taken yet.
+                </Typography>
+              )}
+            </SummaryWidget>
+          </Grid>
+  
+          {/* Occupancy Widget with 30-day trend */}
+          <Grid item xs={12} sm={6} md={4}>
+            <SummaryWidget
+              title="Occupancy"
+              value={latestCensus?.occupancy_pct != null ? `${latestCensus.occupancy_pct}%` : '—'}
+              icon={<HotelIcon />}
+              color={theme.palette.secondary.main}
+            >
+              {censusHistory.length > 1 ? (
+                <ResponsiveContainer width="100%" height={60}>
+                  <LineChart data={censusHistory.map(census => ({ date: format(parseISO(census.census_date), 'MMM d'), occupancy: census.occupancy_pct }))}>
+                    <YAxis hide domain={[0, 100]} />
+                    <XAxis dataKey="date" hide />
+                    <Line type="monotone" dataKey="occupancy" name="Occupancy %" stroke={theme.palette.secondary.main} dot={false} strokeWidth={2} />
+                    <ChartTooltip
+                      contentStyle={{
+                        background: theme.palette.background.paper,
+                        borderRadius: '4px',
+                        border: `1px solid ${theme.palette.divider}`
+                      }}
+                    />
+                  </LineChart>
+                </ResponsiveContainer>
+              ) : latestCensus ? (
+                <Typography variant="caption" color="text.secondary" display="block">
+                  {latestCensus.beds_available} beds available
+                </Typography>
+              ) : null}
+            </SummaryWidget>
+          </Grid>
+  
           {/* Incidents by Severity Widget with Pie Chart */}
-          <Grid item xs={12} sm={6} md={3}>
+          <Grid item xs={12} sm={6} md={4}>
             <SummaryWidget
               title="Incidents by Severity"
               value={incidents.length} // Use fetched data length
@@ -570,7 +625,7 @@ export default function DashboardPage() {
                       stroke="none"
                     >
                       {incidentSeverityData.map((entry, index) => (
-                        <Cell key={`cell-${index}`} fill={severityColors[entry.name.toUpperCase() as keyof typeof severityColors]} />
+                        <Cell key={`cell-${index}`} fill={severityColors[entry.severity]} />
                       ))}
                     </Pie>
                     <RechartsTooltip
@@ -591,7 +646,7 @@ export default function DashboardPage() {
           </Grid>
   
           {/* Upcoming Events Widget */}
-          <Grid item xs={12} sm={6} md={3}>
+          <Grid item xs={12} sm={6} md={4}>
             <SummaryWidget
                title="Upcoming Events"
                value={events.length}
@@ -753,8 +808,8 @@ export default function DashboardPage() {
                         sx={{ alignItems: 'flex-start' }}
                       >
                         <ListItemIcon sx={{ minWidth: 32, mt: 0.5 }}>
-                          <Tooltip title={`Severity: ${incident.severity}`}>
-                            <WarningIcon fontSize="small" color={incident.severity === 'HIGH' ? 'error' : incident.severity === 'MEDIUM' ? 'warning' : 'inherit'} />
+                          <Tooltip title={`Severity: ${INCIDENT_SEVERITY_LABELS[incident.severity] || incident.severity}`}>
+                            <WarningIcon fontSize="small" color={incident.severity === 'CRITICAL' || incident.severity === 'HIGH' ? 'error' : incident.severity === 'MEDIUM' ? 'warning' : 'inherit'} />
                           </Tooltip>
                         </ListItemIcon>
                         <ListItemText
@@ -764,9 +819,9 @@ export default function DashboardPage() {
                           secondaryTypographyProps={{ variant: 'caption', color: 'text.secondary' }}
                         />
                         <Chip
-                          label={incident.status}
+                          label={INCIDENT_STATUS_LABELS[incident.status] || incident.status}
                           size="small"
-                          color={incident.status === 'OPEN' ? 'primary' : incident.status === 'RESOLVED' ? 'success' : 'default'}
+                          color={INCIDENT_STATUS_COLORS[incident.status] || 'default'}
                           sx={{ ml: 1, mt: 0.5 }}
                         />
                       </ListItem>
@@ -782,6 +837,41 @@ export default function DashboardPage() {
          </Grid>
       </Grid>
 
+      {/* Overdue Incident Follow-up Actions */}
+      {overdueActionsError && (
+        <Alert severity="warning" sx={{ mb: 3 }} action={<Button color="inherit" size="small" onClick={fetchOverdueActions}>Retry</Button>}>
+          Overdue incident follow-ups could not be loaded: {overdueActionsError}
+        </Alert>
+      )}
+      {overdueActions.length > 0 && (
+        <Paper sx={{ p: 2, mb: 3 }}>
+          <Stack direction="row" justifyContent="space-between" alignItems="center">
+            <Typography variant="h6">Overdue Incident Follow-ups</Typography>
+            <Button size="small" endIcon={<ViewAllIcon />} onClick={() => router.push('/dashboard/incidents')}>
+              View Incidents
+            </Button>
+          </Stack>
+          <List dense disablePadding sx={{ maxHeight: 300, overflowY: 'auto' }}>
+            {overdueActions.map(action => (
+              <ListItem key={action.id} disableGutters divider>
+                <ListItemText
+                  primary={action.description}
+                  secondary={`${action.incidents?.title || 'Incident'} (${action.incidents?.residents?.profiles?.full_name || 'Unknown Resident'}) - Owner: ${action.owner_profile?.full_name || 'Unknown'}`}
+                  primaryTypographyProps={{ variant: 'body2', fontWeight: 500 }}
+                  secondaryTypographyProps={{ variant: 'caption', color: 'text.secondary' }}
+                />
+                <Chip
+                  label={`Due ${new Date(`${action.due_date}T00:00:00`).toLocaleDateString()}`}
+                  size="small"
+                  color="error"
+                  sx={{ ml: 1 }}
+                />
+              </ListItem>
+            ))}
+          </List>
+        </Paper>
+      )}
+
       {/* Dialog Components - Keep this section */}
       <CreateResidentDialog
         open={isCreateResidentDialogOpen}
@@ -792,6 +882,7 @@ export default function DashboardPage() {
         open={isCreateFamilyDialogOpen}
         onClose={handleCloseCreateFamilyDialog}
         onSuccess={handleFamilyCreated}
+        residents={allResidentsForDialog}
       />
       <CreateStaffDialog
         open={isCreateStaffDialogOpen}
@@ -47,7 +47,14 @@ import FamilyRestroomIcon from '@mui/icons-material/FamilyRestroom';
 import HistoryIcon from '@mui/icons-material/History';
 import AnnouncementIcon from '@mui/icons-material/Announcement';
 import FileUpload from '@/components/FileUpload';
+import VitalSignsPanel from '@/components/VitalSignsPanel';
+import WeightPanel from '@/components/WeightPanel';
+import AssessmentsPanel from '@/components/AssessmentsPanel';
+import AdlPanel from '@/components/AdlPanel';
+import FamilyLinksPanel from '@/components/FamilyLinksPanel';
 import UploadFileIcon from '@mui/icons-material/UploadFile';
+import { ALLERGY_SEVERITY_LABELS, MedicationSafetyService } from '@/lib/services/MedicationSafetyService';
+import { INCIDENT_STATUS_LABELS, IncidentStatus } from '@/lib/services/IncidentWorkflowService';
 
 // --- Types ---
 type Profile = {
@@ -59,9 +66,11 @@ type Profile = {
   avatar_url: string | null;
 };
 type ResidentDetails = {
+  id: string; // Resident table PK
   room_number: string | null;
   emergency_contact: string | null;
   medical_conditions: string[] | null;
+  allergies?: unknown; // JSONB, see MedicationSafetyService.parseAllergies
   care_level: 'LOW' | 'MEDIUM' | 'HIGH' | null;
 };
 type StaffDetails = {
@@ -71,6 +80,14 @@ type StaffDetails = {
 };
 type Incident = any; // Placeholder for Incident type
 type Medication = any; // Placeholder for Medication type
+type Task = {
+  id: string;
+  title: string;
+  due_date: string | null;
+  priority: 'LOW' | 'MEDIUM' | 'HIGH';
+  status: 'TODO' | 'IN_PROGRESS' | 'COMPLETED';
+  residents?: { profiles: { full_name: string | null } | null } | null;
+};
 
 // Define a custom type for Supabase file objects
 type FileObject = {
@@ -89,6 +106,7 @@ type ProfileData = Profile & {
   incidents?: Incident[];
   medications?: Medication[];
   assignedIncidents?: Incident[];
+  assignedTasks?: Task[];
   files?: FileObject[]; // Use FileObject array
 };
 
@@ -187,6 +205,7 @@ export default function UserProfilePage() {
         let incidents: Incident[] | undefined = undefined;
         let medications: Medication[] | undefined = undefined;
         let assignedIncidents: Incident[] | undefined = undefined;
+        let assignedTasks: Task[] | undefined = undefined;
         let files: FileObject[] | undefined = undefined;
 
         // Fetch role-specific details and related data
@@ -213,7 +232,7 @@ export default function UserProfilePage() {
           else files = (resFiles as FileObject[]) || []; // Assign fetched files
 
         } else if (profile.role === 'STAFF' || profile.role === 'ADMIN') {
-          const [{ data: staffDetails, error: detailsError }, {data: staffIncidents, error: incidentsError}] = await Promise.all([
+          const [{ data: staffDetails, error: detailsError }, {data: staffIncidents, error: incidentsError}, { data: staffTasks, error: tasksError }] = await Promise.all([
             supabase.from('staff').select('*').eq('profile_id', profileId).single(),
             // Corrected query for assigned incidents
             supabase
@@ -221,17 +240,26 @@ export default function UserProfilePage() {
               .select('id, created_at, title, severity, status, residents!inner(profiles!inner(full_name))')
               .eq('assigned_to', profileId)
               .order('created_at', { ascending: false })
-              .limit(10)
+              .limit(10),
+            supabase
+              .from('tasks')
+              .select('id, title, due_date, priority, status, residents(profiles(full_name))')
+              .eq('assigned_to', profileId)
+              .neq('status', 'COMPLETED')
+              .order('due_date', { ascending: true })
+              .limit(20)
           ]);
           if (detailsError) console.warn(`Could not load staff details: ${detailsError.message}`);
           else details = staffDetails;
           if (incidentsError) console.warn(`Could not load assigned incidents: ${incidentsError.message}`);
           else assignedIncidents = staffIncidents || [];
+          if (tasksError) console.warn(`Could not load assigned tasks: ${tasksError.message}`);
+          else assignedTasks = (staffTasks || []) as unknown as Task[];
         }
         // Add FAMILY details fetch if needed
 
         // Store all fetched data in the state, including files
-        setProfileData({ ...profile, details, incidents, medications, assignedIncidents, files });
+        setProfileData({ ...profile, details, incidents, medications, assignedIncidents, assignedTasks, files });
 
       } catch (err: any) {
         console.error("Error fetching profile data:", err);
@@ -278,7 +306,7 @@ export default function UserProfilePage() {
   }
 
   // Destructure all data from profileData state, including files
-  const { role, full_name, email, created_at, avatar_url, details, incidents, medications, assignedIncidents, files } = profileData;
+  const { role, full_name, email, created_at, avatar_url, details, incidents, medications, assignedIncidents, assignedTasks, files } = profileData;
 
   // --- Define Tabs ---
   let tabsConfig: { label: string; icon: React.ReactElement }[] = [];
@@ -417,6 +445,20 @@ export default function UserProfilePage() {
                   <Typography variant="body2" sx={{ mb: 2 }}>
                     {(details as ResidentDetails)?.medical_conditions?.join(', ') || 'None listed'}
                   </Typography>
+                  <Typography variant="subtitle1" gutterBottom>Allergies:</Typography>
+                  <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5, mb: 2 }}>
+                    {MedicationSafetyService.parseAllergies((details as ResidentDetails)?.allergies).map(allergy => (
+                      <Chip
+                        key={allergy.allergen}
+                        size="small"
+                        label={`${allergy.allergen}${allergy.reaction ? ` — ${allergy.reaction}` : ''} (${ALLERGY_SEVERITY_LABELS[allergy.severity]})`}
+                        color={allergy.severity === 'SEVERE' ? 'error' : allergy.severity === 'MODERATE' ? 'warning' : 'default'}
+                      />
+                    ))}
+                    {MedicationSafetyService.parseAllergies((details as ResidentDetails)?.allergies).length === 0 && (
+                      <Typography variant="body2">No known allergies</Typography>
+                    )}
+                  </Box>
                   <Divider sx={{ my: 2 }} />
                   <Typography variant="subtitle1" gutterBottom>Medications:</Typography>
                   {medications && medications.length > 0 ? (
@@ -436,6 +478,34 @@ export default function UserProfilePage() {
                   {/* Add Care Plan details later */}
                 </CardContent>
               </Card>
+              {(details as ResidentDetails)?.id && (
+                <Card sx={{ mt: 3 }}>
+                  <CardContent>
+                    <VitalSignsPanel residentId={(details as ResidentDetails).id} />
+                  </CardContent>
+                </Card>
+              )}
+              {(details as ResidentDetails)?.id && (
+                <Card sx={{ mt: 3 }}>
+                  <CardContent>
+                    <WeightPanel residentId={(details as ResidentDetails).id} />
+                  </CardContent>
+                </Card>
+              )}
+              {(details as ResidentDetails)?.id && (
+                <Card sx={{ mt: 3 }}>
+                  <CardContent>
+                    <AssessmentsPanel
+                      residentId={(details as ResidentDetails).id}
+                      careLevel={(details as ResidentDetails).care_level}
+                      onCareLevelChange={(careLevel) => setProfileData(prev => prev && {
+                        ...prev,
+                        details: { ...(prev.details as ResidentDetails), care_level: careLevel },
+                      })}
+                    />
+                  </CardContent>
+                </Card>
+              )}
             </TabPanel>
             <TabPanel value={tabIndex} index={2}> {/* Incidents Tab */}
               <Card>
@@ -448,7 +518,7 @@ export default function UserProfilePage() {
                         <ListItem key={inc.id} disableGutters>
                           <ListItemText 
                             primary={`${inc.title} (${inc.severity})`} 
-                            secondary={`Reported: ${format(new Date(inc.created_at), 'Pp')} | Status: ${inc.status}`}
+                            secondary={`Reported: ${format(new Date(inc.created_at), 'Pp')} | Status: ${INCIDENT_STATUS_LABELS[inc.status as IncidentStatus] || inc.status}`}
                           />
                           {/* TODO: Add link to incident detail page? */}
                         </ListItem>
@@ -461,7 +531,15 @@ export default function UserProfilePage() {
               </Card>
             </TabPanel>
             <TabPanel value={tabIndex} index={3}> {/* Activities Tab */}
-              <Typography>Activities panel coming soon.</Typography>
+              {(details as ResidentDetails)?.id ? (
+                <Card>
+                  <CardContent>
+                    <AdlPanel residentId={(details as ResidentDetails).id} />
+                  </CardContent>
+                </Card>
+              ) : (
+                <Typography color="text.secondary">Resident details are not available.</Typography>
+              )}
             </TabPanel>
             <TabPanel value={tabIndex} index={4}> {/* Files Tab */}
               <Card>
@@ -469,7 +547,7 @@ export default function UserProfilePage() {
                   <Typography variant="h6" gutterBottom>Resident Files</Typography>
                   <Divider sx={{ mb: 2 }} />
 
-                  <FileUpload residentId={profileId} bucketName="resident-files" onUploadSuccess={() => {
+                  <FileUpload folder={profileId} bucketName="resident-files" onUploadSuccess={() => {
                     // Implement refresh logic here
                   }} />
 
@@ -520,7 +598,7 @@ export default function UserProfilePage() {
                           <ListItemText 
                             primary={`${inc.title} (Severity: ${inc.severity})`}
                             // Adjust secondary based on fetched data - need resident name from join
-                            secondary={`Resident: ${inc.residents?.profiles?.full_name || 'N/A'} | Reported: ${format(new Date(inc.created_at), 'Pp')} | Status: ${inc.status}`}
+                            secondary={`Resident: ${inc.residents?.profiles?.full_name || 'N/A'} | Reported: ${format(new Date(inc.created_at), 'Pp')} | Status: ${INCIDENT_STATUS_LABELS[inc.status as IncidentStatus] || inc.status}`}
                           />
                           {/* TODO: Add link to incident detail page? */}
                         </ListItem>
@@ -529,7 +607,23 @@ export default function UserProfilePage() {
                   ) : (
                     <Typography color="text.secondary">No incidents currently assigned.</Typography>
                   )}
-                  {/* Add Assigned Tasks later */}
+                  <Typography variant="h6" gutterBottom sx={{ mt: 3 }}>Open Tasks</Typography>
+                  <Divider sx={{ mb: 2 }} />
+                  {assignedTasks && assignedTasks.length > 0 ? (
+                    <List dense>
+                      {assignedTasks.map(task => (
+                        <ListItem key={task.id} disableGutters>
+                          <ListItemText
+                            primary={task.title}
+                            secondary={`${task.residents?.profiles?.full_name ? `Resident: ${task.residents.profiles.full_name} | ` : ''}Due: ${task.due_date ? format(new Date(task.due_date), 'Pp') : 'N/A'} | Priority: ${task.priority}`}
+                          />
+                          <Chip label={task.status === 'IN_PROGRESS' ? 'In progress' : 'To do'} size="small" color={task.priority === 'HIGH' ? 'error' : 'default'} variant="outlined" />
+                        </ListItem>
+                      ))}
+                    </List>
+                  ) : (
+                    <Typography color="text.secondary">No open tasks.</Typography>
+                  )}
                 </CardContent>
               </Card>
             </TabPanel>
@@ -540,7 +634,20 @@ export default function UserProfilePage() {
         )}
 
         {/* --- Family Specific Panels --- */}
-        {/* Add FAMILY Panels here later */}
+        {role === 'FAMILY' && (
+          <>
+            <TabPanel value={tabIndex} index={1}> {/* Connections Tab */}
+              <Card>
+                <CardContent>
+                  <FamilyLinksPanel familyProfileId={profileData.id} />
+                </CardContent>
+              </Card>
+            </TabPanel>
+            <TabPanel value={tabIndex} index={2}> {/* Updates Tab */}
+              <Typography>Updates panel coming soon.</Typography>
+            </TabPanel>
+          </>
+        )}
 
       </Container>
     </Box>
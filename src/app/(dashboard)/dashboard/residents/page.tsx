@@ -2,13 +2,22 @@
 
 import { useState, useEffect } from 'react';
 import { supabase } from '@/lib/supabase/client';
-import { Box, Typography, CircularProgress, Alert, Paper, Button, Avatar, Stack, Chip, Tooltip } from '@mui/material';
+import { Box, Typography, CircularProgress, Alert, Paper, Button, Avatar, Stack, Chip, Tooltip, ToggleButton, ToggleButtonGroup } from '@mui/material';
 import { DataGrid, GridColDef, GridActionsCellItem, GridValueGetterParams, GridRenderCellParams } from '@mui/x-data-grid';
 import EditIcon from '@mui/icons-material/Edit';
-import DeleteIcon from '@mui/icons-material/Delete';
+import SyncAltIcon from '@mui/icons-material/SyncAlt';
 import toast from 'react-hot-toast';
 import Link from 'next/link';
+import { format } from 'date-fns';
 import UpdateResidentDialog from '@/components/dialogs/UpdateResidentDialog';
+import ResidentAdtDialog from '@/components/dialogs/ResidentAdtDialog';
+import {
+  ACTIVE_RESIDENT_STATUSES,
+  RESIDENT_STATUS_COLORS,
+  RESIDENT_STATUS_LABELS,
+  ResidentStatus,
+} from '@/lib/services/ResidentAdtService';
+import { PAYER_SOURCE_LABELS, PayerSource } from '@/lib/services/CensusService';
 
 // Define types (adapt if you have proper types generated)
 type Profile = any;
@@ -19,7 +28,13 @@ type ResidentWithProfile = {
   room_number: string | null;
   emergency_contact: string | null;
   medical_conditions: string[] | null;
+  allergies?: unknown; // JSONB, see MedicationSafetyService.parseAllergies
   care_level: 'LOW' | 'MEDIUM' | 'HIGH' | null;
+  payer_source: PayerSource;
+  status: ResidentStatus;
+  bed_id: string | null;
+  admitted_at: string;
+  discharged_at: string | null;
   profiles: {
     id: string;
     full_name: string | null;
@@ -28,26 +43,34 @@ type ResidentWithProfile = {
   } | null;
 };
 
+type ResidentView = 'ACTIVE' | 'DISCHARGED' | 'ALL';
+
 export default function ResidentsPage() {
   const [residents, setResidents] = useState<ResidentWithProfile[]>([]);
   const [loading, setLoading] = useState(true);
-  const [deleting, setDeleting] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
+  const [view, setView] = useState<ResidentView>('ACTIVE');
 
   const [isUpdateDialogOpen, setIsUpdateDialogOpen] = useState(false);
   const [residentToUpdate, setResidentToUpdate] = useState<ResidentWithProfile | null>(null);
+  const [adtResident, setAdtResident] = useState<ResidentWithProfile | null>(null);
 
   const fetchResidents = async () => {
     setLoading(true);
     setError(null);
     try {
-      const { data, error: fetchError } = await supabase
+      let query = supabase
         .from('residents')
         .select(`
           *,
           profiles (*)
         `)
         .order('created_at', { ascending: false });
+      // Discharged residents are kept for their records but drop out of the active list
+      if (view === 'ACTIVE') query = query.in('status', ACTIVE_RESIDENT_STATUSES);
+      if (view === 'DISCHARGED') query = query.eq('status', 'DISCHARGED');
+
+      const { data, error: fetchError } = await query;
 
       if (fetchError) {
         throw fetchError;
@@ -65,7 +88,7 @@ export default function ResidentsPage() {
 
   useEffect(() => {
     fetchResidents();
-  }, []);
+  }, [view]);
 
   const handleUpdate = (id: string) => {
     const resident = residents.find(res => res.id === id);
@@ -88,45 +111,9 @@ export default function ResidentsPage() {
     toast.success('Resident details updated successfully!');
   };
 
-  const handleDelete = async (residentId: string, profileId: string | undefined) => {
-    if (!profileId) {
-      toast.error('Cannot delete resident: Profile ID is missing.');
-      return;
-    }
-
-    if (window.confirm('Are you sure you want to delete this resident and their associated profile? This action cannot be undone.')) {
-      setDeleting(true);
-      try {
-        const { error: residentDeleteError } = await supabase
-          .from('residents')
-          .delete()
-          .eq('id', residentId);
-
-        if (residentDeleteError) {
-          throw new Error(`Failed to delete resident record: ${residentDeleteError.message}`);
-        }
-
-        const { error: profileDeleteError } = await supabase
-          .from('profiles')
-          .delete()
-          .eq('id', profileId);
-
-        if (profileDeleteError) {
-          console.error(`Failed to delete profile (${profileId}) associated with resident (${residentId}):`, profileDeleteError);
-          toast.error(`Resident record deleted, but failed to delete associated profile: ${profileDeleteError.message}`);
-        } else {
-          toast.success('Resident and associated profile deleted successfully!');
-        }
-
-        fetchResidents();
-
-      } catch (error: any) {
-        console.error('Error deleting resident:', error);
-        toast.error(`Failed to delete resident: ${error.message}`);
-      } finally {
-        setDeleting(false);
-      }
-    }
+  const handleAdtRecorded = () => {
+    setAdtResident(null);
+    fetchResidents();
   };
 
   const columns: GridColDef[] = [
@@ -182,7 +169,27 @@ export default function ResidentsPage() {
         );
       },
     },
+    {
+      field: 'payer_source',
+      headerName: 'Payer',
+      minWidth: 130,
+      valueGetter: (params: GridValueGetterParams) => PAYER_SOURCE_LABELS[params.row.payer_source as PayerSource] || '',
+    },
     { field: 'room_number', headerName: 'Room', minWidth: 80 },
+    {
+      field: 'status',
+      headerName: 'Status',
+      minWidth: 150,
+      renderCell: (params: GridRenderCellParams) => {
+        const resident = params.row as ResidentWithProfile;
+        const since = resident.status === 'DISCHARGED' && resident.discharged_at ? resident.discharged_at : resident.admitted_at;
+        return (
+          <Tooltip title={`${resident.status === 'DISCHARGED' ? 'Discharged' : 'Admitted'} ${format(new Date(since), 'PP')}`}>
+            <Chip label={RESIDENT_STATUS_LABELS[resident.status]} color={RESIDENT_STATUS_COLORS[resident.status]} size="small" />
+          </Tooltip>
+        );
+      },
+    },
     {
       field: 'medical_conditions',
       headerName: 'Medical Conditions',
@@ -207,21 +214,19 @@ export default function ResidentsPage() {
           label="Update"
           onClick={() => handleUpdate(id as string)}
           color="inherit"
-          disabled={deleting}
         />,
         <GridActionsCellItem
-          key="delete"
-          icon={<DeleteIcon />}
-          label="Delete"
-          onClick={() => handleDelete(id as string, row.profile_id as string | undefined)}
-          color="error"
-          disabled={deleting}
+          key="adt"
+          icon={<SyncAltIcon />}
+          label="Admission / Discharge / Transfer"
+          onClick={() => setAdtResident(row as ResidentWithProfile)}
+          color="inherit"
         />,
       ],
     },
   ];
 
-  if (loading) {
+  if (loading && residents.length === 0) {
     return (
       <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', height: '80vh' }}>
         <CircularProgress />
@@ -236,14 +241,26 @@ export default function ResidentsPage() {
 
   return (
     <Paper sx={{ p: 3, height: '85vh', width: '100%' }}>
-      <Typography variant="h4" gutterBottom>
-        Manage Residents
-      </Typography>
+      <Stack direction="row" justifyContent="space-between" alignItems="center" sx={{ mb: 1 }}>
+        <Typography variant="h4">
+          Manage Residents
+        </Typography>
+        <ToggleButtonGroup
+          size="small"
+          exclusive
+          value={view}
+          onChange={(_, next: ResidentView | null) => next && setView(next)}
+        >
+          <ToggleButton value="ACTIVE">Active</ToggleButton>
+          <ToggleButton value="DISCHARGED">Discharged</ToggleButton>
+          <ToggleButton value="ALL">All</ToggleButton>
+        </ToggleButtonGroup>
+      </Stack>
       <Box sx={{ height: 'calc(100% - 70px)', width: '100%' }}>
          <DataGrid
            rows={residents}
            columns={columns}
-           loading={loading || deleting}
+           loading={loading}
            getRowHeight={() => 'auto'}
            initialState={{
              pagination: {
@@ -291,6 +308,13 @@ export default function ResidentsPage() {
         onSuccess={handleResidentUpdated}
         resident={residentToUpdate}
       />
+
+      <ResidentAdtDialog
+        open={!!adtResident}
+        onClose={() => setAdtResident(null)}
+        onSuccess={handleAdtRecorded}
+        resident={adtResident}
+      />
     </Paper>
   );
 } 
\ No newline at end of file
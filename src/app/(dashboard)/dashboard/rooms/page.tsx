@@ -0,0 +1,208 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { supabase } from '@/lib/supabase/client';
+import {
+  Box,
+  Typography,
+  CircularProgress,
+  Alert,
+  Paper,
+  Stack,
+  Grid,
+  Button,
+  Chip,
+  Tooltip,
+  ButtonBase,
+} from '@mui/material';
+import { alpha, useTheme } from '@mui/material/styles';
+import AddIcon from '@mui/icons-material/Add';
+import Link from 'next/link';
+import { formatDistanceToNow } from 'date-fns';
+import toast from 'react-hot-toast';
+import { useAuth } from '@/lib/hooks/useAuth';
+import {
+  BED_STATUS_COLORS,
+  BED_STATUS_LABELS,
+  BED_TYPE_LABELS,
+  Bed,
+  BedService,
+  BedStatus,
+  Room,
+} from '@/lib/services/BedService';
+import { RESIDENT_STATUS_LABELS } from '@/lib/services/ResidentAdtService';
+import CreateRoomDialog from '@/components/dialogs/CreateRoomDialog';
+import UpdateBedStatusDialog from '@/components/dialogs/UpdateBedStatusDialog';
+
+const STATUS_ORDER: BedStatus[] = ['OCCUPIED', 'RESERVED', 'AVAILABLE', 'CLEANING', 'OUT_OF_SERVICE'];
+
+export default function OccupancyBoardPage() {
+  const theme = useTheme();
+  const { profile } = useAuth();
+  const [rooms, setRooms] = useState<Room[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isCreateRoomOpen, setIsCreateRoomOpen] = useState(false);
+  const [bedToUpdate, setBedToUpdate] = useState<(Bed & { room_number: string }) | null>(null);
+
+  const fetchRooms = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setRooms(await BedService.fetchRooms(supabase));
+    } catch (err) {
+      console.error('Error fetching rooms:', err);
+      const message = err instanceof Error ? err.message : String(err);
+      setError(`Failed to load rooms: ${message}`);
+      toast.error(`Failed to load rooms: ${message}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchRooms();
+  }, []);
+
+  const counts = BedService.countByStatus(rooms);
+  const totalBeds = rooms.reduce((total, room) => total + room.beds.length, 0);
+  // Out-of-service beds cannot be filled, so they do not count toward occupancy
+  const staffedBeds = totalBeds - counts.OUT_OF_SERVICE;
+  const units = BedService.groupByUnit(rooms);
+
+  const statusColor = (status: BedStatus) => {
+    const color = BED_STATUS_COLORS[status];
+    return color === 'default' ? theme.palette.grey[500] : theme.palette[color].main;
+  };
+
+  const renderBed = (room: Room, bed: Bed) => {
+    const color = statusColor(bed.status);
+    const occupantName = bed.occupant?.profiles?.full_name || 'Unknown resident';
+    const content = (
+      <Box
+        sx={{
+          width: '100%',
+          p: 1,
+          borderRadius: 1,
+          border: '1px solid',
+          borderColor: color,
+          borderLeftWidth: 4,
+          bgcolor: alpha(color, 0.08),
+          textAlign: 'left',
+        }}
+      >
+        <Stack direction="row" justifyContent="space-between" alignItems="center">
+          <Typography variant="body2" fontWeight={600}>Bed {bed.label}</Typography>
+          <Typography variant="caption" sx={{ color }}>{BED_STATUS_LABELS[bed.status]}</Typography>
+        </Stack>
+        {bed.occupant ? (
+          <Typography variant="body2" noWrap>
+            {bed.occupant.profiles?.id ? (
+              <Link href={`/dashboard/profile/${bed.occupant.profiles.id}`} style={{ color: 'inherit' }}>{occupantName}</Link>
+            ) : occupantName}
+          </Typography>
+        ) : (
+          <Typography variant="body2" color="text.secondary" noWrap>{bed.status_note || '—'}</Typography>
+        )}
+        <Typography variant="caption" color="text.secondary" display="block" noWrap>
+          {BED_TYPE_LABELS[bed.bed_type]}
+          {bed.occupant && bed.occupant.status !== 'ADMITTED' && ` · ${RESIDENT_STATUS_LABELS[bed.occupant.status]}`}
+        </Typography>
+      </Box>
+    );
+
+    // Occupied and held beds change through the resident's ADT events
+    if (bed.occupant) {
+      return <Box key={bed.id}>{content}</Box>;
+    }
+    return (
+      <Tooltip key={bed.id} title={`${BED_STATUS_LABELS[bed.status]} for ${formatDistanceToNow(new Date(bed.status_changed_at))}. Click to change.`}>
+        <ButtonBase sx={{ width: '100%', borderRadius: 1 }} onClick={() => setBedToUpdate({ ...bed, room_number: room.room_number })}>
+          {content}
+        </ButtonBase>
+      </Tooltip>
+    );
+  };
+
+  if (loading && rooms.length === 0) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', height: '80vh' }}>
+        <CircularProgress />
+        <Typography sx={{ ml: 2 }}>Loading rooms...</Typography>
+      </Box>
+    );
+  }
+
+  if (error) {
+    return <Alert severity="error">{error}</Alert>;
+  }
+
+  return (
+    <Paper sx={{ p: 3, width: '100%' }}>
+      <Stack direction={{ xs: 'column', md: 'row' }} justifyContent="space-between" alignItems={{ md: 'center' }} spacing={2} sx={{ mb: 2 }}>
+        <Box>
+          <Typography variant="h4">Occupancy Board</Typography>
+          <Typography variant="body2" color="text.secondary">
+            {counts.OCCUPIED + counts.RESERVED} of {staffedBeds} beds filled or held
+            {staffedBeds > 0 && ` (${Math.round(((counts.OCCUPIED + counts.RESERVED) / staffedBeds) * 100)}%)`}
+          </Typography>
+        </Box>
+        <Stack direction="row" spacing={1} alignItems="center" useFlexGap flexWrap="wrap">
+          {STATUS_ORDER.map(status => (
+            <Chip key={status} label={`${BED_STATUS_LABELS[status]}: ${counts[status]}`} color={BED_STATUS_COLORS[status]} size="small" variant="outlined" />
+          ))}
+          {profile?.role === 'ADMIN' && (
+            <Button variant="contained" startIcon={<AddIcon />} onClick={() => setIsCreateRoomOpen(true)}>
+              Add Room
+            </Button>
+          )}
+        </Stack>
+      </Stack>
+
+      {units.length === 0 ? (
+        <Typography color="text.secondary">No rooms have been set up yet.</Typography>
+      ) : units.map(({ unit, rooms: unitRooms }) => {
+        const unitBeds = unitRooms.flatMap(room => room.beds);
+        return (
+          <Box key={unit} sx={{ mb: 3 }}>
+            <Typography variant="h6" gutterBottom>
+              {unit}{' '}
+              <Typography component="span" variant="body2" color="text.secondary">
+                {unitBeds.filter(bed => bed.status === 'OCCUPIED').length} occupied, {unitBeds.filter(bed => BedService.isAssignable(bed)).length} free
+              </Typography>
+            </Typography>
+            <Grid container spacing={2}>
+              {unitRooms.map(room => (
+                <Grid item xs={12} sm={6} md={4} lg={3} key={room.id}>
+                  <Paper variant="outlined" sx={{ p: 1.5, height: '100%' }}>
+                    <Typography variant="subtitle1" fontWeight={600}>Room {room.room_number}</Typography>
+                    {room.notes && <Typography variant="caption" color="text.secondary" display="block">{room.notes}</Typography>}
+                    <Stack spacing={1} sx={{ mt: 1 }}>
+                      {room.beds.length === 0
+                        ? <Typography variant="body2" color="text.secondary">No beds.</Typography>
+                        : room.beds.map(bed => renderBed(room, bed))}
+                    </Stack>
+                  </Paper>
+                </Grid>
+              ))}
+            </Grid>
+          </Box>
+        );
+      })}
+
+      <CreateRoomDialog
+        open={isCreateRoomOpen}
+        onClose={() => setIsCreateRoomOpen(false)}
+        onSuccess={fetchRooms}
+        units={units.map(u => u.unit)}
+      />
+
+      <UpdateBedStatusDialog
+        open={!!bedToUpdate}
+        onClose={() => setBedToUpdate(null)}
+        onSuccess={fetchRooms}
+        bed={bedToUpdate}
+      />
+    </Paper>
+  );
+}
@@ -20,6 +20,9 @@ type StaffProfile = {
   email: string | null;
   role: 'STAFF' | 'ADMIN' | 'FAMILY' | 'RESIDENT' | null;
   created_at: string;
+  supervisor_id: string | null;
+  is_charge_nurse: boolean;
+  is_dietitian: boolean;
 };
 
 export default function StaffPage() {
@@ -171,9 +174,13 @@ export default function StaffPage() {
     {
       field: 'role',
       headerName: 'Role',
-      width: 120,
+      width: 240,
       renderCell: (params) => (
-        <Chip label={params.value} color={params.value === 'ADMIN' ? 'secondary' : 'primary'} size="small" />
+        <Stack direction="row" spacing={0.5} alignItems="center" sx={{ height: '100%' }}>
+          <Chip label={params.value} color={params.value === 'ADMIN' ? 'secondary' : 'primary'} size="small" />
+          {params.row.is_charge_nurse && <Chip label="Charge" size="small" variant="outlined" />}
+          {params.row.is_dietitian && <Chip label="Dietitian" size="small" variant="outlined" />}
+        </Stack>
       ),
     },
     {
@@ -282,6 +289,7 @@ export default function StaffPage() {
         onClose={handleCloseUpdateDialog}
         onSuccess={handleStaffUpdated}
         staffMember={staffToUpdate}
+        supervisorOptions={staff}
       />
     </Paper>
   );
@@ -46,6 +46,8 @@ import {
   Settings,
   Logout,
   Group,
+  Hotel,
+  Assessment,
   Brightness4 as DarkModeIcon,
   Brightness7 as LightModeIcon,
   MarkEmailRead as MarkReadIcon,
@@ -63,6 +65,8 @@ const drawerWidth = 240;
 const menuItems = [
   { text: "Dashboard", icon: <Dashboard />, path: "/dashboard" },
   { text: "Residents", icon: <People />, path: "/dashboard/residents" },
+  { text: "Rooms & Beds", icon: <Hotel />, path: "/dashboard/rooms" },
+  { text: "Census", icon: <Assessment />, path: "/dashboard/census" },
   { text: "Staff", icon: <Group />, path: "/dashboard/staff" },
   { text: "Events", icon: <EventIcon />, path: "/dashboard/events" },
   { text: "Incidents", icon: <Warning />, path: "/dashboard/incidents" },
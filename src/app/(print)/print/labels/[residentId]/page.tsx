@@ -0,0 +1,151 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useParams } from 'next/navigation';
+import { supabase } from '@/lib/supabase/client';
+import {
+  Alert,
+  Box,
+  Button,
+  CircularProgress,
+  Chip,
+  GlobalStyles,
+  Stack,
+  Typography,
+} from '@mui/material';
+import PrintIcon from '@mui/icons-material/Print';
+import Barcode from '@/components/Barcode';
+import { BarcodeService } from '@/lib/services/BarcodeService';
+import { MedicationSafetyService, ResidentAllergy } from '@/lib/services/MedicationSafetyService';
+
+// --- Types ---
+type ResidentHeader = {
+  id: string;
+  room_number: string | null;
+  allergies: unknown;
+  profiles: { full_name: string | null } | null;
+};
+
+type LabelMedication = {
+  id: string;
+  name: string;
+  dosage: string;
+  frequency: string;
+  is_controlled: boolean;
+};
+
+const labelSx = { border: '1px dashed #999', p: 1.5, breakInside: 'avoid' } as const;
+
+export default function PrintLabelsPage() {
+  const params = useParams();
+  const residentId = params?.residentId as string;
+
+  const [resident, setResident] = useState<ResidentHeader | null>(null);
+  const [allergies, setAllergies] = useState<ResidentAllergy[]>([]);
+  const [medications, setMedications] = useState<LabelMedication[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchData = async () => {
+      if (!residentId) {
+        setError('Invalid resident.');
+        setLoading(false);
+        return;
+      }
+      setLoading(true);
+      try {
+        const now = new Date().toISOString();
+        const [residentRes, medicationsRes] = await Promise.all([
+          supabase
+            .from('residents')
+            .select('id, room_number, allergies, profiles(full_name)')
+            .eq('id', residentId)
+            .single(),
+          supabase
+            .from('medications')
+            .select('id, name, dosage, frequency, is_controlled')
+            .eq('resident_id', residentId)
+            .or(`end_date.is.null,end_date.gt.${now}`)
+            .order('name', { ascending: true }),
+        ]);
+        if (residentRes.error) throw residentRes.error;
+        if (medicationsRes.error) throw medicationsRes.error;
+
+        const header = residentRes.data as unknown as ResidentHeader;
+        setResident(header);
+        setAllergies(MedicationSafetyService.parseAllergies(header.allergies));
+        setMedications(medicationsRes.data || []);
+      } catch (err) {
+        console.error('Error loading labels:', err);
+        setError(`Failed to load labels: ${err instanceof Error ? err.message : String(err)}`);
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchData();
+  }, [residentId]);
+
+  if (loading) {
+    return <Box sx={{ display: 'flex', justifyContent: 'center', p: 4 }}><CircularProgress /></Box>;
+  }
+  if (error || !resident) {
+    return <Box sx={{ p: 4 }}><Alert severity="error">{error || 'Resident not found.'}</Alert></Box>;
+  }
+
+  const residentName = resident.profiles?.full_name || 'N/A';
+
+  return (
+    <Box sx={{ p: 3, bgcolor: 'common.white', color: 'common.black' }}>
+      <GlobalStyles styles={{ '@page': { margin: '10mm' }, '@media print': { '.no-print': { display: 'none !important' } } }} />
+
+      <Stack direction="row" justifyContent="space-between" alignItems="flex-start" sx={{ mb: 2 }}>
+        <Box>
+          <Typography variant="h5" fontWeight={600}>Wristband and Medication Labels</Typography>
+          <Typography variant="subtitle1">{residentName} — Room {resident.room_number || 'N/A'}</Typography>
+        </Box>
+        <Button className="no-print" variant="contained" startIcon={<PrintIcon />} onClick={() => window.print()}>
+          Print
+        </Button>
+      </Stack>
+
+      {/* Wristband */}
+      <Typography variant="overline" display="block">Wristband</Typography>
+      <Box sx={{ ...labelSx, display: 'flex', alignItems: 'center', gap: 2, width: 'fit-content', mb: 3 }}>
+        <Box>
+          <Typography variant="subtitle1" fontWeight={600}>{residentName}</Typography>
+          <Typography variant="body2">Room {resident.room_number || 'N/A'}</Typography>
+          {allergies.length > 0 && (
+            <Typography variant="body2" fontWeight={600}>
+              ALLERGIES: {allergies.map(allergy => allergy.allergen).join(', ')}
+            </Typography>
+          )}
+        </Box>
+        <Barcode value={BarcodeService.payload('RESIDENT', resident.id)} height={40} />
+      </Box>
+
+      {/* Medication labels */}
+      <Typography variant="overline" display="block">Medication Labels</Typography>
+      {medications.length === 0 ? (
+        <Typography color="text.secondary">No active medications for this resident.</Typography>
+      ) : (
+        // A prefixed UUID makes a long Code 39 barcode, so labels are stacked one per row
+        <Stack spacing={2}>
+          {medications.map(med => (
+            <Box key={med.id} sx={{ ...labelSx, width: 'fit-content' }}>
+              <Stack direction="row" spacing={1} alignItems="center">
+                <Typography variant="subtitle2" fontWeight={600}>{med.name} {med.dosage}</Typography>
+                {med.is_controlled && <Chip label="C" size="small" variant="outlined" />}
+              </Stack>
+              <Typography variant="caption" display="block">{med.frequency}</Typography>
+              <Typography variant="caption" display="block" sx={{ mb: 1 }}>
+                {residentName} — Room {resident.room_number || 'N/A'}
+              </Typography>
+              <Barcode value={BarcodeService.payload('MEDICATION', med.id)} height={36} />
+            </Box>
+          ))}
+        </Stack>
+      )}
+    </Box>
+  );
+}
@@ -0,0 +1,212 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { useParams } from 'next/navigation';
+import { supabase } from '@/lib/supabase/client';
+import {
+  Alert,
+  Box,
+  Button,
+  CircularProgress,
+  GlobalStyles,
+  Stack,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Typography,
+} from '@mui/material';
+import PrintIcon from '@mui/icons-material/Print';
+import { addMonths, eachDayOfInterval, endOfMonth, format, isSameDay, parse, startOfMonth } from 'date-fns';
+import {
+  MarMedication,
+  MarService,
+  MarSlot,
+  MAR_STATUS_CODES,
+  MedicationLogEntry,
+} from '@/lib/services/MarService';
+
+// --- Types ---
+type ResidentHeader = {
+  id: string;
+  room_number: string | null;
+  care_level: string | null;
+  medical_conditions: string[] | null;
+  profiles: { full_name: string | null } | null;
+};
+
+// One printed row: a medication at one time of day (or its PRN/unscheduled doses)
+type MarPrintRow = {
+  key: string;
+  medication: MarMedication;
+  timeLabel: string;
+  cells: string[]; // One code per day of the month; '—' where nothing is scheduled
+};
+
+const cellSx = { border: '1px solid #999', px: 0.25, py: 0.25, fontSize: 10, textAlign: 'center' } as const;
+
+export default function PrintMonthlyMarPage() {
+  const params = useParams();
+  const residentId = params?.residentId as string;
+  const month = params?.month as string; // yyyy-MM
+
+  const [resident, setResident] = useState<ResidentHeader | null>(null);
+  const [medications, setMedications] = useState<MarMedication[]>([]);
+  const [logs, setLogs] = useState<MedicationLogEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const monthStart = useMemo(() => startOfMonth(parse(month, 'yyyy-MM', new Date())), [month]);
+  const days = useMemo(() => eachDayOfInterval({ start: monthStart, end: endOfMonth(monthStart) }), [monthStart]);
+
+  useEffect(() => {
+    const fetchData = async () => {
+      if (!residentId || Number.isNaN(monthStart.getTime())) {
+        setError('Invalid resident or month.');
+        setLoading(false);
+        return;
+      }
+      setLoading(true);
+      try {
+        const [{ data: residentData, error: residentError }, mar] = await Promise.all([
+          supabase
+            .from('residents')
+            .select('id, room_number, care_level, medical_conditions, profiles(full_name)')
+            .eq('id', residentId)
+            .single(),
+          MarService.fetchResidentMar(supabase, residentId, { from: monthStart, to: addMonths(monthStart, 1) }),
+        ]);
+        if (residentError) throw residentError;
+        setResident(residentData as unknown as ResidentHeader);
+        setMedications(mar.medications);
+        setLogs(mar.logs);
+      } catch (err) {
+        console.error('Error loading monthly MAR:', err);
+        setError(`Failed to load MAR: ${err instanceof Error ? err.message : String(err)}`);
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchData();
+  }, [residentId, monthStart]);
+
+  const rows = useMemo(() => {
+    const range = { from: monthStart, to: addMonths(monthStart, 1) };
+    const result: MarPrintRow[] = [];
+
+    medications.forEach(med => {
+      // Group the month's slots by time of day so each administration time gets its own row
+      const slotsByTime = new Map<string, MarSlot[]>();
+      MarService.buildSlots(med, logs, range).forEach(slot => {
+        const time = format(slot.scheduledAt, 'HH:mm');
+        slotsByTime.set(time, [...(slotsByTime.get(time) || []), slot]);
+      });
+      [...slotsByTime.keys()].sort().forEach(time => {
+        const slots = slotsByTime.get(time) || [];
+        result.push({
+          key: `${med.id}-${time}`,
+          medication: med,
+          timeLabel: time,
+          cells: days.map(day => {
+            const slot = slots.find(s => isSameDay(s.scheduledAt, day));
+            if (!slot) return '—';
+            const amended = slot.entries.some(entry => MarService.getLatestCorrection(entry));
+            return `${MAR_STATUS_CODES[slot.status]}${amended ? '*' : ''}`;
+          }),
+        });
+      });
+
+      const unscheduled = MarService.getUnscheduledLogs(med.id, logs, range);
+      if (unscheduled.length > 0 || slotsByTime.size === 0) {
+        result.push({
+          key: `${med.id}-prn`,
+          medication: med,
+          timeLabel: 'PRN',
+          cells: days.map(day => {
+            const dayLogs = unscheduled.filter(log => isSameDay(new Date(log.administered_at), day));
+            return dayLogs.map(log => {
+              const effective = MarService.getEffectiveLog(log);
+              if (!effective) return 'V';
+              return `${MAR_STATUS_CODES[effective.status]}${MarService.getLatestCorrection(log) ? '*' : ''}`;
+            }).join('');
+          }),
+        });
+      }
+    });
+    return result;
+  }, [medications, logs, days, monthStart]);
+
+  if (loading) {
+    return <Box sx={{ display: 'flex', justifyContent: 'center', p: 4 }}><CircularProgress /></Box>;
+  }
+  if (error || !resident) {
+    return <Box sx={{ p: 4 }}><Alert severity="error">{error || 'Resident not found.'}</Alert></Box>;
+  }
+
+  return (
+    <Box sx={{ p: 3, bgcolor: 'common.white', color: 'common.black' }}>
+      <GlobalStyles styles={{ '@page': { size: 'landscape', margin: '10mm' }, '@media print': { '.no-print': { display: 'none !important' } } }} />
+
+      <Stack direction="row" justifyContent="space-between" alignItems="flex-start" sx={{ mb: 2 }}>
+        <Box>
+          <Typography variant="h5" fontWeight={600}>Medication Administration Record</Typography>
+          <Typography variant="subtitle1">{format(monthStart, 'MMMM yyyy')}</Typography>
+        </Box>
+        <Button className="no-print" variant="contained" startIcon={<PrintIcon />} onClick={() => window.print()}>
+          Print
+        </Button>
+      </Stack>
+
+      <Stack direction="row" spacing={4} sx={{ mb: 2 }}>
+        <Typography variant="body2"><strong>Resident:</strong> {resident.profiles?.full_name || 'N/A'}</Typography>
+        <Typography variant="body2"><strong>Room:</strong> {resident.room_number || 'N/A'}</Typography>
+        <Typography variant="body2"><strong>Care Level:</strong> {resident.care_level || 'N/A'}</Typography>
+        <Typography variant="body2"><strong>Conditions:</strong> {resident.medical_conditions?.join(', ') || 'None listed'}</Typography>
+      </Stack>
+
+      {rows.length === 0 ? (
+        <Typography color="text.secondary">No medications for this resident in {format(monthStart, 'MMMM yyyy')}.</Typography>
+      ) : (
+        <Table size="small" sx={{ borderCollapse: 'collapse', width: '100%' }}>
+          <TableHead>
+            <TableRow>
+              <TableCell sx={{ ...cellSx, textAlign: 'left', minWidth: 160 }}>Medication / Dosage / Schedule</TableCell>
+              <TableCell sx={cellSx}>Time</TableCell>
+              {days.map(day => (
+                <TableCell key={day.toISOString()} sx={cellSx}>{format(day, 'd')}</TableCell>
+              ))}
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {rows.map(row => (
+              <TableRow key={row.key}>
+                <TableCell sx={{ ...cellSx, textAlign: 'left' }}>
+                  <strong>{row.medication.name}</strong> {row.medication.dosage}
+                  <br />
+                  {row.medication.frequency}
+                </TableCell>
+                <TableCell sx={cellSx}>{row.timeLabel}</TableCell>
+                {row.cells.map((code, index) => (
+                  <TableCell key={index} sx={{ ...cellSx, color: code.startsWith('O') || code.startsWith('M') ? 'error.main' : 'inherit' }}>
+                    {code}
+                  </TableCell>
+                ))}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      <Typography variant="caption" display="block" sx={{ mt: 2 }}>
+        Legend: G = Given, R = Refused, M = Missed, O = Overdue / not documented, V = Voided, — = Not scheduled, * = Corrected (original entry retained in the record)
+      </Typography>
+
+      <Stack direction="row" spacing={6} sx={{ mt: 4 }}>
+        <Typography variant="body2">Nurse signature: ______________________________</Typography>
+        <Typography variant="body2">Reviewed by: ______________________________</Typography>
+        <Typography variant="body2">Date: ______________</Typography>
+      </Stack>
+    </Box>
+  );
+}
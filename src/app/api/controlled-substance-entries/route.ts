@@ -0,0 +1,68 @@
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import { NextResponse } from 'next/server';
+import { createAdminClient } from '@/lib/supabase/admin';
+import {
+  ControlledSubstanceService,
+  MANUAL_CONTROLLED_ENTRY_TYPES,
+  WitnessedEntryRequest,
+} from '@/lib/services/ControlledSubstanceService';
+
+// Records a witnessed controlled substance entry. The performer is the signed-in user; the witness proves their
+// identity with their own credentials here, so neither signature can be supplied by the browser.
+export async function POST(request: Request) {
+  const supabase = createRouteHandlerClient({ cookies });
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  let body: WitnessedEntryRequest;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+  }
+  if (!MANUAL_CONTROLLED_ENTRY_TYPES.includes(body.entryType) || typeof body.quantity !== 'number') {
+    return NextResponse.json({ error: 'Invalid entry type or quantity' }, { status: 400 });
+  }
+
+  const { data: profile } = await supabase.from('profiles').select('role').eq('id', user.id).single();
+  if (!['ADMIN', 'STAFF'].includes(profile?.role)) {
+    return NextResponse.json({ error: 'Only staff and admins can record controlled substance entries' }, { status: 403 });
+  }
+
+  // Read as the signed-in user so RLS applies, and take the resident from the medication rather than the request
+  const { data: medication, error: medicationError } = await supabase
+    .from('medications')
+    .select('id, resident_id, is_controlled')
+    .eq('id', body.medicationId)
+    .single();
+  if (medicationError || !medication?.is_controlled) {
+    return NextResponse.json({ error: 'Controlled medication not found' }, { status: 404 });
+  }
+
+  let witnessId: string;
+  try {
+    witnessId = await ControlledSubstanceService.verifyWitness(body.witnessEmail, body.witnessPassword);
+  } catch (err) {
+    return NextResponse.json({ error: err instanceof Error ? err.message : String(err) }, { status: 403 });
+  }
+
+  try {
+    const entry = await ControlledSubstanceService.recordEntry(createAdminClient(), {
+      medicationId: medication.id,
+      residentId: medication.resident_id,
+      entryType: body.entryType,
+      quantity: body.quantity,
+      performedBy: user.id,
+      witnessedBy: witnessId,
+      notes: body.notes?.trim() || null,
+    });
+    return NextResponse.json(entry);
+  } catch (err) {
+    console.error('Error recording controlled substance entry:', err);
+    return NextResponse.json({ error: err instanceof Error ? err.message : String(err) }, { status: 500 });
+  }
+}
@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { CensusService } from '@/lib/services/CensusService';
+
+// Called shortly after the facility's midnight by a scheduler with `Authorization: Bearer <CRON_SECRET>`, same as the
+// incident escalations job. Snapshots yesterday's census, or `?date=yyyy-MM-dd` to fill in a missed day.
+async function handle(request: Request) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const date = new URL(request.url).searchParams.get('date') || CensusService.addDays(CensusService.today(), -1);
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+    return NextResponse.json({ error: 'date must be yyyy-MM-dd' }, { status: 400 });
+  }
+
+  try {
+    const result = await CensusService.takeSnapshot(createAdminClient(), date);
+    return NextResponse.json(result);
+  } catch (err) {
+    console.error('Error taking the daily census:', err);
+    return NextResponse.json({ error: err instanceof Error ? err.message : String(err) }, { status: 500 });
+  }
+}
+
+export const GET = handle;
+export const POST = handle;
@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { IncidentSlaService } from '@/lib/services/IncidentSlaService';
+
+// Called every few minutes by a scheduler (e.g. a Supabase cron job or Vercel Cron) with
+// `Authorization: Bearer <CRON_SECRET>`, same as the dose alerts job.
+async function handle(request: Request) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const result = await IncidentSlaService.run(createAdminClient());
+    return NextResponse.json(result);
+  } catch (err) {
+    console.error('Error running incident SLA escalations:', err);
+    return NextResponse.json({ error: err instanceof Error ? err.message : String(err) }, { status: 500 });
+  }
+}
+
+export const GET = handle;
+export const POST = handle;
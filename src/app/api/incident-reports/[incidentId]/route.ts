@@ -0,0 +1,37 @@
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import { NextResponse } from 'next/server';
+import { format } from 'date-fns';
+import { IncidentReportService } from '@/lib/services/IncidentReportService';
+import { IncidentReportPdfService } from '@/lib/services/IncidentReportPdfService';
+
+// Regulatory report PDF for one incident. Reads as the signed-in user, so RLS limits it to staff and admins.
+export async function GET(_request: Request, { params }: { params: Promise<{ incidentId: string }> }) {
+  const { incidentId } = await params;
+  const supabase = createRouteHandlerClient({ cookies });
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const data = await IncidentReportService.fetchReportData(supabase, incidentId);
+    if (!data) {
+      return NextResponse.json({ error: 'Incident not found' }, { status: 404 });
+    }
+
+    const pdf = await IncidentReportPdfService.render(data);
+    const filename = `incident-report-${format(new Date(data.incident.created_at), 'yyyy-MM-dd')}-${incidentId.slice(0, 8)}.pdf`;
+    return new NextResponse(pdf, {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (err) {
+    console.error('Error generating incident report:', err);
+    return NextResponse.json({ error: err instanceof Error ? err.message : String(err) }, { status: 500 });
+  }
+}
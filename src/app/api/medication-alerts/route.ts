@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { DoseAlertService } from '@/lib/services/DoseAlertService';
+
+// Called every few minutes by a scheduler (e.g. a Supabase cron job or Vercel Cron) with
+// `Authorization: Bearer <CRON_SECRET>`. Dose times and shifts are resolved in FACILITY_TIMEZONE.
+async function handle(request: Request) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const result = await DoseAlertService.run(createAdminClient());
+    return NextResponse.json(result);
+  } catch (err) {
+    console.error('Error running medication dose alerts:', err);
+    return NextResponse.json({ error: err instanceof Error ? err.message : String(err) }, { status: 500 });
+  }
+}
+
+export const GET = handle;
+export const POST = handle;
@@ -0,0 +1,421 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import {
+  Box,
+  Button,
+  CircularProgress,
+  FormControl,
+  InputLabel,
+  MenuItem,
+  Select,
+  Stack,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  ToggleButton,
+  ToggleButtonGroup,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import { DatePicker } from '@mui/x-date-pickers/DatePicker';
+import { LocalizationProvider } from '@mui/x-date-pickers/LocalizationProvider';
+import { AdapterDateFns } from '@mui/x-date-pickers/AdapterDateFnsV3';
+import { format, isValid, parseISO, subDays } from 'date-fns';
+import toast from 'react-hot-toast';
+import { supabase } from '@/lib/supabase/client';
+import { useAuth } from '@/lib/hooks/useAuth';
+import { MarService, SHIFT_HOURS, ShiftName } from '@/lib/services/MarService';
+import {
+  ADL_ACTIVITIES,
+  ADL_ACTIVITY_LABELS,
+  ADL_SELF_PERFORMANCE_CODES,
+  ADL_SELF_PERFORMANCE_LABELS,
+  ADL_SUPPORT_CODES,
+  ADL_SUPPORT_LABELS,
+  AdlActivity,
+  AdlCodes,
+  AdlEntry,
+  AdlSelfPerformance,
+  AdlService,
+  AdlShift,
+  AdlSupport,
+} from '@/lib/services/AdlService';
+import CorrectAdlEntryDialog from '@/components/dialogs/CorrectAdlEntryDialog';
+
+interface AdlPanelProps {
+  residentId: string;
+}
+
+type AdlDraft = {
+  self_performance: AdlSelfPerformance | '';
+  support: AdlSupport | '';
+  notes: string;
+};
+
+const RANGE_DAYS = [7, 14, 30];
+
+const SHIFT_NAMES: Record<ShiftName, string> = {
+  MORNING: 'Morning',
+  AFTERNOON: 'Afternoon',
+  NIGHT: 'Night',
+};
+
+// Order of the shifts that start on one day
+const SHIFT_SEQUENCE: ShiftName[] = ['MORNING', 'AFTERNOON', 'NIGHT'];
+
+const EMPTY_DRAFT: AdlDraft = { self_performance: '', support: '', notes: '' };
+
+// Self-performance at or above this code is highlighted in the history
+const DEPENDENT_CODE = 3;
+
+// ADL flowsheet for a resident: quick entry for one shift and the charted history
+export default function AdlPanel({ residentId }: AdlPanelProps) {
+  const { user } = useAuth();
+  const [entries, setEntries] = useState<AdlEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [rangeDays, setRangeDays] = useState(7);
+  const [selectedShift, setSelectedShift] = useState<AdlShift>(() => AdlService.getCurrentShift());
+  const [drafts, setDrafts] = useState<Partial<Record<AdlActivity, AdlDraft>>>({});
+  const [isSaving, setIsSaving] = useState(false);
+  const [entryToCorrect, setEntryToCorrect] = useState<AdlEntry | null>(null);
+
+  const loadEntries = async () => {
+    setLoading(true);
+    try {
+      const fromDate = format(subDays(new Date(), rangeDays), 'yyyy-MM-dd');
+      const data = await AdlService.fetchEntries(supabase, residentId, fromDate < selectedShift.shiftDate ? fromDate : selectedShift.shiftDate);
+      setEntries(data);
+    } catch (err) {
+      console.error('Error loading ADL entries:', err);
+      toast.error(`Failed to load ADL entries: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadEntries();
+  }, [residentId, rangeDays, selectedShift.shiftDate]);
+
+  useEffect(() => {
+    setDrafts({});
+  }, [residentId, selectedShift.shiftDate, selectedShift.shift]);
+
+  const rows = AdlService.groupByShift(entries);
+  const charted = rows.find(row => row.shiftDate === selectedShift.shiftDate && row.shift === selectedShift.shift)?.entries || {};
+  // Most recent earlier shift, offered as a starting point
+  const previous = rows.find(row =>
+    row.shiftDate < selectedShift.shiftDate ||
+    (row.shiftDate === selectedShift.shiftDate && SHIFT_SEQUENCE.indexOf(row.shift) < SHIFT_SEQUENCE.indexOf(selectedShift.shift)));
+  const shiftNotStarted = MarService.getShiftRange(parseISO(selectedShift.shiftDate), selectedShift.shift).from > new Date();
+
+  const updateDraft = (activity: AdlActivity, changes: Partial<AdlDraft>) => {
+    setDrafts(prev => {
+      const next = { ...EMPTY_DRAFT, ...prev[activity], ...changes };
+      // 8 (did not occur) applies to both codes
+      if (changes.self_performance === 8) next.support = 8;
+      if (changes.support === 8) next.self_performance = 8;
+      if (changes.self_performance !== undefined && changes.self_performance !== 8 && next.support === 8) next.support = '';
+      if (changes.support !== undefined && changes.support !== 8 && next.self_performance === 8) next.self_performance = '';
+      return { ...prev, [activity]: next };
+    });
+  };
+
+  const handleCopyPrevious = () => {
+    if (!previous) return;
+    const copied: Partial<Record<AdlActivity, AdlDraft>> = {};
+    ADL_ACTIVITIES.forEach(activity => {
+      const entry = previous.entries[activity] && AdlService.getEffectiveEntry(previous.entries[activity]);
+      if (entry && !charted[activity]) {
+        copied[activity] = { self_performance: entry.self_performance, support: entry.support, notes: '' };
+      }
+    });
+    setDrafts(copied);
+  };
+
+  const pendingActivities = ADL_ACTIVITIES.filter(activity => !charted[activity] && drafts[activity]);
+  const completeActivities = pendingActivities.filter(activity =>
+    drafts[activity]?.self_performance !== '' && drafts[activity]?.support !== '');
+  const hasIncomplete = completeActivities.length !== pendingActivities.length;
+
+  const handleSave = async () => {
+    if (!user) {
+      toast.error('You must be signed in to chart ADLs.');
+      return;
+    }
+    const codes: Partial<Record<AdlActivity, AdlCodes & { notes: string }>> = {};
+    completeActivities.forEach(activity => {
+      const draft = drafts[activity];
+      if (draft && draft.self_performance !== '' && draft.support !== '') {
+        codes[activity] = { self_performance: draft.self_performance, support: draft.support, notes: draft.notes };
+      }
+    });
+    setIsSaving(true);
+    try {
+      await AdlService.recordShift(supabase, residentId, user.id, selectedShift, codes);
+      toast.success(`ADLs charted for the ${SHIFT_NAMES[selectedShift.shift].toLowerCase()} shift.`);
+      setDrafts({});
+      loadEntries();
+    } catch (err) {
+      console.error('Error charting ADLs:', err);
+      toast.error(`Failed to chart ADLs: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const describeCodes = (entry: AdlEntry) => {
+    const effective = AdlService.getEffectiveEntry(entry);
+    const correction = AdlService.getLatestCorrection(entry);
+    const codes = effective
+      ? `${ADL_SELF_PERFORMANCE_LABELS[effective.self_performance]}; ${ADL_SUPPORT_LABELS[effective.support]}` +
+        ` (${entry.recorded_by_profile?.full_name || 'Unknown'})${effective.notes ? ` - ${effective.notes}` : ''}`
+      : `Charted ${AdlService.formatCodes(entry)} (${entry.recorded_by_profile?.full_name || 'Unknown'})`;
+    return correction ? `${codes}. ${correction.action === 'VOID' ? 'Voided' : 'Corrected'}: ${correction.reason}` : codes;
+  };
+
+  return (
+    <LocalizationProvider dateAdapter={AdapterDateFns}>
+      <Stack direction={{ xs: 'column', md: 'row' }} justifyContent="space-between" alignItems={{ md: 'center' }} spacing={1.5} sx={{ mb: 2 }}>
+        <Typography variant="h6">Activities of Daily Living</Typography>
+        <Stack direction="row" spacing={1.5}>
+          <DatePicker
+            label="Shift date"
+            value={parseISO(selectedShift.shiftDate)}
+            onChange={(date) => date && isValid(date) && setSelectedShift(prev => ({ ...prev, shiftDate: format(date, 'yyyy-MM-dd') }))}
+            disableFuture
+            slotProps={{ textField: { size: 'small', sx: { width: 170 } } }}
+          />
+          <FormControl size="small" sx={{ minWidth: 220 }}>
+            <InputLabel id="adl-shift-label">Shift</InputLabel>
+            <Select
+              labelId="adl-shift-label"
+              label="Shift"
+              value={selectedShift.shift}
+              onChange={(e) => setSelectedShift(prev => ({ ...prev, shift: e.target.value as ShiftName }))}
+            >
+              {(Object.keys(SHIFT_HOURS) as ShiftName[]).map(name => (
+                <MenuItem key={name} value={name}>{SHIFT_HOURS[name].label}</MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+        </Stack>
+      </Stack>
+
+      {/* Flowsheet for the selected shift */}
+      <TableContainer>
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>Activity</TableCell>
+              <TableCell>Self-Performance</TableCell>
+              <TableCell>Support</TableCell>
+              <TableCell>Notes</TableCell>
+              <TableCell align="right" />
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {ADL_ACTIVITIES.map(activity => {
+              const entry = charted[activity];
+              const draft = drafts[activity] || EMPTY_DRAFT;
+              if (entry) {
+                const effective = AdlService.getEffectiveEntry(entry);
+                const correction = AdlService.getLatestCorrection(entry);
+                return (
+                  <TableRow key={activity} sx={!effective ? { '& td': { color: 'text.disabled' } } : undefined}>
+                    <TableCell>{ADL_ACTIVITY_LABELS[activity]}</TableCell>
+                    <TableCell>
+                      {!effective ? (
+                        <s>{entry.self_performance} - {ADL_SELF_PERFORMANCE_LABELS[entry.self_performance]}</s>
+                      ) : (
+                        <>
+                          {effective.self_performance} - {ADL_SELF_PERFORMANCE_LABELS[effective.self_performance]}
+                          {effective.self_performance !== entry.self_performance && (
+                            <Typography component="span" variant="caption" color="text.secondary"> (was <s>{entry.self_performance}</s>)</Typography>
+                          )}
+                        </>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {!effective ? (
+                        <s>{entry.support} - {ADL_SUPPORT_LABELS[entry.support]}</s>
+                      ) : (
+                        <>
+                          {effective.support} - {ADL_SUPPORT_LABELS[effective.support]}
+                          {effective.support !== entry.support && (
+                            <Typography component="span" variant="caption" color="text.secondary"> (was <s>{entry.support}</s>)</Typography>
+                          )}
+                        </>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Typography variant="body2" color="text.secondary">
+                        Charted by {entry.recorded_by_profile?.full_name || 'Unknown'}{effective?.notes ? ` - ${effective.notes}` : ''}
+                        {correction && ` (${correction.action === 'VOID' ? 'Voided' : 'Corrected'}: ${correction.reason})`}
+                      </Typography>
+                    </TableCell>
+                    <TableCell align="right">
+                      <Button size="small" onClick={() => setEntryToCorrect(entry)}>{effective ? 'Correct' : 'History'}</Button>
+                    </TableCell>
+                  </TableRow>
+                );
+              }
+              return (
+                <TableRow key={activity}>
+                  <TableCell>{ADL_ACTIVITY_LABELS[activity]}</TableCell>
+                  <TableCell>
+                    <Select
+                      size="small"
+                      fullWidth
+                      displayEmpty
+                      value={draft.self_performance}
+                      disabled={shiftNotStarted}
+                      onChange={(e) => updateDraft(activity, { self_performance: e.target.value as AdlSelfPerformance })}
+                    >
+                      <MenuItem value=""><em>Not charted</em></MenuItem>
+                      {ADL_SELF_PERFORMANCE_CODES.map(code => (
+                        <MenuItem key={code} value={code}>{code} - {ADL_SELF_PERFORMANCE_LABELS[code]}</MenuItem>
+                      ))}
+                    </Select>
+                  </TableCell>
+                  <TableCell>
+                    <Select
+                      size="small"
+                      fullWidth
+                      displayEmpty
+                      value={draft.support}
+                      disabled={shiftNotStarted}
+                      onChange={(e) => updateDraft(activity, { support: e.target.value as AdlSupport })}
+                    >
+                      <MenuItem value=""><em>Not charted</em></MenuItem>
+                      {ADL_SUPPORT_CODES.map(code => (
+                        <MenuItem key={code} value={code}>{code} - {ADL_SUPPORT_LABELS[code]}</MenuItem>
+                      ))}
+                    </Select>
+                  </TableCell>
+                  <TableCell>
+                    <TextField
+                      size="small"
+                      fullWidth
+                      value={draft.notes}
+                      disabled={shiftNotStarted}
+                      onChange={(e) => updateDraft(activity, { notes: e.target.value })}
+                    />
+                  </TableCell>
+                  <TableCell />
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </TableContainer>
+      <Stack direction="row" spacing={1.5} justifyContent="flex-end" alignItems="center" sx={{ mt: 1.5, mb: 3 }}>
+        {shiftNotStarted ? (
+          <Typography variant="body2" color="text.secondary">This shift has not started yet.</Typography>
+        ) : hasIncomplete && (
+          <Typography variant="body2" color="error">Choose both codes for each activity being charted.</Typography>
+        )}
+        {previous && (
+          <Button
+            size="small"
+            onClick={handleCopyPrevious}
+            disabled={shiftNotStarted || ADL_ACTIVITIES.every(activity => {
+              const entry = previous.entries[activity];
+              return charted[activity] || !entry || !AdlService.getEffectiveEntry(entry);
+            })}
+          >
+            Copy {SHIFT_NAMES[previous.shift].toLowerCase()} shift of {format(parseISO(previous.shiftDate), 'MMM d')}
+          </Button>
+        )}
+        <Button variant="contained" onClick={handleSave} disabled={isSaving || shiftNotStarted || hasIncomplete || completeActivities.length === 0}>
+          {isSaving ? <CircularProgress size={24} /> : completeActivities.length > 0 ? `Chart ${completeActivities.length} ${completeActivities.length === 1 ? 'Activity' : 'Activities'}` : 'Chart Shift'}
+        </Button>
+      </Stack>
+
+      {/* History */}
+      <Stack direction="row" justifyContent="space-between" alignItems="center" sx={{ mb: 1 }}>
+        <Typography variant="subtitle1">History</Typography>
+        <ToggleButtonGroup size="small" exclusive value={rangeDays} onChange={(_, value) => value && setRangeDays(value)}>
+          {RANGE_DAYS.map(days => (
+            <ToggleButton key={days} value={days}>{days}d</ToggleButton>
+          ))}
+        </ToggleButtonGroup>
+      </Stack>
+      {loading && entries.length === 0 ? (
+        <CircularProgress size={20} />
+      ) : rows.length === 0 ? (
+        <Typography variant="body2" color="text.secondary">No ADLs charted in this period.</Typography>
+      ) : (
+        <>
+          <TableContainer sx={{ maxHeight: 360 }}>
+            <Table size="small" stickyHeader>
+              <TableHead>
+                <TableRow>
+                  <TableCell>Shift</TableCell>
+                  {ADL_ACTIVITIES.map(activity => (
+                    <TableCell key={activity} align="center">{ADL_ACTIVITY_LABELS[activity]}</TableCell>
+                  ))}
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {rows.map(row => (
+                  <TableRow
+                    key={`${row.shiftDate}-${row.shift}`}
+                    hover
+                    selected={row.shiftDate === selectedShift.shiftDate && row.shift === selectedShift.shift}
+                    onClick={() => setSelectedShift({ shiftDate: row.shiftDate, shift: row.shift })}
+                    sx={{ cursor: 'pointer' }}
+                  >
+                    <TableCell>{format(parseISO(row.shiftDate), 'EEE MMM d')} {SHIFT_NAMES[row.shift]}</TableCell>
+                    {ADL_ACTIVITIES.map(activity => {
+                      const entry = row.entries[activity];
+                      const effective = entry && AdlService.getEffectiveEntry(entry);
+                      return (
+                        <TableCell key={activity} align="center">
+                          {entry ? (
+                            <Tooltip title={describeCodes(entry)}>
+                              {effective ? (
+                                <Box
+                                  component="span"
+                                  sx={{
+                                    fontWeight: effective.self_performance >= DEPENDENT_CODE && effective.self_performance <= 4 ? 600 : undefined,
+                                    color: effective.self_performance === 4 ? 'error.main' : effective.self_performance === DEPENDENT_CODE ? 'warning.main' : undefined,
+                                  }}
+                                >
+                                  {AdlService.formatCodes(effective)}{AdlService.getLatestCorrection(entry) && '*'}
+                                </Box>
+                              ) : (
+                                <Box component="s" sx={{ color: 'text.disabled' }}>{AdlService.formatCodes(entry)}</Box>
+                              )}
+                            </Tooltip>
+                          ) : (
+                            <Typography variant="body2" color="text.disabled">—</Typography>
+                          )}
+                        </TableCell>
+                      );
+                    })}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+          <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 1 }}>
+            Self-performance/support codes; * corrected, struck through voided. Hover a code for details; select a row to open that shift.
+          </Typography>
+        </>
+      )}
+
+      <CorrectAdlEntryDialog
+        open={!!entryToCorrect}
+        onClose={() => setEntryToCorrect(null)}
+        onSuccess={loadEntries}
+        entry={entryToCorrect}
+      />
+    </LocalizationProvider>
+  );
+}
@@ -0,0 +1,95 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  Box,
+  Button,
+  Chip,
+  FormControl,
+  InputLabel,
+  MenuItem,
+  Select,
+  Stack,
+  TextField,
+  Typography,
+} from '@mui/material';
+import {
+  ALLERGY_SEVERITY_LABELS,
+  AllergySeverity,
+  ResidentAllergy,
+} from '@/lib/services/MedicationSafetyService';
+
+interface AllergyListFieldProps {
+  value: ResidentAllergy[];
+  onChange: (allergies: ResidentAllergy[]) => void;
+}
+
+// Same add-then-chip pattern as medical conditions, with a reaction and severity per allergen
+export default function AllergyListField({ value, onChange }: AllergyListFieldProps) {
+  const [allergen, setAllergen] = useState('');
+  const [reaction, setReaction] = useState('');
+  const [severity, setSeverity] = useState<AllergySeverity>('MODERATE');
+
+  const handleAdd = () => {
+    const name = allergen.trim();
+    if (!name || value.some(item => item.allergen.toLowerCase() === name.toLowerCase())) return;
+    onChange([...value, { allergen: name, reaction: reaction.trim() || undefined, severity }]);
+    setAllergen('');
+    setReaction('');
+    setSeverity('MODERATE');
+  };
+
+  return (
+    <Box sx={{ mt: 2 }}>
+      <Typography variant="subtitle1" gutterBottom>Allergies</Typography>
+      <Stack direction="row" spacing={1} alignItems="center" sx={{ mb: 1 }}>
+        <TextField
+          label="Allergen"
+          value={allergen}
+          onChange={(e) => setAllergen(e.target.value)}
+          size="small"
+          sx={{ flexGrow: 1 }}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault(); // Prevent form submission on Enter
+              handleAdd();
+            }
+          }}
+        />
+        <TextField
+          label="Reaction"
+          value={reaction}
+          onChange={(e) => setReaction(e.target.value)}
+          size="small"
+          sx={{ flexGrow: 1 }}
+        />
+        <FormControl size="small" sx={{ minWidth: 120 }}>
+          <InputLabel id="allergy-severity-label">Severity</InputLabel>
+          <Select
+            labelId="allergy-severity-label"
+            label="Severity"
+            value={severity}
+            onChange={(e) => setSeverity(e.target.value as AllergySeverity)}
+          >
+            {(Object.keys(ALLERGY_SEVERITY_LABELS) as AllergySeverity[]).map(level => (
+              <MenuItem key={level} value={level}>{ALLERGY_SEVERITY_LABELS[level]}</MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+        <Button onClick={handleAdd} variant="outlined" size="small" disabled={!allergen.trim()}>Add</Button>
+      </Stack>
+      <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5 }}>
+        {value.length === 0 && <Typography variant="body2" color="text.secondary">No known allergies</Typography>}
+        {value.map(item => (
+          <Chip
+            key={item.allergen}
+            label={`${item.allergen}${item.reaction ? ` — ${item.reaction}` : ''} (${ALLERGY_SEVERITY_LABELS[item.severity]})`}
+            color={item.severity === 'SEVERE' ? 'error' : item.severity === 'MODERATE' ? 'warning' : 'default'}
+            onDelete={() => onChange(value.filter(other => other.allergen !== item.allergen))}
+            size="small"
+          />
+        ))}
+      </Box>
+    </Box>
+  );
+}
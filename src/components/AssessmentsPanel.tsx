@@ -0,0 +1,239 @@
+'use client';
+
+import { Fragment, useState, useEffect } from 'react';
+import {
+  Alert,
+  Button,
+  Chip,
+  CircularProgress,
+  Collapse,
+  IconButton,
+  Stack,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Typography,
+} from '@mui/material';
+import KeyboardArrowDownIcon from '@mui/icons-material/KeyboardArrowDown';
+import KeyboardArrowUpIcon from '@mui/icons-material/KeyboardArrowUp';
+import { addDays, format } from 'date-fns';
+import toast from 'react-hot-toast';
+import { supabase } from '@/lib/supabase/client';
+import CompleteAssessmentDialog from '@/components/dialogs/CompleteAssessmentDialog';
+import CorrectAssessmentDialog from '@/components/dialogs/CorrectAssessmentDialog';
+import {
+  ASSESSMENT_SEVERITY_COLORS,
+  AssessmentForm,
+  AssessmentService,
+  AssessmentStatus,
+  ResidentAssessment,
+} from '@/lib/services/AssessmentService';
+import { CARE_LEVEL_LABELS, CareLevel } from '@/lib/services/IncidentAnalyticsService';
+
+interface AssessmentsPanelProps {
+  residentId: string;
+  careLevel: CareLevel | null;
+  onCareLevelChange: (careLevel: CareLevel) => void;
+}
+
+// Assessments due within this many days are highlighted
+const DUE_SOON_DAYS = 3;
+
+// Standardized assessments for a resident: latest results, when each is due and the care level they suggest
+export default function AssessmentsPanel({ residentId, careLevel, onCareLevelChange }: AssessmentsPanelProps) {
+  const [forms, setForms] = useState<AssessmentForm[]>([]);
+  const [assessments, setAssessments] = useState<ResidentAssessment[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [expandedFormId, setExpandedFormId] = useState<string | null>(null);
+  const [formToComplete, setFormToComplete] = useState<AssessmentForm | null>(null);
+  const [assessmentToCorrect, setAssessmentToCorrect] = useState<{ assessment: ResidentAssessment; form: AssessmentForm } | null>(null);
+  const [isApplying, setIsApplying] = useState(false);
+
+  const loadAssessments = async () => {
+    setLoading(true);
+    try {
+      const [formData, assessmentData] = await Promise.all([
+        AssessmentService.fetchForms(supabase),
+        AssessmentService.fetchAssessments(supabase, residentId),
+      ]);
+      setForms(formData);
+      setAssessments(assessmentData);
+    } catch (err) {
+      console.error('Error loading assessments:', err);
+      toast.error(`Failed to load assessments: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadAssessments();
+  }, [residentId]);
+
+  const statuses = AssessmentService.getStatuses(forms, assessments);
+  const suggestion = AssessmentService.suggestCareLevel(statuses);
+
+  const handleApplyCareLevel = async () => {
+    if (!suggestion) return;
+    setIsApplying(true);
+    try {
+      await AssessmentService.updateCareLevel(supabase, residentId, suggestion.careLevel);
+      toast.success(`Care level set to ${CARE_LEVEL_LABELS[suggestion.careLevel]}.`);
+      onCareLevelChange(suggestion.careLevel);
+    } catch (err) {
+      console.error('Error updating care level:', err);
+      toast.error(`Failed to update care level: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  const renderDue = (status: AssessmentStatus) => {
+    if (!status.form.active) {
+      return <Typography variant="body2" color="text.secondary">—</Typography>;
+    }
+    if (!status.latest) {
+      return <Chip label="Not yet assessed" color="error" size="small" variant="outlined" />;
+    }
+    const dueAt = new Date(status.latest.next_due_at);
+    if (status.overdue) {
+      return <Chip label={`Overdue since ${format(dueAt, 'MMM d')}`} color="error" size="small" />;
+    }
+    if (dueAt <= addDays(new Date(), DUE_SOON_DAYS)) {
+      return <Chip label={`Due ${format(dueAt, 'MMM d')}`} color="warning" size="small" />;
+    }
+    return <Typography variant="body2">{format(dueAt, 'PP')}</Typography>;
+  };
+
+  return (
+    <>
+      <Typography variant="h6" sx={{ mb: 1 }}>Assessments</Typography>
+
+      {suggestion && suggestion.careLevel !== careLevel && (
+        <Alert
+          severity="info"
+          sx={{ mb: 2 }}
+          action={
+            <Button color="inherit" size="small" onClick={handleApplyCareLevel} disabled={isApplying}>
+              {isApplying ? <CircularProgress size={18} /> : 'Apply'}
+            </Button>
+          }
+        >
+          Latest results suggest {CARE_LEVEL_LABELS[suggestion.careLevel]} care
+          ({suggestion.basis.map(status => `${status.form.name}: ${status.latest?.risk_band}`).join('; ')}).
+          Current care level: {careLevel ? CARE_LEVEL_LABELS[careLevel] : 'not set'}.
+        </Alert>
+      )}
+
+      {loading && forms.length === 0 ? (
+        <CircularProgress size={20} />
+      ) : forms.length === 0 ? (
+        <Typography variant="body2" color="text.secondary">No assessment forms are defined.</Typography>
+      ) : (
+        <TableContainer>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell padding="checkbox" />
+                <TableCell>Assessment</TableCell>
+                <TableCell>Latest Score</TableCell>
+                <TableCell>Result</TableCell>
+                <TableCell>Assessed</TableCell>
+                <TableCell>Next Due</TableCell>
+                <TableCell align="right" />
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {statuses.map(status => {
+                const expanded = expandedFormId === status.form.id;
+                return (
+                  <Fragment key={status.form.id}>
+                    <TableRow sx={{ '& > *': { borderBottom: expanded ? 'unset' : undefined } }}>
+                      <TableCell padding="checkbox">
+                        <IconButton
+                          size="small"
+                          aria-label="show history"
+                          disabled={status.history.length === 0}
+                          onClick={() => setExpandedFormId(expanded ? null : status.form.id)}
+                        >
+                          {expanded ? <KeyboardArrowUpIcon /> : <KeyboardArrowDownIcon />}
+                        </IconButton>
+                      </TableCell>
+                      <TableCell>
+                        {status.form.name}
+                        {!status.form.active && <Chip label="Retired" size="small" variant="outlined" sx={{ ml: 1 }} />}
+                      </TableCell>
+                      <TableCell>{status.latest ? status.latest.total_score : '—'}</TableCell>
+                      <TableCell>
+                        {status.latest && (
+                          <Chip label={status.latest.risk_band} color={ASSESSMENT_SEVERITY_COLORS[status.latest.severity]} size="small" />
+                        )}
+                      </TableCell>
+                      <TableCell>{status.latest ? format(new Date(status.latest.assessed_at), 'PP') : '—'}</TableCell>
+                      <TableCell>{renderDue(status)}</TableCell>
+                      <TableCell align="right">
+                        {status.form.active && (
+                          <Button size="small" onClick={() => setFormToComplete(status.form)}>Complete</Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                    <TableRow>
+                      <TableCell colSpan={7} sx={{ py: 0 }}>
+                        <Collapse in={expanded} timeout="auto" unmountOnExit>
+                          <Stack spacing={1} sx={{ py: 1.5, pl: 7 }}>
+                            {status.history.map(assessment => {
+                              const effective = AssessmentService.getEffectiveAssessment(assessment);
+                              const correction = AssessmentService.getLatestCorrection(assessment);
+                              return (
+                                <Stack key={assessment.id} direction="row" spacing={1.5} alignItems="center" sx={!effective ? { color: 'text.disabled' } : undefined}>
+                                  <Typography variant="body2" sx={{ minWidth: 150 }}>{format(new Date(assessment.assessed_at), 'Pp')}</Typography>
+                                  <Typography variant="body2" fontWeight={600} sx={{ minWidth: 30 }}>
+                                    {effective ? effective.total_score : <s>{assessment.total_score}</s>}
+                                  </Typography>
+                                  {effective && (
+                                    <Chip label={effective.risk_band} color={ASSESSMENT_SEVERITY_COLORS[effective.severity]} size="small" variant="outlined" />
+                                  )}
+                                  <Typography variant="caption" color="text.secondary">
+                                    {assessment.completed_by_profile?.full_name || 'Unknown'}
+                                    {correction
+                                      ? ` - ${correction.action === 'VOID' ? 'Voided' : `Corrected (was ${assessment.total_score})`}: ${correction.reason}`
+                                      : assessment.notes ? ` - ${assessment.notes}` : ''}
+                                  </Typography>
+                                  <Button size="small" onClick={() => setAssessmentToCorrect({ assessment, form: status.form })}>
+                                    {effective ? 'Correct' : 'History'}
+                                  </Button>
+                                </Stack>
+                              );
+                            })}
+                          </Stack>
+                        </Collapse>
+                      </TableCell>
+                    </TableRow>
+                  </Fragment>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+
+      <CompleteAssessmentDialog
+        open={!!formToComplete}
+        onClose={() => setFormToComplete(null)}
+        onSuccess={loadAssessments}
+        residentId={residentId}
+        form={formToComplete}
+      />
+      <CorrectAssessmentDialog
+        open={!!assessmentToCorrect}
+        onClose={() => setAssessmentToCorrect(null)}
+        onSuccess={loadAssessments}
+        assessment={assessmentToCorrect?.assessment || null}
+        form={assessmentToCorrect?.form || null}
+      />
+    </>
+  );
+}
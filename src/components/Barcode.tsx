@@ -0,0 +1,47 @@
+'use client';
+
+import { useMemo } from 'react';
+import { BarcodeService } from '@/lib/services/BarcodeService';
+
+interface BarcodeProps {
+  value: string; // Code 39 text, e.g. from BarcodeService.payload
+  height?: number; // Bar height in px
+  moduleWidth?: number; // Narrow bar width in px
+  showText?: boolean; // Human-readable text under the bars
+}
+
+// Renders as SVG so it prints crisply at any size
+export default function Barcode({ value, height = 48, moduleWidth = 1, showText = false }: BarcodeProps) {
+  const bars = useMemo(() => {
+    const result: { x: number; width: number }[] = [];
+    let x = 10; // Quiet zone of ten narrow modules either side
+    BarcodeService.encodeCode39(value).forEach((width, index) => {
+      if (index % 2 === 0) result.push({ x, width }); // Even elements are bars, odd are spaces
+      x += width;
+    });
+    return { result, totalWidth: x + 10 };
+  }, [value]);
+
+  const textHeight = showText ? 12 : 0;
+
+  return (
+    <svg
+      width={bars.totalWidth * moduleWidth}
+      height={height + textHeight}
+      viewBox={`0 0 ${bars.totalWidth} ${height + textHeight}`}
+      preserveAspectRatio="none"
+      role="img"
+      aria-label={value}
+    >
+      <rect x={0} y={0} width={bars.totalWidth} height={height + textHeight} fill="#fff" />
+      {bars.result.map(bar => (
+        <rect key={bar.x} x={bar.x} y={0} width={bar.width} height={height} fill="#000" />
+      ))}
+      {showText && (
+        <text x={bars.totalWidth / 2} y={height + textHeight - 2} fontSize={10} fontFamily="monospace" textAnchor="middle">
+          {value}
+        </text>
+      )}
+    </svg>
+  );
+}
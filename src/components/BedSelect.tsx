@@ -0,0 +1,95 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import {
+  FormControl,
+  FormHelperText,
+  InputLabel,
+  ListSubheader,
+  MenuItem,
+  Select,
+} from '@mui/material';
+import toast from 'react-hot-toast';
+import { supabase } from '@/lib/supabase/client';
+import { AssignableBed, BED_STATUS_LABELS, BED_TYPE_LABELS, BedService } from '@/lib/services/BedService';
+
+interface BedSelectProps {
+  value: string; // Bed ID, or '' for none
+  onChange: (bedId: string) => void;
+  label?: string;
+  required?: boolean;
+  allowNone?: string; // Label for an empty choice, e.g. "Keep current bed"
+  error?: boolean;
+  helperText?: string;
+  disabled?: boolean;
+  margin?: 'none' | 'dense' | 'normal';
+}
+
+// Free beds grouped by unit; residents can only be admitted or moved into one of these.
+// Reservations are advisory, so picking a reserved bed asks for confirmation first.
+export default function BedSelect({
+  value,
+  onChange,
+  label = 'Bed',
+  required,
+  allowNone,
+  error,
+  helperText,
+  disabled,
+  margin = 'normal',
+}: BedSelectProps) {
+  const [beds, setBeds] = useState<AssignableBed[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const loadBeds = async () => {
+      setLoading(true);
+      try {
+        setBeds(await BedService.fetchAssignableBeds(supabase));
+      } catch (err) {
+        console.error('Error loading beds:', err);
+        toast.error(`Failed to load available beds: ${err instanceof Error ? err.message : String(err)}`);
+      } finally {
+        setLoading(false);
+      }
+    };
+    loadBeds();
+  }, []);
+
+  const handleChange = (bedId: string) => {
+    const bed = beds.find(candidate => candidate.id === bedId);
+    if (bed?.status === 'RESERVED') {
+      const heldFor = bed.status_note ? ` for ${bed.status_note}` : '';
+      if (!window.confirm(`${BedService.formatBed(bed.rooms?.room_number, bed.label)} is reserved${heldFor}. Assign it anyway?`)) return;
+    }
+    onChange(bedId);
+  };
+
+  // Beds arrive sorted by unit, so a header goes before the first bed of each unit
+  const items: React.ReactNode[] = [];
+  beds.forEach((bed, index) => {
+    const unit = bed.rooms?.unit || 'No unit';
+    if (index === 0 || unit !== (beds[index - 1].rooms?.unit || 'No unit')) {
+      items.push(<ListSubheader key={`unit-${unit}`}>{unit}</ListSubheader>);
+    }
+    items.push(
+      <MenuItem key={bed.id} value={bed.id}>
+        {BedService.formatBed(bed.rooms?.room_number, bed.label)} ({BED_TYPE_LABELS[bed.bed_type]}
+        {bed.status === 'RESERVED' ? `, ${BED_STATUS_LABELS.RESERVED.toLowerCase()}${bed.status_note ? `: ${bed.status_note}` : ''}` : ''})
+      </MenuItem>
+    );
+  });
+
+  return (
+    <FormControl fullWidth margin={margin} required={required} error={error} disabled={disabled || loading}>
+      <InputLabel id="bed-select-label">{label}</InputLabel>
+      <Select labelId="bed-select-label" label={label} value={value} onChange={(e) => handleChange(e.target.value)}>
+        {allowNone && <MenuItem value=""><em>{allowNone}</em></MenuItem>}
+        {items}
+      </Select>
+      <FormHelperText>
+        {helperText || (loading ? 'Loading available beds...' : beds.length === 0 ? 'No beds are available' : '')}
+      </FormHelperText>
+    </FormControl>
+  );
+}
@@ -0,0 +1,122 @@
+'use client';
+
+import { Box, Chip, Stack, Typography } from '@mui/material';
+import { useTheme } from '@mui/material/styles';
+import { BODY_REGION_LABELS, BodyRegion } from '@/lib/services/FallIncidentService';
+
+type RegionShape =
+  | { region: BodyRegion; shape: 'rect'; x: number; y: number; width: number; height: number }
+  | { region: BodyRegion; shape: 'ellipse'; cx: number; cy: number; rx: number; ry: number };
+
+// Front view on a 100 x 230 grid; the resident's right side is on the viewer's left
+const FRONT: RegionShape[] = [
+  { region: 'HEAD', shape: 'ellipse', cx: 50, cy: 12, rx: 12, ry: 8 },
+  { region: 'FACE', shape: 'ellipse', cx: 50, cy: 27, rx: 11, ry: 9 },
+  { region: 'NECK', shape: 'rect', x: 45, y: 36, width: 10, height: 8 },
+  { region: 'RIGHT_SHOULDER', shape: 'ellipse', cx: 29, cy: 50, rx: 8, ry: 7 },
+  { region: 'LEFT_SHOULDER', shape: 'ellipse', cx: 71, cy: 50, rx: 8, ry: 7 },
+  { region: 'CHEST', shape: 'rect', x: 37, y: 44, width: 26, height: 30 },
+  { region: 'ABDOMEN', shape: 'rect', x: 37, y: 74, width: 26, height: 22 },
+  { region: 'PELVIS', shape: 'rect', x: 41, y: 96, width: 18, height: 16 },
+  { region: 'RIGHT_HIP', shape: 'rect', x: 33, y: 96, width: 8, height: 16 },
+  { region: 'LEFT_HIP', shape: 'rect', x: 59, y: 96, width: 8, height: 16 },
+  { region: 'RIGHT_ARM', shape: 'rect', x: 18, y: 58, width: 10, height: 52 },
+  { region: 'LEFT_ARM', shape: 'rect', x: 72, y: 58, width: 10, height: 52 },
+  { region: 'RIGHT_HAND', shape: 'ellipse', cx: 23, cy: 118, rx: 6, ry: 8 },
+  { region: 'LEFT_HAND', shape: 'ellipse', cx: 77, cy: 118, rx: 6, ry: 8 },
+  { region: 'RIGHT_THIGH', shape: 'rect', x: 36, y: 112, width: 13, height: 44 },
+  { region: 'LEFT_THIGH', shape: 'rect', x: 51, y: 112, width: 13, height: 44 },
+  { region: 'RIGHT_KNEE', shape: 'ellipse', cx: 42.5, cy: 162, rx: 7, ry: 6 },
+  { region: 'LEFT_KNEE', shape: 'ellipse', cx: 57.5, cy: 162, rx: 7, ry: 6 },
+  { region: 'RIGHT_LEG', shape: 'rect', x: 37, y: 168, width: 11, height: 44 },
+  { region: 'LEFT_LEG', shape: 'rect', x: 52, y: 168, width: 11, height: 44 },
+  { region: 'RIGHT_FOOT', shape: 'ellipse', cx: 42, cy: 220, rx: 8, ry: 5 },
+  { region: 'LEFT_FOOT', shape: 'ellipse', cx: 58, cy: 220, rx: 8, ry: 5 },
+];
+
+// Front regions seen from behind, with the torso and head replaced by back regions
+const BACK_REGIONS: Partial<Record<BodyRegion, BodyRegion | null>> = {
+  HEAD: 'BACK_OF_HEAD',
+  FACE: null,
+  NECK: null,
+  CHEST: 'UPPER_BACK',
+  ABDOMEN: 'LOWER_BACK',
+  PELVIS: 'BUTTOCKS',
+};
+
+const BACK: RegionShape[] = FRONT.flatMap((item): RegionShape[] => {
+  const region = item.region in BACK_REGIONS ? BACK_REGIONS[item.region] : item.region;
+  if (!region) return [];
+  if (item.region === 'HEAD') {
+    return [{ region, shape: 'ellipse', cx: 50, cy: 20, rx: 12, ry: 16 }];
+  }
+  // Mirror left and right
+  return [item.shape === 'rect'
+    ? { ...item, region, x: 100 - item.x - item.width }
+    : { ...item, region, cx: 100 - item.cx }];
+});
+
+interface BodyMapProps {
+  value: BodyRegion[];
+  onChange: (regions: BodyRegion[]) => void;
+  disabled?: boolean;
+}
+
+// Front and back body outline; clicking a region toggles it as an injury site
+export default function BodyMap({ value, onChange, disabled = false }: BodyMapProps) {
+  const theme = useTheme();
+
+  const toggle = (region: BodyRegion) => {
+    if (disabled) return;
+    onChange(value.includes(region) ? value.filter(r => r !== region) : [...value, region]);
+  };
+
+  const renderFigure = (shapes: RegionShape[], offsetX: number, label: string) => (
+    <g transform={`translate(${offsetX}, 0)`}>
+      <text x={50} y={244} textAnchor="middle" fontSize={10} fill={theme.palette.text.secondary}>{label}</text>
+      {shapes.map(item => {
+        const selected = value.includes(item.region);
+        const common = {
+          fill: selected ? theme.palette.error.main : theme.palette.action.hover,
+          stroke: theme.palette.text.secondary,
+          strokeWidth: 0.75,
+          style: { cursor: disabled ? 'default' : 'pointer' },
+          onClick: () => toggle(item.region),
+        };
+        return item.shape === 'rect' ? (
+          <rect key={item.region} {...common} x={item.x} y={item.y} width={item.width} height={item.height} rx={3}>
+            <title>{BODY_REGION_LABELS[item.region]}</title>
+          </rect>
+        ) : (
+          <ellipse key={item.region} {...common} cx={item.cx} cy={item.cy} rx={item.rx} ry={item.ry}>
+            <title>{BODY_REGION_LABELS[item.region]}</title>
+          </ellipse>
+        );
+      })}
+    </g>
+  );
+
+  return (
+    <Box>
+      <Box component="svg" viewBox="0 0 230 250" sx={{ width: '100%', maxWidth: 360, display: 'block', mx: 'auto' }}>
+        {renderFigure(FRONT, 5, 'Front')}
+        {renderFigure(BACK, 125, 'Back')}
+      </Box>
+      {value.length === 0 ? (
+        <Typography variant="body2" color="text.secondary" align="center">No injuries marked. Click the body map to mark injury sites.</Typography>
+      ) : (
+        <Stack direction="row" spacing={1} useFlexGap flexWrap="wrap" justifyContent="center">
+          {value.map(region => (
+            <Chip
+              key={region}
+              label={BODY_REGION_LABELS[region]}
+              size="small"
+              color="error"
+              onDelete={disabled ? undefined : () => toggle(region)}
+            />
+          ))}
+        </Stack>
+      )}
+    </Box>
+  );
+}
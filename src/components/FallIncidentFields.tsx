@@ -0,0 +1,176 @@
+'use client';
+
+import {
+  Box,
+  FormControl,
+  FormControlLabel,
+  FormHelperText,
+  InputLabel,
+  MenuItem,
+  Select,
+  Stack,
+  Switch,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { DateTimePicker } from '@mui/x-date-pickers/DateTimePicker';
+import { LocalizationProvider } from '@mui/x-date-pickers/LocalizationProvider';
+import { AdapterDateFns } from '@mui/x-date-pickers/AdapterDateFnsV3';
+import { format } from 'date-fns';
+import BodyMap from '@/components/BodyMap';
+import {
+  FALL_ACTIVITY_LABELS,
+  FALL_LOCATION_LABELS,
+  FallActivity,
+  FallDetails,
+  FallIncidentService,
+  FallLocation,
+  Footwear,
+  FOOTWEAR_LABELS,
+  NEURO_CHECK_PROTOCOL_LABELS,
+  NeuroCheckProtocol,
+} from '@/lib/services/FallIncidentService';
+
+export type FallFormValue = Omit<FallDetails, 'occurred_at'> & { occurred_at: Date | null };
+
+export const DEFAULT_FALL_VALUE: FallFormValue = {
+  occurred_at: null,
+  location: 'BEDROOM',
+  location_detail: '',
+  activity: 'UNKNOWN',
+  footwear: 'UNKNOWN',
+  witnessed: false,
+  head_strike: false,
+  neuro_check_protocol: FallIncidentService.getDefaultProtocol(false, false),
+  injury_sites: [],
+};
+
+interface FallIncidentFieldsProps {
+  value: FallFormValue;
+  onChange: (value: FallFormValue) => void;
+  errors?: Partial<Record<keyof FallFormValue, string>>;
+}
+
+// Standard fall report fields; the neuro check protocol follows witnessed/head strike until changed by hand
+export default function FallIncidentFields({ value, onChange, errors = {} }: FallIncidentFieldsProps) {
+  const update = (changes: Partial<FallFormValue>) => onChange({ ...value, ...changes });
+
+  const updateHeadInjuryRisk = (changes: Pick<FallFormValue, 'witnessed'> | Pick<FallFormValue, 'head_strike'>) => {
+    const next = { ...value, ...changes };
+    onChange({ ...next, neuro_check_protocol: FallIncidentService.getDefaultProtocol(next.witnessed, next.head_strike) });
+  };
+
+  const checkTimes = value.occurred_at
+    ? FallIncidentService.getNeuroCheckTimes(value.neuro_check_protocol, value.occurred_at)
+    : [];
+
+  return (
+    <LocalizationProvider dateAdapter={AdapterDateFns}>
+      <Box>
+        <DateTimePicker
+          label="Time of Fall"
+          value={value.occurred_at}
+          onChange={(date) => update({ occurred_at: date })}
+          disableFuture
+          slotProps={{
+            textField: {
+              fullWidth: true,
+              margin: 'normal',
+              required: true,
+              error: !!errors.occurred_at,
+              helperText: errors.occurred_at,
+            },
+          }}
+        />
+
+        <Stack direction="row" spacing={2}>
+          <FormControl fullWidth margin="normal" required>
+            <InputLabel id="fall-location-label">Location</InputLabel>
+            <Select
+              labelId="fall-location-label"
+              label="Location"
+              value={value.location}
+              onChange={(e) => update({ location: e.target.value as FallLocation })}
+            >
+              {(Object.keys(FALL_LOCATION_LABELS) as FallLocation[]).map(location => (
+                <MenuItem key={location} value={location}>{FALL_LOCATION_LABELS[location]}</MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          <TextField
+            label="Location Detail"
+            placeholder="e.g. Room 12 beside bed"
+            value={value.location_detail || ''}
+            onChange={(e) => update({ location_detail: e.target.value })}
+            fullWidth
+            margin="normal"
+          />
+        </Stack>
+
+        <Stack direction="row" spacing={2}>
+          <FormControl fullWidth margin="normal" required>
+            <InputLabel id="fall-activity-label">Activity at the Time</InputLabel>
+            <Select
+              labelId="fall-activity-label"
+              label="Activity at the Time"
+              value={value.activity}
+              onChange={(e) => update({ activity: e.target.value as FallActivity })}
+            >
+              {(Object.keys(FALL_ACTIVITY_LABELS) as FallActivity[]).map(activity => (
+                <MenuItem key={activity} value={activity}>{FALL_ACTIVITY_LABELS[activity]}</MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          <FormControl fullWidth margin="normal" required>
+            <InputLabel id="fall-footwear-label">Footwear</InputLabel>
+            <Select
+              labelId="fall-footwear-label"
+              label="Footwear"
+              value={value.footwear}
+              onChange={(e) => update({ footwear: e.target.value as Footwear })}
+            >
+              {(Object.keys(FOOTWEAR_LABELS) as Footwear[]).map(footwear => (
+                <MenuItem key={footwear} value={footwear}>{FOOTWEAR_LABELS[footwear]}</MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+        </Stack>
+
+        <Stack direction="row" spacing={2} sx={{ mt: 1 }}>
+          <FormControlLabel
+            control={<Switch checked={value.witnessed} onChange={(e) => updateHeadInjuryRisk({ witnessed: e.target.checked })} />}
+            label="Fall was witnessed"
+          />
+          <FormControlLabel
+            control={<Switch checked={value.head_strike} onChange={(e) => updateHeadInjuryRisk({ head_strike: e.target.checked })} />}
+            label="Hit head (known or suspected)"
+          />
+        </Stack>
+
+        <FormControl fullWidth margin="normal" required>
+          <InputLabel id="neuro-protocol-label">Post-fall Neuro Checks</InputLabel>
+          <Select
+            labelId="neuro-protocol-label"
+            label="Post-fall Neuro Checks"
+            value={value.neuro_check_protocol}
+            onChange={(e) => update({ neuro_check_protocol: e.target.value as NeuroCheckProtocol })}
+          >
+            {(Object.keys(NEURO_CHECK_PROTOCOL_LABELS) as NeuroCheckProtocol[]).map(protocol => (
+              <MenuItem key={protocol} value={protocol}>{NEURO_CHECK_PROTOCOL_LABELS[protocol]}</MenuItem>
+            ))}
+          </Select>
+          <FormHelperText>
+            {checkTimes.length > 0
+              ? `${checkTimes.length} checks: ${checkTimes.map(time => format(time, 'EEE p')).join(', ')}`
+              : value.neuro_check_protocol === 'NONE'
+                ? 'Unwitnessed falls and head strikes normally need neuro checks.'
+                : 'Enter the time of the fall to see the check schedule.'}
+          </FormHelperText>
+        </FormControl>
+
+        <Typography variant="subtitle2" sx={{ mt: 2, mb: 1 }}>Injury Sites</Typography>
+        <BodyMap value={value.injury_sites} onChange={(injury_sites) => update({ injury_sites })} />
+      </Box>
+    </LocalizationProvider>
+  );
+}
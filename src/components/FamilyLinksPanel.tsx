@@ -0,0 +1,188 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import {
+  Button,
+  CircularProgress,
+  FormControl,
+  IconButton,
+  InputLabel,
+  List,
+  ListItem,
+  ListItemText,
+  MenuItem,
+  Select,
+  Stack,
+  TextField,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import LinkOffIcon from '@mui/icons-material/LinkOff';
+import Link from 'next/link';
+import toast from 'react-hot-toast';
+import { supabase } from '@/lib/supabase/client';
+import { useAuth } from '@/lib/hooks/useAuth';
+import { FamilyLinkService, FamilyResidentLink } from '@/lib/services/FamilyLinkService';
+import { ACTIVE_RESIDENT_STATUSES } from '@/lib/services/ResidentAdtService';
+
+interface FamilyLinksPanelProps {
+  familyProfileId: string;
+}
+
+type ResidentOption = {
+  id: string;
+  profiles: { full_name: string | null } | null;
+};
+
+// Residents a family member is linked to; admins and staff can link and unlink them
+export default function FamilyLinksPanel({ familyProfileId }: FamilyLinksPanelProps) {
+  const { profile } = useAuth();
+  const canManage = profile?.role === 'ADMIN' || profile?.role === 'STAFF';
+  const [links, setLinks] = useState<FamilyResidentLink[]>([]);
+  const [residents, setResidents] = useState<ResidentOption[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [residentId, setResidentId] = useState('');
+  const [relationship, setRelationship] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [removingId, setRemovingId] = useState<string | null>(null);
+
+  const loadLinks = async () => {
+    setLoading(true);
+    try {
+      setLinks(await FamilyLinkService.fetchLinks(supabase, familyProfileId));
+    } catch (err) {
+      console.error('Error loading family links:', err);
+      toast.error(`Failed to load linked residents: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadLinks();
+  }, [familyProfileId]);
+
+  useEffect(() => {
+    if (!canManage) return;
+    const fetchResidents = async () => {
+      const { data, error } = await supabase
+        .from('residents')
+        .select('id, profiles(full_name)')
+        .in('status', ACTIVE_RESIDENT_STATUSES);
+      if (error) {
+        console.error('Error loading residents:', error);
+        toast.error('Could not load residents to link.');
+        return;
+      }
+      setResidents((data as unknown as ResidentOption[]) || []);
+    };
+    fetchResidents();
+  }, [canManage]);
+
+  const linkedResidentIds = new Set(links.map(link => link.resident_id));
+  const availableResidents = residents.filter(resident => !linkedResidentIds.has(resident.id));
+
+  const handleLink = async () => {
+    if (!residentId) return;
+    setIsSaving(true);
+    try {
+      await FamilyLinkService.linkResident(supabase, familyProfileId, residentId, relationship);
+      toast.success('Resident linked.');
+      setResidentId('');
+      setRelationship('');
+      loadLinks();
+    } catch (err) {
+      console.error('Error linking resident:', err);
+      toast.error(`Failed to link resident: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleUnlink = async (link: FamilyResidentLink) => {
+    const residentName = link.residents?.profiles?.full_name || 'this resident';
+    if (!window.confirm(`Unlink ${residentName}? This family member will no longer receive their alerts.`)) return;
+    setRemovingId(link.id);
+    try {
+      await FamilyLinkService.unlinkResident(supabase, link.id);
+      toast.success('Resident unlinked.');
+      loadLinks();
+    } catch (err) {
+      console.error('Error unlinking resident:', err);
+      toast.error(`Failed to unlink resident: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setRemovingId(null);
+    }
+  };
+
+  return (
+    <>
+      <Typography variant="h6" sx={{ mb: 1 }}>Linked Residents</Typography>
+
+      {loading && links.length === 0 ? (
+        <CircularProgress size={20} />
+      ) : links.length === 0 ? (
+        <Typography variant="body2" color="text.secondary">Not linked to any residents.</Typography>
+      ) : (
+        <List dense>
+          {links.map(link => (
+            <ListItem
+              key={link.id}
+              disableGutters
+              secondaryAction={canManage && (
+                <Tooltip title="Unlink">
+                  <span>
+                    <IconButton edge="end" size="small" onClick={() => handleUnlink(link)} disabled={removingId === link.id}>
+                      {removingId === link.id ? <CircularProgress size={18} /> : <LinkOffIcon fontSize="small" />}
+                    </IconButton>
+                  </span>
+                </Tooltip>
+              )}
+            >
+              <ListItemText
+                primary={link.residents?.profiles ? (
+                  <Link href={`/dashboard/profile/${link.residents.profiles.id}`} style={{ color: 'inherit' }}>
+                    {link.residents.profiles.full_name || 'Unnamed resident'}
+                  </Link>
+                ) : 'Unknown resident'}
+                secondary={link.relationship || 'Relationship not recorded'}
+              />
+            </ListItem>
+          ))}
+        </List>
+      )}
+
+      {canManage && (
+        <Stack direction={{ xs: 'column', sm: 'row' }} spacing={2} alignItems={{ sm: 'center' }} sx={{ mt: 2 }}>
+          <FormControl size="small" sx={{ minWidth: 220 }}>
+            <InputLabel id="family-link-resident-label">Resident</InputLabel>
+            <Select
+              labelId="family-link-resident-label"
+              label="Resident"
+              value={residentId}
+              onChange={(event) => setResidentId(event.target.value)}
+              disabled={isSaving || availableResidents.length === 0}
+            >
+              {availableResidents.map(resident => (
+                <MenuItem key={resident.id} value={resident.id}>
+                  {resident.profiles?.full_name || `Resident ID: ${resident.id}`}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          <TextField
+            size="small"
+            label="Relationship"
+            placeholder="e.g. Daughter"
+            value={relationship}
+            onChange={(event) => setRelationship(event.target.value)}
+            disabled={isSaving}
+          />
+          <Button variant="contained" onClick={handleLink} disabled={isSaving || !residentId}>
+            {isSaving ? <CircularProgress size={24} /> : 'Link Resident'}
+          </Button>
+        </Stack>
+      )}
+    </>
+  );
+}
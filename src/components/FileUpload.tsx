@@ -15,12 +15,14 @@ import {
 import UploadFileIcon from '@mui/icons-material/UploadFile';
 
 interface FileUploadProps {
-  residentId: string;
+  folder: string; // Files are stored at {folder}/{file name}, e.g. a resident or incident ID
   bucketName: string;
   onUploadSuccess: () => void;
+  accept?: string; // Passed to the file input, e.g. "image/*,application/pdf"
+  upsert?: boolean; // Replace a file with the same name; needs an UPDATE policy on the bucket
 }
 
-export default function FileUpload({ residentId, bucketName, onUploadSuccess }: FileUploadProps) {
+export default function FileUpload({ folder, bucketName, onUploadSuccess, accept, upsert = true }: FileUploadProps) {
   const [uploading, setUploading] = useState(false);
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [error, setError] = useState<string | null>(null);
@@ -41,21 +43,21 @@ export default function FileUpload({ residentId, bucketName, onUploadSuccess }:
       setError('Please select a file first.');
       return;
     }
-    if (!residentId) {
-      setError('Resident ID is missing.');
+    if (!folder) {
+      setError('Upload folder is missing.');
       return;
     }
 
     setUploading(true);
     setError(null);
-    const filePath = `${residentId}/${selectedFile.name}`;
+    const filePath = `${folder}/${selectedFile.name}`;
     console.log('Auth state before upload:', await supabase.auth.getSession());
     try {
       const { error: uploadError } = await supabase.storage
         .from(bucketName)
         .upload(filePath, selectedFile, {
           cacheControl: '3600',
-          upsert: true,
+          upsert,
         });
 
       if (uploadError) {
@@ -93,6 +95,7 @@ export default function FileUpload({ residentId, bucketName, onUploadSuccess }:
           Choose File
           <Input
             type="file"
+            inputProps={{ accept }}
             onChange={handleFileChange}
             sx={{ display: 'none' }}
             disabled={uploading}
@@ -0,0 +1,139 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import {
+  Box,
+  CircularProgress,
+  IconButton,
+  Stack,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import DeleteIcon from '@mui/icons-material/Delete';
+import InsertDriveFileIcon from '@mui/icons-material/InsertDriveFile';
+import { format } from 'date-fns';
+import toast from 'react-hot-toast';
+import { supabase } from '@/lib/supabase/client';
+import FileUpload from '@/components/FileUpload';
+import {
+  INCIDENT_ATTACHMENT_ACCEPT,
+  INCIDENT_ATTACHMENTS_BUCKET,
+  IncidentAttachment,
+  IncidentAttachmentService,
+} from '@/lib/services/IncidentAttachmentService';
+
+interface IncidentAttachmentsPanelProps {
+  incidentId: string;
+}
+
+const THUMBNAIL_SIZE = 96;
+
+// Scene photos and scanned forms for an incident, shown as thumbnails; uploads and removals are saved immediately
+export default function IncidentAttachmentsPanel({ incidentId }: IncidentAttachmentsPanelProps) {
+  const [attachments, setAttachments] = useState<IncidentAttachment[]>([]);
+  const [urls, setUrls] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(false);
+  const [removing, setRemoving] = useState<string | null>(null);
+
+  const loadAttachments = async () => {
+    setLoading(true);
+    try {
+      const files = await IncidentAttachmentService.list(supabase, incidentId);
+      setAttachments(files);
+      setUrls(await IncidentAttachmentService.createSignedUrls(supabase, files));
+    } catch (err) {
+      console.error('Error loading incident attachments:', err);
+      toast.error(`Failed to load attachments: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    setAttachments([]);
+    setUrls({});
+    loadAttachments();
+  }, [incidentId]);
+
+  const handleRemove = async (attachment: IncidentAttachment) => {
+    if (!window.confirm(`Remove "${attachment.name}" from this incident?`)) return;
+    setRemoving(attachment.path);
+    try {
+      await IncidentAttachmentService.remove(supabase, attachment);
+      toast.success('Attachment removed.');
+      await loadAttachments();
+    } catch (err) {
+      console.error('Error removing incident attachment:', err);
+      toast.error(`Failed to remove attachment: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setRemoving(null);
+    }
+  };
+
+  return (
+    <Box>
+      <Typography variant="subtitle2" gutterBottom>Attachments</Typography>
+      {loading && attachments.length === 0 ? (
+        <CircularProgress size={20} />
+      ) : attachments.length === 0 ? (
+        <Typography variant="body2" color="text.secondary">No photos or documents attached.</Typography>
+      ) : (
+        <Stack direction="row" spacing={1.5} useFlexGap flexWrap="wrap" sx={{ mt: 1 }}>
+          {attachments.map(attachment => {
+            const url = urls[attachment.path];
+            return (
+              <Box key={attachment.path} sx={{ width: THUMBNAIL_SIZE, position: 'relative' }}>
+                <Box
+                  component="a"
+                  href={url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  sx={{
+                    display: 'flex',
+                    alignItems: 'center',
+                    justifyContent: 'center',
+                    width: THUMBNAIL_SIZE,
+                    height: THUMBNAIL_SIZE,
+                    border: '1px solid',
+                    borderColor: 'divider',
+                    borderRadius: 1,
+                    overflow: 'hidden',
+                    bgcolor: 'action.hover',
+                  }}
+                >
+                  {IncidentAttachmentService.isImage(attachment) && url ? (
+                    <Box component="img" src={url} alt={attachment.name} sx={{ width: '100%', height: '100%', objectFit: 'cover' }} />
+                  ) : (
+                    <InsertDriveFileIcon color="action" fontSize="large" />
+                  )}
+                </Box>
+                <Tooltip title={`${attachment.name} (${IncidentAttachmentService.formatSize(attachment.size)}${attachment.created_at ? `, ${format(new Date(attachment.created_at), 'Pp')}` : ''})`}>
+                  <Typography variant="caption" noWrap display="block">{attachment.name}</Typography>
+                </Tooltip>
+                <IconButton
+                  size="small"
+                  aria-label={`Remove ${attachment.name}`}
+                  onClick={() => handleRemove(attachment)}
+                  disabled={removing !== null}
+                  sx={{ position: 'absolute', top: 2, right: 2, bgcolor: 'background.paper', '&:hover': { bgcolor: 'background.paper' } }}
+                >
+                  {removing === attachment.path ? <CircularProgress size={16} /> : <DeleteIcon fontSize="small" />}
+                </IconButton>
+              </Box>
+            );
+          })}
+        </Stack>
+      )}
+
+      <Box sx={{ mt: 2 }}>
+        <FileUpload
+          folder={incidentId}
+          bucketName={INCIDENT_ATTACHMENTS_BUCKET}
+          accept={INCIDENT_ATTACHMENT_ACCEPT}
+          upsert={false}
+          onUploadSuccess={loadAttachments}
+        />
+      </Box>
+    </Box>
+  );
+}
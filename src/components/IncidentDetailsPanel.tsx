@@ -0,0 +1,301 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import {
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Divider,
+  FormControl,
+  InputLabel,
+  MenuItem,
+  Select,
+  Stack,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { DatePicker } from '@mui/x-date-pickers/DatePicker';
+import { LocalizationProvider } from '@mui/x-date-pickers/LocalizationProvider';
+import { AdapterDateFns } from '@mui/x-date-pickers/AdapterDateFnsV3';
+import { addDays, format } from 'date-fns';
+import toast from 'react-hot-toast';
+import { supabase } from '@/lib/supabase/client';
+import { useAuth } from '@/lib/hooks/useAuth';
+import { IncidentDetails, IncidentDetailService } from '@/lib/services/IncidentDetailService';
+
+type ResidentOption = {
+  id: string; // Resident ID
+  room_number: string | null;
+  profiles: { full_name: string | null } | null;
+};
+
+type StaffOrAdminProfile = {
+  id: string; // Profile ID
+  full_name: string | null;
+  email: string | null;
+};
+
+interface IncidentDetailsPanelProps {
+  incidentId: string;
+  primaryResidentId: string; // Already on the incident, so not offered as an involved party
+  residents: ResidentOption[];
+  staff: StaffOrAdminProfile[];
+}
+
+const EMPTY_DETAILS: IncidentDetails = { parties: [], statements: [], actions: [] };
+
+// Involved parties, witness statements and follow-up actions; each change is saved as it is made
+export default function IncidentDetailsPanel({ incidentId, primaryResidentId, residents, staff }: IncidentDetailsPanelProps) {
+  const { user } = useAuth();
+  const [details, setDetails] = useState<IncidentDetails>(EMPTY_DETAILS);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  // Involved party form; values are "resident:<id>" or "staff:<id>"
+  const [party, setParty] = useState('');
+  const [involvement, setInvolvement] = useState('');
+
+  // Witness statement form
+  const [witnessId, setWitnessId] = useState('');
+  const [statement, setStatement] = useState('');
+
+  // Follow-up action form
+  const [actionDescription, setActionDescription] = useState('');
+  const [actionOwnerId, setActionOwnerId] = useState('');
+  const [actionDueDate, setActionDueDate] = useState<Date | null>(addDays(new Date(), 7));
+  const [completionNotes, setCompletionNotes] = useState<Record<string, string>>({});
+
+  const loadDetails = async () => {
+    setLoading(true);
+    try {
+      setDetails(await IncidentDetailService.fetchDetails(supabase, incidentId));
+    } catch (err) {
+      console.error('Error loading incident details:', err);
+      toast.error(`Failed to load incident details: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    setDetails(EMPTY_DETAILS);
+    loadDetails();
+  }, [incidentId]);
+
+  // Runs a change and reloads; returns whether it succeeded so forms can be cleared
+  const save = async (action: () => Promise<void>, successMessage: string): Promise<boolean> => {
+    if (!user) {
+      toast.error('You must be signed in to change an incident.');
+      return false;
+    }
+    setSaving(true);
+    try {
+      await action();
+      toast.success(successMessage);
+      await loadDetails();
+      return true;
+    } catch (err) {
+      console.error('Error saving incident details:', err);
+      toast.error(`Failed to save: ${err instanceof Error ? err.message : String(err)}`);
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAddParty = async () => {
+    const [kind, id] = party.split(':');
+    const newParty = kind === 'resident' ? { resident_id: id } : { profile_id: id };
+    if (await save(() => IncidentDetailService.addParty(supabase, incidentId, newParty, involvement, user!.id), 'Involved party added.')) {
+      setParty('');
+      setInvolvement('');
+    }
+  };
+
+  const handleAddStatement = async () => {
+    if (await save(() => IncidentDetailService.addStatement(supabase, incidentId, witnessId, statement, user!.id), 'Witness statement recorded.')) {
+      setWitnessId('');
+      setStatement('');
+    }
+  };
+
+  const handleAddAction = async () => {
+    if (!actionDueDate) return;
+    if (await save(() => IncidentDetailService.addAction(supabase, incidentId, actionDescription, actionOwnerId, actionDueDate, user!.id), 'Follow-up action added.')) {
+      setActionDescription('');
+      setActionOwnerId('');
+      setActionDueDate(addDays(new Date(), 7));
+    }
+  };
+
+  const involvedResidentIds = details.parties.map(p => p.resident_id);
+  const involvedStaffIds = details.parties.map(p => p.profile_id);
+  const residentOptions = residents.filter(res => res.id !== primaryResidentId && !involvedResidentIds.includes(res.id));
+  const staffOptions = staff.filter(member => !involvedStaffIds.includes(member.id));
+  const staffName = (member: StaffOrAdminProfile) => member.full_name || member.email || 'Unknown';
+
+  if (loading && details === EMPTY_DETAILS) {
+    return <CircularProgress size={20} />;
+  }
+
+  return (
+    <LocalizationProvider dateAdapter={AdapterDateFns}>
+      <Box>
+        {/* Involved parties */}
+        <Typography variant="subtitle2">Involved Parties</Typography>
+        {details.parties.length === 0 ? (
+          <Typography variant="body2" color="text.secondary">No one else recorded as involved.</Typography>
+        ) : (
+          <Stack direction="row" spacing={1} useFlexGap flexWrap="wrap" sx={{ mt: 1 }}>
+            {details.parties.map(p => {
+              const name = p.resident_id
+                ? `${p.residents?.profiles?.full_name || 'Unknown resident'} (resident)`
+                : `${p.profiles?.full_name || 'Unknown'} (staff)`;
+              return (
+                <Chip
+                  key={p.id}
+                  label={p.involvement ? `${name}: ${p.involvement}` : name}
+                  onDelete={saving ? undefined : () => save(() => IncidentDetailService.removeParty(supabase, p.id), 'Involved party removed.')}
+                  size="small"
+                />
+              );
+            })}
+          </Stack>
+        )}
+        <Stack direction="row" spacing={1} alignItems="center" sx={{ mt: 1 }}>
+          <FormControl size="small" sx={{ minWidth: 200 }}>
+            <InputLabel id="party-select-label">Person</InputLabel>
+            <Select labelId="party-select-label" label="Person" value={party} onChange={(e) => setParty(e.target.value)}>
+              {residentOptions.map(res => (
+                <MenuItem key={res.id} value={`resident:${res.id}`}>
+                  {res.profiles?.full_name || 'Unknown'} (Resident{res.room_number ? `, Room ${res.room_number}` : ''})
+                </MenuItem>
+              ))}
+              {staffOptions.map(member => (
+                <MenuItem key={member.id} value={`staff:${member.id}`}>{staffName(member)} (Staff)</MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          <TextField size="small" label="Involvement" value={involvement} onChange={(e) => setInvolvement(e.target.value)} sx={{ flexGrow: 1 }} />
+          <Button onClick={handleAddParty} disabled={saving || !party}>Add</Button>
+        </Stack>
+
+        <Divider sx={{ my: 2 }} />
+
+        {/* Witness statements */}
+        <Typography variant="subtitle2">Witness Statements</Typography>
+        {details.statements.length === 0 ? (
+          <Typography variant="body2" color="text.secondary">No statements recorded.</Typography>
+        ) : (
+          <Stack spacing={1} sx={{ mt: 1 }}>
+            {details.statements.map(s => (
+              <Box key={s.id}>
+                <Typography variant="body2">
+                  <strong>{s.witness_profile?.full_name || 'Unknown'}</strong>, {format(new Date(s.created_at), 'Pp')}
+                  {s.recorded_by !== s.witness_id && ` (recorded by ${s.recorded_by_profile?.full_name || 'Unknown'})`}
+                </Typography>
+                <Typography variant="body2" color="text.secondary" sx={{ whiteSpace: 'pre-wrap' }}>{s.statement}</Typography>
+              </Box>
+            ))}
+          </Stack>
+        )}
+        <FormControl size="small" fullWidth sx={{ mt: 1 }}>
+          <InputLabel id="witness-select-label">Witness</InputLabel>
+          <Select labelId="witness-select-label" label="Witness" value={witnessId} onChange={(e) => setWitnessId(e.target.value)}>
+            {staff.map(member => (
+              <MenuItem key={member.id} value={member.id}>{staffName(member)}</MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+        <TextField
+          size="small"
+          label="Statement"
+          value={statement}
+          onChange={(e) => setStatement(e.target.value)}
+          fullWidth
+          multiline
+          rows={3}
+          margin="dense"
+        />
+        <Button onClick={handleAddStatement} disabled={saving || !witnessId || !statement.trim()}>Record Statement</Button>
+
+        <Divider sx={{ my: 2 }} />
+
+        {/* Follow-up actions */}
+        <Typography variant="subtitle2">Follow-up Actions</Typography>
+        {details.actions.length === 0 ? (
+          <Typography variant="body2" color="text.secondary">No follow-up actions.</Typography>
+        ) : (
+          <Stack spacing={1} sx={{ mt: 1 }}>
+            {details.actions.map(action => (
+              <Box key={action.id}>
+                <Stack direction="row" spacing={1} alignItems="center">
+                  <Typography variant="body2" sx={{ flexGrow: 1 }}>
+                    {action.description}
+                    <Typography component="span" variant="caption" color="text.secondary">
+                      {' '}{action.owner_profile?.full_name || 'Unknown'}, due {format(new Date(`${action.due_date}T00:00:00`), 'PP')}
+                    </Typography>
+                  </Typography>
+                  {action.completed_at ? (
+                    <Chip label={`Done ${format(new Date(action.completed_at), 'PP')}`} color="success" size="small" />
+                  ) : IncidentDetailService.isOverdue(action) ? (
+                    <Chip label="Overdue" color="error" size="small" />
+                  ) : (
+                    <Chip label="Open" size="small" />
+                  )}
+                </Stack>
+                {action.completion_notes && (
+                  <Typography variant="caption" color="text.secondary">{action.completion_notes}</Typography>
+                )}
+                {!action.completed_at && (
+                  <Stack direction="row" spacing={1} alignItems="center" sx={{ mt: 0.5 }}>
+                    <TextField
+                      size="small"
+                      label="Completion notes"
+                      value={completionNotes[action.id] || ''}
+                      onChange={(e) => setCompletionNotes(prev => ({ ...prev, [action.id]: e.target.value }))}
+                      sx={{ flexGrow: 1 }}
+                    />
+                    <Button
+                      size="small"
+                      disabled={saving}
+                      onClick={() => save(() => IncidentDetailService.completeAction(supabase, action.id, user!.id, completionNotes[action.id] || ''), 'Follow-up action completed.')}
+                    >
+                      Complete
+                    </Button>
+                  </Stack>
+                )}
+              </Box>
+            ))}
+          </Stack>
+        )}
+        <TextField
+          size="small"
+          label="Action"
+          value={actionDescription}
+          onChange={(e) => setActionDescription(e.target.value)}
+          fullWidth
+          margin="dense"
+        />
+        <Stack direction="row" spacing={1} alignItems="center">
+          <FormControl size="small" sx={{ minWidth: 200 }}>
+            <InputLabel id="action-owner-select-label">Owner</InputLabel>
+            <Select labelId="action-owner-select-label" label="Owner" value={actionOwnerId} onChange={(e) => setActionOwnerId(e.target.value)}>
+              {staff.map(member => (
+                <MenuItem key={member.id} value={member.id}>{staffName(member)}</MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          <DatePicker
+            label="Due"
+            value={actionDueDate}
+            onChange={setActionDueDate}
+            slotProps={{ textField: { size: 'small' } }}
+          />
+          <Button onClick={handleAddAction} disabled={saving || !actionDescription.trim() || !actionOwnerId || !actionDueDate}>Add</Button>
+        </Stack>
+      </Box>
+    </LocalizationProvider>
+  );
+}
@@ -0,0 +1,55 @@
+'use client';
+
+import { Chip, ChipProps, Tooltip } from '@mui/material';
+import { format } from 'date-fns';
+import { MarService, MarSlot, MarSlotStatus, MedicationLogEntry } from '@/lib/services/MarService';
+
+const STATUS_COLORS: Record<MarSlotStatus, ChipProps['color']> = {
+  GIVEN: 'success',
+  MISSED: 'error',
+  REFUSED: 'warning',
+  OVERDUE: 'error',
+  DUE: 'info',
+  UPCOMING: 'default',
+};
+
+// One line per entry: what was logged, then each correction or void made to it
+const describeEntry = (entry: MedicationLogEntry) => {
+  const lines = [`Logged ${entry.status} at ${format(new Date(entry.administered_at), 'p')}${entry.notes ? ` — ${entry.notes}` : ''}`];
+  [...(entry.medication_log_corrections || [])]
+    .sort((a, b) => a.created_at.localeCompare(b.created_at) || a.id.localeCompare(b.id))
+    .forEach(correction => {
+      lines.push(correction.action === 'VOID'
+        ? `Voided ${format(new Date(correction.created_at), 'Pp')}: ${correction.reason}`
+        : `Corrected to ${correction.status} ${format(new Date(correction.created_at), 'Pp')}: ${correction.reason}`);
+    });
+  return lines;
+};
+
+interface MarSlotChipProps {
+  slot: MarSlot;
+  onClick?: () => void;
+}
+
+export default function MarSlotChip({ slot, onClick }: MarSlotChipProps) {
+  const time = format(slot.scheduledAt, 'p');
+  const history = slot.entries.flatMap(describeEntry);
+  const isAmended = slot.entries.some(entry => MarService.getLatestCorrection(entry));
+  const tooltip = history.length > 0
+    ? <span style={{ whiteSpace: 'pre-line' }}>{history.join('\n')}</span>
+    : `${slot.status} — ${slot.dosage} scheduled ${time}`;
+
+  return (
+    <Tooltip title={tooltip}>
+      <Chip
+        // An asterisk marks slots whose record has been corrected or voided
+        label={`${time} ${slot.status}${isAmended ? '*' : ''}`}
+        size="small"
+        color={STATUS_COLORS[slot.status]}
+        // Unlogged slots are outlined so they stand out from completed ones
+        variant={slot.log ? 'filled' : 'outlined'}
+        onClick={onClick}
+      />
+    </Tooltip>
+  );
+}
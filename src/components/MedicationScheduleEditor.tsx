@@ -0,0 +1,231 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  Box,
+  Button,
+  Chip,
+  FormControl,
+  FormHelperText,
+  IconButton,
+  InputLabel,
+  MenuItem,
+  Paper,
+  Select,
+  Stack,
+  TextField,
+  ToggleButton,
+  ToggleButtonGroup,
+  Typography,
+} from '@mui/material';
+import DeleteIcon from '@mui/icons-material/Delete';
+import AddIcon from '@mui/icons-material/Add';
+import {
+  MedicationSchedule,
+  MedicationScheduleService,
+  ScheduleType,
+  SCHEDULE_TYPE_LABELS,
+  TaperingStep,
+  WEEKDAY_LABELS,
+} from '@/lib/services/MedicationScheduleService';
+
+// --- Times of day list (chips + time input, same pattern as medical conditions) ---
+interface TimeListFieldProps {
+  label: string;
+  times: string[];
+  onChange: (times: string[]) => void;
+}
+
+function TimeListField({ label, times, onChange }: TimeListFieldProps) {
+  const [timeInput, setTimeInput] = useState('');
+
+  const handleAdd = () => {
+    if (timeInput && !times.includes(timeInput)) {
+      onChange([...times, timeInput].sort());
+    }
+    setTimeInput('');
+  };
+
+  return (
+    <Box sx={{ mt: 1 }}>
+      <Stack direction="row" spacing={1} alignItems="center">
+        <TextField
+          label={label}
+          type="time"
+          size="small"
+          value={timeInput}
+          onChange={(e) => setTimeInput(e.target.value)}
+          InputLabelProps={{ shrink: true }}
+        />
+        <Button size="small" onClick={handleAdd} disabled={!timeInput}>Add</Button>
+      </Stack>
+      <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5, mt: 1 }}>
+        {times.map(time => (
+          <Chip key={time} label={time} size="small" onDelete={() => onChange(times.filter(t => t !== time))} />
+        ))}
+      </Box>
+    </Box>
+  );
+}
+
+// --- Main editor ---
+interface MedicationScheduleEditorProps {
+  value: MedicationSchedule;
+  onChange: (schedule: MedicationSchedule) => void;
+  error?: string;
+}
+
+export default function MedicationScheduleEditor({ value, onChange, error }: MedicationScheduleEditorProps) {
+  const handleTypeChange = (type: ScheduleType) => {
+    if (type !== value.type) {
+      onChange(MedicationScheduleService.defaultSchedule(type));
+    }
+  };
+
+  const updateStep = (steps: TaperingStep[], index: number, patch: Partial<TaperingStep>) =>
+    steps.map((step, i) => (i === index ? { ...step, ...patch } : step));
+
+  return (
+    <Paper variant="outlined" sx={{ p: 2, mt: 2, mb: 1 }}>
+      <Typography variant="subtitle2" gutterBottom>Schedule</Typography>
+
+      <FormControl fullWidth margin="dense" size="small">
+        <InputLabel id="schedule-type-label">Schedule Type</InputLabel>
+        <Select
+          labelId="schedule-type-label"
+          label="Schedule Type"
+          value={value.type}
+          onChange={(e) => handleTypeChange(e.target.value as ScheduleType)}
+        >
+          {(Object.keys(SCHEDULE_TYPE_LABELS) as ScheduleType[]).map(type => (
+            <MenuItem key={type} value={type}>{SCHEDULE_TYPE_LABELS[type]}</MenuItem>
+          ))}
+        </Select>
+      </FormControl>
+
+      {value.type === 'TIMES_OF_DAY' && (
+        <TimeListField label="Time of day" times={value.times} onChange={(times) => onChange({ ...value, times })} />
+      )}
+
+      {value.type === 'EVERY_N_HOURS' && (
+        <Stack direction="row" spacing={2} sx={{ mt: 1 }}>
+          <TextField
+            label="Every (hours)"
+            type="number"
+            size="small"
+            value={value.interval_hours}
+            onChange={(e) => onChange({ ...value, interval_hours: Number(e.target.value) })}
+            inputProps={{ min: 1, max: 24 }}
+          />
+          <TextField
+            label="First dose at"
+            type="time"
+            size="small"
+            value={value.first_dose_time}
+            onChange={(e) => onChange({ ...value, first_dose_time: e.target.value })}
+            InputLabelProps={{ shrink: true }}
+          />
+        </Stack>
+      )}
+
+      {value.type === 'WEEKDAYS' && (
+        <>
+          <ToggleButtonGroup
+            size="small"
+            value={value.weekdays}
+            onChange={(_, weekdays: number[]) => onChange({ ...value, weekdays: [...weekdays].sort() })}
+            sx={{ mt: 1 }}
+          >
+            {WEEKDAY_LABELS.map((label, day) => (
+              <ToggleButton key={label} value={day}>{label}</ToggleButton>
+            ))}
+          </ToggleButtonGroup>
+          <TimeListField label="Time of day" times={value.times} onChange={(times) => onChange({ ...value, times })} />
+        </>
+      )}
+
+      {value.type === 'PRN' && (
+        <Stack direction="row" spacing={2} sx={{ mt: 1 }}>
+          <TextField
+            label="Min hours between doses"
+            type="number"
+            size="small"
+            value={value.min_interval_hours}
+            onChange={(e) => onChange({ ...value, min_interval_hours: Number(e.target.value) })}
+            inputProps={{ min: 0, step: 0.5 }}
+          />
+          <TextField
+            label="Max doses per day (optional)"
+            type="number"
+            size="small"
+            value={value.max_doses_per_day ?? ''}
+            onChange={(e) => onChange({ ...value, max_doses_per_day: e.target.value ? Number(e.target.value) : null })}
+            inputProps={{ min: 1 }}
+          />
+          <TextField
+            label="Re-check after (minutes)"
+            type="number"
+            size="small"
+            value={value.recheck_minutes ?? ''}
+            onChange={(e) => onChange({ ...value, recheck_minutes: e.target.value ? Number(e.target.value) : undefined })}
+            inputProps={{ min: 15, step: 15 }}
+          />
+        </Stack>
+      )}
+
+      {value.type === 'TAPERING' && (
+        <Box sx={{ mt: 1 }}>
+          {value.steps.map((step, index) => (
+            <Paper key={index} variant="outlined" sx={{ p: 1.5, mb: 1 }}>
+              <Stack direction="row" spacing={1} alignItems="center">
+                <Typography variant="caption" sx={{ minWidth: 48 }}>Step {index + 1}</Typography>
+                <TextField
+                  label="Dosage"
+                  size="small"
+                  value={step.dosage}
+                  onChange={(e) => onChange({ ...value, steps: updateStep(value.steps, index, { dosage: e.target.value }) })}
+                />
+                <TextField
+                  label="Days"
+                  type="number"
+                  size="small"
+                  value={step.days}
+                  onChange={(e) => onChange({ ...value, steps: updateStep(value.steps, index, { days: Number(e.target.value) }) })}
+                  inputProps={{ min: 1 }}
+                  sx={{ width: 90 }}
+                />
+                <IconButton
+                  aria-label="remove step"
+                  size="small"
+                  disabled={value.steps.length === 1}
+                  onClick={() => onChange({ ...value, steps: value.steps.filter((_, i) => i !== index) })}
+                >
+                  <DeleteIcon fontSize="small" />
+                </IconButton>
+              </Stack>
+              <TimeListField
+                label="Time of day"
+                times={step.times}
+                onChange={(times) => onChange({ ...value, steps: updateStep(value.steps, index, { times }) })}
+              />
+            </Paper>
+          ))}
+          <Button
+            size="small"
+            startIcon={<AddIcon />}
+            onClick={() => {
+              const last = value.steps[value.steps.length - 1];
+              onChange({ ...value, steps: [...value.steps, { days: last.days, dosage: '', times: last.times }] });
+            }}
+          >
+            Add Step
+          </Button>
+        </Box>
+      )}
+
+      <FormHelperText error={!!error} sx={{ mt: 1 }}>
+        {error || MedicationScheduleService.describe(value)}
+      </FormHelperText>
+    </Paper>
+  );
+}
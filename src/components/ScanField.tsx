@@ -0,0 +1,46 @@
+'use client';
+
+import { useState } from 'react';
+import { InputAdornment, TextField } from '@mui/material';
+import QrCodeScannerIcon from '@mui/icons-material/QrCodeScanner';
+
+interface ScanFieldProps {
+  onScan: (value: string) => void;
+  error?: string | null;
+  helperText?: string;
+  autoFocus?: boolean;
+}
+
+// Text field for keyboard-wedge scanners, which type the code and press Enter
+export default function ScanField({ onScan, error, helperText, autoFocus = false }: ScanFieldProps) {
+  const [value, setValue] = useState('');
+
+  return (
+    <TextField
+      label="Scan Wristband / Label"
+      value={value}
+      onChange={(e) => setValue(e.target.value)}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') {
+          e.preventDefault(); // Prevent form submission on Enter
+          if (value.trim()) onScan(value);
+          setValue('');
+        }
+      }}
+      size="small"
+      fullWidth
+      margin="normal"
+      autoFocus={autoFocus}
+      autoComplete="off"
+      error={!!error}
+      helperText={error || helperText}
+      InputProps={{
+        startAdornment: (
+          <InputAdornment position="start">
+            <QrCodeScannerIcon fontSize="small" />
+          </InputAdornment>
+        ),
+      }}
+    />
+  );
+}
@@ -0,0 +1,308 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import {
+  Box,
+  Button,
+  CircularProgress,
+  Grid,
+  Stack,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  ToggleButton,
+  ToggleButtonGroup,
+  Typography,
+} from '@mui/material';
+import { useTheme } from '@mui/material/styles';
+import TuneIcon from '@mui/icons-material/Tune';
+import { DateTimePicker } from '@mui/x-date-pickers/DateTimePicker';
+import { LocalizationProvider } from '@mui/x-date-pickers/LocalizationProvider';
+import { AdapterDateFns } from '@mui/x-date-pickers/AdapterDateFnsV3';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip as ChartTooltip, ReferenceLine, ResponsiveContainer } from 'recharts';
+import { format, subDays } from 'date-fns';
+import toast from 'react-hot-toast';
+import { supabase } from '@/lib/supabase/client';
+import { useAuth } from '@/lib/hooks/useAuth';
+import VitalThresholdsDialog from '@/components/dialogs/VitalThresholdsDialog';
+import {
+  VITAL_CHART_LABELS,
+  VITAL_CHART_TYPES,
+  VITAL_LABELS,
+  VITAL_LIMITS,
+  VITAL_TYPES,
+  VITAL_UNITS,
+  VitalChart,
+  VitalSignReading,
+  VitalSignsService,
+  VitalThresholds,
+  VitalType,
+  VitalValues,
+} from '@/lib/services/VitalSignsService';
+
+interface VitalSignsPanelProps {
+  residentId: string;
+}
+
+const RANGE_DAYS = [7, 30, 90];
+
+const emptyInputs = () => VITAL_TYPES.reduce((all, type) => ({ ...all, [type]: '' }), {} as Record<VitalType, string>);
+
+// Quick entry, trend charts and recent readings for a resident's vital signs
+export default function VitalSignsPanel({ residentId }: VitalSignsPanelProps) {
+  const theme = useTheme();
+  const { user } = useAuth();
+  const [readings, setReadings] = useState<VitalSignReading[]>([]);
+  const [thresholds, setThresholds] = useState<VitalThresholds | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [rangeDays, setRangeDays] = useState(30);
+  const [chart, setChart] = useState<VitalChart>('BLOOD_PRESSURE');
+  const [inputs, setInputs] = useState<Record<VitalType, string>>(emptyInputs);
+  const [takenAt, setTakenAt] = useState<Date | null>(() => new Date());
+  const [notes, setNotes] = useState('');
+  const [errors, setErrors] = useState<Partial<Record<VitalType, string>>>({});
+  const [isSaving, setIsSaving] = useState(false);
+  const [isThresholdsOpen, setIsThresholdsOpen] = useState(false);
+
+  const loadVitals = async () => {
+    setLoading(true);
+    try {
+      const [data, limits] = await Promise.all([
+        VitalSignsService.fetchReadings(supabase, residentId, subDays(new Date(), rangeDays)),
+        VitalSignsService.fetchThresholds(supabase, residentId),
+      ]);
+      setReadings(data);
+      setThresholds(limits);
+    } catch (err) {
+      console.error('Error loading vital signs:', err);
+      toast.error(`Failed to load vital signs: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadVitals();
+  }, [residentId, rangeDays]);
+
+  const values: VitalValues = VITAL_TYPES.reduce((all, type) => ({
+    ...all,
+    [type]: inputs[type].trim() === '' ? null : Number(inputs[type]),
+  }), {} as VitalValues);
+  const hasValues = VITAL_TYPES.some(type => values[type] != null);
+
+  const handleRecord = async () => {
+    if (!user || !takenAt) {
+      toast.error('Missing required information (user or time taken).');
+      return;
+    }
+    const fieldErrors = VitalSignsService.validate(values);
+    setErrors(fieldErrors);
+    if (Object.keys(fieldErrors).length > 0) return;
+
+    setIsSaving(true);
+    try {
+      const reading = await VitalSignsService.recordReading(supabase, residentId, user.id, takenAt, values, notes);
+      if (reading.abnormal.length > 0) {
+        toast.error(`Recorded. Outside range: ${reading.abnormal.map(type => VITAL_LABELS[type]).join(', ')}. The charge nurse has been alerted.`);
+      } else {
+        toast.success('Vital signs recorded.');
+      }
+      setInputs(emptyInputs());
+      setNotes('');
+      setTakenAt(new Date());
+      loadVitals();
+    } catch (err) {
+      console.error('Error recording vital signs:', err);
+      toast.error(`Failed to record vital signs: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const inputField = (type: VitalType, label: string) => {
+    const abnormal = VitalSignsService.isAbnormal(values[type], thresholds?.[type]);
+    return (
+      <TextField
+        label={label}
+        value={inputs[type]}
+        onChange={(e) => setInputs(prev => ({ ...prev, [type]: e.target.value }))}
+        size="small"
+        type="number"
+        fullWidth
+        inputProps={{ min: VITAL_LIMITS[type].min, max: VITAL_LIMITS[type].max, step: VITAL_LIMITS[type].step }}
+        error={!!errors[type] || abnormal}
+        helperText={errors[type] || (abnormal && thresholds ? `Outside ${VitalSignsService.formatRange(thresholds[type], type)}` : VITAL_UNITS[type])}
+      />
+    );
+  };
+
+  const chartTypes = VITAL_CHART_TYPES[chart];
+  const seriesColors = [theme.palette.primary.main, theme.palette.secondary.main];
+  const chartData = [...readings]
+    .reverse()
+    .filter(reading => chartTypes.some(type => reading[type] !== null))
+    .map(reading => ({
+      time: format(new Date(reading.taken_at), 'MMM d HH:mm'),
+      abnormal: reading.abnormal,
+      ...chartTypes.reduce((all, type) => ({ ...all, [type]: reading[type] }), {}),
+    }));
+
+  const renderDot = (type: VitalType) => function VitalDot(props: { cx?: number; cy?: number; index?: number; payload?: { abnormal: VitalType[] } }) {
+    const isAbnormal = props.payload?.abnormal.includes(type);
+    return (
+      <circle
+        key={`${type}-${props.index}`}
+        cx={props.cx}
+        cy={props.cy}
+        r={isAbnormal ? 5 : 3}
+        fill={isAbnormal ? theme.palette.error.main : seriesColors[chartTypes.indexOf(type)]}
+        stroke="none"
+      />
+    );
+  };
+
+  const cell = (reading: VitalSignReading, view: VitalChart) => {
+    const abnormal = VITAL_CHART_TYPES[view].some(type => reading.abnormal.includes(type));
+    return (
+      <TableCell sx={abnormal ? { color: 'error.main', fontWeight: 600 } : undefined}>
+        {VitalSignsService.format(reading, view, false) ?? '—'}
+      </TableCell>
+    );
+  };
+
+  return (
+    <LocalizationProvider dateAdapter={AdapterDateFns}>
+      <Stack direction="row" justifyContent="space-between" alignItems="center" sx={{ mb: 1 }}>
+        <Typography variant="h6">Vital Signs</Typography>
+        <Button size="small" startIcon={<TuneIcon />} onClick={() => setIsThresholdsOpen(true)} disabled={!thresholds}>
+          Thresholds
+        </Button>
+      </Stack>
+
+      {/* Quick entry; any subset can be recorded */}
+      <Grid container spacing={1.5} sx={{ mb: 1 }}>
+        <Grid item xs={6} sm={3} md={1.5}>{inputField('systolic_bp', 'Systolic')}</Grid>
+        <Grid item xs={6} sm={3} md={1.5}>{inputField('diastolic_bp', 'Diastolic')}</Grid>
+        <Grid item xs={6} sm={3} md={1.5}>{inputField('pulse', 'Pulse')}</Grid>
+        <Grid item xs={6} sm={3} md={1.5}>{inputField('temperature', 'Temp')}</Grid>
+        <Grid item xs={6} sm={3} md={1.5}>{inputField('respiratory_rate', 'Resp')}</Grid>
+        <Grid item xs={6} sm={3} md={1.5}>{inputField('spo2', 'SpO2')}</Grid>
+        <Grid item xs={6} sm={3} md={1.5}>{inputField('blood_glucose', 'Glucose')}</Grid>
+        <Grid item xs={6} sm={3} md={1.5}>{inputField('pain_score', 'Pain')}</Grid>
+      </Grid>
+      <Stack direction={{ xs: 'column', sm: 'row' }} spacing={1.5} alignItems={{ sm: 'flex-start' }} sx={{ mb: 3 }}>
+        <DateTimePicker
+          label="Taken"
+          value={takenAt}
+          onChange={setTakenAt}
+          disableFuture
+          slotProps={{ textField: { size: 'small' } }}
+        />
+        <TextField label="Notes (Optional)" value={notes} onChange={(e) => setNotes(e.target.value)} size="small" sx={{ flexGrow: 1 }} />
+        <Button variant="contained" onClick={handleRecord} disabled={isSaving || !hasValues || !takenAt}>
+          {isSaving ? <CircularProgress size={24} /> : 'Record'}
+        </Button>
+      </Stack>
+
+      {/* Trends */}
+      <Stack direction={{ xs: 'column', md: 'row' }} justifyContent="space-between" spacing={1} sx={{ mb: 1 }}>
+        <ToggleButtonGroup size="small" exclusive value={chart} onChange={(_, value) => value && setChart(value)} sx={{ flexWrap: 'wrap' }}>
+          {(Object.keys(VITAL_CHART_LABELS) as VitalChart[]).map(view => (
+            <ToggleButton key={view} value={view}>{VITAL_CHART_LABELS[view]}</ToggleButton>
+          ))}
+        </ToggleButtonGroup>
+        <ToggleButtonGroup size="small" exclusive value={rangeDays} onChange={(_, value) => value && setRangeDays(value)}>
+          {RANGE_DAYS.map(days => (
+            <ToggleButton key={days} value={days}>{days}d</ToggleButton>
+          ))}
+        </ToggleButtonGroup>
+      </Stack>
+      {loading && readings.length === 0 ? (
+        <CircularProgress size={20} />
+      ) : chartData.length === 0 ? (
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          No {VITAL_CHART_LABELS[chart].toLowerCase()} readings in the last {rangeDays} days.
+        </Typography>
+      ) : (
+        <Box sx={{ height: 240, mb: 2 }}>
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={chartData}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="time" interval="preserveStartEnd" />
+              <YAxis domain={['auto', 'auto']} unit={chartTypes.length === 1 ? ` ${VITAL_UNITS[chartTypes[0]]}` : undefined} width={80} />
+              <ChartTooltip />
+              {chartTypes.map((type, index) => (
+                <Line
+                  key={type}
+                  type="monotone"
+                  dataKey={type}
+                  name={VITAL_LABELS[type]}
+                  stroke={seriesColors[index]}
+                  dot={renderDot(type)}
+                  connectNulls
+                />
+              ))}
+              {thresholds && chartTypes.flatMap((type, index) => (['low', 'high'] as const)
+                .filter(end => thresholds[type][end] !== null)
+                .map(end => (
+                  <ReferenceLine key={`${type}-${end}`} y={thresholds[type][end] as number} stroke={seriesColors[index]} strokeDasharray="4 4" />
+                )))}
+            </LineChart>
+          </ResponsiveContainer>
+        </Box>
+      )}
+
+      {/* Recent readings */}
+      {readings.length > 0 && (
+        <TableContainer sx={{ maxHeight: 320 }}>
+          <Table size="small" stickyHeader>
+            <TableHead>
+              <TableRow>
+                <TableCell>Taken</TableCell>
+                <TableCell>BP</TableCell>
+                <TableCell>Pulse</TableCell>
+                <TableCell>Temp</TableCell>
+                <TableCell>Resp</TableCell>
+                <TableCell>SpO2</TableCell>
+                <TableCell>Glucose</TableCell>
+                <TableCell>Pain</TableCell>
+                <TableCell>Recorded By</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {readings.map(reading => (
+                <TableRow key={reading.id}>
+                  <TableCell>
+                    {format(new Date(reading.taken_at), 'Pp')}
+                    {reading.notes && <Typography variant="caption" color="text.secondary" display="block">{reading.notes}</Typography>}
+                  </TableCell>
+                  {cell(reading, 'BLOOD_PRESSURE')}
+                  {cell(reading, 'pulse')}
+                  {cell(reading, 'temperature')}
+                  {cell(reading, 'respiratory_rate')}
+                  {cell(reading, 'spo2')}
+                  {cell(reading, 'blood_glucose')}
+                  {cell(reading, 'pain_score')}
+                  <TableCell>{reading.recorded_by_profile?.full_name || 'Unknown'}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+
+      <VitalThresholdsDialog
+        open={isThresholdsOpen}
+        onClose={() => setIsThresholdsOpen(false)}
+        onSuccess={loadVitals}
+        residentId={residentId}
+        thresholds={thresholds}
+      />
+    </LocalizationProvider>
+  );
+}
@@ -0,0 +1,321 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  FormControl,
+  InputLabel,
+  MenuItem,
+  Select,
+  Stack,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  ToggleButton,
+  ToggleButtonGroup,
+  Typography,
+} from '@mui/material';
+import { useTheme } from '@mui/material/styles';
+import { DateTimePicker } from '@mui/x-date-pickers/DateTimePicker';
+import { LocalizationProvider } from '@mui/x-date-pickers/LocalizationProvider';
+import { AdapterDateFns } from '@mui/x-date-pickers/AdapterDateFnsV3';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip as ChartTooltip, ResponsiveContainer } from 'recharts';
+import { format, subDays } from 'date-fns';
+import toast from 'react-hot-toast';
+import { supabase } from '@/lib/supabase/client';
+import { useAuth } from '@/lib/hooks/useAuth';
+import ReviewWeightFlagDialog from '@/components/dialogs/ReviewWeightFlagDialog';
+import CorrectWeightDialog from '@/components/dialogs/CorrectWeightDialog';
+import {
+  ResidentWeight,
+  WEIGHT_FLAG_STATUS_LABELS,
+  WEIGHT_LIMITS_LB,
+  WEIGHT_METHOD_LABELS,
+  WeightChangeFlag,
+  WeightMethod,
+  WeightService,
+} from '@/lib/services/WeightService';
+
+interface WeightPanelProps {
+  residentId: string;
+}
+
+// Always covers the longest change rule so the summary is complete
+const RANGE_DAYS = [180, 365, 730];
+
+// Weight entries, trend and significant-change flags for a resident
+export default function WeightPanel({ residentId }: WeightPanelProps) {
+  const theme = useTheme();
+  const { user } = useAuth();
+  const [weights, setWeights] = useState<ResidentWeight[]>([]);
+  const [flags, setFlags] = useState<WeightChangeFlag[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [rangeDays, setRangeDays] = useState(180);
+  const [weightInput, setWeightInput] = useState('');
+  const [measuredAt, setMeasuredAt] = useState<Date | null>(() => new Date());
+  const [method, setMethod] = useState<WeightMethod | ''>('');
+  const [notes, setNotes] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [flagToReview, setFlagToReview] = useState<WeightChangeFlag | null>(null);
+  const [weightToCorrect, setWeightToCorrect] = useState<ResidentWeight | null>(null);
+
+  const loadWeights = async () => {
+    setLoading(true);
+    try {
+      const [data, flagData] = await Promise.all([
+        WeightService.fetchWeights(supabase, residentId, subDays(new Date(), rangeDays)),
+        WeightService.fetchFlags(supabase, residentId),
+      ]);
+      setWeights(data);
+      setFlags(flagData);
+    } catch (err) {
+      console.error('Error loading weights:', err);
+      toast.error(`Failed to load weights: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadWeights();
+  }, [residentId, rangeDays]);
+
+  const weightLb = weightInput.trim() === '' ? null : Number(weightInput);
+  const weightError = weightLb !== null && (Number.isNaN(weightLb) || weightLb < WEIGHT_LIMITS_LB.min || weightLb > WEIGHT_LIMITS_LB.max)
+    ? `Must be ${WEIGHT_LIMITS_LB.min}–${WEIGHT_LIMITS_LB.max} lb`
+    : null;
+
+  const handleRecord = async () => {
+    if (!user || !measuredAt || weightLb === null || weightError) {
+      toast.error('Missing required information (user, weight or time measured).');
+      return;
+    }
+    setIsSaving(true);
+    try {
+      const flag = await WeightService.recordWeight(supabase, residentId, user.id, {
+        measured_at: measuredAt,
+        weight_lb: weightLb,
+        method: method || null,
+        notes,
+      });
+      if (flag) {
+        toast.error(`Weight recorded. ${WeightService.formatChange(flag.pct_change)} within ${flag.period_days} days: the dietitian has been given a review task.`);
+      } else {
+        toast.success('Weight recorded.');
+      }
+      setWeightInput('');
+      setNotes('');
+      setMeasuredAt(new Date());
+      loadWeights();
+    } catch (err) {
+      console.error('Error recording weight:', err);
+      toast.error(`Failed to record weight: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Trend and changes use weights as corrected, without voided ones; the table shows every entry
+  const effectiveWeights = weights.flatMap(weight => {
+    const effective = WeightService.getEffectiveWeight(weight);
+    return effective ? [effective] : [];
+  });
+  const changes = WeightService.getChanges(effectiveWeights);
+  const openFlags = flags.filter(flag => flag.status === 'OPEN');
+  const flaggedWeightIds = new Set(flags.map(flag => flag.weight_id));
+  const chartData = [...effectiveWeights].reverse().map(weight => ({
+    time: format(new Date(weight.measured_at), 'MMM d'),
+    weight: weight.weight_lb,
+    flagged: flaggedWeightIds.has(weight.id),
+  }));
+
+  const renderDot = (props: { cx?: number; cy?: number; index?: number; payload?: { flagged: boolean } }) => (
+    <circle
+      key={`weight-${props.index}`}
+      cx={props.cx}
+      cy={props.cy}
+      r={props.payload?.flagged ? 5 : 3}
+      fill={props.payload?.flagged ? theme.palette.error.main : theme.palette.primary.main}
+      stroke="none"
+    />
+  );
+
+  return (
+    <LocalizationProvider dateAdapter={AdapterDateFns}>
+      <Stack direction="row" justifyContent="space-between" alignItems="center" sx={{ mb: 1 }}>
+        <Typography variant="h6">Weight</Typography>
+        <Stack direction="row" spacing={1}>
+          {changes.map(change => (
+            <Chip
+              key={change.periodDays}
+              size="small"
+              label={`${change.periodDays}d: ${WeightService.formatChange(change.pctChange)}`}
+              color={change.significant ? 'error' : 'default'}
+              variant={change.significant ? 'filled' : 'outlined'}
+            />
+          ))}
+        </Stack>
+      </Stack>
+
+      {openFlags.map(flag => (
+        <Alert
+          key={flag.id}
+          severity={flag.pct_change < 0 ? 'error' : 'warning'}
+          sx={{ mb: 1 }}
+          action={<Button color="inherit" size="small" onClick={() => setFlagToReview(flag)}>Review</Button>}
+        >
+          {flag.pct_change < 0 ? 'Weight loss' : 'Weight gain'} of {Math.abs(flag.pct_change).toFixed(1)}% within {flag.period_days} days
+          (flagged {format(new Date(flag.created_at), 'PP')}
+          {flag.task?.assigned_to_profile?.full_name && `, assigned to ${flag.task.assigned_to_profile.full_name}`}).
+        </Alert>
+      ))}
+
+      {/* Quick entry */}
+      <Stack direction={{ xs: 'column', md: 'row' }} spacing={1.5} alignItems={{ md: 'flex-start' }} sx={{ my: 2 }}>
+        <TextField
+          label="Weight"
+          value={weightInput}
+          onChange={(e) => setWeightInput(e.target.value)}
+          size="small"
+          type="number"
+          inputProps={{ min: WEIGHT_LIMITS_LB.min, max: WEIGHT_LIMITS_LB.max, step: 0.1 }}
+          error={!!weightError}
+          helperText={weightError || 'lb'}
+          sx={{ width: { md: 120 } }}
+        />
+        <DateTimePicker
+          label="Measured"
+          value={measuredAt}
+          onChange={setMeasuredAt}
+          disableFuture
+          slotProps={{ textField: { size: 'small' } }}
+        />
+        <FormControl size="small" sx={{ minWidth: 170 }}>
+          <InputLabel id="weight-method-label">Scale</InputLabel>
+          <Select labelId="weight-method-label" label="Scale" value={method} onChange={(e) => setMethod(e.target.value as WeightMethod | '')}>
+            <MenuItem value="">Not recorded</MenuItem>
+            {(Object.keys(WEIGHT_METHOD_LABELS) as WeightMethod[]).map(option => (
+              <MenuItem key={option} value={option}>{WEIGHT_METHOD_LABELS[option]}</MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+        <TextField label="Notes (Optional)" value={notes} onChange={(e) => setNotes(e.target.value)} size="small" sx={{ flexGrow: 1 }} />
+        <Button variant="contained" onClick={handleRecord} disabled={isSaving || weightLb === null || !!weightError || !measuredAt}>
+          {isSaving ? <CircularProgress size={24} /> : 'Record'}
+        </Button>
+      </Stack>
+
+      {/* Trend */}
+      <Stack direction="row" justifyContent="flex-end" sx={{ mb: 1 }}>
+        <ToggleButtonGroup size="small" exclusive value={rangeDays} onChange={(_, value) => value && setRangeDays(value)}>
+          {RANGE_DAYS.map(days => (
+            <ToggleButton key={days} value={days}>{days < 365 ? `${days / 30}m` : `${days / 365}y`}</ToggleButton>
+          ))}
+        </ToggleButtonGroup>
+      </Stack>
+      {loading && weights.length === 0 ? (
+        <CircularProgress size={20} />
+      ) : effectiveWeights.length === 0 ? (
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>No weights recorded in this period.</Typography>
+      ) : (
+        <Box sx={{ height: 220, mb: 2 }}>
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={chartData}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="time" interval="preserveStartEnd" />
+              <YAxis domain={['auto', 'auto']} unit=" lb" width={70} />
+              <ChartTooltip />
+              <Line type="monotone" dataKey="weight" name="Weight (lb)" stroke={theme.palette.primary.main} dot={renderDot} />
+            </LineChart>
+          </ResponsiveContainer>
+        </Box>
+      )}
+
+      {weights.length > 0 && (
+        <TableContainer sx={{ maxHeight: 280, mb: 2 }}>
+          <Table size="small" stickyHeader>
+            <TableHead>
+              <TableRow>
+                <TableCell>Measured</TableCell>
+                <TableCell>Weight</TableCell>
+                <TableCell>Scale</TableCell>
+                <TableCell>Recorded By</TableCell>
+                <TableCell>Notes</TableCell>
+                <TableCell align="right" />
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {weights.map(weight => {
+                const effective = WeightService.getEffectiveWeight(weight);
+                const correction = WeightService.getLatestCorrection(weight);
+                return (
+                  <TableRow key={weight.id} sx={!effective ? { '& td': { color: 'text.disabled' } } : undefined}>
+                    <TableCell>{format(new Date(weight.measured_at), 'Pp')}</TableCell>
+                    <TableCell sx={effective && flaggedWeightIds.has(weight.id) ? { color: 'error.main', fontWeight: 600 } : undefined}>
+                      {!effective ? (
+                        <s>{weight.weight_lb} lb</s>
+                      ) : correction ? (
+                        <>{effective.weight_lb} lb <Typography component="span" variant="caption" color="text.secondary">(was <s>{weight.weight_lb}</s>)</Typography></>
+                      ) : (
+                        `${weight.weight_lb} lb`
+                      )}
+                    </TableCell>
+                    <TableCell>{weight.method ? WEIGHT_METHOD_LABELS[weight.method] : '—'}</TableCell>
+                    <TableCell>{weight.recorded_by_profile?.full_name || 'Unknown'}</TableCell>
+                    <TableCell>
+                      {correction ? `${correction.action === 'VOID' ? 'Voided' : 'Corrected'}: ${correction.reason}` : weight.notes || ''}
+                    </TableCell>
+                    <TableCell align="right">
+                      <Button size="small" onClick={() => setWeightToCorrect(weight)}>{effective ? 'Correct' : 'History'}</Button>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+
+      {/* Reviewed flags */}
+      {flags.some(flag => flag.status === 'REVIEWED') && (
+        <>
+          <Typography variant="subtitle2">Reviewed Changes</Typography>
+          <Stack spacing={1} sx={{ mt: 1 }}>
+            {flags.filter(flag => flag.status === 'REVIEWED').map(flag => (
+              <Box key={flag.id}>
+                <Typography variant="body2">
+                  <strong>{WeightService.formatChange(flag.pct_change)}</strong> within {flag.period_days} days, flagged {format(new Date(flag.created_at), 'PP')}
+                  {' '}<Chip label={WEIGHT_FLAG_STATUS_LABELS[flag.status]} size="small" variant="outlined" />
+                </Typography>
+                <Typography variant="caption" color="text.secondary">
+                  {flag.reviewed_at && format(new Date(flag.reviewed_at), 'PP')} by {flag.reviewed_by_profile?.full_name || 'Unknown'} - {flag.review_notes}
+                </Typography>
+              </Box>
+            ))}
+          </Stack>
+        </>
+      )}
+
+      <ReviewWeightFlagDialog
+        open={!!flagToReview}
+        onClose={() => setFlagToReview(null)}
+        onSuccess={loadWeights}
+        flag={flagToReview}
+      />
+      <CorrectWeightDialog
+        open={!!weightToCorrect}
+        onClose={() => setWeightToCorrect(null)}
+        onSuccess={loadWeights}
+        weight={weightToCorrect}
+      />
+    </LocalizationProvider>
+  );
+}
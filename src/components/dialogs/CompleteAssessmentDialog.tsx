@@ -0,0 +1,161 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { supabase } from '@/lib/supabase/client';
+import { useAuth } from '@/lib/hooks/useAuth';
+import toast from 'react-hot-toast';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  TextField,
+  CircularProgress,
+  Typography,
+  FormControl,
+  FormLabel,
+  RadioGroup,
+  FormControlLabel,
+  Radio,
+  Stack,
+  Chip,
+  Divider,
+} from '@mui/material';
+import { DateTimePicker } from '@mui/x-date-pickers/DateTimePicker';
+import { LocalizationProvider } from '@mui/x-date-pickers/LocalizationProvider';
+import { AdapterDateFns } from '@mui/x-date-pickers/AdapterDateFnsV3';
+import {
+  ASSESSMENT_SEVERITY_COLORS,
+  AssessmentAnswers,
+  AssessmentForm,
+  AssessmentService,
+  ResidentAssessment,
+} from '@/lib/services/AssessmentService';
+
+interface CompleteAssessmentDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onSuccess: (assessment: ResidentAssessment) => void;
+  residentId: string;
+  form: AssessmentForm | null;
+}
+
+const CompleteAssessmentDialog: React.FC<CompleteAssessmentDialogProps> = ({ open, onClose, onSuccess, residentId, form }) => {
+  const { user } = useAuth();
+  const [isLoading, setIsLoading] = useState(false);
+  const [answers, setAnswers] = useState<AssessmentAnswers>({});
+  const [assessedAt, setAssessedAt] = useState<Date | null>(null);
+  const [notes, setNotes] = useState('');
+
+  useEffect(() => {
+    if (open) {
+      setAnswers({});
+      setAssessedAt(new Date());
+      setNotes('');
+    }
+  }, [open, form]);
+
+  const handleSave = async () => {
+    if (!form || !user || !assessedAt) {
+      toast.error('Missing required information (user or time assessed).');
+      return;
+    }
+    setIsLoading(true);
+    try {
+      const assessment = await AssessmentService.recordAssessment(supabase, residentId, form, user.id, {
+        assessed_at: assessedAt,
+        answers,
+        notes,
+      });
+      toast.success(`${form.name} recorded: ${assessment.total_score} (${assessment.risk_band}).`);
+      onSuccess(assessment);
+      onClose();
+    } catch (err) {
+      console.error('Error recording assessment:', err);
+      toast.error(`Failed to record assessment: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleClose = () => {
+    if (!isLoading) {
+      onClose();
+    }
+  };
+
+  const result = form ? AssessmentService.score(form, answers) : null;
+
+  return (
+    <Dialog open={open} onClose={handleClose} maxWidth="md" fullWidth>
+      <DialogTitle>{form?.name || 'Assessment'}</DialogTitle>
+      <DialogContent dividers>
+        {form && (
+          <LocalizationProvider dateAdapter={AdapterDateFns}>
+            {form.description && (
+              <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>{form.description}</Typography>
+            )}
+            <DateTimePicker
+              label="Assessed"
+              value={assessedAt}
+              onChange={setAssessedAt}
+              disableFuture
+              slotProps={{ textField: { size: 'small', sx: { mb: 2 } } }}
+            />
+            {form.questions.map((question, index) => (
+              <FormControl key={question.key} fullWidth sx={{ mb: 2 }}>
+                <FormLabel id={`assessment-${question.key}`}>{index + 1}. {question.text}</FormLabel>
+                <RadioGroup
+                  row
+                  aria-labelledby={`assessment-${question.key}`}
+                  value={answers[question.key] ?? ''}
+                  onChange={(e) => setAnswers(prev => ({ ...prev, [question.key]: Number(e.target.value) }))}
+                >
+                  {question.options.map((option, optionIndex) => (
+                    <FormControlLabel
+                      key={optionIndex}
+                      value={optionIndex}
+                      control={<Radio size="small" />}
+                      label={option.label === String(option.points) ? option.label : `${option.label} (${option.points})`}
+                    />
+                  ))}
+                </RadioGroup>
+              </FormControl>
+            ))}
+            <TextField
+              label="Notes (Optional)"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              fullWidth
+              multiline
+              rows={2}
+              margin="normal"
+            />
+          </LocalizationProvider>
+        )}
+      </DialogContent>
+      <DialogActions sx={{ padding: '16px 24px' }}>
+        {form && result && (
+          <Stack direction="row" spacing={1} alignItems="center" sx={{ flexGrow: 1 }}>
+            <Typography variant="subtitle1">Score: {result.total}</Typography>
+            <Divider orientation="vertical" flexItem />
+            {result.band ? (
+              <Chip label={result.band.label} color={ASSESSMENT_SEVERITY_COLORS[result.band.severity]} size="small" />
+            ) : (
+              <Typography variant="body2" color="text.secondary">{result.answered} of {form.questions.length} answered</Typography>
+            )}
+          </Stack>
+        )}
+        <Button onClick={handleClose} disabled={isLoading} color="secondary">
+          Cancel
+        </Button>
+        <Button variant="contained" onClick={handleSave} disabled={isLoading || !result?.band || !assessedAt}>
+          {isLoading ? <CircularProgress size={24} /> : 'Save Assessment'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default CompleteAssessmentDialog;
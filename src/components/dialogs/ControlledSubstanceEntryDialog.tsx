@@ -0,0 +1,239 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { useForm, Controller } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { useAuth } from '@/lib/hooks/useAuth';
+import toast from 'react-hot-toast';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  TextField,
+  CircularProgress,
+  Typography,
+  Divider,
+} from '@mui/material';
+import {
+  ControlledMedication,
+  ControlledSubstanceService,
+  CONTROLLED_ENTRY_LABELS,
+  ManualControlledEntryType,
+} from '@/lib/services/ControlledSubstanceService';
+
+// Zod schema for validation
+const entrySchema = z.object({
+  quantity: z.coerce.number({ invalid_type_error: 'Quantity is required' }).min(0, 'Quantity cannot be negative'),
+  notes: z.string().optional(),
+  witness_email: z.string().email('Enter the witness email'),
+  witness_password: z.string().min(1, 'Witness password is required'),
+});
+
+type EntryFormData = z.infer<typeof entrySchema>;
+
+interface ControlledSubstanceEntryDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onSuccess: () => void;
+  medication: ControlledMedication | null;
+  entryType: ManualControlledEntryType;
+}
+
+const QUANTITY_LABELS: Record<ManualControlledEntryType, string> = {
+  RECEIVED: 'Quantity Received',
+  WASTED: 'Quantity Wasted',
+  DESTROYED: 'Quantity Destroyed',
+  SHIFT_COUNT: 'Quantity Counted',
+};
+
+const ControlledSubstanceEntryDialog: React.FC<ControlledSubstanceEntryDialogProps> = ({
+  open,
+  onClose,
+  onSuccess,
+  medication,
+  entryType,
+}) => {
+  const { user } = useAuth();
+  const [isLoading, setIsLoading] = useState(false);
+  const reasonRequired = entryType === 'WASTED' || entryType === 'DESTROYED';
+
+  const {
+    control,
+    handleSubmit,
+    reset,
+    setError,
+    formState: { errors },
+  } = useForm<EntryFormData>({
+    resolver: zodResolver(entrySchema),
+    defaultValues: {
+      quantity: undefined,
+      notes: '',
+      witness_email: '',
+      witness_password: '',
+    },
+  });
+
+  useEffect(() => {
+    if (!open) reset();
+  }, [open, reset]);
+
+  const onSubmit = async (data: EntryFormData) => {
+    if (!user || !medication) {
+      toast.error('Missing required information (user or medication).');
+      return;
+    }
+    if (reasonRequired && !data.notes?.trim()) {
+      setError('notes', { message: 'A reason is required' });
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const entry = await ControlledSubstanceService.submitEntry({
+        medicationId: medication.id,
+        entryType,
+        quantity: data.quantity,
+        notes: data.notes?.trim() || null,
+        witnessEmail: data.witness_email,
+        witnessPassword: data.witness_password,
+      });
+
+      if (entryType === 'SHIFT_COUNT' && Number(entry.counted_quantity) !== Number(entry.expected_quantity)) {
+        toast.error(`Count discrepancy: ${entry.expected_quantity} expected, ${entry.counted_quantity} counted. Admins have been alerted.`);
+      } else {
+        toast.success(`${CONTROLLED_ENTRY_LABELS[entryType]} recorded. On hand: ${entry.balance_after}.`);
+      }
+      reset();
+      onSuccess();
+      onClose();
+    } catch (err) {
+      console.error('Error recording controlled substance entry:', err);
+      toast.error(`Failed to record entry: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleClose = () => {
+    if (!isLoading) {
+      onClose();
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={handleClose} maxWidth="sm" fullWidth>
+      <DialogTitle>{CONTROLLED_ENTRY_LABELS[entryType]}</DialogTitle>
+      <form onSubmit={handleSubmit(onSubmit)}>
+        <DialogContent>
+          <Typography variant="subtitle1">
+            Medication: <strong>{medication ? `${medication.name} ${medication.dosage}` : 'N/A'}</strong>
+          </Typography>
+          <Typography variant="subtitle1" gutterBottom>
+            Resident: <strong>{medication?.residents?.profiles?.full_name || 'N/A'}</strong>
+          </Typography>
+          {entryType === 'SHIFT_COUNT' && (
+            <Typography variant="body2" color="text.secondary">
+              Count the stock physically before entering it; the expected quantity is compared after saving.
+            </Typography>
+          )}
+
+          <Controller
+            name="quantity"
+            control={control}
+            render={({ field }) => (
+              <TextField
+                {...field}
+                value={field.value ?? ''}
+                label={`${QUANTITY_LABELS[entryType]}${medication?.count_unit ? ` (${medication.count_unit})` : ''}`}
+                type="number"
+                variant="outlined"
+                fullWidth
+                required
+                margin="normal"
+                inputProps={{ min: 0, step: 'any' }}
+                error={!!errors.quantity}
+                helperText={errors.quantity?.message}
+              />
+            )}
+          />
+
+          <Controller
+            name="notes"
+            control={control}
+            render={({ field }) => (
+              <TextField
+                {...field}
+                label={reasonRequired ? 'Reason' : 'Notes (Optional)'}
+                variant="outlined"
+                fullWidth
+                multiline
+                rows={2}
+                required={reasonRequired}
+                margin="normal"
+                error={!!errors.notes}
+                helperText={errors.notes?.message}
+              />
+            )}
+          />
+
+          <Divider sx={{ my: 2 }} />
+          <Typography variant="subtitle2">Witness Signature</Typography>
+          <Typography variant="body2" color="text.secondary">
+            A second staff member must sign with their own credentials.
+          </Typography>
+
+          <Controller
+            name="witness_email"
+            control={control}
+            render={({ field }) => (
+              <TextField
+                {...field}
+                label="Witness Email"
+                type="email"
+                autoComplete="off"
+                variant="outlined"
+                fullWidth
+                required
+                margin="normal"
+                error={!!errors.witness_email}
+                helperText={errors.witness_email?.message}
+              />
+            )}
+          />
+
+          <Controller
+            name="witness_password"
+            control={control}
+            render={({ field }) => (
+              <TextField
+                {...field}
+                label="Witness Password"
+                type="password"
+                autoComplete="new-password"
+                variant="outlined"
+                fullWidth
+                required
+                margin="normal"
+                error={!!errors.witness_password}
+                helperText={errors.witness_password?.message}
+              />
+            )}
+          />
+        </DialogContent>
+        <DialogActions sx={{ padding: '16px 24px' }}>
+          <Button onClick={handleClose} disabled={isLoading} color="secondary">
+            Cancel
+          </Button>
+          <Button type="submit" variant="contained" disabled={isLoading}>
+            {isLoading ? <CircularProgress size={24} /> : 'Sign & Record'}
+          </Button>
+        </DialogActions>
+      </form>
+    </Dialog>
+  );
+};
+
+export default ControlledSubstanceEntryDialog;
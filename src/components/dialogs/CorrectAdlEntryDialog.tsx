@@ -0,0 +1,217 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { supabase } from '@/lib/supabase/client';
+import { useAuth } from '@/lib/hooks/useAuth';
+import toast from 'react-hot-toast';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  TextField,
+  CircularProgress,
+  Typography,
+  Divider,
+  FormControl,
+  InputLabel,
+  MenuItem,
+  Select,
+  ToggleButton,
+  ToggleButtonGroup,
+} from '@mui/material';
+import { format } from 'date-fns';
+import {
+  ADL_ACTIVITY_LABELS,
+  ADL_SELF_PERFORMANCE_CODES,
+  ADL_SELF_PERFORMANCE_LABELS,
+  ADL_SUPPORT_CODES,
+  ADL_SUPPORT_LABELS,
+  AdlEntry,
+  AdlSelfPerformance,
+  AdlService,
+  AdlSupport,
+} from '@/lib/services/AdlService';
+
+interface CorrectAdlEntryDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onSuccess: () => void;
+  entry: AdlEntry | null; // The entry as originally charted, with its corrections
+}
+
+const CorrectAdlEntryDialog: React.FC<CorrectAdlEntryDialogProps> = ({ open, onClose, onSuccess, entry }) => {
+  const { user } = useAuth();
+  const [isLoading, setIsLoading] = useState(false);
+  const [action, setAction] = useState<'CORRECT' | 'VOID'>('CORRECT');
+  const [selfPerformance, setSelfPerformance] = useState<AdlSelfPerformance | ''>('');
+  const [support, setSupport] = useState<AdlSupport | ''>('');
+  const [notes, setNotes] = useState('');
+  const [reason, setReason] = useState('');
+  const current = entry ? AdlService.getEffectiveEntry(entry) : null;
+  const corrections = [...(entry?.adl_entry_corrections || [])].sort((a, b) => a.created_at.localeCompare(b.created_at) || a.id.localeCompare(b.id));
+
+  // Start from the entry as it currently stands
+  useEffect(() => {
+    if (open && entry) {
+      const effective = AdlService.getEffectiveEntry(entry) || entry;
+      setAction('CORRECT');
+      setSelfPerformance(effective.self_performance);
+      setSupport(effective.support);
+      setNotes(effective.notes || '');
+      setReason('');
+    }
+  }, [open, entry]);
+
+  // 8 (did not occur) applies to both codes
+  const handleSelfPerformanceChange = (code: AdlSelfPerformance) => {
+    setSelfPerformance(code);
+    if (code === 8) setSupport(8);
+    else if (support === 8) setSupport('');
+  };
+
+  const handleSupportChange = (code: AdlSupport) => {
+    setSupport(code);
+    if (code === 8) setSelfPerformance(8);
+    else if (selfPerformance === 8) setSelfPerformance('');
+  };
+
+  const codesMissing = action === 'CORRECT' && (selfPerformance === '' || support === '');
+
+  const handleSave = async () => {
+    if (!user || !entry) {
+      toast.error('Missing required information (user or entry).');
+      return;
+    }
+    setIsLoading(true);
+    try {
+      await AdlService.correctEntry(supabase, entry.id, user.id, {
+        action,
+        reason,
+        codes: selfPerformance !== '' && support !== '' ? { self_performance: selfPerformance, support } : null,
+        notes,
+      });
+      toast.success(action === 'VOID' ? 'ADL entry voided.' : 'ADL entry corrected.');
+      onSuccess();
+      onClose();
+    } catch (err) {
+      console.error('Error correcting ADL entry:', err);
+      toast.error(`Failed to save correction: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleClose = () => {
+    if (!isLoading) {
+      onClose();
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={handleClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Correct {entry ? ADL_ACTIVITY_LABELS[entry.activity] : 'ADL'} Entry</DialogTitle>
+      <DialogContent>
+        {entry && (
+          <>
+            <Typography variant="body2" color="text.secondary">
+              Originally charted {AdlService.formatCodes(entry)} ({ADL_SELF_PERFORMANCE_LABELS[entry.self_performance]}; {ADL_SUPPORT_LABELS[entry.support]})
+              {' '}at {format(new Date(entry.created_at), 'Pp')}
+              {entry.recorded_by_profile?.full_name && ` by ${entry.recorded_by_profile.full_name}`}
+              {entry.notes && ` - ${entry.notes}`}
+            </Typography>
+            {corrections.map(correction => (
+              <Typography key={correction.id} variant="body2" color="text.secondary">
+                {format(new Date(correction.created_at), 'Pp')}: {correction.action === 'VOID' || correction.self_performance === null || correction.support === null
+                  ? 'Voided'
+                  : `Corrected to ${AdlService.formatCodes({ self_performance: correction.self_performance, support: correction.support })}`}
+                {correction.corrected_by_profile?.full_name && ` by ${correction.corrected_by_profile.full_name}`} — {correction.reason}
+              </Typography>
+            ))}
+          </>
+        )}
+
+        <Divider sx={{ my: 2 }} />
+
+        {!current ? (
+          <Typography color="text.secondary">This entry has been voided and can no longer be corrected.</Typography>
+        ) : (
+          <>
+            <ToggleButtonGroup
+              exclusive
+              size="small"
+              value={action}
+              onChange={(_, value) => value && setAction(value)}
+            >
+              <ToggleButton value="CORRECT">Correct</ToggleButton>
+              <ToggleButton value="VOID">Void (charted in error)</ToggleButton>
+            </ToggleButtonGroup>
+
+            {action === 'CORRECT' && (
+              <>
+                <FormControl fullWidth margin="normal" required>
+                  <InputLabel id="adl-correction-self-performance-label">Self-Performance</InputLabel>
+                  <Select
+                    labelId="adl-correction-self-performance-label"
+                    label="Self-Performance"
+                    value={selfPerformance}
+                    onChange={(e) => handleSelfPerformanceChange(e.target.value as AdlSelfPerformance)}
+                  >
+                    {ADL_SELF_PERFORMANCE_CODES.map(code => (
+                      <MenuItem key={code} value={code}>{code} - {ADL_SELF_PERFORMANCE_LABELS[code]}</MenuItem>
+                    ))}
+                  </Select>
+                </FormControl>
+                <FormControl fullWidth margin="normal" required>
+                  <InputLabel id="adl-correction-support-label">Support</InputLabel>
+                  <Select
+                    labelId="adl-correction-support-label"
+                    label="Support"
+                    value={support}
+                    onChange={(e) => handleSupportChange(e.target.value as AdlSupport)}
+                  >
+                    {ADL_SUPPORT_CODES.map(code => (
+                      <MenuItem key={code} value={code}>{code} - {ADL_SUPPORT_LABELS[code]}</MenuItem>
+                    ))}
+                  </Select>
+                </FormControl>
+                <TextField
+                  label="Notes"
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                  fullWidth
+                  margin="normal"
+                />
+              </>
+            )}
+
+            <TextField
+              label={action === 'VOID' ? 'Reason for Voiding' : 'Reason for Correction'}
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              fullWidth
+              multiline
+              rows={2}
+              margin="normal"
+              required
+              helperText="The original entry stays on the flowsheet; a voided one is struck through and the activity cannot be charted again for this shift."
+            />
+          </>
+        )}
+      </DialogContent>
+      <DialogActions sx={{ padding: '16px 24px' }}>
+        <Button onClick={handleClose} disabled={isLoading} color="secondary">
+          Cancel
+        </Button>
+        {current && (
+          <Button variant="contained" onClick={handleSave} disabled={isLoading || !reason.trim() || codesMissing}>
+            {isLoading ? <CircularProgress size={24} /> : action === 'VOID' ? 'Void Entry' : 'Save Correction'}
+          </Button>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default CorrectAdlEntryDialog;
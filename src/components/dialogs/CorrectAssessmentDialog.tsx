@@ -0,0 +1,204 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { supabase } from '@/lib/supabase/client';
+import { useAuth } from '@/lib/hooks/useAuth';
+import toast from 'react-hot-toast';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  TextField,
+  CircularProgress,
+  Typography,
+  Divider,
+  FormControl,
+  FormLabel,
+  RadioGroup,
+  FormControlLabel,
+  Radio,
+  Stack,
+  Chip,
+  ToggleButton,
+  ToggleButtonGroup,
+} from '@mui/material';
+import { format } from 'date-fns';
+import {
+  ASSESSMENT_SEVERITY_COLORS,
+  AssessmentAnswers,
+  AssessmentForm,
+  AssessmentService,
+  ResidentAssessment,
+} from '@/lib/services/AssessmentService';
+
+interface CorrectAssessmentDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onSuccess: () => void;
+  assessment: ResidentAssessment | null; // The assessment as originally recorded, with its corrections
+  form: AssessmentForm | null; // The form it was completed on
+}
+
+const CorrectAssessmentDialog: React.FC<CorrectAssessmentDialogProps> = ({ open, onClose, onSuccess, assessment, form }) => {
+  const { user } = useAuth();
+  const [isLoading, setIsLoading] = useState(false);
+  const [action, setAction] = useState<'CORRECT' | 'VOID'>('CORRECT');
+  const [answers, setAnswers] = useState<AssessmentAnswers>({});
+  const [notes, setNotes] = useState('');
+  const [reason, setReason] = useState('');
+  const current = assessment ? AssessmentService.getEffectiveAssessment(assessment) : null;
+  const corrections = [...(assessment?.resident_assessment_corrections || [])].sort((a, b) => a.created_at.localeCompare(b.created_at) || a.id.localeCompare(b.id));
+
+  // Start from the assessment as it currently stands
+  useEffect(() => {
+    if (open && assessment) {
+      const effective = AssessmentService.getEffectiveAssessment(assessment) || assessment;
+      setAction('CORRECT');
+      setAnswers(effective.answers);
+      setNotes(effective.notes || '');
+      setReason('');
+    }
+  }, [open, assessment]);
+
+  const handleSave = async () => {
+    if (!user || !assessment || !form) {
+      toast.error('Missing required information (user or assessment).');
+      return;
+    }
+    setIsLoading(true);
+    try {
+      await AssessmentService.correctAssessment(supabase, assessment.id, form, user.id, { action, reason, answers, notes });
+      toast.success(action === 'VOID' ? 'Assessment voided.' : 'Assessment corrected.');
+      onSuccess();
+      onClose();
+    } catch (err) {
+      console.error('Error correcting assessment:', err);
+      toast.error(`Failed to save correction: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleClose = () => {
+    if (!isLoading) {
+      onClose();
+    }
+  };
+
+  const result = form && action === 'CORRECT' ? AssessmentService.score(form, answers) : null;
+
+  return (
+    <Dialog open={open} onClose={handleClose} maxWidth="md" fullWidth>
+      <DialogTitle>Correct {form?.name || 'Assessment'}</DialogTitle>
+      <DialogContent dividers>
+        {assessment && (
+          <>
+            <Typography variant="body2" color="text.secondary">
+              Originally scored {assessment.total_score} ({assessment.risk_band}), assessed {format(new Date(assessment.assessed_at), 'Pp')}
+              {assessment.completed_by_profile?.full_name && ` by ${assessment.completed_by_profile.full_name}`}
+              {assessment.notes && ` - ${assessment.notes}`}
+            </Typography>
+            {corrections.map(correction => (
+              <Typography key={correction.id} variant="body2" color="text.secondary">
+                {format(new Date(correction.created_at), 'Pp')}: {correction.action === 'VOID' || correction.total_score === null
+                  ? 'Voided'
+                  : `Corrected to ${correction.total_score} (${correction.risk_band})`}
+                {correction.corrected_by_profile?.full_name && ` by ${correction.corrected_by_profile.full_name}`} — {correction.reason}
+              </Typography>
+            ))}
+          </>
+        )}
+
+        <Divider sx={{ my: 2 }} />
+
+        {!current ? (
+          <Typography color="text.secondary">This assessment has been voided and can no longer be corrected.</Typography>
+        ) : (
+          <>
+            <ToggleButtonGroup
+              exclusive
+              size="small"
+              value={action}
+              onChange={(_, value) => value && setAction(value)}
+              sx={{ mb: 2 }}
+            >
+              <ToggleButton value="CORRECT">Correct</ToggleButton>
+              <ToggleButton value="VOID">Void (entered in error)</ToggleButton>
+            </ToggleButtonGroup>
+
+            {action === 'CORRECT' && form && (
+              <>
+                {form.questions.map((question, index) => (
+                  <FormControl key={question.key} fullWidth sx={{ mb: 2 }}>
+                    <FormLabel id={`assessment-correction-${question.key}`}>{index + 1}. {question.text}</FormLabel>
+                    <RadioGroup
+                      row
+                      aria-labelledby={`assessment-correction-${question.key}`}
+                      value={answers[question.key] ?? ''}
+                      onChange={(e) => setAnswers(prev => ({ ...prev, [question.key]: Number(e.target.value) }))}
+                    >
+                      {question.options.map((option, optionIndex) => (
+                        <FormControlLabel
+                          key={optionIndex}
+                          value={optionIndex}
+                          control={<Radio size="small" />}
+                          label={option.label === String(option.points) ? option.label : `${option.label} (${option.points})`}
+                        />
+                      ))}
+                    </RadioGroup>
+                  </FormControl>
+                ))}
+                <TextField
+                  label="Notes"
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                  fullWidth
+                  multiline
+                  rows={2}
+                  margin="normal"
+                />
+              </>
+            )}
+
+            <TextField
+              label={action === 'VOID' ? 'Reason for Voiding' : 'Reason for Correction'}
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              fullWidth
+              multiline
+              rows={2}
+              margin="normal"
+              required
+              helperText="The original assessment stays in the history; a voided one no longer sets when the form is due or suggests a care level."
+            />
+          </>
+        )}
+      </DialogContent>
+      <DialogActions sx={{ padding: '16px 24px' }}>
+        {form && result && current && (
+          <Stack direction="row" spacing={1} alignItems="center" sx={{ flexGrow: 1 }}>
+            <Typography variant="subtitle1">Score: {result.total}</Typography>
+            <Divider orientation="vertical" flexItem />
+            {result.band ? (
+              <Chip label={result.band.label} color={ASSESSMENT_SEVERITY_COLORS[result.band.severity]} size="small" />
+            ) : (
+              <Typography variant="body2" color="text.secondary">{result.answered} of {form.questions.length} answered</Typography>
+            )}
+          </Stack>
+        )}
+        <Button onClick={handleClose} disabled={isLoading} color="secondary">
+          Cancel
+        </Button>
+        {current && (
+          <Button variant="contained" onClick={handleSave} disabled={isLoading || !reason.trim() || (action === 'CORRECT' && !result?.band)}>
+            {isLoading ? <CircularProgress size={24} /> : action === 'VOID' ? 'Void Assessment' : 'Save Correction'}
+          </Button>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default CorrectAssessmentDialog;
@@ -0,0 +1,282 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { useForm, Controller } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { supabase } from '@/lib/supabase/client';
+import { useAuth } from '@/lib/hooks/useAuth';
+import toast from 'react-hot-toast';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  TextField,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  FormHelperText,
+  CircularProgress,
+  Typography,
+  Divider,
+  ToggleButton,
+  ToggleButtonGroup,
+} from '@mui/material';
+import { DateTimePicker } from '@mui/x-date-pickers/DateTimePicker';
+import { LocalizationProvider } from '@mui/x-date-pickers/LocalizationProvider';
+import { AdapterDateFns } from '@mui/x-date-pickers/AdapterDateFnsV3';
+import { format } from 'date-fns';
+import { MarService, MedicationLogEntry } from '@/lib/services/MarService';
+
+// Zod schema for validation
+const correctionSchema = z.object({
+  action: z.enum(['CORRECT', 'VOID']),
+  status: z.enum(['GIVEN', 'MISSED', 'REFUSED']),
+  administered_at: z.date({ required_error: 'Administration time is required' }),
+  notes: z.string().optional(),
+  reason: z.string().trim().min(5, 'Explain why the entry is being corrected'),
+});
+
+type CorrectionFormData = z.infer<typeof correctionSchema>;
+
+interface CorrectMedicationLogDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onSuccess: () => void;
+  log: MedicationLogEntry | null; // The entry as originally logged, with its corrections
+  medicationName?: string; // For display
+}
+
+const CorrectMedicationLogDialog: React.FC<CorrectMedicationLogDialogProps> = ({
+  open,
+  onClose,
+  onSuccess,
+  log,
+  medicationName = 'N/A',
+}) => {
+  const { user } = useAuth();
+  const [isLoading, setIsLoading] = useState(false);
+  const current = log ? MarService.getEffectiveLog(log) : null;
+  const corrections = [...(log?.medication_log_corrections || [])].sort((a, b) => a.created_at.localeCompare(b.created_at) || a.id.localeCompare(b.id));
+
+  const {
+    control,
+    handleSubmit,
+    reset,
+    watch,
+    formState: { errors },
+  } = useForm<CorrectionFormData>({
+    resolver: zodResolver(correctionSchema),
+    defaultValues: {
+      action: 'CORRECT',
+      status: 'GIVEN',
+      administered_at: new Date(),
+      notes: '',
+      reason: '',
+    },
+  });
+
+  const action = watch('action');
+
+  // Start from the entry as it currently stands
+  useEffect(() => {
+    if (open && log) {
+      const effective = MarService.getEffectiveLog(log) || log;
+      reset({
+        action: 'CORRECT',
+        status: effective.status,
+        administered_at: new Date(effective.administered_at),
+        notes: effective.notes || '',
+        reason: '',
+      });
+    }
+  }, [open, log, reset]);
+
+  const onSubmit = async (data: CorrectionFormData) => {
+    if (!user || !log) {
+      toast.error('Missing required information (user or log entry).');
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const isVoid = data.action === 'VOID';
+      const { error } = await supabase
+        .from('medication_log_corrections')
+        .insert({
+          log_id: log.id,
+          corrected_by: user.id,
+          action: data.action,
+          reason: data.reason.trim(),
+          status: isVoid ? null : data.status,
+          administered_at: isVoid ? null : data.administered_at.toISOString(),
+          notes: isVoid ? null : data.notes || null,
+        });
+
+      if (error) {
+        throw error;
+      }
+
+      toast.success(isVoid ? 'Log entry voided.' : 'Log entry corrected.');
+      reset();
+      onSuccess();
+      onClose();
+    } catch (err) {
+      console.error('Error correcting medication log:', err);
+      toast.error(`Failed to save correction: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleClose = () => {
+    if (!isLoading) {
+      onClose();
+    }
+  };
+
+  return (
+    <LocalizationProvider dateAdapter={AdapterDateFns}>
+      <Dialog open={open} onClose={handleClose} maxWidth="sm" fullWidth>
+        <DialogTitle>Correct Log Entry</DialogTitle>
+        <form onSubmit={handleSubmit(onSubmit)}>
+          <DialogContent>
+            <Typography variant="subtitle1">Medication: <strong>{medicationName}</strong></Typography>
+            {log && (
+              <>
+                <Typography variant="body2" color="text.secondary">
+                  Originally logged {log.status} at {format(new Date(log.administered_at), 'Pp')}
+                  {log.scheduled_for && ` for the ${format(new Date(log.scheduled_for), 'p')} dose`}
+                  {log.notes && ` — ${log.notes}`}
+                </Typography>
+                {corrections.map(correction => (
+                  <Typography key={correction.id} variant="body2" color="text.secondary">
+                    {format(new Date(correction.created_at), 'Pp')}: {correction.action === 'VOID' ? 'Voided' : `Corrected to ${correction.status}`} — {correction.reason}
+                  </Typography>
+                ))}
+              </>
+            )}
+
+            <Divider sx={{ my: 2 }} />
+
+            {!current ? (
+              <Typography color="text.secondary">This entry has been voided and can no longer be corrected.</Typography>
+            ) : (
+              <>
+                <Controller
+                  name="action"
+                  control={control}
+                  render={({ field }) => (
+                    <ToggleButtonGroup
+                      exclusive
+                      size="small"
+                      value={field.value}
+                      onChange={(_, value) => value && field.onChange(value)}
+                    >
+                      <ToggleButton value="CORRECT">Correct</ToggleButton>
+                      <ToggleButton value="VOID">Void (logged in error)</ToggleButton>
+                    </ToggleButtonGroup>
+                  )}
+                />
+
+                {action === 'CORRECT' && (
+                  <>
+                    <FormControl fullWidth margin="normal" required error={!!errors.status}>
+                      <InputLabel id="correction-status-select-label">Status</InputLabel>
+                      <Controller
+                        name="status"
+                        control={control}
+                        render={({ field }) => (
+                          <Select
+                            {...field}
+                            labelId="correction-status-select-label"
+                            label="Status"
+                          >
+                            <MenuItem value="GIVEN">Given</MenuItem>
+                            <MenuItem value="MISSED">Missed</MenuItem>
+                            <MenuItem value="REFUSED">Refused</MenuItem>
+                          </Select>
+                        )}
+                      />
+                      <FormHelperText>{errors.status?.message}</FormHelperText>
+                    </FormControl>
+
+                    <Controller
+                      name="administered_at"
+                      control={control}
+                      render={({ field }) => (
+                        <DateTimePicker
+                          label="Administration Time"
+                          value={field.value}
+                          onChange={(newValue) => field.onChange(newValue)}
+                          disableFuture
+                          slotProps={{
+                            textField: {
+                              fullWidth: true,
+                              margin: 'normal',
+                              required: true,
+                              error: !!errors.administered_at,
+                              helperText: errors.administered_at?.message,
+                            }
+                          }}
+                        />
+                      )}
+                    />
+
+                    <Controller
+                      name="notes"
+                      control={control}
+                      render={({ field }) => (
+                        <TextField
+                          {...field}
+                          label="Notes (Optional)"
+                          variant="outlined"
+                          fullWidth
+                          multiline
+                          rows={2}
+                          margin="normal"
+                        />
+                      )}
+                    />
+                  </>
+                )}
+
+                <Controller
+                  name="reason"
+                  control={control}
+                  render={({ field }) => (
+                    <TextField
+                      {...field}
+                      label="Reason for Correction"
+                      variant="outlined"
+                      fullWidth
+                      required
+                      multiline
+                      rows={2}
+                      margin="normal"
+                      error={!!errors.reason}
+                      helperText={errors.reason?.message || 'The original entry is kept; this correction is added to the record.'}
+                    />
+                  )}
+                />
+              </>
+            )}
+          </DialogContent>
+          <DialogActions sx={{ padding: '16px 24px' }}>
+            <Button onClick={handleClose} disabled={isLoading} color="secondary">
+              Cancel
+            </Button>
+            <Button type="submit" variant="contained" color={action === 'VOID' ? 'error' : 'primary'} disabled={isLoading || !current}>
+              {isLoading ? <CircularProgress size={24} /> : action === 'VOID' ? 'Void Entry' : 'Save Correction'}
+            </Button>
+          </DialogActions>
+        </form>
+      </Dialog>
+    </LocalizationProvider>
+  );
+};
+
+export default CorrectMedicationLogDialog;
@@ -0,0 +1,156 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { supabase } from '@/lib/supabase/client';
+import { useAuth } from '@/lib/hooks/useAuth';
+import toast from 'react-hot-toast';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  TextField,
+  CircularProgress,
+  Typography,
+  Divider,
+  ToggleButton,
+  ToggleButtonGroup,
+} from '@mui/material';
+import { format } from 'date-fns';
+import { ResidentWeight, WEIGHT_LIMITS_LB, WeightService } from '@/lib/services/WeightService';
+
+interface CorrectWeightDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onSuccess: () => void;
+  weight: ResidentWeight | null; // The weight as originally recorded, with its corrections
+}
+
+const CorrectWeightDialog: React.FC<CorrectWeightDialogProps> = ({ open, onClose, onSuccess, weight }) => {
+  const { user } = useAuth();
+  const [isLoading, setIsLoading] = useState(false);
+  const [action, setAction] = useState<'CORRECT' | 'VOID'>('CORRECT');
+  const [weightInput, setWeightInput] = useState('');
+  const [reason, setReason] = useState('');
+  const current = weight ? WeightService.getEffectiveWeight(weight) : null;
+  const corrections = [...(weight?.resident_weight_corrections || [])].sort((a, b) => a.created_at.localeCompare(b.created_at) || a.id.localeCompare(b.id));
+
+  // Start from the weight as it currently stands
+  useEffect(() => {
+    if (open && weight) {
+      setAction('CORRECT');
+      setWeightInput(String((WeightService.getEffectiveWeight(weight) || weight).weight_lb));
+      setReason('');
+    }
+  }, [open, weight]);
+
+  const weightLb = weightInput.trim() === '' ? null : Number(weightInput);
+  const weightError = action === 'CORRECT' && (weightLb === null || Number.isNaN(weightLb) || weightLb < WEIGHT_LIMITS_LB.min || weightLb > WEIGHT_LIMITS_LB.max)
+    ? `Must be ${WEIGHT_LIMITS_LB.min}–${WEIGHT_LIMITS_LB.max} lb`
+    : null;
+
+  const handleSave = async () => {
+    if (!user || !weight) {
+      toast.error('Missing required information (user or weight).');
+      return;
+    }
+    setIsLoading(true);
+    try {
+      await WeightService.correctWeight(supabase, weight.id, user.id, { action, reason, weight_lb: weightLb });
+      toast.success(action === 'VOID' ? 'Weight voided.' : 'Weight corrected.');
+      onSuccess();
+      onClose();
+    } catch (err) {
+      console.error('Error correcting weight:', err);
+      toast.error(`Failed to save correction: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleClose = () => {
+    if (!isLoading) {
+      onClose();
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={handleClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Correct Weight</DialogTitle>
+      <DialogContent>
+        {weight && (
+          <>
+            <Typography variant="body2" color="text.secondary">
+              Originally recorded {weight.weight_lb} lb, measured {format(new Date(weight.measured_at), 'Pp')}
+              {weight.recorded_by_profile?.full_name && ` by ${weight.recorded_by_profile.full_name}`}
+            </Typography>
+            {corrections.map(correction => (
+              <Typography key={correction.id} variant="body2" color="text.secondary">
+                {format(new Date(correction.created_at), 'Pp')}: {correction.action === 'VOID' ? 'Voided' : `Corrected to ${correction.weight_lb} lb`}
+                {correction.corrected_by_profile?.full_name && ` by ${correction.corrected_by_profile.full_name}`} — {correction.reason}
+              </Typography>
+            ))}
+          </>
+        )}
+
+        <Divider sx={{ my: 2 }} />
+
+        {!current ? (
+          <Typography color="text.secondary">This weight has been voided and can no longer be corrected.</Typography>
+        ) : (
+          <>
+            <ToggleButtonGroup
+              exclusive
+              size="small"
+              value={action}
+              onChange={(_, value) => value && setAction(value)}
+            >
+              <ToggleButton value="CORRECT">Correct</ToggleButton>
+              <ToggleButton value="VOID">Void (recorded in error)</ToggleButton>
+            </ToggleButtonGroup>
+
+            {action === 'CORRECT' && (
+              <TextField
+                label="Corrected Weight"
+                value={weightInput}
+                onChange={(e) => setWeightInput(e.target.value)}
+                type="number"
+                inputProps={{ min: WEIGHT_LIMITS_LB.min, max: WEIGHT_LIMITS_LB.max, step: 0.1 }}
+                error={!!weightError}
+                helperText={weightError || 'lb'}
+                fullWidth
+                margin="normal"
+                required
+              />
+            )}
+
+            <TextField
+              label={action === 'VOID' ? 'Reason for Voiding' : 'Reason for Correction'}
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              fullWidth
+              multiline
+              rows={2}
+              margin="normal"
+              required
+              helperText="Voided weights are left out of change checks. Flags already raised stay open for the dietitian."
+            />
+          </>
+        )}
+      </DialogContent>
+      <DialogActions sx={{ padding: '16px 24px' }}>
+        <Button onClick={handleClose} disabled={isLoading} color="secondary">
+          Cancel
+        </Button>
+        {current && (
+          <Button variant="contained" onClick={handleSave} disabled={isLoading || !reason.trim() || !!weightError}>
+            {isLoading ? <CircularProgress size={24} /> : action === 'VOID' ? 'Void Weight' : 'Save Correction'}
+          </Button>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default CorrectWeightDialog;
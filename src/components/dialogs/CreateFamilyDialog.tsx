@@ -1,7 +1,7 @@
 'use client';
 
 import { useState } from 'react';
-import { useForm } from 'react-hook-form';
+import { useForm, Controller } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import toast from 'react-hot-toast';
@@ -14,17 +14,27 @@ import {
   DialogTitle,
   TextField,
   CircularProgress,
-  // We might need a way to select the resident later
-  // Autocomplete, // For selecting resident
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  FormHelperText,
 } from '@mui/material';
 
+type ResidentOption = {
+  id: string; // Resident ID
+  profiles: {
+    full_name: string | null;
+  } | null;
+};
+
 // Zod schema for family member form validation
 const familySchema = z.object({
   email: z.string().email('Invalid email address'),
   password: z.string().min(6, 'Password must be at least 6 characters'),
   fullName: z.string().min(2, 'Full name is required'),
   relationship: z.string().optional(), // e.g., Son, Daughter, Spouse
-  // residentId: z.string().uuid('Must select a valid resident'), // Add later when integrating
+  residentId: z.string().uuid('Must select a valid resident'),
 });
 
 type FamilyFormData = z.infer<typeof familySchema>;
@@ -33,16 +43,16 @@ interface CreateFamilyDialogProps {
   open: boolean;
   onClose: () => void;
   onSuccess?: () => void; // Optional callback for success
-  // residents: Resident[]; // Pass residents list for selection later
+  residents: ResidentOption[]; // Residents the family member can be linked to
 }
 
-export default function CreateFamilyDialog({ open, onClose, onSuccess }: CreateFamilyDialogProps) {
+export default function CreateFamilyDialog({ open, onClose, onSuccess, residents = [] }: CreateFamilyDialogProps) {
   const [isSubmitting, setIsSubmitting] = useState(false);
   const {
     register,
     handleSubmit,
     reset,
-    // control, // For Autocomplete if used
+    control,
     formState: { errors },
   } = useForm<FamilyFormData>({
     resolver: zodResolver(familySchema),
@@ -51,7 +61,7 @@ export default function CreateFamilyDialog({ open, onClose, onSuccess }: CreateF
       password: '',
       fullName: '',
       relationship: '',
-      // residentId: '',
+      residentId: '',
     },
   });
 
@@ -84,8 +94,6 @@ export default function CreateFamilyDialog({ open, onClose, onSuccess }: CreateF
           email: data.email,
           full_name: data.fullName,
           role: 'FAMILY', // Set role explicitly
-          // We will need to add resident_id association later
-          // relationship: data.relationship, // Maybe add to profiles or a separate family_links table
         })
         .select('id')
         .single();
@@ -100,11 +108,21 @@ export default function CreateFamilyDialog({ open, onClose, onSuccess }: CreateF
         throw new Error('Profile creation failed: No profile data returned');
       }
 
-      // 3. TODO: Link family member to resident(s) - this might need a separate table `family_resident_links`
-      // e.g., supabase.from('family_resident_links').insert({ family_profile_id: profileData.id, resident_profile_id: data.residentId })
-      toast.loading('Profile created. Linking to resident... (Not implemented yet)', { id: toastId });
+      // 3. Link family member to the resident (used e.g. for critical incident alerts)
+      toast.loading('Profile created, linking to resident...', { id: toastId });
+      const { error: linkError } = await supabase
+        .from('family_resident_links')
+        .insert({
+          family_profile_id: profileData.id,
+          resident_id: data.residentId,
+          relationship: data.relationship || null,
+        });
 
-      toast.success('Family member created successfully! (Linking step pending)', { id: toastId });
+      if (linkError) {
+        throw new Error(`Link Error: ${linkError.message}`);
+      }
+
+      toast.success('Family member created successfully!', { id: toastId });
       reset(); // Reset form fields
       onSuccess?.(); // Call success callback if provided
       onClose(); // Close the dialog
@@ -130,13 +148,6 @@ export default function CreateFamilyDialog({ open, onClose, onSuccess }: CreateF
       <DialogTitle>Create New Family Member</DialogTitle>
       <form onSubmit={handleSubmit(onSubmit)}>
         <DialogContent>
-          {/* TODO: Add Resident Selection Dropdown/Autocomplete here */}
-          {/* <Autocomplete
-            options={residents}
-            getOptionLabel={(option) => option.profile.full_name || 'Unknown'}
-            // ... other props ...
-          /> */}
-
           <TextField
             {...register('fullName')}
             label="Full Name"
@@ -171,13 +182,35 @@ export default function CreateFamilyDialog({ open, onClose, onSuccess }: CreateF
           />
           <TextField
             {...register('relationship')}
-            label="Relationship to Resident(s)"
+            label="Relationship to Resident"
             fullWidth
             margin="dense"
             error={!!errors.relationship}
             helperText={errors.relationship?.message}
             disabled={isSubmitting}
           />
+          <FormControl fullWidth margin="dense" required error={!!errors.residentId} disabled={isSubmitting}>
+            <InputLabel id="family-resident-select-label">Resident</InputLabel>
+            <Controller
+              name="residentId"
+              control={control}
+              render={({ field }) => (
+                <Select
+                  {...field}
+                  labelId="family-resident-select-label"
+                  label="Resident"
+                  disabled={residents.length === 0}
+                >
+                  {residents.map((res) => (
+                    <MenuItem key={res.id} value={res.id}>
+                      {res.profiles?.full_name || `Resident ID: ${res.id}`}
+                    </MenuItem>
+                  ))}
+                </Select>
+              )}
+            />
+            <FormHelperText>{errors.residentId?.message || (residents.length === 0 && 'Loading residents...')}</FormHelperText>
+          </FormControl>
         </DialogContent>
         <DialogActions sx={{ padding: '16px 24px' }}>
           <Button onClick={handleCloseDialog} disabled={isSubmitting}>Cancel</Button>
@@ -23,6 +23,15 @@ import {
 } from '@mui/material';
 import { supabase } from '@/lib/supabase/client';
 import toast from 'react-hot-toast';
+import FallIncidentFields, { DEFAULT_FALL_VALUE, FallFormValue } from '@/components/FallIncidentFields';
+import { FallIncidentService } from '@/lib/services/FallIncidentService';
+import {
+  INCIDENT_SEVERITIES,
+  INCIDENT_SEVERITY_LABELS,
+  INCIDENT_TYPE_LABELS,
+  INCIDENT_TYPES,
+  IncidentType,
+} from '@/lib/services/IncidentWorkflowService';
 
 // Define types (adapt based on your actual schema if available)
 type ResidentProfile = {
@@ -41,12 +50,12 @@ type StaffOrAdminProfile = {
   // Add other profile fields if needed
 };
 
-// Zod schema for validation - Updated status enum
+// Zod schema for validation; status is not chosen here, new incidents start as REPORTED
 const incidentSchema = z.object({
+  incident_type: z.enum(INCIDENT_TYPES as [IncidentType, ...IncidentType[]]),
   title: z.string().min(3, 'Title must be at least 3 characters'),
   description: z.string().min(10, 'Description must be at least 10 characters'),
-  severity: z.enum(['LOW', 'MEDIUM', 'HIGH'], { required_error: 'Severity is required' }),
-  status: z.enum(['OPEN', 'IN_PROGRESS', 'RESOLVED'], { required_error: 'Status is required' }), // Updated status values
+  severity: z.enum(['LOW', 'MEDIUM', 'HIGH', 'CRITICAL'], { required_error: 'Severity is required' }),
   resident_id: z.string({ required_error: 'Please select the resident involved' }), // FK to residents table
   reported_by: z.string({ required_error: 'Reporter ID missing' }), // FK to profiles table (reporter)
   assigned_to: z.string().uuid('Invalid assignee ID').optional(), // FK to profiles table (assignee)
@@ -79,13 +88,14 @@ const CreateIncidentDialog: React.FC<CreateIncidentDialogProps> = ({
     reset,
     formState: { errors },
     setValue,
+    watch,
   } = useForm<IncidentFormData>({
     resolver: zodResolver(incidentSchema),
     defaultValues: {
+      incident_type: 'OTHER',
       title: '',
       description: '',
       severity: 'MEDIUM', // Default severity
-      status: 'OPEN', // Updated default status
       resident_id: '',
       reported_by: '', // Will be set in useEffect
       assigned_to: '', // Optional
@@ -93,6 +103,13 @@ const CreateIncidentDialog: React.FC<CreateIncidentDialogProps> = ({
     },
   });
 
+  const severity = watch('severity');
+  const incidentType = watch('incident_type');
+
+  // Structured fall report, saved alongside FALL incidents
+  const [fall, setFall] = useState<FallFormValue>(DEFAULT_FALL_VALUE);
+  const [fallErrors, setFallErrors] = useState<Partial<Record<keyof FallFormValue, string>>>({});
+
   // Get the current user's profile ID to set as reporter_by
   useEffect(() => {
     const fetchUserId = async () => {
@@ -108,30 +125,54 @@ const CreateIncidentDialog: React.FC<CreateIncidentDialogProps> = ({
   }, [open, setValue]);
 
   const onSubmit = async (data: IncidentFormData) => {
+    const isFall = data.incident_type === 'FALL';
+    if (isFall && !fall.occurred_at) {
+      setFallErrors({ occurred_at: 'Time of fall is required' });
+      return;
+    }
+    setFallErrors({});
+
     setIsLoading(true);
     try {
-      const { data: incidentData, error } = await supabase
-        .from('incidents')
-        .insert([
+      if (isFall && fall.occurred_at) {
+        // The incident and its fall details are saved in one transaction
+        await FallIncidentService.reportFall(
+          supabase,
           {
             title: data.title,
             description: data.description,
             severity: data.severity,
-            status: data.status,
             resident_id: data.resident_id,
-            reported_by: data.reported_by, // Use the ID from form data
-            assigned_to: data.assigned_to || null, // Handle optional field
-            // location: data.location || null, // Removed
+            reported_by: data.reported_by,
+            assigned_to: data.assigned_to || null,
           },
-        ])
-        .select();
+          { ...fall, occurred_at: fall.occurred_at.toISOString() },
+        );
+      } else {
+        const { error } = await supabase
+          .from('incidents')
+          .insert([
+            {
+              incident_type: data.incident_type,
+              title: data.title,
+              description: data.description,
+              severity: data.severity,
+              status: 'REPORTED', // New incidents always enter the workflow as reported
+              resident_id: data.resident_id,
+              reported_by: data.reported_by, // Use the ID from form data
+              assigned_to: data.assigned_to || null, // Handle optional field
+              // location: data.location || null, // Removed
+            },
+          ]);
 
-      if (error) {
-        throw error;
+        if (error) {
+          throw error;
+        }
       }
 
       toast.success('Incident reported successfully!');
       reset(); // Clear the form
+      setFall(DEFAULT_FALL_VALUE);
       onSuccess(); // Trigger data refresh in parent
       onClose(); // Close the dialog
     } catch (error: any) {
@@ -146,12 +187,14 @@ const CreateIncidentDialog: React.FC<CreateIncidentDialogProps> = ({
   const handleClose = () => {
     if (!isLoading) {
       reset(); // Clear form on close
+      setFall(DEFAULT_FALL_VALUE);
+      setFallErrors({});
       onClose();
     }
   };
 
   return (
-    <Dialog open={open} onClose={handleClose} maxWidth="sm" fullWidth>
+    <Dialog open={open} onClose={handleClose} maxWidth={incidentType === 'FALL' ? 'md' : 'sm'} fullWidth>
       <DialogTitle>Log New Incident</DialogTitle>
       <form onSubmit={handleSubmit(onSubmit)}>
         <DialogContent>
@@ -159,6 +202,26 @@ const CreateIncidentDialog: React.FC<CreateIncidentDialogProps> = ({
             Reported by: {reporterId || 'Loading...'} (Auto-detected)
           </Typography>
 
+          {/* Incident Type */}
+          <FormControl fullWidth margin="normal" required>
+            <InputLabel id="incident-type-select-label">Incident Type</InputLabel>
+            <Controller
+              name="incident_type"
+              control={control}
+              render={({ field }) => (
+                <Select
+                  {...field}
+                  labelId="incident-type-select-label"
+                  label="Incident Type"
+                >
+                  {INCIDENT_TYPES.map(type => (
+                    <MenuItem key={type} value={type}>{INCIDENT_TYPE_LABELS[type]}</MenuItem>
+                  ))}
+                </Select>
+              )}
+            />
+          </FormControl>
+
           {/* Title Field */}
           <Controller
             name="title"
@@ -234,35 +297,13 @@ const CreateIncidentDialog: React.FC<CreateIncidentDialogProps> = ({
                   labelId="severity-select-label"
                   label="Severity"
                 >
-                  <MenuItem value="LOW">Low</MenuItem>
-                  <MenuItem value="MEDIUM">Medium</MenuItem>
-                  <MenuItem value="HIGH">High</MenuItem>
-                </Select>
-              )}
-            />
-            <FormHelperText>{errors.severity?.message}</FormHelperText>
-          </FormControl>
-
-          {/* Status Selection - Updated MenuItems */}
-          <FormControl fullWidth margin="normal" required error={!!errors.status}>
-            <InputLabel id="status-select-label">Status</InputLabel>
-            <Controller
-              name="status"
-              control={control}
-              render={({ field }) => (
-                <Select
-                  {...field}
-                  labelId="status-select-label"
-                  label="Status"
-                >
-                  <MenuItem value="OPEN">Open</MenuItem>
-                  <MenuItem value="IN_PROGRESS">In Progress</MenuItem>
-                  <MenuItem value="RESOLVED">Resolved</MenuItem>
-                  {/* Removed CLOSED and REPORTED/INVESTIGATING */}
+                  {INCIDENT_SEVERITIES.map(severity => (
+                    <MenuItem key={severity} value={severity}>{INCIDENT_SEVERITY_LABELS[severity]}</MenuItem>
+                  ))}
                 </Select>
               )}
             />
-            <FormHelperText>{errors.status?.message}</FormHelperText>
+            <FormHelperText>{errors.severity?.message || (severity === 'CRITICAL' && 'All admins and the resident\'s family contacts will be alerted immediately.')}</FormHelperText>
           </FormControl>
 
           {/* Assignee Selection (Optional) */}
@@ -290,6 +331,11 @@ const CreateIncidentDialog: React.FC<CreateIncidentDialogProps> = ({
             <FormHelperText>{errors.assigned_to?.message || (assignees.length === 0 && "Loading potential assignees...")}</FormHelperText>
           </FormControl>
 
+          {/* Fall report */}
+          {incidentType === 'FALL' && (
+            <FallIncidentFields value={fall} onChange={setFall} errors={fallErrors} />
+          )}
+
           {/* Location Field (Removed) */}
           {/*
           <Controller
@@ -1,7 +1,7 @@
 'use client';
 
-import React, { useState, useEffect } from 'react';
-import { useForm, Controller } from 'react-hook-form';
+import React, { useState, useEffect, useMemo } from 'react';
+import { useForm, Controller, FieldError } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { supabase } from '@/lib/supabase/client';
@@ -22,10 +22,19 @@ import {
   CircularProgress,
   Autocomplete, // Use Autocomplete for better resident/prescriber selection
   Box,
+  FormControlLabel,
+  Switch,
+  Stack,
+  Alert,
+  AlertTitle,
 } from '@mui/material';
 import { DatePicker } from '@mui/x-date-pickers/DatePicker';
 import { LocalizationProvider } from '@mui/x-date-pickers/LocalizationProvider';
 import { AdapterDateFns } from '@mui/x-date-pickers/AdapterDateFnsV3'; // Using v3 adapter
+import MedicationScheduleEditor from '@/components/MedicationScheduleEditor';
+import { medicationScheduleSchema, MedicationScheduleService } from '@/lib/services/MedicationScheduleService';
+import { MedicationSafetyService, ResidentAllergy } from '@/lib/services/MedicationSafetyService';
+import { DEFAULT_REORDER_LEAD_DAYS } from '@/lib/services/SupplyService';
 
 // Define types for props (adapt based on actual data structure)
 type ResidentProfile = {
@@ -46,11 +55,18 @@ const medicationSchema = z.object({
   resident_id: z.string().uuid('Please select a resident'),
   name: z.string().min(2, 'Medication name is required'),
   dosage: z.string().min(1, 'Dosage is required'),
-  frequency: z.string().min(1, 'Frequency is required'),
+  schedule: medicationScheduleSchema,
+  // Controlled substances are tracked in the controlled substance ledger
+  is_controlled: z.boolean(),
+  count_unit: z.string().optional(),
+  units_per_dose: z.number({ invalid_type_error: 'Units per dose is required' }).positive('Units per dose must be greater than 0'),
+  // Supply starts being tracked with the first pharmacy fill; reorders are due this many days before run-out
+  reorder_lead_days: z.number({ invalid_type_error: 'Reorder lead time is required' }).int().min(1, 'Must be at least 1 day').max(60, 'Cannot exceed 60 days'),
   prescribed_by: z.string().uuid('Please select a prescriber'),
   start_date: z.date({ required_error: 'Start date is required' }),
   end_date: z.date().nullable().optional(),
   notes: z.string().optional(),
+  safety_override_reason: z.string().optional(), // Required on submit when there are blocking safety alerts
 }).refine(data => !data.end_date || data.end_date >= data.start_date, {
   message: "End date cannot be before start date",
   path: ["end_date"],
@@ -58,6 +74,17 @@ const medicationSchema = z.object({
 
 type MedicationFormData = z.infer<typeof medicationSchema>;
 
+// Schedule errors are nested (e.g. schedule.steps[0].dosage), surface the first one
+const firstErrorMessage = (error: unknown): string | undefined => {
+  if (!error || typeof error !== 'object') return undefined;
+  if ((error as FieldError).message) return (error as FieldError).message;
+  for (const value of Object.values(error)) {
+    const message = firstErrorMessage(value);
+    if (message) return message;
+  }
+  return undefined;
+};
+
 interface CreateMedicationDialogProps {
   open: boolean;
   onClose: () => void;
@@ -75,6 +102,10 @@ const CreateMedicationDialog: React.FC<CreateMedicationDialogProps> = ({
 }) => {
   const { user } = useAuth(); // Get current user if needed (e.g., for default prescriber?)
   const [isLoading, setIsLoading] = useState(false);
+  // Selected resident's allergies and other current medications, for safety checks
+  const [residentSafety, setResidentSafety] = useState<{ residentId: string; allergies: ResidentAllergy[]; activeMedicationNames: string[] } | null>(null);
+  const [safetyLoadFailed, setSafetyLoadFailed] = useState(false);
+  const [safetyRetry, setSafetyRetry] = useState(0);
 
   const {
     control,
@@ -82,17 +113,24 @@ const CreateMedicationDialog: React.FC<CreateMedicationDialogProps> = ({
     reset,
     formState: { errors },
     setValue,
+    setError,
+    watch,
   } = useForm<MedicationFormData>({
     resolver: zodResolver(medicationSchema),
     defaultValues: {
       resident_id: '',
       name: '',
       dosage: '',
-      frequency: '',
+      schedule: MedicationScheduleService.defaultSchedule('TIMES_OF_DAY'),
+      is_controlled: false,
+      count_unit: '',
+      units_per_dose: 1,
+      reorder_lead_days: DEFAULT_REORDER_LEAD_DAYS,
       prescribed_by: '',
       start_date: new Date(), // Default start date to today
       end_date: null,
       notes: '',
+      safety_override_reason: '',
     },
   });
 
@@ -103,14 +141,70 @@ const CreateMedicationDialog: React.FC<CreateMedicationDialogProps> = ({
       // Example: const defaultPrescriber = prescribers.find(p => p.id === user?.id);
       // if (defaultPrescriber) setValue('prescribed_by', defaultPrescriber.id);
        reset({
-         resident_id: '', name: '', dosage: '', frequency: '',
+         resident_id: '', name: '', dosage: '',
+         schedule: MedicationScheduleService.defaultSchedule('TIMES_OF_DAY'),
+         is_controlled: false, count_unit: '', units_per_dose: 1, reorder_lead_days: DEFAULT_REORDER_LEAD_DAYS,
          prescribed_by: '', // Reset prescriber too
-         start_date: new Date(), end_date: null, notes: ''
+         start_date: new Date(), end_date: null, notes: '', safety_override_reason: ''
        });
     }
   }, [open, reset, setValue, user?.id, prescribers]); // Added dependencies
 
+  const residentId = watch('resident_id');
+  const medicationName = watch('name');
+
+  // Load the resident's allergies and active medications whenever the resident changes
+  useEffect(() => {
+    setResidentSafety(null);
+    setSafetyLoadFailed(false);
+    if (!open || !residentId) return;
+    let cancelled = false; // Ignore a slow response for a previously selected resident
+
+    const fetchResidentSafety = async () => {
+      const now = new Date().toISOString();
+      const [residentRes, medicationsRes] = await Promise.all([
+        supabase.from('residents').select('allergies').eq('id', residentId).single(),
+        supabase.from('medications').select('name').eq('resident_id', residentId).or(`end_date.is.null,end_date.gt.${now}`),
+      ]);
+      if (cancelled) return;
+      if (residentRes.error || medicationsRes.error) {
+        console.error('Error loading resident safety data:', residentRes.error || medicationsRes.error);
+        toast.error('Could not load allergies and current medications for safety checks.');
+        setSafetyLoadFailed(true);
+        return;
+      }
+      setResidentSafety({
+        residentId,
+        allergies: MedicationSafetyService.parseAllergies(residentRes.data?.allergies),
+        activeMedicationNames: (medicationsRes.data || []).map(med => med.name),
+      });
+    };
+    fetchResidentSafety();
+    return () => {
+      cancelled = true;
+    };
+  }, [open, residentId, safetyRetry]);
+
+  // Saving waits for the checks of the selected resident; they fail closed
+  const safetyChecked = !!residentSafety && residentSafety.residentId === residentId;
+  const safetyAlerts = useMemo(
+    () => (residentSafety
+      ? MedicationSafetyService.check({ medicationName, allergies: residentSafety.allergies, activeMedicationNames: residentSafety.activeMedicationNames })
+      : []),
+    [residentSafety, medicationName]
+  );
+  const hasBlockingAlert = safetyAlerts.some(alert => alert.level === 'BLOCKING');
+
   const onSubmit = async (data: MedicationFormData) => {
+    if (!safetyChecked || residentSafety?.residentId !== data.resident_id) {
+      toast.error('Allergy and interaction checks have not loaded for this resident.');
+      return;
+    }
+    if (hasBlockingAlert && !data.safety_override_reason?.trim()) {
+      setError('safety_override_reason', { message: 'An override reason is required to prescribe despite these alerts' });
+      return;
+    }
+
     setIsLoading(true);
     try {
       const { error } = await supabase
@@ -119,11 +213,18 @@ const CreateMedicationDialog: React.FC<CreateMedicationDialogProps> = ({
           resident_id: data.resident_id,
           name: data.name,
           dosage: data.dosage,
-          frequency: data.frequency,
+          frequency: MedicationScheduleService.describe(data.schedule), // Readable summary of the schedule
+          schedule: data.schedule,
+          is_controlled: data.is_controlled,
+          count_unit: data.count_unit || null,
+          units_per_dose: data.units_per_dose,
+          reorder_lead_days: data.reorder_lead_days,
           prescribed_by: data.prescribed_by,
           start_date: data.start_date.toISOString(),
           end_date: data.end_date ? data.end_date.toISOString() : null,
           notes: data.notes || null,
+          safety_alerts: safetyAlerts.length > 0 ? safetyAlerts : null,
+          safety_override_reason: safetyAlerts.length > 0 ? data.safety_override_reason?.trim() || null : null,
         });
 
       if (error) {
@@ -220,23 +321,131 @@ const CreateMedicationDialog: React.FC<CreateMedicationDialogProps> = ({
               )}
             />
 
-            {/* Frequency */}
+            {/* Allergy and interaction alerts */}
+            {residentId && safetyLoadFailed && (
+              <Alert
+                severity="error"
+                sx={{ mt: 2 }}
+                action={<Button color="inherit" size="small" onClick={() => setSafetyRetry(prev => prev + 1)}>Retry</Button>}
+              >
+                Allergy and interaction checks could not be loaded. The medication cannot be saved until they are.
+              </Alert>
+            )}
+            {residentId && !safetyChecked && !safetyLoadFailed && (
+              <Stack direction="row" spacing={1} alignItems="center" sx={{ mt: 2 }}>
+                <CircularProgress size={16} />
+                <FormHelperText>Checking allergies and current medications...</FormHelperText>
+              </Stack>
+            )}
+            {safetyAlerts.length > 0 && (
+              <Box sx={{ mt: 2 }}>
+                {safetyAlerts.map((alert, index) => (
+                  <Alert key={index} severity={alert.level === 'BLOCKING' ? 'error' : 'warning'} sx={{ mb: 1 }}>
+                    <AlertTitle>
+                      {alert.kind === 'INTERACTION' ? 'Drug interaction' : 'Allergy'}
+                      {alert.level === 'BLOCKING' ? ' — override required' : ''}
+                    </AlertTitle>
+                    {alert.message}
+                  </Alert>
+                ))}
+                <Controller
+                  name="safety_override_reason"
+                  control={control}
+                  render={({ field }) => (
+                    <TextField
+                      {...field}
+                      label={hasBlockingAlert ? 'Override Reason' : 'Override Reason (Optional)'}
+                      variant="outlined"
+                      fullWidth
+                      multiline
+                      rows={2}
+                      margin="normal"
+                      required={hasBlockingAlert}
+                      error={!!errors.safety_override_reason}
+                      helperText={errors.safety_override_reason?.message}
+                    />
+                  )}
+                />
+              </Box>
+            )}
+
+            {/* Schedule */}
+            <Controller
+              name="schedule"
+              control={control}
+              render={({ field }) => (
+                <MedicationScheduleEditor
+                  value={field.value}
+                  onChange={field.onChange}
+                  error={firstErrorMessage(errors.schedule)}
+                />
+              )}
+            />
+
+            {/* Controlled Substance */}
             <Controller
-              name="frequency"
+              name="is_controlled"
               control={control}
               render={({ field }) => (
-                <TextField
-                  {...field}
-                  label="Frequency (e.g., Once daily, Twice a day)"
-                  variant="outlined"
-                  fullWidth
-                  margin="normal"
-                  required
-                  error={!!errors.frequency}
-                  helperText={errors.frequency?.message}
+                <FormControlLabel
+                  control={<Switch checked={field.value} onChange={(e) => field.onChange(e.target.checked)} />}
+                  label="Controlled substance (count and witness required)"
+                  sx={{ mt: 1 }}
                 />
               )}
             />
+            {/* Supply: count unit and units per dose also drive the controlled substance count */}
+            <Stack direction="row" spacing={2}>
+              <Controller
+                name="count_unit"
+                control={control}
+                render={({ field }) => (
+                  <TextField
+                    {...field}
+                    label="Count Unit (e.g., tablet, mL)"
+                    variant="outlined"
+                    fullWidth
+                    margin="normal"
+                  />
+                )}
+              />
+              <Controller
+                name="units_per_dose"
+                control={control}
+                render={({ field }) => (
+                  <TextField
+                    {...field}
+                    onChange={(e) => field.onChange(e.target.value === '' ? '' : Number(e.target.value))}
+                    label="Units per Dose"
+                    type="number"
+                    variant="outlined"
+                    fullWidth
+                    margin="normal"
+                    inputProps={{ min: 0, step: 'any' }}
+                    error={!!errors.units_per_dose}
+                    helperText={errors.units_per_dose?.message}
+                  />
+                )}
+              />
+              <Controller
+                name="reorder_lead_days"
+                control={control}
+                render={({ field }) => (
+                  <TextField
+                    {...field}
+                    onChange={(e) => field.onChange(e.target.value === '' ? '' : Number(e.target.value))}
+                    label="Reorder Lead Days"
+                    type="number"
+                    variant="outlined"
+                    fullWidth
+                    margin="normal"
+                    inputProps={{ min: 1, max: 60 }}
+                    error={!!errors.reorder_lead_days}
+                    helperText={errors.reorder_lead_days?.message}
+                  />
+                )}
+              />
+            </Stack>
 
             {/* Prescriber Selection */}
              <FormControl fullWidth margin="normal" required error={!!errors.prescribed_by}>
@@ -334,7 +543,7 @@ const CreateMedicationDialog: React.FC<CreateMedicationDialogProps> = ({
             <Button onClick={handleClose} disabled={isLoading} color="secondary">
               Cancel
             </Button>
-            <Button type="submit" variant="contained" disabled={isLoading}>
+            <Button type="submit" variant="contained" disabled={isLoading || (!!residentId && !safetyChecked)}>
               {isLoading ? <CircularProgress size={24} /> : 'Add Medication'}
             </Button>
           </DialogActions>
@@ -23,14 +23,20 @@ import {
   Box,
   Typography,
 } from '@mui/material';
+import AllergyListField from '@/components/AllergyListField';
+import BedSelect from '@/components/BedSelect';
+import { ResidentAllergy, residentAllergySchema } from '@/lib/services/MedicationSafetyService';
+import { PAYER_SOURCE_LABELS, PayerSource } from '@/lib/services/CensusService';
 
 // Zod schema for resident form validation (NO email/password)
 const residentSchema = z.object({
   fullName: z.string().min(2, 'Full name is required'),
-  room_number: z.string().min(1, 'Room number is required'),
+  bed_id: z.string().min(1, 'A bed is required'),
   emergency_contact: z.string().min(1, 'Emergency contact is required'),
   care_level: z.enum(['LOW', 'MEDIUM', 'HIGH']),
+  payer_source: z.enum(['MEDICARE', 'MEDICAID', 'PRIVATE_PAY', 'LTC_INSURANCE', 'MANAGED_CARE', 'VA', 'OTHER']),
   medical_conditions: z.array(z.string()), // Define as just an array of strings
+  allergies: z.array(residentAllergySchema),
 });
 
 type ResidentFormData = z.infer<typeof residentSchema>;
@@ -45,21 +51,25 @@ export default function CreateResidentDialog({ open, onClose, onSuccess }: Creat
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [tempConditions, setTempConditions] = useState<string[]>([]);
   const [conditionInput, setConditionInput] = useState('');
+  const [tempAllergies, setTempAllergies] = useState<ResidentAllergy[]>([]);
 
   const {
     register,
     handleSubmit,
     reset,
     setValue,
+    watch,
     formState: { errors },
   } = useForm<ResidentFormData>({
     resolver: zodResolver(residentSchema),
     defaultValues: {
       fullName: '',
-      room_number: '',
+      bed_id: '',
       emergency_contact: '',
       care_level: 'LOW',
+      payer_source: 'PRIVATE_PAY',
       medical_conditions: [], // Still provide default here
+      allergies: [],
     },
   });
 
@@ -78,6 +88,11 @@ export default function CreateResidentDialog({ open, onClose, onSuccess }: Creat
     setValue('medical_conditions', newConditions, { shouldValidate: true }); // Update form state
   };
 
+  const handleAllergiesChange = (allergies: ResidentAllergy[]) => {
+    setTempAllergies(allergies);
+    setValue('allergies', allergies, { shouldValidate: true }); // Update form state
+  };
+
   const onSubmit = async (data: ResidentFormData) => {
     setIsSubmitting(true);
     const toastId = toast.loading('Creating resident profile...');
@@ -111,10 +126,12 @@ export default function CreateResidentDialog({ open, onClose, onSuccess }: Creat
         .from('residents')
         .insert({
           profile_id: profileId, // Link to the profile we just created
-          room_number: data.room_number,
+          bed_id: data.bed_id, // Sets room_number and marks the bed occupied
           emergency_contact: data.emergency_contact,
           care_level: data.care_level,
+          payer_source: data.payer_source,
           medical_conditions: data.medical_conditions,
+          allergies: data.allergies,
         });
 
       if (residentError) {
@@ -127,6 +144,7 @@ export default function CreateResidentDialog({ open, onClose, onSuccess }: Creat
       toast.success('Resident created successfully!', { id: toastId });
       reset(); // Reset form fields
       setTempConditions([]); // Clear temp conditions
+      setTempAllergies([]);
       onSuccess?.(); // Call success callback if provided
       onClose(); // Close the dialog
 
@@ -143,6 +161,7 @@ export default function CreateResidentDialog({ open, onClose, onSuccess }: Creat
     if (!isSubmitting) {
       reset(); // Reset form on close if not submitting
       setTempConditions([]); // Clear temp conditions
+      setTempAllergies([]);
       onClose();
     }
   };
@@ -162,14 +181,13 @@ export default function CreateResidentDialog({ open, onClose, onSuccess }: Creat
             helperText={errors.fullName?.message}
             disabled={isSubmitting}
           />
-          <TextField
-            {...register('room_number')}
-            label="Room Number"
-            fullWidth
+          <BedSelect
+            value={watch('bed_id')}
+            onChange={(bedId) => setValue('bed_id', bedId, { shouldValidate: true })}
             margin="dense"
             required
-            error={!!errors.room_number}
-            helperText={errors.room_number?.message}
+            error={!!errors.bed_id}
+            helperText={errors.bed_id?.message}
             disabled={isSubmitting}
           />
           <TextField
@@ -195,6 +213,19 @@ export default function CreateResidentDialog({ open, onClose, onSuccess }: Creat
             </Select>
             {errors.care_level && <FormHelperText>{errors.care_level.message}</FormHelperText>}
           </FormControl>
+          <FormControl fullWidth margin="dense" error={!!errors.payer_source} disabled={isSubmitting}>
+            <InputLabel>Payer</InputLabel>
+            <Select
+              {...register('payer_source')}
+              label="Payer"
+              defaultValue="PRIVATE_PAY"
+            >
+              {(Object.keys(PAYER_SOURCE_LABELS) as PayerSource[]).map(payer => (
+                <MenuItem key={payer} value={payer}>{PAYER_SOURCE_LABELS[payer]}</MenuItem>
+              ))}
+            </Select>
+            {errors.payer_source && <FormHelperText>{errors.payer_source.message}</FormHelperText>}
+          </FormControl>
 
           <Box sx={{ mt: 2 }}>
             <Typography variant="subtitle1" gutterBottom>Medical Conditions</Typography>
@@ -227,6 +258,8 @@ export default function CreateResidentDialog({ open, onClose, onSuccess }: Creat
             {errors.medical_conditions && <FormHelperText error>{errors.medical_conditions.message}</FormHelperText>}
           </Box>
 
+          <AllergyListField value={tempAllergies} onChange={handleAllergiesChange} />
+
         </DialogContent>
         <DialogActions sx={{ padding: '16px 24px' }}>
           <Button onClick={handleCloseDialog} disabled={isSubmitting}>Cancel</Button>
@@ -0,0 +1,174 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { useForm, Controller } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { supabase } from '@/lib/supabase/client';
+import toast from 'react-hot-toast';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  TextField,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  CircularProgress,
+  Autocomplete,
+} from '@mui/material';
+import { BED_TYPE_LABELS, BedService, BedType } from '@/lib/services/BedService';
+
+// Zod schema for validation; bed labels are entered comma-separated, e.g. "A, B"
+const roomSchema = z.object({
+  unit: z.string().trim().min(1, 'Unit is required'),
+  room_number: z.string().trim().min(1, 'Room number is required'),
+  bed_labels: z.string().refine(value => value.split(',').some(label => label.trim()), 'At least one bed is required'),
+  bed_type: z.enum(['STANDARD', 'LOW', 'BARIATRIC', 'HOSPITAL']),
+  notes: z.string().optional(),
+});
+
+type RoomFormData = z.infer<typeof roomSchema>;
+
+interface CreateRoomDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onSuccess: () => void;
+  units: string[]; // Existing units, offered as suggestions
+}
+
+const CreateRoomDialog: React.FC<CreateRoomDialogProps> = ({ open, onClose, onSuccess, units }) => {
+  const [isLoading, setIsLoading] = useState(false);
+
+  const { control, handleSubmit, reset, formState: { errors } } = useForm<RoomFormData>({
+    resolver: zodResolver(roomSchema),
+    defaultValues: { unit: '', room_number: '', bed_labels: 'A', bed_type: 'STANDARD', notes: '' },
+  });
+
+  useEffect(() => {
+    if (open) reset({ unit: '', room_number: '', bed_labels: 'A', bed_type: 'STANDARD', notes: '' });
+  }, [open, reset]);
+
+  const onSubmit = async (data: RoomFormData) => {
+    setIsLoading(true);
+    try {
+      await BedService.createRoom(supabase, {
+        unit: data.unit,
+        room_number: data.room_number,
+        notes: data.notes,
+        bed_labels: Array.from(new Set(data.bed_labels.split(',').map(label => label.trim()).filter(Boolean))),
+        bed_type: data.bed_type as BedType,
+      });
+      toast.success(`Room ${data.room_number.trim()} added.`);
+      onSuccess();
+      onClose();
+    } catch (err) {
+      console.error('Error creating room:', err);
+      toast.error(`Failed to add room: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleClose = () => {
+    if (!isLoading) {
+      onClose();
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={handleClose} maxWidth="xs" fullWidth>
+      <DialogTitle>Add Room</DialogTitle>
+      <form onSubmit={handleSubmit(onSubmit)}>
+        <DialogContent>
+          <Controller
+            name="unit"
+            control={control}
+            render={({ field }) => (
+              <Autocomplete
+                freeSolo
+                options={units}
+                value={field.value}
+                onInputChange={(_, value) => field.onChange(value)}
+                renderInput={(params) => (
+                  <TextField
+                    {...params}
+                    label="Unit / Wing"
+                    margin="normal"
+                    required
+                    error={!!errors.unit}
+                    helperText={errors.unit?.message}
+                  />
+                )}
+              />
+            )}
+          />
+          <Controller
+            name="room_number"
+            control={control}
+            render={({ field }) => (
+              <TextField
+                {...field}
+                label="Room Number"
+                fullWidth
+                margin="normal"
+                required
+                error={!!errors.room_number}
+                helperText={errors.room_number?.message}
+              />
+            )}
+          />
+          <Controller
+            name="bed_labels"
+            control={control}
+            render={({ field }) => (
+              <TextField
+                {...field}
+                label="Beds"
+                fullWidth
+                margin="normal"
+                required
+                error={!!errors.bed_labels}
+                helperText={errors.bed_labels?.message || 'Comma-separated labels, e.g. "A, B" for a shared room'}
+              />
+            )}
+          />
+          <FormControl fullWidth margin="normal">
+            <InputLabel id="bed-type-select-label">Bed Type</InputLabel>
+            <Controller
+              name="bed_type"
+              control={control}
+              render={({ field }) => (
+                <Select {...field} labelId="bed-type-select-label" label="Bed Type">
+                  {(Object.keys(BED_TYPE_LABELS) as BedType[]).map(type => (
+                    <MenuItem key={type} value={type}>{BED_TYPE_LABELS[type]}</MenuItem>
+                  ))}
+                </Select>
+              )}
+            />
+          </FormControl>
+          <Controller
+            name="notes"
+            control={control}
+            render={({ field }) => (
+              <TextField {...field} label="Notes (Optional)" fullWidth margin="normal" multiline rows={2} />
+            )}
+          />
+        </DialogContent>
+        <DialogActions sx={{ padding: '16px 24px' }}>
+          <Button onClick={handleClose} disabled={isLoading} color="secondary">
+            Cancel
+          </Button>
+          <Button type="submit" variant="contained" disabled={isLoading}>
+            {isLoading ? <CircularProgress size={24} /> : 'Add Room'}
+          </Button>
+        </DialogActions>
+      </form>
+    </Dialog>
+  );
+};
+
+export default CreateRoomDialog;
@@ -0,0 +1,216 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  TextField,
+  CircularProgress,
+  Typography,
+  Divider,
+  Stack,
+} from '@mui/material';
+import { DateTimePicker } from '@mui/x-date-pickers/DateTimePicker';
+import { LocalizationProvider } from '@mui/x-date-pickers/LocalizationProvider';
+import { AdapterDateFns } from '@mui/x-date-pickers/AdapterDateFnsV3';
+import PictureAsPdfIcon from '@mui/icons-material/PictureAsPdf';
+import { format } from 'date-fns';
+import toast from 'react-hot-toast';
+import { supabase } from '@/lib/supabase/client';
+import { useAuth } from '@/lib/hooks/useAuth';
+import {
+  IncidentNotificationValues,
+  IncidentReportService,
+  IncidentSignature,
+  SIGNER_ROLE_LABELS,
+  SIGNER_ROLES,
+  SignerRole,
+} from '@/lib/services/IncidentReportService';
+
+interface IncidentReportDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onSuccess: () => void; // Called after notification times are saved
+  incident: (IncidentNotificationValues & { id: string; title: string; reported_by: string | null }) | null;
+}
+
+const IncidentReportDialog: React.FC<IncidentReportDialogProps> = ({ open, onClose, onSuccess, incident }) => {
+  const { user, profile } = useAuth();
+  const [isLoading, setIsLoading] = useState(false);
+  const [signatures, setSignatures] = useState<IncidentSignature[]>([]);
+  const [loadingSignatures, setLoadingSignatures] = useState(false);
+
+  const [familyNotifiedAt, setFamilyNotifiedAt] = useState<Date | null>(null);
+  const [familyContact, setFamilyContact] = useState('');
+  const [physicianNotifiedAt, setPhysicianNotifiedAt] = useState<Date | null>(null);
+  const [physicianName, setPhysicianName] = useState('');
+
+  const loadSignatures = async (incidentId: string) => {
+    setLoadingSignatures(true);
+    try {
+      setSignatures(await IncidentReportService.fetchSignatures(supabase, incidentId));
+    } catch (err) {
+      console.error('Error loading signatures:', err);
+      toast.error(`Failed to load signatures: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setLoadingSignatures(false);
+    }
+  };
+
+  useEffect(() => {
+    setSignatures([]);
+    if (!open || !incident) return;
+
+    setFamilyNotifiedAt(incident.family_notified_at ? new Date(incident.family_notified_at) : null);
+    setFamilyContact(incident.family_notified_contact || '');
+    setPhysicianNotifiedAt(incident.physician_notified_at ? new Date(incident.physician_notified_at) : null);
+    setPhysicianName(incident.physician_name || '');
+    loadSignatures(incident.id);
+  }, [open, incident]);
+
+  const handleSaveNotifications = async () => {
+    if (!incident) return;
+    setIsLoading(true);
+    try {
+      await IncidentReportService.saveNotifications(supabase, incident.id, {
+        family_notified_at: familyNotifiedAt?.toISOString() || null,
+        family_notified_contact: familyContact,
+        physician_notified_at: physicianNotifiedAt?.toISOString() || null,
+        physician_name: physicianName,
+      });
+      toast.success('Notification times saved.');
+      onSuccess();
+    } catch (err) {
+      console.error('Error saving notifications:', err);
+      toast.error(`Failed to save notifications: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSign = async (role: SignerRole) => {
+    if (!user || !incident) {
+      toast.error('Missing required information (user or incident).');
+      return;
+    }
+    setIsLoading(true);
+    try {
+      await IncidentReportService.sign(supabase, incident.id, role, user.id);
+      toast.success(`Signed as ${SIGNER_ROLE_LABELS[role].toLowerCase()}.`);
+      await loadSignatures(incident.id);
+    } catch (err) {
+      console.error('Error signing incident report:', err);
+      toast.error(`Failed to sign: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleClose = () => {
+    if (!isLoading) {
+      onClose();
+    }
+  };
+
+  return (
+    <LocalizationProvider dateAdapter={AdapterDateFns}>
+      <Dialog open={open} onClose={handleClose} maxWidth="sm" fullWidth>
+        <DialogTitle>Regulatory Report</DialogTitle>
+        <DialogContent>
+          <Typography variant="subtitle1">Incident: <strong>{incident?.title || 'N/A'}</strong></Typography>
+
+          {/* Notifications */}
+          <Typography variant="subtitle2" sx={{ mt: 2 }}>Notifications</Typography>
+          <Stack direction="row" spacing={2}>
+            <DateTimePicker
+              label="Family Notified At"
+              value={familyNotifiedAt}
+              onChange={setFamilyNotifiedAt}
+              disableFuture
+              slotProps={{ textField: { fullWidth: true, margin: 'normal' } }}
+            />
+            <TextField
+              label="Family Member Notified"
+              placeholder="Name, relationship, how"
+              value={familyContact}
+              onChange={(e) => setFamilyContact(e.target.value)}
+              fullWidth
+              margin="normal"
+            />
+          </Stack>
+          <Stack direction="row" spacing={2}>
+            <DateTimePicker
+              label="Physician Notified At"
+              value={physicianNotifiedAt}
+              onChange={setPhysicianNotifiedAt}
+              disableFuture
+              slotProps={{ textField: { fullWidth: true, margin: 'normal' } }}
+            />
+            <TextField
+              label="Physician"
+              value={physicianName}
+              onChange={(e) => setPhysicianName(e.target.value)}
+              fullWidth
+              margin="normal"
+            />
+          </Stack>
+          <Button onClick={handleSaveNotifications} disabled={isLoading}>Save Notifications</Button>
+
+          <Divider sx={{ my: 2 }} />
+
+          {/* Signatures */}
+          <Typography variant="subtitle2">Signatures</Typography>
+          {loadingSignatures ? (
+            <CircularProgress size={20} />
+          ) : (
+            <Stack spacing={1} sx={{ mt: 1 }}>
+              {SIGNER_ROLES.map(role => {
+                const signature = signatures.find(s => s.signer_role === role);
+                // Mirrors incident_signatures: the reporter signs as reporter, admins as administrator, and nobody twice
+                const canSign = (role !== 'ADMINISTRATOR' || profile?.role === 'ADMIN')
+                  && (role !== 'REPORTER' || incident?.reported_by === user?.id)
+                  && !signatures.some(s => s.signed_by === user?.id);
+                return (
+                  <Stack key={role} direction="row" alignItems="center" justifyContent="space-between">
+                    <Typography variant="body2">
+                      {SIGNER_ROLE_LABELS[role]}:{' '}
+                      {signature
+                        ? <strong>{signature.signed_by_profile?.full_name || 'Unknown'}, {format(new Date(signature.signed_at), 'Pp')}</strong>
+                        : <Typography component="span" variant="body2" color="text.secondary">Not signed</Typography>}
+                    </Typography>
+                    {!signature && (
+                      <Button size="small" onClick={() => handleSign(role)} disabled={isLoading || !canSign}>
+                        Sign
+                      </Button>
+                    )}
+                  </Stack>
+                );
+              })}
+            </Stack>
+          )}
+          <Typography variant="caption" color="text.secondary" display="block" sx={{ mt: 1 }}>
+            Signing records your name and the time as an electronic signature. Signatures cannot be removed.
+          </Typography>
+        </DialogContent>
+        <DialogActions sx={{ padding: '16px 24px' }}>
+          <Button onClick={handleClose} disabled={isLoading} color="secondary">
+            Close
+          </Button>
+          <Button
+            variant="contained"
+            startIcon={<PictureAsPdfIcon />}
+            href={incident ? `/api/incident-reports/${incident.id}` : undefined}
+            disabled={!incident || isLoading}
+          >
+            Download PDF
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </LocalizationProvider>
+  );
+};
+
+export default IncidentReportDialog;
@@ -0,0 +1,296 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { useForm, Controller } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { supabase } from '@/lib/supabase/client';
+import { useAuth } from '@/lib/hooks/useAuth';
+import toast from 'react-hot-toast';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  TextField,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  FormHelperText,
+  CircularProgress,
+  Typography,
+  Divider,
+  Box,
+  Chip,
+  Stack,
+} from '@mui/material';
+import { format } from 'date-fns';
+import {
+  INCIDENT_STATUS_COLORS,
+  INCIDENT_STATUS_LABELS,
+  IncidentStatus,
+  IncidentStatusHistoryEntry,
+  IncidentWorkflowService,
+  IncidentWorkflowState,
+  TRANSITION_REQUIREMENTS,
+  TransitionField,
+} from '@/lib/services/IncidentWorkflowService';
+
+type StaffOrAdminProfile = {
+  id: string; // Profile ID
+  full_name: string | null;
+  email: string | null;
+};
+
+// Zod schema for validation; per-transition requirements are checked on submit
+const transitionSchema = z.object({
+  to_status: z.string().min(1, 'Choose the next status'),
+  assigned_to: z.string().optional(),
+  root_cause: z.string().optional(),
+  action_plan: z.string().optional(),
+  comment: z.string().optional(),
+});
+
+type TransitionFormData = z.infer<typeof transitionSchema>;
+
+interface IncidentWorkflowDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onSuccess: () => void;
+  incident: (IncidentWorkflowState & { id: string; title: string }) | null;
+  assignees: StaffOrAdminProfile[]; // List of potential reviewers
+}
+
+const IncidentWorkflowDialog: React.FC<IncidentWorkflowDialogProps> = ({
+  open,
+  onClose,
+  onSuccess,
+  incident,
+  assignees = [],
+}) => {
+  const { user } = useAuth();
+  const [isLoading, setIsLoading] = useState(false);
+  const [history, setHistory] = useState<IncidentStatusHistoryEntry[]>([]);
+  const [loadingHistory, setLoadingHistory] = useState(false);
+
+  const allowed = incident ? IncidentWorkflowService.getAllowedTransitions(incident.status) : [];
+
+  const {
+    control,
+    handleSubmit,
+    reset,
+    setError,
+    watch,
+    formState: { errors },
+  } = useForm<TransitionFormData>({
+    resolver: zodResolver(transitionSchema),
+    defaultValues: { to_status: '', assigned_to: '', root_cause: '', action_plan: '', comment: '' },
+  });
+
+  const toStatus = watch('to_status') as IncidentStatus | '';
+  const required = toStatus ? TRANSITION_REQUIREMENTS[toStatus] : [];
+  // Show a field when the next status needs it or when it is the natural place to fill it in
+  const showField = (field: TransitionField) =>
+    required.includes(field) ||
+    (field === 'root_cause' && toStatus === 'INVESTIGATING') ||
+    (field === 'action_plan' && toStatus === 'ACTION_PLAN');
+
+  // Start from what is already on the incident
+  useEffect(() => {
+    if (open && incident) {
+      const next = IncidentWorkflowService.getAllowedTransitions(incident.status);
+      reset({
+        to_status: next.length === 1 ? next[0] : '',
+        assigned_to: incident.assigned_to || '',
+        root_cause: incident.root_cause || '',
+        action_plan: incident.action_plan || '',
+        comment: '',
+      });
+    }
+  }, [open, incident, reset]);
+
+  useEffect(() => {
+    setHistory([]);
+    if (!open || !incident) return;
+
+    const loadHistory = async () => {
+      setLoadingHistory(true);
+      try {
+        setHistory(await IncidentWorkflowService.fetchHistory(supabase, incident.id));
+      } catch (err) {
+        console.error('Error loading incident history:', err);
+        toast.error(`Failed to load incident history: ${err instanceof Error ? err.message : String(err)}`);
+      } finally {
+        setLoadingHistory(false);
+      }
+    };
+    loadHistory();
+  }, [open, incident]);
+
+  const onSubmit = async (data: TransitionFormData) => {
+    if (!user || !incident) {
+      toast.error('Missing required information (user or incident).');
+      return;
+    }
+
+    const to = data.to_status as IncidentStatus;
+    // Only send the fields relevant to this transition
+    const values = {
+      comment: data.comment,
+      assigned_to: showField('assigned_to') ? data.assigned_to : null,
+      root_cause: showField('root_cause') ? data.root_cause : null,
+      action_plan: showField('action_plan') ? data.action_plan : null,
+    };
+    const fieldErrors = IncidentWorkflowService.validate(incident, to, values);
+    if (Object.keys(fieldErrors).length > 0) {
+      (Object.keys(fieldErrors) as TransitionField[]).forEach(field => setError(field, { message: fieldErrors[field] }));
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      await IncidentWorkflowService.transition(supabase, incident.id, to, user.id, values);
+      toast.success(`Incident moved to ${INCIDENT_STATUS_LABELS[to]}.`);
+      onSuccess();
+      onClose();
+    } catch (err) {
+      console.error('Error changing incident status:', err);
+      toast.error(`Failed to change status: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleClose = () => {
+    if (!isLoading) {
+      onClose();
+    }
+  };
+
+  const textField = (name: 'root_cause' | 'action_plan' | 'comment', label: string, rows: number) => (
+    <Controller
+      name={name}
+      control={control}
+      render={({ field }) => (
+        <TextField
+          {...field}
+          label={label}
+          variant="outlined"
+          fullWidth
+          multiline
+          rows={rows}
+          margin="normal"
+          required={required.includes(name)}
+          error={!!errors[name]}
+          helperText={errors[name]?.message}
+        />
+      )}
+    />
+  );
+
+  return (
+    <Dialog open={open} onClose={handleClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Incident Workflow</DialogTitle>
+      <form onSubmit={handleSubmit(onSubmit)}>
+        <DialogContent>
+          <Typography variant="subtitle1">Incident: <strong>{incident?.title || 'N/A'}</strong></Typography>
+          {incident && (
+            <Chip label={INCIDENT_STATUS_LABELS[incident.status]} color={INCIDENT_STATUS_COLORS[incident.status]} size="small" sx={{ mt: 0.5 }} />
+          )}
+
+          {/* Status history */}
+          <Typography variant="subtitle2" sx={{ mt: 2 }}>History</Typography>
+          {loadingHistory ? (
+            <CircularProgress size={20} />
+          ) : history.length === 0 ? (
+            <Typography variant="body2" color="text.secondary">No history recorded.</Typography>
+          ) : (
+            <Stack spacing={1} sx={{ mt: 1 }}>
+              {history.map(entry => (
+                <Box key={entry.id}>
+                  <Typography variant="body2">
+                    <strong>{format(new Date(entry.created_at), 'Pp')}</strong>{' '}
+                    {entry.from_status ? `${INCIDENT_STATUS_LABELS[entry.from_status]} → ` : ''}{INCIDENT_STATUS_LABELS[entry.to_status]}
+                    {' '}by {entry.changed_by_profile?.full_name || 'Unknown'}
+                  </Typography>
+                  {entry.comment && <Typography variant="body2" color="text.secondary">{entry.comment}</Typography>}
+                  {entry.root_cause && <Typography variant="body2" color="text.secondary">Root cause: {entry.root_cause}</Typography>}
+                  {entry.action_plan && <Typography variant="body2" color="text.secondary">Action plan: {entry.action_plan}</Typography>}
+                </Box>
+              ))}
+            </Stack>
+          )}
+
+          <Divider sx={{ my: 2 }} />
+
+          {allowed.length === 0 ? (
+            <Typography color="text.secondary">No further transitions are available.</Typography>
+          ) : (
+            <>
+              <FormControl fullWidth margin="normal" required error={!!errors.to_status}>
+                <InputLabel id="to-status-select-label">Move To</InputLabel>
+                <Controller
+                  name="to_status"
+                  control={control}
+                  render={({ field }) => (
+                    <Select
+                      {...field}
+                      labelId="to-status-select-label"
+                      label="Move To"
+                    >
+                      {allowed.map(status => (
+                        <MenuItem key={status} value={status}>{INCIDENT_STATUS_LABELS[status]}</MenuItem>
+                      ))}
+                    </Select>
+                  )}
+                />
+                <FormHelperText>{errors.to_status?.message}</FormHelperText>
+              </FormControl>
+
+              {showField('assigned_to') && (
+                <FormControl fullWidth margin="normal" required error={!!errors.assigned_to}>
+                  <InputLabel id="reviewer-select-label">Reviewer</InputLabel>
+                  <Controller
+                    name="assigned_to"
+                    control={control}
+                    render={({ field }) => (
+                      <Select
+                        {...field}
+                        labelId="reviewer-select-label"
+                        label="Reviewer"
+                        value={field.value || ''}
+                      >
+                        {assignees.map((assignee) => (
+                          <MenuItem key={assignee.id} value={assignee.id}>
+                            {assignee.full_name || assignee.email}
+                          </MenuItem>
+                        ))}
+                      </Select>
+                    )}
+                  />
+                  <FormHelperText>{errors.assigned_to?.message}</FormHelperText>
+                </FormControl>
+              )}
+
+              {showField('root_cause') && textField('root_cause', 'Root Cause', 3)}
+              {showField('action_plan') && textField('action_plan', toStatus === 'CLOSED' ? 'Action Plan (or why none is needed)' : 'Action Plan', 3)}
+              {textField('comment', toStatus === 'REOPENED' ? 'Reason for Reopening' : 'Comment (Optional)', 2)}
+            </>
+          )}
+        </DialogContent>
+        <DialogActions sx={{ padding: '16px 24px' }}>
+          <Button onClick={handleClose} disabled={isLoading} color="secondary">
+            Cancel
+          </Button>
+          <Button type="submit" variant="contained" disabled={isLoading || allowed.length === 0}>
+            {isLoading ? <CircularProgress size={24} /> : 'Change Status'}
+          </Button>
+        </DialogActions>
+      </form>
+    </Dialog>
+  );
+};
+
+export default IncidentWorkflowDialog;
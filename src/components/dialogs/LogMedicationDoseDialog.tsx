@@ -1,6 +1,6 @@
 'use client';
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { useForm, Controller } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
@@ -23,13 +23,24 @@ import {
   Typography,
   Box,
   Divider,
+  Alert,
 } from '@mui/material';
 import { format } from 'date-fns';
+import { FacilityTimeService } from '@/lib/services/FacilityTimeService';
+import { MedicationScheduleService, SchedulableMedication } from '@/lib/services/MedicationScheduleService';
+import { PrnLimitCheck, PrnSchedule, PrnService } from '@/lib/services/PrnService';
+import { useScanVerification } from '@/lib/hooks/useScanVerification';
+import ScanField from '@/components/ScanField';
 
 // Zod schema for validation
 const logSchema = z.object({
   status: z.enum(['GIVEN', 'MISSED', 'REFUSED'], { required_error: 'Status is required' }),
   notes: z.string().optional(),
+  scheduled_for: z.string().optional(), // ISO time of the scheduled slot, empty for unscheduled doses
+  // PRN doses only; required-ness depends on the medication so it is checked on submit
+  prn_indication: z.string().optional(),
+  pain_score: z.string().optional(), // '' or '0' - '10' from the select
+  prn_override_reason: z.string().optional(),
 });
 
 type LogFormData = z.infer<typeof logSchema>;
@@ -42,6 +53,8 @@ interface LogMedicationDoseDialogProps {
   residentId: string | null;
   medicationName?: string; // For display
   residentName?: string; // For display
+  medication?: SchedulableMedication | null; // Used to resolve today's scheduled slots
+  scheduledFor?: Date | null; // Prefill a specific slot (e.g. from the MAR)
 }
 
 const LogMedicationDoseDialog: React.FC<LogMedicationDoseDialogProps> = ({ 
@@ -51,42 +64,124 @@ const LogMedicationDoseDialog: React.FC<LogMedicationDoseDialogProps> = ({
   medicationId,
   residentId,
   medicationName = 'N/A',
-  residentName = 'N/A'
+  residentName = 'N/A',
+  medication = null,
+  scheduledFor = null,
 }) => {
   const { user } = useAuth();
   const [isLoading, setIsLoading] = useState(false);
   const administeredAtTime = new Date(); // Capture time when dialog opens/renders
+  const [prnCheck, setPrnCheck] = useState<PrnLimitCheck | null>(null);
+
+  const scanTarget = useMemo(
+    () => (medicationId && residentId ? { medicationId, residentId } : null),
+    [medicationId, residentId]
+  );
+  const scan = useScanVerification(scanTarget);
+  const { reset: resetScan } = scan;
+
+  const prnSchedule: PrnSchedule | null = medication?.schedule?.type === 'PRN' ? medication.schedule : null;
+
+  // Today's scheduled slots for this medication (none for PRN or legacy free-text schedules)
+  const todaysDoses = useMemo(() => {
+    if (!medication) return [];
+    const now = new Date();
+    return MedicationScheduleService.getDueDoses(medication, FacilityTimeService.startOfDay(now), FacilityTimeService.endOfDay(now));
+  }, [medication]);
 
   const {
     control,
     handleSubmit,
     reset,
+    setError,
+    watch,
     formState: { errors },
   } = useForm<LogFormData>({
     resolver: zodResolver(logSchema),
     defaultValues: {
       status: 'GIVEN', // Default to GIVEN
       notes: '',
+      scheduled_for: '',
+      prn_indication: '',
+      pain_score: '',
+      prn_override_reason: '',
     },
   });
 
+  const status = watch('status');
+  const isPrnDose = !!prnSchedule && status === 'GIVEN';
+
   // Reset form when dialog opens/closes or relevant IDs change
   useEffect(() => {
+    resetScan();
     if (open) {
-      reset({ status: 'GIVEN', notes: '' });
+      // Preselect the requested slot, otherwise today's dose closest to now
+      const closest = medication ? MedicationScheduleService.getClosestDue(medication) : null;
+      const defaultSlot = scheduledFor ?? closest?.scheduledAt ?? null;
+      reset({
+        status: 'GIVEN',
+        notes: '',
+        scheduled_for: defaultSlot ? defaultSlot.toISOString() : '',
+        prn_indication: '',
+        pain_score: '',
+        prn_override_reason: '',
+      });
     } else {
       reset(); // Clear form fully when closed
     }
-  }, [open, medicationId, residentId, reset]);
+  }, [open, medicationId, residentId, medication, scheduledFor, reset, resetScan]);
+
+  // Load recent doses so the interval and daily max can be shown before logging a PRN dose
+  useEffect(() => {
+    setPrnCheck(null);
+    if (!open || !medicationId || !prnSchedule) return;
+
+    const loadPrnCheck = async () => {
+      try {
+        const recent = await PrnService.fetchRecentDoses(supabase, medicationId, prnSchedule);
+        setPrnCheck(PrnService.checkLimits(prnSchedule, recent));
+      } catch (err) {
+        console.error('Error checking PRN limits:', err);
+        toast.error(`Failed to check previous PRN doses: ${err instanceof Error ? err.message : String(err)}`);
+      }
+    };
+    loadPrnCheck();
+  }, [open, medicationId, prnSchedule]);
 
   const onSubmit = async (data: LogFormData) => {
     if (!user || !medicationId || !residentId) {
       toast.error('Missing required information (user, medication, or resident).');
       return;
     }
+    if (scan.blockingError) {
+      toast.error(scan.blockingError);
+      return;
+    }
 
     setIsLoading(true);
     try {
+      let effectivenessDueAt: Date | null = null;
+      if (prnSchedule && data.status === 'GIVEN') {
+        if (!data.prn_indication?.trim()) {
+          setError('prn_indication', { message: 'Indication is required for PRN doses' });
+          return;
+        }
+        // Re-check against the latest log so a dose given by someone else meanwhile is counted; the database
+        // enforces the same limits on insert, this check is here for its messages
+        const recent = await PrnService.fetchRecentDoses(supabase, medicationId, prnSchedule, administeredAtTime);
+        const check = PrnService.checkLimits(prnSchedule, recent, administeredAtTime);
+        setPrnCheck(check);
+        if (check.maxReached) {
+          toast.error(`Maximum of ${check.maxPerDay} doses in 24 hours already given.`);
+          return;
+        }
+        if (check.intervalViolated && !data.prn_override_reason?.trim()) {
+          setError('prn_override_reason', { message: 'A reason is required to give this dose before the minimum interval' });
+          return;
+        }
+        effectivenessDueAt = PrnService.getRecheckDueAt(prnSchedule, administeredAtTime);
+      }
+
       const { error } = await supabase
         .from('medication_log')
         .insert({
@@ -96,13 +191,22 @@ const LogMedicationDoseDialog: React.FC<LogMedicationDoseDialogProps> = ({
           administered_by: user.id,
           status: data.status,
           notes: data.notes || null, // Ensure null if empty
+          scheduled_for: data.scheduled_for || null,
+          prn_indication: effectivenessDueAt ? data.prn_indication?.trim() : null,
+          pain_score: effectivenessDueAt && data.pain_score ? Number(data.pain_score) : null,
+          prn_override_reason: effectivenessDueAt && data.prn_override_reason?.trim() ? data.prn_override_reason.trim() : null,
+          effectiveness_due_at: effectivenessDueAt ? effectivenessDueAt.toISOString() : null,
         });
 
       if (error) {
         throw error;
       }
 
-      toast.success(`Medication dose logged as ${data.status}.`);
+      toast.success(
+        effectivenessDueAt
+          ? `PRN dose logged. Re-check effectiveness at ${format(effectivenessDueAt, 'p')}.`
+          : `Medication dose logged as ${data.status}.`
+      );
       reset();
       onSuccess();
       onClose();
@@ -134,6 +238,44 @@ const LogMedicationDoseDialog: React.FC<LogMedicationDoseDialogProps> = ({
           
           <Divider sx={{ my: 2 }} />
 
+          {/* Wristband / label verification; optional, but a mismatch blocks logging */}
+          <ScanField
+            onScan={scan.handleScan}
+            autoFocus
+            error={scan.blockingError || scan.lastError}
+            helperText={scan.verified.size > 0
+              ? `Verified: ${[...scan.verified].map(kind => (kind === 'RESIDENT' ? 'resident' : 'medication')).join(' and ')}`
+              : 'Scan the resident\'s wristband and the medication label'}
+          />
+
+          {/* Scheduled slot (only when the medication has a structured schedule) */}
+          {(todaysDoses.length > 0 || scheduledFor) && (
+            <FormControl fullWidth margin="normal">
+              <InputLabel id="scheduled-for-select-label">Scheduled Dose</InputLabel>
+              <Controller
+                name="scheduled_for"
+                control={control}
+                render={({ field }) => (
+                  <Select
+                    {...field}
+                    labelId="scheduled-for-select-label"
+                    label="Scheduled Dose"
+                  >
+                    <MenuItem value=""><em>Unscheduled dose</em></MenuItem>
+                    {scheduledFor && !todaysDoses.some(d => d.scheduledAt.getTime() === scheduledFor.getTime()) && (
+                      <MenuItem value={scheduledFor.toISOString()}>{format(scheduledFor, 'Pp')}</MenuItem>
+                    )}
+                    {todaysDoses.map(dose => (
+                      <MenuItem key={dose.scheduledAt.toISOString()} value={dose.scheduledAt.toISOString()}>
+                        {format(dose.scheduledAt, 'p')} — {dose.dosage}
+                      </MenuItem>
+                    ))}
+                  </Select>
+                )}
+              />
+            </FormControl>
+          )}
+
           <FormControl fullWidth margin="normal" required error={!!errors.status}>
             <InputLabel id="status-select-label">Status</InputLabel>
             <Controller
@@ -154,6 +296,82 @@ const LogMedicationDoseDialog: React.FC<LogMedicationDoseDialogProps> = ({
             <FormHelperText>{errors.status?.message}</FormHelperText>
           </FormControl>
 
+          {/* PRN details (only when giving an as-needed medication) */}
+          {isPrnDose && (
+            <>
+              {prnCheck && (
+                <Alert
+                  severity={prnCheck.maxReached ? 'error' : prnCheck.intervalViolated ? 'warning' : 'info'}
+                  sx={{ mt: 2 }}
+                >
+                  {prnCheck.lastGivenAt ? `Last given ${format(prnCheck.lastGivenAt, 'Pp')}.` : 'No doses in the last 24 hours.'}
+                  {' '}{prnCheck.givenInLastDay}{prnCheck.maxPerDay ? ` of ${prnCheck.maxPerDay}` : ''} dose(s) given in the last 24 hours.
+                  {prnCheck.maxReached && ' The daily maximum has been reached; this dose cannot be logged as given.'}
+                  {!prnCheck.maxReached && prnCheck.intervalViolated && prnCheck.nextAllowedAt &&
+                    ` Minimum interval not met; next dose allowed at ${format(prnCheck.nextAllowedAt, 'p')}.`}
+                </Alert>
+              )}
+
+              <Controller
+                name="prn_indication"
+                control={control}
+                render={({ field }) => (
+                  <TextField
+                    {...field}
+                    label="Indication / Symptom"
+                    placeholder="e.g. Lower back pain, agitation"
+                    variant="outlined"
+                    fullWidth
+                    required
+                    margin="normal"
+                    error={!!errors.prn_indication}
+                    helperText={errors.prn_indication?.message}
+                  />
+                )}
+              />
+
+              <FormControl fullWidth margin="normal">
+                <InputLabel id="pain-score-select-label">Pain Score (Optional)</InputLabel>
+                <Controller
+                  name="pain_score"
+                  control={control}
+                  render={({ field }) => (
+                    <Select
+                      {...field}
+                      labelId="pain-score-select-label"
+                      label="Pain Score (Optional)"
+                    >
+                      <MenuItem value=""><em>Not assessed</em></MenuItem>
+                      {Array.from({ length: 11 }, (_, score) => (
+                        <MenuItem key={score} value={String(score)}>{score}</MenuItem>
+                      ))}
+                    </Select>
+                  )}
+                />
+                <FormHelperText>0 = no pain, 10 = worst imaginable</FormHelperText>
+              </FormControl>
+
+              {prnCheck?.intervalViolated && !prnCheck.maxReached && (
+                <Controller
+                  name="prn_override_reason"
+                  control={control}
+                  render={({ field }) => (
+                    <TextField
+                      {...field}
+                      label="Reason for giving early"
+                      variant="outlined"
+                      fullWidth
+                      required
+                      margin="normal"
+                      error={!!errors.prn_override_reason}
+                      helperText={errors.prn_override_reason?.message}
+                    />
+                  )}
+                />
+              )}
+            </>
+          )}
+
           <Controller
             name="notes"
             control={control}
@@ -177,7 +395,7 @@ const LogMedicationDoseDialog: React.FC<LogMedicationDoseDialogProps> = ({
           <Button onClick={handleClose} disabled={isLoading} color="secondary">
             Cancel
           </Button>
-          <Button type="submit" variant="contained" disabled={isLoading}>
+          <Button type="submit" variant="contained" disabled={isLoading || !!scan.blockingError || (isPrnDose && !!prnCheck?.maxReached)}>
             {isLoading ? <CircularProgress size={24} /> : 'Log Dose'}
           </Button>
         </DialogActions>
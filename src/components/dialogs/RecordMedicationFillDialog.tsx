@@ -0,0 +1,231 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { useForm, Controller } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { supabase } from '@/lib/supabase/client';
+import { useAuth } from '@/lib/hooks/useAuth';
+import toast from 'react-hot-toast';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  TextField,
+  CircularProgress,
+  Typography,
+  Stack,
+} from '@mui/material';
+import { DateTimePicker } from '@mui/x-date-pickers/DateTimePicker';
+import { LocalizationProvider } from '@mui/x-date-pickers/LocalizationProvider';
+import { AdapterDateFns } from '@mui/x-date-pickers/AdapterDateFnsV3';
+
+// Zod schema for validation
+const fillSchema = z.object({
+  quantity: z.number({ invalid_type_error: 'Quantity is required' }).positive('Quantity must be greater than 0'),
+  filled_at: z.date({ required_error: 'Fill date is required' }),
+  pharmacy: z.string().optional(),
+  prescription_number: z.string().optional(),
+  notes: z.string().optional(),
+});
+
+type FillFormData = z.infer<typeof fillSchema>;
+
+interface RecordMedicationFillDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onSuccess: () => void;
+  medication: {
+    id: string;
+    resident_id: string;
+    name: string;
+    count_unit: string | null;
+    quantity_on_hand: number | null;
+  } | null;
+  residentName?: string; // For display
+}
+
+const RecordMedicationFillDialog: React.FC<RecordMedicationFillDialogProps> = ({
+  open,
+  onClose,
+  onSuccess,
+  medication,
+  residentName = 'N/A',
+}) => {
+  const { user } = useAuth();
+  const [isLoading, setIsLoading] = useState(false);
+  const unit = medication?.count_unit || 'units';
+
+  const {
+    control,
+    handleSubmit,
+    reset,
+    formState: { errors },
+  } = useForm<FillFormData>({
+    resolver: zodResolver(fillSchema),
+    defaultValues: {
+      quantity: undefined,
+      filled_at: new Date(),
+      pharmacy: '',
+      prescription_number: '',
+      notes: '',
+    },
+  });
+
+  useEffect(() => {
+    if (open) {
+      reset({ quantity: undefined, filled_at: new Date(), pharmacy: '', prescription_number: '', notes: '' });
+    }
+  }, [open, reset]);
+
+  const onSubmit = async (data: FillFormData) => {
+    if (!user || !medication) {
+      toast.error('Missing required information (user or medication).');
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      // The quantity on hand is updated by a database trigger
+      const { error } = await supabase
+        .from('medication_fills')
+        .insert({
+          medication_id: medication.id,
+          resident_id: medication.resident_id,
+          quantity: data.quantity,
+          filled_at: data.filled_at.toISOString(),
+          pharmacy: data.pharmacy?.trim() || null,
+          prescription_number: data.prescription_number?.trim() || null,
+          recorded_by: user.id,
+          notes: data.notes || null,
+        });
+
+      if (error) {
+        throw error;
+      }
+
+      toast.success(`Recorded ${data.quantity} ${unit} received.`);
+      onSuccess();
+      onClose();
+    } catch (err) {
+      console.error('Error recording medication fill:', err);
+      toast.error(`Failed to record fill: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleClose = () => {
+    if (!isLoading) {
+      onClose();
+    }
+  };
+
+  return (
+    <LocalizationProvider dateAdapter={AdapterDateFns}>
+      <Dialog open={open} onClose={handleClose} maxWidth="sm" fullWidth>
+        <DialogTitle>Record Pharmacy Fill</DialogTitle>
+        <form onSubmit={handleSubmit(onSubmit)}>
+          <DialogContent>
+            <Typography variant="subtitle1">Resident: <strong>{residentName}</strong></Typography>
+            <Typography variant="subtitle1">Medication: <strong>{medication?.name || 'N/A'}</strong></Typography>
+            <Typography variant="body2" color="text.secondary" gutterBottom>
+              {medication?.quantity_on_hand != null
+                ? `Currently on hand: ${medication.quantity_on_hand} ${unit}`
+                : 'Supply is not tracked yet; it will be from this fill onwards.'}
+            </Typography>
+
+            <Stack direction="row" spacing={2}>
+              <Controller
+                name="quantity"
+                control={control}
+                render={({ field }) => (
+                  <TextField
+                    {...field}
+                    value={field.value ?? ''}
+                    onChange={(e) => field.onChange(e.target.value === '' ? undefined : Number(e.target.value))}
+                    label={`Quantity Received (${unit})`}
+                    type="number"
+                    variant="outlined"
+                    fullWidth
+                    required
+                    margin="normal"
+                    inputProps={{ min: 0, step: 'any' }}
+                    error={!!errors.quantity}
+                    helperText={errors.quantity?.message}
+                  />
+                )}
+              />
+              <Controller
+                name="filled_at"
+                control={control}
+                render={({ field }) => (
+                  <DateTimePicker
+                    label="Received At"
+                    value={field.value}
+                    onChange={(newValue) => field.onChange(newValue)}
+                    disableFuture
+                    slotProps={{
+                      textField: {
+                        fullWidth: true,
+                        margin: 'normal',
+                        required: true,
+                        error: !!errors.filled_at,
+                        helperText: errors.filled_at?.message,
+                      }
+                    }}
+                  />
+                )}
+              />
+            </Stack>
+
+            <Stack direction="row" spacing={2}>
+              <Controller
+                name="pharmacy"
+                control={control}
+                render={({ field }) => (
+                  <TextField {...field} label="Pharmacy (Optional)" variant="outlined" fullWidth margin="normal" />
+                )}
+              />
+              <Controller
+                name="prescription_number"
+                control={control}
+                render={({ field }) => (
+                  <TextField {...field} label="Rx Number (Optional)" variant="outlined" fullWidth margin="normal" />
+                )}
+              />
+            </Stack>
+
+            <Controller
+              name="notes"
+              control={control}
+              render={({ field }) => (
+                <TextField
+                  {...field}
+                  label="Notes (Optional)"
+                  variant="outlined"
+                  fullWidth
+                  multiline
+                  rows={2}
+                  margin="normal"
+                />
+              )}
+            />
+          </DialogContent>
+          <DialogActions sx={{ padding: '16px 24px' }}>
+            <Button onClick={handleClose} disabled={isLoading} color="secondary">
+              Cancel
+            </Button>
+            <Button type="submit" variant="contained" color="primary" disabled={isLoading}>
+              {isLoading ? <CircularProgress size={24} /> : 'Record Fill'}
+            </Button>
+          </DialogActions>
+        </form>
+      </Dialog>
+    </LocalizationProvider>
+  );
+};
+
+export default RecordMedicationFillDialog;
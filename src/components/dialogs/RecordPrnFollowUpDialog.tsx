@@ -0,0 +1,205 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { useForm, Controller } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { supabase } from '@/lib/supabase/client';
+import { useAuth } from '@/lib/hooks/useAuth';
+import toast from 'react-hot-toast';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  TextField,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  FormHelperText,
+  CircularProgress,
+  Typography,
+  Divider,
+} from '@mui/material';
+import { format } from 'date-fns';
+import { MedicationLogEntry } from '@/lib/services/MarService';
+import { PRN_OUTCOME_LABELS } from '@/lib/services/PrnService';
+
+// Zod schema for validation
+const followUpSchema = z.object({
+  outcome: z.enum(['EFFECTIVE', 'PARTIALLY_EFFECTIVE', 'NOT_EFFECTIVE'], { required_error: 'Outcome is required' }),
+  pain_score: z.string().optional(), // '' or '0' - '10' from the select
+  notes: z.string().optional(),
+});
+
+type FollowUpFormData = z.infer<typeof followUpSchema>;
+
+interface RecordPrnFollowUpDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onSuccess: () => void;
+  log: MedicationLogEntry | null; // The PRN dose being re-checked
+  medicationName?: string; // For display
+}
+
+const RecordPrnFollowUpDialog: React.FC<RecordPrnFollowUpDialogProps> = ({
+  open,
+  onClose,
+  onSuccess,
+  log,
+  medicationName = 'N/A',
+}) => {
+  const { user } = useAuth();
+  const [isLoading, setIsLoading] = useState(false);
+
+  const {
+    control,
+    handleSubmit,
+    reset,
+    formState: { errors },
+  } = useForm<FollowUpFormData>({
+    resolver: zodResolver(followUpSchema),
+    defaultValues: {
+      outcome: undefined,
+      pain_score: '',
+      notes: '',
+    },
+  });
+
+  useEffect(() => {
+    if (!open) reset();
+  }, [open, reset]);
+
+  const onSubmit = async (data: FollowUpFormData) => {
+    if (!user || !log) {
+      toast.error('Missing required information (user or dose).');
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const { error } = await supabase
+        .from('medication_prn_followups')
+        .insert({
+          log_id: log.id,
+          checked_by: user.id,
+          outcome: data.outcome,
+          pain_score: data.pain_score ? Number(data.pain_score) : null,
+          notes: data.notes || null,
+        });
+
+      if (error) {
+        throw error;
+      }
+
+      toast.success('PRN effectiveness recorded.');
+      reset();
+      onSuccess();
+      onClose();
+    } catch (err) {
+      console.error('Error recording PRN follow-up:', err);
+      toast.error(`Failed to record follow-up: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleClose = () => {
+    if (!isLoading) {
+      onClose();
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={handleClose} maxWidth="sm" fullWidth>
+      <DialogTitle>PRN Effectiveness Re-check</DialogTitle>
+      <form onSubmit={handleSubmit(onSubmit)}>
+        <DialogContent>
+          <Typography variant="subtitle1">Medication: <strong>{medicationName}</strong></Typography>
+          {log && (
+            <>
+              <Typography variant="body2" color="text.secondary">
+                Given {format(new Date(log.administered_at), 'Pp')} for: {log.prn_indication || 'N/A'}
+              </Typography>
+              <Typography variant="body2" color="text.secondary">
+                Pain score before: {log.pain_score ?? 'Not assessed'}
+                {log.effectiveness_due_at && ` · Re-check due ${format(new Date(log.effectiveness_due_at), 'p')}`}
+              </Typography>
+            </>
+          )}
+
+          <Divider sx={{ my: 2 }} />
+
+          <FormControl fullWidth margin="normal" required error={!!errors.outcome}>
+            <InputLabel id="outcome-select-label">Outcome</InputLabel>
+            <Controller
+              name="outcome"
+              control={control}
+              render={({ field }) => (
+                <Select
+                  {...field}
+                  value={field.value || ''}
+                  labelId="outcome-select-label"
+                  label="Outcome"
+                >
+                  {Object.entries(PRN_OUTCOME_LABELS).map(([value, label]) => (
+                    <MenuItem key={value} value={value}>{label}</MenuItem>
+                  ))}
+                </Select>
+              )}
+            />
+            <FormHelperText>{errors.outcome?.message}</FormHelperText>
+          </FormControl>
+
+          <FormControl fullWidth margin="normal">
+            <InputLabel id="followup-pain-score-select-label">Pain Score Now (Optional)</InputLabel>
+            <Controller
+              name="pain_score"
+              control={control}
+              render={({ field }) => (
+                <Select
+                  {...field}
+                  labelId="followup-pain-score-select-label"
+                  label="Pain Score Now (Optional)"
+                >
+                  <MenuItem value=""><em>Not assessed</em></MenuItem>
+                  {Array.from({ length: 11 }, (_, score) => (
+                    <MenuItem key={score} value={String(score)}>{score}</MenuItem>
+                  ))}
+                </Select>
+              )}
+            />
+          </FormControl>
+
+          <Controller
+            name="notes"
+            control={control}
+            render={({ field }) => (
+              <TextField
+                {...field}
+                label="Notes (Optional)"
+                variant="outlined"
+                fullWidth
+                multiline
+                rows={3}
+                margin="normal"
+              />
+            )}
+          />
+        </DialogContent>
+        <DialogActions sx={{ padding: '16px 24px' }}>
+          <Button onClick={handleClose} disabled={isLoading} color="secondary">
+            Cancel
+          </Button>
+          <Button type="submit" variant="contained" disabled={isLoading}>
+            {isLoading ? <CircularProgress size={24} /> : 'Record Re-check'}
+          </Button>
+        </DialogActions>
+      </form>
+    </Dialog>
+  );
+};
+
+export default RecordPrnFollowUpDialog;
@@ -0,0 +1,312 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { useForm, Controller } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { supabase } from '@/lib/supabase/client';
+import { useAuth } from '@/lib/hooks/useAuth';
+import toast from 'react-hot-toast';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  TextField,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  FormHelperText,
+  CircularProgress,
+  Typography,
+  Divider,
+  Box,
+  Chip,
+  Stack,
+} from '@mui/material';
+import { DateTimePicker } from '@mui/x-date-pickers/DateTimePicker';
+import { LocalizationProvider } from '@mui/x-date-pickers/LocalizationProvider';
+import { AdapterDateFns } from '@mui/x-date-pickers/AdapterDateFnsV3';
+import { format } from 'date-fns';
+import BedSelect from '@/components/BedSelect';
+import {
+  ADT_EVENT_TYPE_LABELS,
+  AdtEventField,
+  AdtEventType,
+  DISCHARGE_REASON_LABELS,
+  DischargeReason,
+  RESIDENT_STATUS_COLORS,
+  RESIDENT_STATUS_LABELS,
+  ResidentAdtEvent,
+  ResidentAdtService,
+  ResidentAdtState,
+} from '@/lib/services/ResidentAdtService';
+
+// Zod schema for validation; per-event requirements are checked on submit
+const adtEventSchema = z.object({
+  event_type: z.string().min(1, 'Choose an event'),
+  effective_at: z.date({ required_error: 'When it happened is required', invalid_type_error: 'Invalid date' }),
+  to_bed_id: z.string().optional(),
+  discharge_reason: z.string().optional(),
+  destination: z.string().optional(),
+  notes: z.string().optional(),
+});
+
+type AdtEventFormData = z.infer<typeof adtEventSchema>;
+
+interface ResidentAdtDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onSuccess: () => void;
+  resident: (ResidentAdtState & { id: string; profiles: { full_name: string | null } | null }) | null;
+}
+
+const ResidentAdtDialog: React.FC<ResidentAdtDialogProps> = ({ open, onClose, onSuccess, resident }) => {
+  const { user } = useAuth();
+  const [isLoading, setIsLoading] = useState(false);
+  const [history, setHistory] = useState<ResidentAdtEvent[]>([]);
+  const [loadingHistory, setLoadingHistory] = useState(false);
+
+  const allowed = resident ? ResidentAdtService.getAllowedEvents(resident.status) : [];
+
+  const {
+    control,
+    handleSubmit,
+    reset,
+    setError,
+    watch,
+    formState: { errors },
+  } = useForm<AdtEventFormData>({
+    resolver: zodResolver(adtEventSchema),
+    defaultValues: { event_type: '', effective_at: new Date(), to_bed_id: '', discharge_reason: '', destination: '', notes: '' },
+  });
+
+  const eventType = watch('event_type') as AdtEventType | '';
+  const dischargeReason = watch('discharge_reason') as DischargeReason | '';
+  const showBed = eventType === 'ROOM_TRANSFER' || eventType === 'READMISSION';
+  const showDestination = eventType === 'HOSPITAL_LEAVE' || (eventType === 'DISCHARGE' && dischargeReason !== 'DECEASED');
+
+  useEffect(() => {
+    if (open && resident) {
+      const next = ResidentAdtService.getAllowedEvents(resident.status);
+      reset({
+        event_type: next.length === 1 ? next[0] : '',
+        effective_at: new Date(),
+        to_bed_id: '',
+        discharge_reason: '',
+        destination: '',
+        notes: '',
+      });
+    }
+  }, [open, resident, reset]);
+
+  useEffect(() => {
+    setHistory([]);
+    if (!open || !resident) return;
+
+    const loadHistory = async () => {
+      setLoadingHistory(true);
+      try {
+        setHistory(await ResidentAdtService.fetchHistory(supabase, resident.id));
+      } catch (err) {
+        console.error('Error loading ADT history:', err);
+        toast.error(`Failed to load admission history: ${err instanceof Error ? err.message : String(err)}`);
+      } finally {
+        setLoadingHistory(false);
+      }
+    };
+    loadHistory();
+  }, [open, resident]);
+
+  const onSubmit = async (data: AdtEventFormData) => {
+    if (!user || !resident) {
+      toast.error('Missing required information (user or resident).');
+      return;
+    }
+
+    const type = data.event_type as AdtEventType;
+    // Only send the fields relevant to this event
+    const values = {
+      effective_at: data.effective_at,
+      to_bed_id: showBed ? data.to_bed_id : null,
+      discharge_reason: type === 'DISCHARGE' ? (data.discharge_reason as DischargeReason) || null : null,
+      destination: showDestination ? data.destination : null,
+      notes: data.notes,
+    };
+    const fieldErrors = ResidentAdtService.validate(resident, type, values);
+    if (Object.keys(fieldErrors).length > 0) {
+      (Object.keys(fieldErrors) as (AdtEventField | 'effective_at')[]).forEach(field => setError(field, { message: fieldErrors[field] }));
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      await ResidentAdtService.recordEvent(supabase, resident.id, type, user.id, values);
+      toast.success(`${ADT_EVENT_TYPE_LABELS[type]} recorded.`);
+      onSuccess();
+      onClose();
+    } catch (err) {
+      console.error('Error recording ADT event:', err);
+      toast.error(`Failed to record ${ADT_EVENT_TYPE_LABELS[type].toLowerCase()}: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleClose = () => {
+    if (!isLoading) {
+      onClose();
+    }
+  };
+
+  const textField = (name: 'destination' | 'notes', label: string, required: boolean, rows = 1) => (
+    <Controller
+      name={name}
+      control={control}
+      render={({ field }) => (
+        <TextField
+          {...field}
+          label={label}
+          variant="outlined"
+          fullWidth
+          multiline={rows > 1}
+          rows={rows > 1 ? rows : undefined}
+          margin="normal"
+          required={required}
+          error={!!errors[name]}
+          helperText={errors[name]?.message}
+        />
+      )}
+    />
+  );
+
+  return (
+    <LocalizationProvider dateAdapter={AdapterDateFns}>
+      <Dialog open={open} onClose={handleClose} maxWidth="sm" fullWidth>
+        <DialogTitle>Admission, Discharge &amp; Transfer</DialogTitle>
+        <form onSubmit={handleSubmit(onSubmit)}>
+          <DialogContent>
+            <Typography variant="subtitle1">
+              Resident: <strong>{resident?.profiles?.full_name || 'N/A'}</strong>
+              {resident?.room_number && ` (Room ${resident.room_number})`}
+            </Typography>
+            {resident && (
+              <Chip label={RESIDENT_STATUS_LABELS[resident.status]} color={RESIDENT_STATUS_COLORS[resident.status]} size="small" sx={{ mt: 0.5 }} />
+            )}
+
+            {/* Effective-dated history */}
+            <Typography variant="subtitle2" sx={{ mt: 2 }}>History</Typography>
+            {loadingHistory ? (
+              <CircularProgress size={20} />
+            ) : history.length === 0 ? (
+              <Typography variant="body2" color="text.secondary">No history recorded.</Typography>
+            ) : (
+              <Stack spacing={1} sx={{ mt: 1 }}>
+                {history.map(event => (
+                  <Box key={event.id}>
+                    <Typography variant="body2">
+                      <strong>{format(new Date(event.effective_at), 'Pp')}</strong> {ResidentAdtService.describe(event)}
+                    </Typography>
+                    <Typography variant="caption" color="text.secondary">
+                      Recorded {format(new Date(event.created_at), 'Pp')} by {event.recorded_by_profile?.full_name || 'Unknown'}
+                      {event.notes && ` - ${event.notes}`}
+                    </Typography>
+                  </Box>
+                ))}
+              </Stack>
+            )}
+
+            <Divider sx={{ my: 2 }} />
+
+            <FormControl fullWidth margin="normal" required error={!!errors.event_type}>
+              <InputLabel id="adt-event-select-label">Event</InputLabel>
+              <Controller
+                name="event_type"
+                control={control}
+                render={({ field }) => (
+                  <Select {...field} labelId="adt-event-select-label" label="Event">
+                    {allowed.map(type => (
+                      <MenuItem key={type} value={type}>{ADT_EVENT_TYPE_LABELS[type]}</MenuItem>
+                    ))}
+                  </Select>
+                )}
+              />
+              <FormHelperText>{errors.event_type?.message}</FormHelperText>
+            </FormControl>
+
+            <Controller
+              name="effective_at"
+              control={control}
+              render={({ field }) => (
+                <DateTimePicker
+                  label="Effective"
+                  value={field.value}
+                  onChange={field.onChange}
+                  disableFuture
+                  slotProps={{
+                    textField: {
+                      fullWidth: true,
+                      margin: 'normal',
+                      required: true,
+                      error: !!errors.effective_at,
+                      helperText: errors.effective_at?.message || 'When it happened; may be earlier than now',
+                    },
+                  }}
+                />
+              )}
+            />
+
+            {eventType === 'DISCHARGE' && (
+              <FormControl fullWidth margin="normal" required error={!!errors.discharge_reason}>
+                <InputLabel id="discharge-reason-select-label">Discharge Reason</InputLabel>
+                <Controller
+                  name="discharge_reason"
+                  control={control}
+                  render={({ field }) => (
+                    <Select {...field} labelId="discharge-reason-select-label" label="Discharge Reason">
+                      {(Object.keys(DISCHARGE_REASON_LABELS) as DischargeReason[]).map(reason => (
+                        <MenuItem key={reason} value={reason}>{DISCHARGE_REASON_LABELS[reason]}</MenuItem>
+                      ))}
+                    </Select>
+                  )}
+                />
+                <FormHelperText>{errors.discharge_reason?.message}</FormHelperText>
+              </FormControl>
+            )}
+            {showDestination && textField('destination', eventType === 'HOSPITAL_LEAVE' ? 'Hospital' : 'Destination', true)}
+            {showBed && (
+              <Controller
+                name="to_bed_id"
+                control={control}
+                render={({ field }) => (
+                  <BedSelect
+                    value={field.value || ''}
+                    onChange={field.onChange}
+                    label={eventType === 'ROOM_TRANSFER' ? 'New Bed' : 'Bed'}
+                    required={eventType === 'ROOM_TRANSFER' || !resident?.bed_id}
+                    allowNone={eventType === 'READMISSION' && resident?.bed_id ? 'Return to the held bed' : undefined}
+                    error={!!errors.to_bed_id}
+                    helperText={errors.to_bed_id?.message}
+                  />
+                )}
+              />
+            )}
+            {eventType && textField('notes', 'Notes (Optional)', false, 2)}
+          </DialogContent>
+          <DialogActions sx={{ padding: '16px 24px' }}>
+            <Button onClick={handleClose} disabled={isLoading} color="secondary">
+              Cancel
+            </Button>
+            <Button type="submit" variant="contained" disabled={isLoading || allowed.length === 0}>
+              {isLoading ? <CircularProgress size={24} /> : 'Record Event'}
+            </Button>
+          </DialogActions>
+        </form>
+      </Dialog>
+    </LocalizationProvider>
+  );
+};
+
+export default ResidentAdtDialog;
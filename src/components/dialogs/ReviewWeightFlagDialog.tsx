@@ -0,0 +1,90 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { supabase } from '@/lib/supabase/client';
+import toast from 'react-hot-toast';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  TextField,
+  CircularProgress,
+  Typography,
+} from '@mui/material';
+import { format } from 'date-fns';
+import { WeightChangeFlag, WeightService } from '@/lib/services/WeightService';
+
+interface ReviewWeightFlagDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onSuccess: () => void;
+  flag: WeightChangeFlag | null;
+}
+
+const ReviewWeightFlagDialog: React.FC<ReviewWeightFlagDialogProps> = ({ open, onClose, onSuccess, flag }) => {
+  const [isLoading, setIsLoading] = useState(false);
+  const [notes, setNotes] = useState('');
+
+  useEffect(() => {
+    if (open) setNotes('');
+  }, [open]);
+
+  const handleSave = async () => {
+    if (!flag) return;
+    setIsLoading(true);
+    try {
+      await WeightService.reviewFlag(supabase, flag.id, notes);
+      toast.success('Weight change review recorded.');
+      onSuccess();
+      onClose();
+    } catch (err) {
+      console.error('Error reviewing weight change:', err);
+      toast.error(`Failed to record review: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleClose = () => {
+    if (!isLoading) {
+      onClose();
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={handleClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Review Weight Change</DialogTitle>
+      <DialogContent>
+        {flag && (
+          <Typography variant="subtitle1">
+            {WeightService.formatChange(flag.pct_change)} within {flag.period_days} days
+            <Typography component="span" variant="body2" color="text.secondary"> (flagged {format(new Date(flag.created_at), 'PP')})</Typography>
+          </Typography>
+        )}
+        <TextField
+          label="Assessment and Plan"
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+          fullWidth
+          multiline
+          rows={4}
+          margin="normal"
+          required
+          helperText="e.g. cause, diet changes, supplements, reweigh schedule. Completes the dietitian's task."
+        />
+      </DialogContent>
+      <DialogActions sx={{ padding: '16px 24px' }}>
+        <Button onClick={handleClose} disabled={isLoading} color="secondary">
+          Cancel
+        </Button>
+        <Button variant="contained" onClick={handleSave} disabled={isLoading || !notes.trim()}>
+          {isLoading ? <CircularProgress size={24} /> : 'Mark Reviewed'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default ReviewWeightFlagDialog;
@@ -0,0 +1,107 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { supabase } from '@/lib/supabase/client';
+import toast from 'react-hot-toast';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  TextField,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  CircularProgress,
+  Typography,
+} from '@mui/material';
+import { BED_STATUS_LABELS, BED_TYPE_LABELS, Bed, BedService, BedStatus, MANUAL_BED_STATUSES } from '@/lib/services/BedService';
+
+interface UpdateBedStatusDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onSuccess: () => void;
+  bed: (Bed & { room_number: string }) | null; // An empty bed; occupied beds change through ADT events
+}
+
+const UpdateBedStatusDialog: React.FC<UpdateBedStatusDialogProps> = ({ open, onClose, onSuccess, bed }) => {
+  const [isLoading, setIsLoading] = useState(false);
+  const [status, setStatus] = useState<BedStatus>('AVAILABLE');
+  const [note, setNote] = useState('');
+
+  useEffect(() => {
+    if (open && bed) {
+      setStatus(bed.status === 'OCCUPIED' ? 'CLEANING' : bed.status);
+      setNote(bed.status_note || '');
+    }
+  }, [open, bed]);
+
+  const noteRequired = status === 'RESERVED' || status === 'OUT_OF_SERVICE';
+
+  const handleSave = async () => {
+    if (!bed) return;
+    setIsLoading(true);
+    try {
+      await BedService.setBedStatus(supabase, bed.id, status, status === 'AVAILABLE' ? null : note);
+      toast.success(`Bed ${BedService.formatBed(bed.room_number, bed.label)} is now ${BED_STATUS_LABELS[status].toLowerCase()}.`);
+      onSuccess();
+      onClose();
+    } catch (err) {
+      console.error('Error updating bed status:', err);
+      toast.error(`Failed to update bed: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleClose = () => {
+    if (!isLoading) {
+      onClose();
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={handleClose} maxWidth="xs" fullWidth>
+      <DialogTitle>Bed {bed ? BedService.formatBed(bed.room_number, bed.label) : ''}</DialogTitle>
+      <DialogContent>
+        {bed && <Typography variant="body2" color="text.secondary">{BED_TYPE_LABELS[bed.bed_type]}</Typography>}
+        <FormControl fullWidth margin="normal">
+          <InputLabel id="bed-status-select-label">Status</InputLabel>
+          <Select
+            labelId="bed-status-select-label"
+            label="Status"
+            value={status}
+            onChange={(e) => setStatus(e.target.value as BedStatus)}
+          >
+            {MANUAL_BED_STATUSES.map(option => (
+              <MenuItem key={option} value={option}>{BED_STATUS_LABELS[option]}</MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+        {status !== 'AVAILABLE' && (
+          <TextField
+            label={status === 'RESERVED' ? 'Reserved For' : status === 'OUT_OF_SERVICE' ? 'Reason' : 'Note (Optional)'}
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            fullWidth
+            margin="normal"
+            required={noteRequired}
+            helperText={status === 'RESERVED' ? 'Reservations are advisory: staff can still assign this bed after confirming.' : undefined}
+          />
+        )}
+      </DialogContent>
+      <DialogActions sx={{ padding: '16px 24px' }}>
+        <Button onClick={handleClose} disabled={isLoading} color="secondary">
+          Cancel
+        </Button>
+        <Button variant="contained" onClick={handleSave} disabled={isLoading || (noteRequired && !note.trim())}>
+          {isLoading ? <CircularProgress size={24} /> : 'Save'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default UpdateBedStatusDialog;
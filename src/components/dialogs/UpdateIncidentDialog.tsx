@@ -17,9 +17,13 @@ import {
   MenuItem,
   FormHelperText,
   CircularProgress,
+  Divider,
 } from '@mui/material';
 import { supabase } from '@/lib/supabase/client';
 import toast from 'react-hot-toast';
+import IncidentDetailsPanel from '@/components/IncidentDetailsPanel';
+import IncidentAttachmentsPanel from '@/components/IncidentAttachmentsPanel';
+import { INCIDENT_SEVERITIES, INCIDENT_SEVERITY_LABELS, IncidentSeverity, IncidentStatus } from '@/lib/services/IncidentWorkflowService';
 
 // Types needed for the form and props
 type Incident = {
@@ -27,13 +31,19 @@ type Incident = {
   created_at: string;
   title: string;
   description: string | null;
-  severity: 'LOW' | 'MEDIUM' | 'HIGH';
-  status: 'OPEN' | 'IN_PROGRESS' | 'RESOLVED';
+  severity: IncidentSeverity;
+  status: IncidentStatus;
   resident_id: string;
   reported_by: string;
   assigned_to: string | null;
 };
 
+type ResidentOption = {
+  id: string; // Resident ID
+  room_number: string | null;
+  profiles: { full_name: string | null } | null;
+};
+
 type StaffOrAdminProfile = {
   id: string; // Profile ID
   full_name: string | null;
@@ -44,8 +54,7 @@ type StaffOrAdminProfile = {
 const incidentUpdateSchema = z.object({
   title: z.string().min(3, 'Title must be at least 3 characters'),
   description: z.string().min(10, 'Description must be at least 10 characters'),
-  severity: z.enum(['LOW', 'MEDIUM', 'HIGH']),
-  status: z.enum(['OPEN', 'IN_PROGRESS', 'RESOLVED']), // Use DB-valid statuses
+  severity: z.enum(['LOW', 'MEDIUM', 'HIGH', 'CRITICAL']),
   assigned_to: z.string().uuid('Invalid assignee ID').optional().nullable(), // Allow unassigning
 });
 
@@ -57,6 +66,7 @@ interface UpdateIncidentDialogProps {
   onSuccess: () => void;
   incident: Incident | null; // The incident being edited
   assignees: StaffOrAdminProfile[]; // List of potential assignees
+  residents: ResidentOption[]; // Residents who can be added as involved parties
 }
 
 const UpdateIncidentDialog: React.FC<UpdateIncidentDialogProps> = ({
@@ -65,20 +75,24 @@ const UpdateIncidentDialog: React.FC<UpdateIncidentDialogProps> = ({
   onSuccess,
   incident,
   assignees = [],
+  residents = [],
 }) => {
   const [isLoading, setIsLoading] = useState(false);
 
-  const { control, handleSubmit, reset, formState: { errors } } = useForm<IncidentUpdateFormData>({
+  const { control, handleSubmit, reset, watch, formState: { errors } } = useForm<IncidentUpdateFormData>({
     resolver: zodResolver(incidentUpdateSchema),
     defaultValues: {
       title: '',
       description: '',
       severity: 'MEDIUM',
-      status: 'OPEN',
       assigned_to: '',
     },
   });
 
+  const severity = watch('severity');
+  // Raising an incident to CRITICAL alerts admins and family; re-saving one that already is does not
+  const willAlert = severity === 'CRITICAL' && incident?.severity !== 'CRITICAL';
+
   // Pre-fill form when incident data is available
   useEffect(() => {
     if (incident) {
@@ -86,7 +100,6 @@ const UpdateIncidentDialog: React.FC<UpdateIncidentDialogProps> = ({
         title: incident.title || '',
         description: incident.description || '',
         severity: incident.severity || 'MEDIUM',
-        status: incident.status || 'OPEN',
         assigned_to: incident.assigned_to || '',
       });
     } else {
@@ -108,7 +121,7 @@ const UpdateIncidentDialog: React.FC<UpdateIncidentDialogProps> = ({
           title: data.title,
           description: data.description,
           severity: data.severity,
-          status: data.status,
+          // Status changes go through the incident workflow so they are recorded in its history
           assigned_to: data.assigned_to || null, // Handle optional/nullable
         })
         .eq('id', incident.id);
@@ -137,7 +150,7 @@ const UpdateIncidentDialog: React.FC<UpdateIncidentDialogProps> = ({
   };
 
   return (
-    <Dialog open={open} onClose={handleClose} maxWidth="sm" fullWidth>
+    <Dialog open={open} onClose={handleClose} maxWidth="md" fullWidth>
       <DialogTitle>Update Incident Details</DialogTitle>
       <form onSubmit={handleSubmit(onSubmit)}>
         <DialogContent>
@@ -188,33 +201,13 @@ const UpdateIncidentDialog: React.FC<UpdateIncidentDialogProps> = ({
                   labelId="severity-select-label"
                   label="Severity"
                 >
-                  <MenuItem value="LOW">Low</MenuItem>
-                  <MenuItem value="MEDIUM">Medium</MenuItem>
-                  <MenuItem value="HIGH">High</MenuItem>
-                </Select>
-              )}
-            />
-            <FormHelperText>{errors.severity?.message}</FormHelperText>
-          </FormControl>
-
-          {/* Status Selection */}          <FormControl fullWidth margin="normal" required error={!!errors.status}>
-            <InputLabel id="status-select-label">Status</InputLabel>
-            <Controller
-              name="status"
-              control={control}
-              render={({ field }) => (
-                <Select
-                  {...field}
-                  labelId="status-select-label"
-                  label="Status"
-                >
-                  <MenuItem value="OPEN">Open</MenuItem>
-                  <MenuItem value="IN_PROGRESS">In Progress</MenuItem>
-                  <MenuItem value="RESOLVED">Resolved</MenuItem>
+                  {INCIDENT_SEVERITIES.map(severity => (
+                    <MenuItem key={severity} value={severity}>{INCIDENT_SEVERITY_LABELS[severity]}</MenuItem>
+                  ))}
                 </Select>
               )}
             />
-            <FormHelperText>{errors.status?.message}</FormHelperText>
+            <FormHelperText>{errors.severity?.message || (willAlert && 'All admins and the resident\'s family contacts will be alerted immediately.')}</FormHelperText>
           </FormControl>
 
           {/* Assignee Selection (Optional) */}          <FormControl fullWidth margin="normal" error={!!errors.assigned_to}>
@@ -242,6 +235,21 @@ const UpdateIncidentDialog: React.FC<UpdateIncidentDialogProps> = ({
             <FormHelperText>{errors.assigned_to?.message || (assignees.length === 0 && "Loading potential assignees...")}</FormHelperText>
           </FormControl>
 
+          {/* Involved parties, witness statements, follow-up actions and attachments are saved as they are added */}
+          {incident && (
+            <>
+              <Divider sx={{ my: 2 }} />
+              <IncidentDetailsPanel
+                incidentId={incident.id}
+                primaryResidentId={incident.resident_id}
+                residents={residents}
+                staff={assignees}
+              />
+              <Divider sx={{ my: 2 }} />
+              <IncidentAttachmentsPanel incidentId={incident.id} />
+            </>
+          )}
+
         </DialogContent>
         <DialogActions sx={{ padding: '16px 24px' }}>
           <Button onClick={handleClose} disabled={isLoading} color="secondary">
@@ -22,6 +22,9 @@ import {
 } from '@mui/material';
 import { supabase } from '@/lib/supabase/client';
 import toast from 'react-hot-toast';
+import AllergyListField from '@/components/AllergyListField';
+import { MedicationSafetyService, residentAllergySchema } from '@/lib/services/MedicationSafetyService';
+import { PAYER_SOURCE_LABELS, PayerSource } from '@/lib/services/CensusService';
 
 // Define the types needed (same as in ResidentsPage)
 type ResidentWithProfile = {
@@ -31,7 +34,9 @@ type ResidentWithProfile = {
   room_number: string | null;
   emergency_contact: string | null;
   medical_conditions: string[] | null;
+  allergies?: unknown; // JSONB, parsed with MedicationSafetyService.parseAllergies
   care_level: 'LOW' | 'MEDIUM' | 'HIGH' | null;
+  payer_source: PayerSource;
   profiles: {
     id: string;
     full_name: string | null;
@@ -49,7 +54,9 @@ const residentUpdateSchema = z.object({
   room_number: z.string().optional().nullable(),
   emergency_contact: z.string().optional().nullable(),
   medical_conditions: z.string().optional().nullable(), // Input as comma-separated string
+  allergies: z.array(residentAllergySchema),
   care_level: z.enum(['LOW', 'MEDIUM', 'HIGH'], { required_error: 'Care level is required' }),
+  payer_source: z.enum(['MEDICARE', 'MEDICAID', 'PRIVATE_PAY', 'LTC_INSURANCE', 'MANAGED_CARE', 'VA', 'OTHER'], { required_error: 'Payer is required' }),
 });
 
 type ResidentUpdateFormData = z.infer<typeof residentUpdateSchema>;
@@ -72,7 +79,9 @@ const UpdateResidentDialog: React.FC<UpdateResidentDialogProps> = ({ open, onClo
       room_number: '',
       emergency_contact: '',
       medical_conditions: '', // Initialize as empty string
+      allergies: [],
       care_level: 'MEDIUM',
+      payer_source: 'PRIVATE_PAY',
     },
   });
 
@@ -85,7 +94,9 @@ const UpdateResidentDialog: React.FC<UpdateResidentDialogProps> = ({ open, onClo
         room_number: resident.room_number || '',
         emergency_contact: resident.emergency_contact || '',
         medical_conditions: resident.medical_conditions?.join(', ') || '', // Join array for TextField
+        allergies: MedicationSafetyService.parseAllergies(resident.allergies),
         care_level: resident.care_level || 'MEDIUM',
+        payer_source: resident.payer_source || 'PRIVATE_PAY',
       });
     } else {
       reset(); // Clear form if no resident is selected
@@ -114,10 +125,11 @@ const UpdateResidentDialog: React.FC<UpdateResidentDialogProps> = ({ open, onClo
       const { error: residentError } = await supabase
         .from('residents')
         .update({
-          room_number: data.room_number || null,
           emergency_contact: data.emergency_contact || null,
           medical_conditions: data.medical_conditions?.split(',').map(s => s.trim()).filter(Boolean) || null, // Split string back to array
+          allergies: data.allergies,
           care_level: data.care_level,
+          payer_source: data.payer_source,
         })
         .eq('id', resident.id);
 
@@ -190,12 +202,12 @@ const UpdateResidentDialog: React.FC<UpdateResidentDialogProps> = ({ open, onClo
             render={({ field }) => (
               <TextField
                 {...field}
-                label="Room Number (Optional)"
+                label="Room Number"
                 variant="outlined"
                 fullWidth
                 margin="normal"
-                error={!!errors.room_number}
-                helperText={errors.room_number?.message}
+                disabled
+                helperText="Record a room transfer to move the resident"
               />
             )}
           />
@@ -234,6 +246,12 @@ const UpdateResidentDialog: React.FC<UpdateResidentDialogProps> = ({ open, onClo
             )}
           />
 
+          <Controller
+            name="allergies"
+            control={control}
+            render={({ field }) => <AllergyListField value={field.value} onChange={field.onChange} />}
+          />
+
           <FormControl fullWidth margin="normal" required error={!!errors.care_level}>
             <InputLabel id="care-level-select-label">Care Level</InputLabel>
             <Controller
@@ -254,6 +272,26 @@ const UpdateResidentDialog: React.FC<UpdateResidentDialogProps> = ({ open, onClo
             <FormHelperText>{errors.care_level?.message}</FormHelperText>
           </FormControl>
 
+          <FormControl fullWidth margin="normal" required error={!!errors.payer_source}>
+            <InputLabel id="payer-source-select-label">Payer</InputLabel>
+            <Controller
+              name="payer_source"
+              control={control}
+              render={({ field }) => (
+                <Select
+                  {...field}
+                  labelId="payer-source-select-label"
+                  label="Payer"
+                >
+                  {(Object.keys(PAYER_SOURCE_LABELS) as PayerSource[]).map(payer => (
+                    <MenuItem key={payer} value={payer}>{PAYER_SOURCE_LABELS[payer]}</MenuItem>
+                  ))}
+                </Select>
+              )}
+            />
+            <FormHelperText>{errors.payer_source?.message}</FormHelperText>
+          </FormControl>
+
         </DialogContent>
         <DialogActions sx={{ padding: '16px 24px' }}>
           <Button onClick={handleClose} disabled={isLoading} color="secondary">
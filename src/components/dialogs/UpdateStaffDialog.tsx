@@ -17,6 +17,8 @@ import {
   MenuItem,
   FormHelperText,
   CircularProgress,
+  FormControlLabel,
+  Switch,
 } from '@mui/material';
 import { supabase } from '@/lib/supabase/client';
 import toast from 'react-hot-toast';
@@ -31,6 +33,9 @@ type StaffProfile = {
   email: string | null;
   role: 'STAFF' | 'ADMIN' | 'FAMILY' | 'RESIDENT' | null;
   created_at: string;
+  supervisor_id: string | null;
+  is_charge_nurse: boolean;
+  is_dietitian: boolean;
 };
 
 // Zod schema for validation
@@ -39,6 +44,9 @@ type StaffProfile = {
 const staffUpdateSchema = z.object({
   full_name: z.string().min(3, 'Full name must be at least 3 characters'),
   role: z.enum(['STAFF', 'ADMIN'], { required_error: 'Role is required' }), // Allow changing between STAFF and ADMIN
+  supervisor_id: z.string(), // Empty string for no supervisor
+  is_charge_nurse: z.boolean(),
+  is_dietitian: z.boolean(),
 });
 
 type StaffUpdateFormData = z.infer<typeof staffUpdateSchema>;
@@ -48,9 +56,10 @@ interface UpdateStaffDialogProps {
   onClose: () => void;
   onSuccess: () => void;
   staffMember: StaffProfile | null; // The staff member being edited
+  supervisorOptions: StaffProfile[]; // Staff/admins who can supervise; notified first when an incident SLA is missed
 }
 
-const UpdateStaffDialog: React.FC<UpdateStaffDialogProps> = ({ open, onClose, onSuccess, staffMember }) => {
+const UpdateStaffDialog: React.FC<UpdateStaffDialogProps> = ({ open, onClose, onSuccess, staffMember, supervisorOptions }) => {
   const [isLoading, setIsLoading] = useState(false);
 
   const { control, handleSubmit, reset, formState: { errors } } = useForm<StaffUpdateFormData>({
@@ -58,6 +67,9 @@ const UpdateStaffDialog: React.FC<UpdateStaffDialogProps> = ({ open, onClose, on
     defaultValues: {
       full_name: '',
       role: 'STAFF', // Default role
+      supervisor_id: '',
+      is_charge_nurse: false,
+      is_dietitian: false,
     },
   });
 
@@ -67,9 +79,12 @@ const UpdateStaffDialog: React.FC<UpdateStaffDialogProps> = ({ open, onClose, on
       reset({
         full_name: staffMember.full_name || '',
         role: staffMember.role === 'ADMIN' ? 'ADMIN' : 'STAFF', // Ensure only valid roles are set
+        supervisor_id: staffMember.supervisor_id || '',
+        is_charge_nurse: staffMember.is_charge_nurse ?? false,
+        is_dietitian: staffMember.is_dietitian ?? false,
       });
     } else {
-      reset({ full_name: '', role: 'STAFF' }); // Clear form if no staff member
+      reset({ full_name: '', role: 'STAFF', supervisor_id: '', is_charge_nurse: false, is_dietitian: false }); // Clear form if no staff member
     }
   }, [staffMember, reset]);
 
@@ -89,6 +104,9 @@ const UpdateStaffDialog: React.FC<UpdateStaffDialogProps> = ({ open, onClose, on
         .update({
           full_name: data.full_name,
           role: data.role,
+          supervisor_id: data.supervisor_id || null,
+          is_charge_nurse: data.is_charge_nurse,
+          is_dietitian: data.is_dietitian,
         })
         .eq('id', staffMember.id);
 
@@ -165,6 +183,57 @@ const UpdateStaffDialog: React.FC<UpdateStaffDialogProps> = ({ open, onClose, on
             <FormHelperText>{errors.role?.message}</FormHelperText>
           </FormControl>
 
+          <FormControl fullWidth margin="normal">
+            <InputLabel id="supervisor-select-label">Supervisor</InputLabel>
+            <Controller
+              name="supervisor_id"
+              control={control}
+              render={({ field }) => (
+                <Select
+                  {...field}
+                  labelId="supervisor-select-label"
+                  label="Supervisor"
+                >
+                  <MenuItem value="">None</MenuItem>
+                  {supervisorOptions
+                    .filter(option => option.id !== staffMember?.id)
+                    .map(option => (
+                      <MenuItem key={option.id} value={option.id}>{option.full_name || option.email}</MenuItem>
+                    ))}
+                </Select>
+              )}
+            />
+            <FormHelperText>Notified first when an incident assigned to this person misses its SLA</FormHelperText>
+          </FormControl>
+
+          <FormControl fullWidth margin="normal">
+            <Controller
+              name="is_charge_nurse"
+              control={control}
+              render={({ field }) => (
+                <FormControlLabel
+                  control={<Switch checked={field.value} onChange={(e) => field.onChange(e.target.checked)} />}
+                  label="Charge nurse"
+                />
+              )}
+            />
+            <FormHelperText>Alerted about out-of-range vital signs and significant weight changes during their shift</FormHelperText>
+          </FormControl>
+
+          <FormControl fullWidth margin="normal">
+            <Controller
+              name="is_dietitian"
+              control={control}
+              render={({ field }) => (
+                <FormControlLabel
+                  control={<Switch checked={field.value} onChange={(e) => field.onChange(e.target.checked)} />}
+                  label="Dietitian"
+                />
+              )}
+            />
+            <FormHelperText>Given a review task for each significant weight change</FormHelperText>
+          </FormControl>
+
         </DialogContent>
         <DialogActions sx={{ padding: '16px 24px' }}>
           <Button onClick={handleClose} disabled={isLoading} color="secondary">
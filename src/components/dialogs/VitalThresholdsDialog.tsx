@@ -0,0 +1,174 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { supabase } from '@/lib/supabase/client';
+import { useAuth } from '@/lib/hooks/useAuth';
+import toast from 'react-hot-toast';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  TextField,
+  CircularProgress,
+  Typography,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell,
+  Chip,
+} from '@mui/material';
+import {
+  VITAL_LABELS,
+  VITAL_TYPES,
+  VITAL_UNITS,
+  VitalRange,
+  VitalSignsService,
+  VitalThresholds,
+  VitalType,
+} from '@/lib/services/VitalSignsService';
+
+interface VitalThresholdsDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onSuccess: () => void;
+  residentId: string;
+  thresholds: VitalThresholds | null; // Currently in force for the resident
+}
+
+// Limits are edited as text so either end can be left blank for no limit
+type RangeInput = { low: string; high: string };
+
+const toInput = (range: VitalRange): RangeInput => ({
+  low: range.low === null ? '' : String(range.low),
+  high: range.high === null ? '' : String(range.high),
+});
+
+const toNumber = (value: string) => value.trim() === '' ? null : Number(value);
+
+const VitalThresholdsDialog: React.FC<VitalThresholdsDialogProps> = ({ open, onClose, onSuccess, residentId, thresholds }) => {
+  const { user } = useAuth();
+  const [isLoading, setIsLoading] = useState(false);
+  const [inputs, setInputs] = useState<Record<VitalType, RangeInput> | null>(null);
+
+  useEffect(() => {
+    if (open && thresholds) {
+      setInputs(VITAL_TYPES.reduce((all, type) => ({ ...all, [type]: toInput(thresholds[type]) }), {} as Record<VitalType, RangeInput>));
+    }
+  }, [open, thresholds]);
+
+  const ranges = inputs
+    ? VITAL_TYPES.reduce((all, type) => ({ ...all, [type]: { low: toNumber(inputs[type].low), high: toNumber(inputs[type].high) } }), {} as Record<VitalType, VitalRange>)
+    : null;
+
+  const rangeError = (type: VitalType): string | null => {
+    const range = ranges?.[type];
+    if (!range) return null;
+    if ((range.low !== null && Number.isNaN(range.low)) || (range.high !== null && Number.isNaN(range.high))) return 'Enter a number';
+    if (range.low !== null && range.high !== null && range.low > range.high) return 'Low must not be above high';
+    return null;
+  };
+  const hasErrors = VITAL_TYPES.some(type => rangeError(type) !== null);
+
+  const setInput = (type: VitalType, end: keyof RangeInput, value: string) => {
+    setInputs(prev => prev ? { ...prev, [type]: { ...prev[type], [end]: value } } : prev);
+  };
+
+  const handleSave = async () => {
+    if (!user || !ranges || !thresholds) {
+      toast.error('Missing required information (user or thresholds).');
+      return;
+    }
+    setIsLoading(true);
+    try {
+      await VitalSignsService.saveThresholds(supabase, residentId, user.id, ranges, thresholds);
+      toast.success('Vital sign thresholds saved.');
+      onSuccess();
+      onClose();
+    } catch (err) {
+      console.error('Error saving vital sign thresholds:', err);
+      toast.error(`Failed to save thresholds: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleClose = () => {
+    if (!isLoading) {
+      onClose();
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={handleClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Vital Sign Thresholds</DialogTitle>
+      <DialogContent>
+        <Typography variant="body2" color="text.secondary" gutterBottom>
+          Readings outside these limits are flagged and alert the charge nurse. Leave a limit blank for none.
+        </Typography>
+        {inputs && thresholds && (
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Vital</TableCell>
+                <TableCell>Low</TableCell>
+                <TableCell>High</TableCell>
+                <TableCell>Facility Default</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {VITAL_TYPES.map(type => {
+                const error = rangeError(type);
+                const range = ranges?.[type];
+                const isFacilityDefault = range?.low === thresholds[type].facilityDefault.low && range?.high === thresholds[type].facilityDefault.high;
+                return (
+                  <TableRow key={type}>
+                    <TableCell>
+                      {VITAL_LABELS[type]}
+                      <Typography variant="caption" color="text.secondary" display="block">{VITAL_UNITS[type]}</Typography>
+                    </TableCell>
+                    {(['low', 'high'] as const).map(end => (
+                      <TableCell key={end}>
+                        <TextField
+                          value={inputs[type][end]}
+                          onChange={(e) => setInput(type, end, e.target.value)}
+                          size="small"
+                          type="number"
+                          inputProps={{ step: 'any' }}
+                          error={!!error}
+                          helperText={end === 'high' ? error : undefined}
+                          sx={{ width: 100 }}
+                        />
+                      </TableCell>
+                    ))}
+                    <TableCell>
+                      {isFacilityDefault ? (
+                        <Chip label="Default" size="small" variant="outlined" />
+                      ) : (
+                        <Button size="small" onClick={() => setInputs(prev => prev ? { ...prev, [type]: toInput(thresholds[type].facilityDefault) } : prev)}>
+                          Reset ({VitalSignsService.formatRange(thresholds[type].facilityDefault, type)})
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </DialogContent>
+      <DialogActions sx={{ padding: '16px 24px' }}>
+        <Button onClick={handleClose} disabled={isLoading} color="secondary">
+          Cancel
+        </Button>
+        <Button variant="contained" onClick={handleSave} disabled={isLoading || hasErrors || !inputs}>
+          {isLoading ? <CircularProgress size={24} /> : 'Save'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default VitalThresholdsDialog;
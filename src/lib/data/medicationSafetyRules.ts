@@ -0,0 +1,148 @@
+// Locally bundled allergy and interaction rules used by MedicationSafetyService.
+// This is a curated subset of common, clinically significant rules for long-term care — it is a
+// safety net for prescribing, not a replacement for a pharmacist review or a full drug database.
+// Drug names are lowercase generic names (plus common brand names); classes are referenced by id.
+
+export type InteractionSeverity = 'CONTRAINDICATED' | 'MAJOR';
+
+export type DrugClassRule = {
+  id: string;
+  label: string;
+  members: string[];
+  aliases?: string[]; // Other ways the class is written in allergy lists, e.g. "sulfa"
+};
+
+export type InteractionRule = {
+  a: string; // Class id or drug name
+  b: string; // Class id or drug name
+  severity: InteractionSeverity;
+  description: string;
+};
+
+export type CrossReactivityRule = {
+  allergen: string; // Class id
+  reactsWith: string; // Class id
+  description: string;
+};
+
+export const DRUG_CLASSES: DrugClassRule[] = [
+  {
+    id: 'penicillins',
+    label: 'Penicillins',
+    members: ['penicillin', 'amoxicillin', 'ampicillin', 'dicloxacillin', 'piperacillin', 'augmentin', 'nafcillin'],
+  },
+  {
+    id: 'cephalosporins',
+    label: 'Cephalosporins',
+    members: ['cephalexin', 'cefazolin', 'cefuroxime', 'ceftriaxone', 'cefdinir', 'cefepime', 'cefpodoxime', 'keflex'],
+  },
+  {
+    id: 'sulfonamide_antibiotics',
+    label: 'Sulfonamide antibiotics',
+    members: ['sulfamethoxazole', 'bactrim', 'septra', 'sulfadiazine'],
+    aliases: ['sulfa', 'sulfa drugs', 'sulfonamides'],
+  },
+  {
+    id: 'fluoroquinolones',
+    label: 'Fluoroquinolones',
+    members: ['ciprofloxacin', 'levofloxacin', 'moxifloxacin'],
+  },
+  {
+    id: 'macrolides',
+    label: 'Macrolides',
+    members: ['clarithromycin', 'erythromycin', 'azithromycin'],
+  },
+  {
+    id: 'nsaids',
+    label: 'NSAIDs',
+    members: ['ibuprofen', 'naproxen', 'diclofenac', 'meloxicam', 'celecoxib', 'ketorolac', 'indomethacin', 'aspirin', 'advil', 'motrin', 'aleve'],
+    aliases: ['nsaid', 'non-steroidal anti-inflammatory'],
+  },
+  {
+    id: 'opioids',
+    label: 'Opioids',
+    members: ['morphine', 'oxycodone', 'hydrocodone', 'hydromorphone', 'fentanyl', 'codeine', 'tramadol', 'methadone', 'buprenorphine', 'percocet', 'norco'],
+    aliases: ['opiates'],
+  },
+  {
+    id: 'benzodiazepines',
+    label: 'Benzodiazepines',
+    members: ['lorazepam', 'diazepam', 'alprazolam', 'clonazepam', 'temazepam', 'midazolam', 'ativan', 'valium', 'xanax'],
+  },
+  {
+    id: 'anticoagulants',
+    label: 'Anticoagulants',
+    members: ['warfarin', 'apixaban', 'rivaroxaban', 'dabigatran', 'edoxaban', 'heparin', 'enoxaparin', 'coumadin', 'eliquis', 'xarelto'],
+  },
+  {
+    id: 'antiplatelets',
+    label: 'Antiplatelets',
+    members: ['clopidogrel', 'prasugrel', 'ticagrelor', 'aspirin', 'plavix'],
+  },
+  {
+    id: 'ssris',
+    label: 'SSRIs',
+    members: ['sertraline', 'fluoxetine', 'citalopram', 'escitalopram', 'paroxetine', 'zoloft', 'prozac'],
+  },
+  {
+    id: 'maois',
+    label: 'MAO inhibitors',
+    members: ['phenelzine', 'tranylcypromine', 'isocarboxazid', 'selegiline', 'linezolid'],
+  },
+  {
+    id: 'triptans',
+    label: 'Triptans',
+    members: ['sumatriptan', 'rizatriptan', 'zolmitriptan'],
+  },
+  {
+    id: 'ace_inhibitors',
+    label: 'ACE inhibitors',
+    members: ['lisinopril', 'enalapril', 'ramipril', 'benazepril', 'captopril'],
+  },
+  {
+    id: 'potassium_raising',
+    label: 'Potassium-sparing diuretics and potassium supplements',
+    members: ['spironolactone', 'eplerenone', 'amiloride', 'triamterene', 'potassium chloride'],
+  },
+  {
+    id: 'statins_cyp3a4',
+    label: 'Statins (CYP3A4-metabolised)',
+    members: ['simvastatin', 'lovastatin', 'atorvastatin'],
+  },
+  {
+    id: 'nitrates',
+    label: 'Nitrates',
+    members: ['nitroglycerin', 'isosorbide mononitrate', 'isosorbide dinitrate'],
+  },
+  {
+    id: 'pde5_inhibitors',
+    label: 'PDE5 inhibitors',
+    members: ['sildenafil', 'tadalafil', 'vardenafil'],
+  },
+];
+
+export const INTERACTION_RULES: InteractionRule[] = [
+  { a: 'maois', b: 'ssris', severity: 'CONTRAINDICATED', description: 'Risk of serotonin syndrome; allow a washout period between these agents.' },
+  { a: 'maois', b: 'tramadol', severity: 'CONTRAINDICATED', description: 'Risk of serotonin syndrome and seizures.' },
+  { a: 'pde5_inhibitors', b: 'nitrates', severity: 'CONTRAINDICATED', description: 'Severe, potentially fatal hypotension.' },
+  { a: 'statins_cyp3a4', b: 'clarithromycin', severity: 'CONTRAINDICATED', description: 'Raised statin levels with risk of rhabdomyolysis.' },
+  { a: 'statins_cyp3a4', b: 'erythromycin', severity: 'MAJOR', description: 'Raised statin levels with risk of myopathy.' },
+  { a: 'opioids', b: 'benzodiazepines', severity: 'MAJOR', description: 'Additive respiratory depression and sedation; monitor closely.' },
+  { a: 'anticoagulants', b: 'nsaids', severity: 'MAJOR', description: 'Increased bleeding risk.' },
+  { a: 'anticoagulants', b: 'antiplatelets', severity: 'MAJOR', description: 'Increased bleeding risk.' },
+  { a: 'warfarin', b: 'sulfonamide_antibiotics', severity: 'MAJOR', description: 'Raised INR; monitor and adjust the warfarin dose.' },
+  { a: 'warfarin', b: 'fluoroquinolones', severity: 'MAJOR', description: 'Raised INR; monitor and adjust the warfarin dose.' },
+  { a: 'ssris', b: 'tramadol', severity: 'MAJOR', description: 'Risk of serotonin syndrome and lowered seizure threshold.' },
+  { a: 'ssris', b: 'triptans', severity: 'MAJOR', description: 'Risk of serotonin syndrome.' },
+  { a: 'ssris', b: 'nsaids', severity: 'MAJOR', description: 'Increased risk of GI bleeding.' },
+  { a: 'ace_inhibitors', b: 'potassium_raising', severity: 'MAJOR', description: 'Risk of hyperkalaemia; monitor potassium.' },
+  { a: 'digoxin', b: 'amiodarone', severity: 'MAJOR', description: 'Raised digoxin levels; reduce the digoxin dose.' },
+  { a: 'methotrexate', b: 'sulfonamide_antibiotics', severity: 'MAJOR', description: 'Increased methotrexate toxicity (bone marrow suppression).' },
+  { a: 'lithium', b: 'nsaids', severity: 'MAJOR', description: 'Raised lithium levels; monitor for toxicity.' },
+  { a: 'lithium', b: 'ace_inhibitors', severity: 'MAJOR', description: 'Raised lithium levels; monitor for toxicity.' },
+];
+
+export const CROSS_REACTIVITY_RULES: CrossReactivityRule[] = [
+  { allergen: 'penicillins', reactsWith: 'cephalosporins', description: 'Low but real cross-reactivity with penicillin allergy.' },
+  { allergen: 'cephalosporins', reactsWith: 'penicillins', description: 'Low but real cross-reactivity with cephalosporin allergy.' },
+];
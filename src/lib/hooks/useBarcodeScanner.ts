@@ -0,0 +1,82 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+
+// Keyboard-wedge scanners type the whole code within a few milliseconds and end with Enter.
+// Keys arriving closer together than this are treated as part of a scan.
+const SCAN_KEY_GAP_MS = 50;
+// Shorter bursts are treated as ordinary typing
+const MIN_SCAN_LENGTH = 6;
+
+interface UseBarcodeScannerOptions {
+  onScan: (value: string) => void;
+  onKey?: (event: KeyboardEvent) => void; // A keystroke that turned out not to be part of a scan
+  enabled?: boolean;
+}
+
+/**
+ * Listen for scanner input anywhere on the page except in text fields, so scanning a code
+ * never triggers single-key shortcuts. Shortcut keys are passed to `onKey` once it is clear
+ * they were not the start of a scan.
+ */
+export function useBarcodeScanner({ onScan, onKey, enabled = true }: UseBarcodeScannerOptions) {
+  const handlers = useRef({ onScan, onKey });
+  handlers.current = { onScan, onKey };
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let buffer = '';
+    let pending: KeyboardEvent[] = [];
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    const flush = () => {
+      timer = null;
+      if (buffer.length >= MIN_SCAN_LENGTH) {
+        handlers.current.onScan(buffer); // Scanners configured without an Enter suffix
+      } else {
+        pending.forEach(event => handlers.current.onKey?.(event));
+      }
+      buffer = '';
+      pending = [];
+    };
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) return;
+      if (event.ctrlKey || event.metaKey || event.altKey) return;
+
+      if (event.key === 'Enter' && buffer.length > 0) {
+        event.preventDefault();
+        if (timer) clearTimeout(timer);
+        timer = null;
+        if (buffer.length >= MIN_SCAN_LENGTH) {
+          handlers.current.onScan(buffer);
+        } else {
+          pending.forEach(pendingEvent => handlers.current.onKey?.(pendingEvent));
+        }
+        buffer = '';
+        pending = [];
+        return;
+      }
+
+      if (event.key.length !== 1 || event.key === ' ') {
+        // Arrows, space and other named keys are never part of a scan
+        if (!timer) handlers.current.onKey?.(event);
+        return;
+      }
+
+      event.preventDefault();
+      buffer += event.key;
+      pending.push(event);
+      if (timer) clearTimeout(timer);
+      timer = setTimeout(flush, SCAN_KEY_GAP_MS);
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      if (timer) clearTimeout(timer);
+    };
+  }, [enabled]);
+}
@@ -0,0 +1,51 @@
+'use client';
+
+import { useCallback, useState } from 'react';
+import { BarcodeService, ScanKind, ScanTarget } from '@/lib/services/BarcodeService';
+
+export type ScanVerification = {
+  verified: Set<ScanKind>; // Wristband and/or label scanned and matching
+  errors: Partial<Record<ScanKind, string>>; // Mismatches; a dose must not be logged while any remain
+  lastError: string | null; // Most recent problem, including unrecognised codes
+};
+
+const EMPTY: ScanVerification = { verified: new Set(), errors: {}, lastError: null };
+
+/**
+ * Track wristband and label scans against the dose being logged. A mismatch blocks logging
+ * until a matching code of the same kind is scanned or the target changes (via reset).
+ */
+export function useScanVerification(target: ScanTarget | null) {
+  const [state, setState] = useState<ScanVerification>(EMPTY);
+
+  const handleScan = useCallback((raw: string): string | null => {
+    const scan = BarcodeService.parseScan(raw);
+    if (!scan) {
+      const message = 'Code not recognised. Scan a resident wristband or medication label.';
+      setState(prev => ({ ...prev, lastError: message }));
+      return message;
+    }
+    if (!target) return null;
+
+    const mismatch = BarcodeService.verify(scan, target);
+    setState(prev => {
+      const verified = new Set(prev.verified);
+      const errors = { ...prev.errors };
+      if (mismatch) {
+        verified.delete(scan.kind);
+        errors[scan.kind] = mismatch;
+      } else {
+        verified.add(scan.kind);
+        delete errors[scan.kind];
+      }
+      return { verified, errors, lastError: mismatch };
+    });
+    return mismatch;
+  }, [target]);
+
+  const reset = useCallback(() => setState(EMPTY), []);
+
+  const blockingError = Object.values(state.errors)[0] || null;
+
+  return { ...state, blockingError, handleScan, reset };
+}
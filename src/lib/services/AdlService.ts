@@ -0,0 +1,225 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { FacilityTimeService } from '@/lib/services/FacilityTimeService';
+import { MarService, ShiftName } from '@/lib/services/MarService';
+
+// --- Types ---
+export type AdlActivity = 'BATHING' | 'DRESSING' | 'TOILETING' | 'EATING' | 'TRANSFER' | 'MOBILITY';
+
+// MDS self-performance and support codes; 8 means the activity did not occur, on both
+export type AdlSelfPerformance = 0 | 1 | 2 | 3 | 4 | 7 | 8;
+export type AdlSupport = 0 | 1 | 2 | 3 | 8;
+
+export type AdlCodes = {
+  self_performance: AdlSelfPerformance;
+  support: AdlSupport;
+};
+
+export type AdlEntry = AdlCodes & {
+  id: string;
+  created_at: string;
+  resident_id: string;
+  shift_date: string; // yyyy-MM-dd the shift started
+  shift: ShiftName;
+  activity: AdlActivity;
+  notes: string | null;
+  recorded_by: string | null;
+  recorded_by_profile?: { full_name: string | null } | null; // Present when selected with the entry
+  adl_entry_corrections?: AdlEntryCorrection[]; // Present when selected with the entry
+};
+
+// Append-only amendment of an entry; the latest one for an entry wins
+export type AdlEntryCorrection = {
+  id: string;
+  created_at: string;
+  entry_id: string;
+  corrected_by: string;
+  action: 'CORRECT' | 'VOID';
+  reason: string;
+  self_performance: AdlSelfPerformance | null; // CORRECT only
+  support: AdlSupport | null; // CORRECT only
+  notes: string | null;
+  corrected_by_profile?: { full_name: string | null } | null; // Present when selected with the correction
+};
+
+export type AdlShift = {
+  shiftDate: string; // yyyy-MM-dd the shift started
+  shift: ShiftName;
+};
+
+// One row of the flowsheet
+export type AdlShiftRow = AdlShift & {
+  entries: Partial<Record<AdlActivity, AdlEntry>>;
+};
+
+// --- Constants ---
+export const ADL_ACTIVITIES: AdlActivity[] = ['BATHING', 'DRESSING', 'TOILETING', 'EATING', 'TRANSFER', 'MOBILITY'];
+
+export const ADL_ACTIVITY_LABELS: Record<AdlActivity, string> = {
+  BATHING: 'Bathing',
+  DRESSING: 'Dressing',
+  TOILETING: 'Toileting',
+  EATING: 'Eating',
+  TRANSFER: 'Transfers',
+  MOBILITY: 'Mobility',
+};
+
+export const ADL_SELF_PERFORMANCE_LABELS: Record<AdlSelfPerformance, string> = {
+  0: 'Independent',
+  1: 'Supervision',
+  2: 'Limited assistance',
+  3: 'Extensive assistance',
+  4: 'Total dependence',
+  7: 'Occurred only once or twice',
+  8: 'Did not occur',
+};
+
+export const ADL_SUPPORT_LABELS: Record<AdlSupport, string> = {
+  0: 'No setup or physical help',
+  1: 'Setup help only',
+  2: 'One person physical assist',
+  3: 'Two+ persons physical assist',
+  8: 'Did not occur',
+};
+
+export const ADL_SELF_PERFORMANCE_CODES: AdlSelfPerformance[] = [0, 1, 2, 3, 4, 7, 8];
+export const ADL_SUPPORT_CODES: AdlSupport[] = [0, 1, 2, 3, 8];
+
+// Latest shift of the day first
+const SHIFT_ORDER: ShiftName[] = ['NIGHT', 'AFTERNOON', 'MORNING'];
+
+export class AdlService {
+  /**
+   * The shift being worked now, dated by the day it started
+   */
+  static getCurrentShift(now: Date = new Date()): AdlShift {
+    const { shift, from } = MarService.getCurrentShift(now);
+    return { shiftDate: FacilityTimeService.formatDate(from), shift };
+  }
+
+  static formatCodes(codes: AdlCodes): string {
+    return `${codes.self_performance}/${codes.support}`;
+  }
+
+  static getLatestCorrection(entry: AdlEntry): AdlEntryCorrection | null {
+    const corrections = [...(entry.adl_entry_corrections || [])].sort((a, b) => b.created_at.localeCompare(a.created_at) || b.id.localeCompare(a.id));
+    return corrections[0] || null;
+  }
+
+  /**
+   * An entry as it currently stands after corrections, or null if it has been voided
+   */
+  static getEffectiveEntry(entry: AdlEntry): AdlEntry | null {
+    const correction = AdlService.getLatestCorrection(entry);
+    if (!correction) return entry;
+    if (correction.action === 'VOID') return null;
+    return {
+      ...entry,
+      self_performance: correction.self_performance ?? entry.self_performance,
+      support: correction.support ?? entry.support,
+      notes: correction.notes,
+    };
+  }
+
+  /**
+   * Group entries into flowsheet rows, newest shift first
+   */
+  static groupByShift(entries: AdlEntry[]): AdlShiftRow[] {
+    const rows = new Map<string, AdlShiftRow>();
+    entries.forEach(entry => {
+      const key = `${entry.shift_date}|${entry.shift}`;
+      const row = rows.get(key) || { shiftDate: entry.shift_date, shift: entry.shift, entries: {} };
+      row.entries[entry.activity] = entry;
+      rows.set(key, row);
+    });
+    return Array.from(rows.values()).sort((a, b) =>
+      b.shiftDate.localeCompare(a.shiftDate) || SHIFT_ORDER.indexOf(a.shift) - SHIFT_ORDER.indexOf(b.shift));
+  }
+
+  /**
+   * Entries for shifts starting on or after `fromDate` (yyyy-MM-dd)
+   */
+  static async fetchEntries(client: SupabaseClient, residentId: string, fromDate: string): Promise<AdlEntry[]> {
+    const { data, error } = await client
+      .from('adl_entries')
+      .select('*, recorded_by_profile:profiles!recorded_by(full_name), adl_entry_corrections(*, corrected_by_profile:profiles!corrected_by(full_name))')
+      .eq('resident_id', residentId)
+      .gte('shift_date', fromDate)
+      .order('shift_date', { ascending: false });
+    if (error) throw new Error(`ADL entries fetch failed: ${error.message}`);
+    return (data as AdlEntry[]) || [];
+  }
+
+  /**
+   * Chart the given activities for a shift in one go
+   */
+  static async recordShift(
+    client: SupabaseClient,
+    residentId: string,
+    recordedBy: string,
+    { shiftDate, shift }: AdlShift,
+    codes: Partial<Record<AdlActivity, AdlCodes & { notes?: string | null }>>,
+  ): Promise<void> {
+    const charted = ADL_ACTIVITIES.flatMap(activity => {
+      const activityCodes = codes[activity];
+      return activityCodes ? [{ activity, ...activityCodes }] : [];
+    });
+    if (charted.length === 0) {
+      throw new Error('Chart at least one activity');
+    }
+    const mismatched = charted.find(entry => (entry.self_performance === 8) !== (entry.support === 8));
+    if (mismatched) {
+      throw new Error(`${ADL_ACTIVITY_LABELS[mismatched.activity]}: code 8 (did not occur) must be used for both self-performance and support`);
+    }
+
+    const { error } = await client
+      .from('adl_entries')
+      .insert(charted.map(entry => ({
+        resident_id: residentId,
+        shift_date: shiftDate,
+        shift,
+        activity: entry.activity,
+        self_performance: entry.self_performance,
+        support: entry.support,
+        notes: entry.notes?.trim() || null,
+        recorded_by: recordedBy,
+      })));
+    if (error) {
+      throw new Error(error.code === '23505' ? 'Some of these activities have already been charted for this shift' : error.message);
+    }
+  }
+
+  /**
+   * Correct the codes of a charted entry, or void one charted in error
+   */
+  static async correctEntry(
+    client: SupabaseClient,
+    entryId: string,
+    correctedBy: string,
+    values: { action: 'CORRECT' | 'VOID'; reason: string; codes?: AdlCodes | null; notes?: string | null },
+  ): Promise<void> {
+    if (!values.reason.trim()) {
+      throw new Error('A reason is required');
+    }
+    if (values.action === 'CORRECT') {
+      if (!values.codes) {
+        throw new Error('The corrected codes are required');
+      }
+      if ((values.codes.self_performance === 8) !== (values.codes.support === 8)) {
+        throw new Error('Code 8 (did not occur) must be used for both self-performance and support');
+      }
+    }
+    const correcting = values.action === 'CORRECT' && values.codes;
+    const { error } = await client
+      .from('adl_entry_corrections')
+      .insert({
+        entry_id: entryId,
+        corrected_by: correctedBy,
+        action: values.action,
+        reason: values.reason.trim(),
+        self_performance: correcting ? correcting.self_performance : null,
+        support: correcting ? correcting.support : null,
+        notes: correcting ? values.notes?.trim() || null : null,
+      });
+    if (error) throw new Error(error.message);
+  }
+}
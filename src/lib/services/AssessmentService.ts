@@ -0,0 +1,282 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { CareLevel } from '@/lib/services/IncidentAnalyticsService';
+
+// --- Types ---
+export type AssessmentSeverity = 'NONE' | 'LOW' | 'MODERATE' | 'HIGH';
+
+export type AssessmentOption = {
+  label: string;
+  points: number;
+};
+
+export type AssessmentQuestion = {
+  key: string;
+  text: string;
+  options: AssessmentOption[];
+};
+
+export type AssessmentRiskBand = {
+  min: number;
+  max: number;
+  label: string;
+  severity: AssessmentSeverity;
+  care_level: CareLevel | null; // Level this result suggests; null for no suggestion
+};
+
+export type AssessmentForm = {
+  id: string;
+  created_at: string;
+  code: string;
+  name: string;
+  description: string | null;
+  questions: AssessmentQuestion[];
+  risk_bands: AssessmentRiskBand[];
+  reassess_days: number;
+  active: boolean; // Retired forms keep their history but cannot be completed
+};
+
+// Question key -> index of the chosen option
+export type AssessmentAnswers = Record<string, number>;
+
+export type ResidentAssessment = {
+  id: string;
+  created_at: string;
+  resident_id: string;
+  form_id: string;
+  assessed_at: string;
+  answers: AssessmentAnswers;
+  total_score: number;
+  risk_band: string; // Band label when assessed
+  severity: AssessmentSeverity;
+  suggested_care_level: CareLevel | null;
+  next_due_at: string;
+  notes: string | null;
+  completed_by: string | null;
+  completed_by_profile?: { full_name: string | null } | null; // Present when selected with the assessment
+  resident_assessment_corrections?: ResidentAssessmentCorrection[]; // Present when selected with the assessment
+};
+
+// Append-only amendment of an assessment; the latest one for an assessment wins
+export type ResidentAssessmentCorrection = {
+  id: string;
+  created_at: string;
+  assessment_id: string;
+  corrected_by: string;
+  action: 'CORRECT' | 'VOID';
+  reason: string;
+  // CORRECT only; the result is scored by the database
+  answers: AssessmentAnswers | null;
+  notes: string | null;
+  total_score: number | null;
+  risk_band: string | null;
+  severity: AssessmentSeverity | null;
+  suggested_care_level: CareLevel | null;
+  corrected_by_profile?: { full_name: string | null } | null; // Present when selected with the correction
+};
+
+// Where a resident stands on one form
+export type AssessmentStatus = {
+  form: AssessmentForm;
+  latest: ResidentAssessment | null; // Latest assessment that has not been voided, as corrected
+  history: ResidentAssessment[]; // Newest first, as recorded, including voided ones
+  overdue: boolean; // Active form past its due date, or never assessed
+};
+
+export type CareLevelSuggestion = {
+  careLevel: CareLevel;
+  basis: AssessmentStatus[]; // Forms whose latest result suggests this level
+};
+
+// --- Constants ---
+export const ASSESSMENT_SEVERITY_LABELS: Record<AssessmentSeverity, string> = {
+  NONE: 'No risk',
+  LOW: 'Low',
+  MODERATE: 'Moderate',
+  HIGH: 'High',
+};
+
+export const ASSESSMENT_SEVERITY_COLORS: Record<AssessmentSeverity, 'success' | 'info' | 'warning' | 'error'> = {
+  NONE: 'success',
+  LOW: 'info',
+  MODERATE: 'warning',
+  HIGH: 'error',
+};
+
+const CARE_LEVEL_ORDER: CareLevel[] = ['LOW', 'MEDIUM', 'HIGH'];
+
+export class AssessmentService {
+  /**
+   * Score answers the way the database does. `band` is null until every question is answered.
+   */
+  static score(form: AssessmentForm, answers: AssessmentAnswers): { total: number; answered: number; band: AssessmentRiskBand | null } {
+    let total = 0;
+    let answered = 0;
+    form.questions.forEach(question => {
+      const option = question.options[answers[question.key]];
+      if (option) {
+        total += option.points;
+        answered += 1;
+      }
+    });
+    const band = answered === form.questions.length
+      ? form.risk_bands.find(candidate => total >= candidate.min && total <= candidate.max) || null
+      : null;
+    return { total, answered, band };
+  }
+
+  /**
+   * Latest correction of an assessment, or null if it has never been corrected
+   */
+  static getLatestCorrection(assessment: ResidentAssessment): ResidentAssessmentCorrection | null {
+    const corrections = [...(assessment.resident_assessment_corrections || [])].sort((a, b) => b.created_at.localeCompare(a.created_at) || b.id.localeCompare(a.id));
+    return corrections[0] || null;
+  }
+
+  /**
+   * An assessment as it currently stands after corrections, or null if it has been voided
+   */
+  static getEffectiveAssessment(assessment: ResidentAssessment): ResidentAssessment | null {
+    const correction = AssessmentService.getLatestCorrection(assessment);
+    if (!correction) return assessment;
+    if (correction.action === 'VOID' || !correction.answers || correction.total_score === null || !correction.risk_band || !correction.severity) return null;
+    return {
+      ...assessment,
+      answers: correction.answers,
+      notes: correction.notes,
+      total_score: correction.total_score,
+      risk_band: correction.risk_band,
+      severity: correction.severity,
+      suggested_care_level: correction.suggested_care_level,
+    };
+  }
+
+  /**
+   * Latest result, history and due state for each form, in form order. Retired forms are listed only if the
+   * resident has been assessed on them.
+   */
+  static getStatuses(forms: AssessmentForm[], assessments: ResidentAssessment[], now: Date = new Date()): AssessmentStatus[] {
+    return forms
+      .map(form => {
+        const history = assessments
+          .filter(assessment => assessment.form_id === form.id)
+          .sort((a, b) => new Date(b.assessed_at).getTime() - new Date(a.assessed_at).getTime());
+        const latest = history.map(AssessmentService.getEffectiveAssessment).find(assessment => assessment !== null) || null;
+        return { form, latest, history, overdue: form.active && (!latest || new Date(latest.next_due_at) <= now) };
+      })
+      .filter(status => status.form.active || status.history.length > 0);
+  }
+
+  /**
+   * Highest care level suggested by the latest result on each active form, or null if none suggests one
+   */
+  static suggestCareLevel(statuses: AssessmentStatus[]): CareLevelSuggestion | null {
+    const suggesting = statuses.filter(status => status.form.active && status.latest?.suggested_care_level);
+    if (suggesting.length === 0) return null;
+
+    const rank = (status: AssessmentStatus) => CARE_LEVEL_ORDER.indexOf(status.latest?.suggested_care_level as CareLevel);
+    const highest = Math.max(...suggesting.map(rank));
+    return {
+      careLevel: CARE_LEVEL_ORDER[highest],
+      basis: suggesting.filter(status => rank(status) === highest),
+    };
+  }
+
+  /**
+   * Every form, retired ones included so their history can still be shown
+   */
+  static async fetchForms(client: SupabaseClient): Promise<AssessmentForm[]> {
+    const { data, error } = await client
+      .from('assessment_forms')
+      .select('*')
+      .order('active', { ascending: false })
+      .order('name');
+    if (error) throw new Error(`Assessment forms fetch failed: ${error.message}`);
+    return (data as AssessmentForm[]) || [];
+  }
+
+  /**
+   * Every assessment of a resident, newest first
+   */
+  static async fetchAssessments(client: SupabaseClient, residentId: string): Promise<ResidentAssessment[]> {
+    const { data, error } = await client
+      .from('resident_assessments')
+      .select('*, completed_by_profile:profiles!completed_by(full_name), resident_assessment_corrections(*, corrected_by_profile:profiles!corrected_by(full_name))')
+      .eq('resident_id', residentId)
+      .order('assessed_at', { ascending: false });
+    if (error) throw new Error(`Assessments fetch failed: ${error.message}`);
+    return (data as ResidentAssessment[]) || [];
+  }
+
+  /**
+   * Record a completed assessment. The database scores it and sets when it is due again.
+   */
+  static async recordAssessment(
+    client: SupabaseClient,
+    residentId: string,
+    form: AssessmentForm,
+    completedBy: string,
+    values: { assessed_at: Date; answers: AssessmentAnswers; notes?: string | null },
+  ): Promise<ResidentAssessment> {
+    const unanswered = form.questions.filter(question => !question.options[values.answers[question.key]]);
+    if (unanswered.length > 0) {
+      throw new Error(`Answer every question (${unanswered.length} remaining)`);
+    }
+
+    const { data, error } = await client
+      .from('resident_assessments')
+      .insert({
+        resident_id: residentId,
+        form_id: form.id,
+        assessed_at: values.assessed_at.toISOString(),
+        answers: values.answers,
+        notes: values.notes?.trim() || null,
+        completed_by: completedBy,
+      })
+      .select('*')
+      .single();
+    if (error) throw new Error(error.message);
+    return data as ResidentAssessment;
+  }
+
+  /**
+   * Correct the answers to an assessment entered wrongly, or void one entered in error (e.g. for the wrong resident).
+   * The database rescores corrected answers against the assessment's form.
+   */
+  static async correctAssessment(
+    client: SupabaseClient,
+    assessmentId: string,
+    form: AssessmentForm,
+    correctedBy: string,
+    values: { action: 'CORRECT' | 'VOID'; reason: string; answers?: AssessmentAnswers | null; notes?: string | null },
+  ): Promise<void> {
+    if (!values.reason.trim()) {
+      throw new Error('A reason is required');
+    }
+    if (values.action === 'CORRECT') {
+      const unanswered = form.questions.filter(question => !question.options[values.answers?.[question.key] ?? -1]);
+      if (unanswered.length > 0) {
+        throw new Error(`Answer every question (${unanswered.length} remaining)`);
+      }
+    }
+    const correcting = values.action === 'CORRECT';
+    const { error } = await client
+      .from('resident_assessment_corrections')
+      .insert({
+        assessment_id: assessmentId,
+        corrected_by: correctedBy,
+        action: values.action,
+        reason: values.reason.trim(),
+        answers: correcting ? values.answers : null,
+        notes: correcting ? values.notes?.trim() || null : null,
+      });
+    if (error) throw new Error(error.message);
+  }
+
+  static async updateCareLevel(client: SupabaseClient, residentId: string, careLevel: CareLevel): Promise<void> {
+    const { error } = await client
+      .from('residents')
+      .update({ care_level: careLevel })
+      .eq('id', residentId);
+    if (error) throw new Error(error.message);
+  }
+}
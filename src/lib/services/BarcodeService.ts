@@ -0,0 +1,90 @@
+// --- Types ---
+export type ScanKind = 'RESIDENT' | 'MEDICATION';
+
+export type ScanResult = {
+  kind: ScanKind;
+  id: string; // residents.id or medications.id, lowercase
+};
+
+// What a dose is being logged against, checked against whatever has been scanned
+export type ScanTarget = {
+  residentId: string;
+  medicationId: string;
+};
+
+// --- Constants ---
+// Code 39 is used because every keyboard-wedge scanner reads it without configuration and it
+// covers everything in a prefixed UUID. Each pattern is 9 elements (bar, space, bar, ...), 1 = wide.
+const CODE39_PATTERNS: Record<string, string> = {
+  '0': '000110100', '1': '100100001', '2': '001100001', '3': '101100000', '4': '000110001',
+  '5': '100110000', '6': '001110000', '7': '000100101', '8': '100100100', '9': '001100100',
+  'A': '100001001', 'B': '001001001', 'C': '101001000', 'D': '000011001', 'E': '100011000',
+  'F': '001011000', 'G': '000001101', 'H': '100001100', 'I': '001001100', 'J': '000011100',
+  'K': '100000011', 'L': '001000011', 'M': '101000010', 'N': '000010011', 'O': '100010010',
+  'P': '001010010', 'Q': '000000111', 'R': '100000110', 'S': '001000110', 'T': '000010110',
+  'U': '110000001', 'V': '011000001', 'W': '111000000', 'X': '010010001', 'Y': '110010000',
+  'Z': '011010000', '-': '010000101', '.': '110000100', ' ': '011000100', '*': '010010100',
+};
+
+// Wide elements are this many times the narrow width
+const WIDE_RATIO = 3;
+
+const SCAN_PREFIXES: Record<ScanKind, string> = {
+  RESIDENT: 'R',
+  MEDICATION: 'M',
+};
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+export class BarcodeService {
+  /**
+   * Text encoded on a wristband or label, e.g. "R-1F0C..." for a resident
+   */
+  static payload(kind: ScanKind, id: string): string {
+    return `${SCAN_PREFIXES[kind]}-${id.toUpperCase()}`;
+  }
+
+  /**
+   * Code 39 bars for `text` (start/stop characters added), as alternating bar/space widths in
+   * narrow units starting with a bar. Characters Code 39 cannot encode throw.
+   */
+  static encodeCode39(text: string): number[] {
+    const widths: number[] = [];
+    `*${text.toUpperCase()}*`.split('').forEach((char, index) => {
+      const pattern = CODE39_PATTERNS[char];
+      if (!pattern || (char === '*' && index > 0 && index < text.length + 1)) {
+        throw new Error(`Cannot encode "${char}" in a Code 39 barcode`);
+      }
+      if (index > 0) widths.push(1); // Narrow gap between characters
+      pattern.split('').forEach(element => widths.push(element === '1' ? WIDE_RATIO : 1));
+    });
+    return widths;
+  }
+
+  /**
+   * Parse scanner input into the resident or medication it identifies, or null if it is not one of ours
+   */
+  static parseScan(raw: string): ScanResult | null {
+    const text = raw.trim().replace(/^\*|\*$/g, '').toLowerCase(); // Some scanners pass the start/stop characters through
+    const separator = text.indexOf('-');
+    if (separator < 0) return null;
+
+    const prefix = text.slice(0, separator).toUpperCase();
+    const id = text.slice(separator + 1);
+    const kind = (Object.keys(SCAN_PREFIXES) as ScanKind[]).find(key => SCAN_PREFIXES[key] === prefix);
+    return kind && UUID_PATTERN.test(id) ? { kind, id } : null;
+  }
+
+  /**
+   * Why a scan does not match the dose being logged, or null if it does
+   */
+  static verify(scan: ScanResult, target: ScanTarget): string | null {
+    if (scan.kind === 'RESIDENT' && scan.id !== target.residentId) {
+      return 'Wrong resident: this wristband does not belong to the resident this medication is prescribed for.';
+    }
+    if (scan.kind === 'MEDICATION' && scan.id !== target.medicationId) {
+      return 'Wrong medication: this label is for a different medication or resident.';
+    }
+    return null;
+  }
+}
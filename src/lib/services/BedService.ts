@@ -0,0 +1,183 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { ResidentStatus } from '@/lib/services/ResidentAdtService';
+
+// --- Types ---
+export type BedStatus = 'AVAILABLE' | 'OCCUPIED' | 'RESERVED' | 'CLEANING' | 'OUT_OF_SERVICE';
+
+export type BedType = 'STANDARD' | 'LOW' | 'BARIATRIC' | 'HOSPITAL';
+
+export type BedOccupant = {
+  id: string; // Resident ID
+  status: ResidentStatus;
+  profiles: { id: string; full_name: string | null } | null;
+};
+
+export type Bed = {
+  id: string;
+  created_at: string;
+  room_id: string;
+  label: string;
+  bed_type: BedType;
+  status: BedStatus;
+  status_note: string | null;
+  status_changed_at: string;
+  occupant: BedOccupant | null; // The resident assigned to the bed, including one on hospital leave
+};
+
+export type Room = {
+  id: string;
+  created_at: string;
+  unit: string;
+  room_number: string;
+  notes: string | null;
+  beds: Bed[];
+};
+
+// A bed offered when admitting or moving a resident
+export type AssignableBed = Omit<Bed, 'occupant'> & {
+  rooms: { unit: string; room_number: string } | null;
+};
+
+export type NewRoomValues = {
+  unit: string;
+  room_number: string;
+  notes?: string | null;
+  bed_labels: string[];
+  bed_type: BedType;
+};
+
+// --- Constants ---
+export const BED_STATUS_LABELS: Record<BedStatus, string> = {
+  AVAILABLE: 'Available',
+  OCCUPIED: 'Occupied',
+  RESERVED: 'Reserved',
+  CLEANING: 'Cleaning',
+  OUT_OF_SERVICE: 'Out of service',
+};
+
+export const BED_STATUS_COLORS: Record<BedStatus, 'success' | 'primary' | 'warning' | 'info' | 'default'> = {
+  AVAILABLE: 'success',
+  OCCUPIED: 'primary',
+  RESERVED: 'warning',
+  CLEANING: 'info',
+  OUT_OF_SERVICE: 'default',
+};
+
+// Statuses staff can set on an empty bed; OCCUPIED only comes from admitting or moving a resident
+export const MANUAL_BED_STATUSES: BedStatus[] = ['AVAILABLE', 'RESERVED', 'CLEANING', 'OUT_OF_SERVICE'];
+
+export const BED_TYPE_LABELS: Record<BedType, string> = {
+  STANDARD: 'Standard',
+  LOW: 'Low bed',
+  BARIATRIC: 'Bariatric',
+  HOSPITAL: 'Hospital bed',
+};
+
+const BED_SELECT = '*, residents(id, status, profiles(id, full_name))';
+
+// One-to-one embeds come back as an object or a single-element array depending on the PostgREST version
+const toOccupant = (value: unknown): BedOccupant | null =>
+  (Array.isArray(value) ? value[0] : value) as BedOccupant | null || null;
+
+export class BedService {
+  /**
+   * How a bed is shown to staff, e.g. "101-A"
+   */
+  static formatBed(roomNumber: string | null | undefined, label: string): string {
+    return `${roomNumber || '?'}-${label}`;
+  }
+
+  /**
+   * Whether a resident can be admitted or moved into the bed; mirrors apply_resident_adt_event in the database.
+   * Reservations are advisory: a reserved bed is assignable, and BedSelect asks for confirmation.
+   */
+  static isAssignable(bed: Pick<Bed, 'status' | 'occupant'>): boolean {
+    return (bed.status === 'AVAILABLE' || bed.status === 'RESERVED') && !bed.occupant;
+  }
+
+  /**
+   * Bed counts by status across `rooms`
+   */
+  static countByStatus(rooms: Room[]): Record<BedStatus, number> {
+    const counts: Record<BedStatus, number> = { AVAILABLE: 0, OCCUPIED: 0, RESERVED: 0, CLEANING: 0, OUT_OF_SERVICE: 0 };
+    rooms.forEach(room => room.beds.forEach(bed => { counts[bed.status]++; }));
+    return counts;
+  }
+
+  /**
+   * Rooms grouped by unit, both in display order
+   */
+  static groupByUnit(rooms: Room[]): { unit: string; rooms: Room[] }[] {
+    const units = new Map<string, Room[]>();
+    rooms.forEach(room => units.set(room.unit, [...(units.get(room.unit) || []), room]));
+    return Array.from(units.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([unit, unitRooms]) => ({ unit, rooms: unitRooms }));
+  }
+
+  /**
+   * Every room with its beds and who is in them
+   */
+  static async fetchRooms(client: SupabaseClient): Promise<Room[]> {
+    const { data, error } = await client
+      .from('rooms')
+      .select(`*, beds(${BED_SELECT})`);
+
+    if (error) throw new Error(`Rooms fetch failed: ${error.message}`);
+    return ((data || []) as unknown as (Omit<Room, 'beds'> & { beds: (Omit<Bed, 'occupant'> & { residents: unknown })[] })[])
+      .map(room => ({
+        ...room,
+        beds: room.beds
+          .map(({ residents, ...bed }) => ({ ...bed, occupant: toOccupant(residents) }))
+          .sort((a, b) => a.label.localeCompare(b.label)),
+      }))
+      .sort((a, b) => a.room_number.localeCompare(b.room_number, undefined, { numeric: true }));
+  }
+
+  /**
+   * Beds a resident can be admitted or moved into, by room
+   */
+  static async fetchAssignableBeds(client: SupabaseClient): Promise<AssignableBed[]> {
+    const { data, error } = await client
+      .from('beds')
+      .select('*, rooms(unit, room_number), residents(id)')
+      .in('status', ['AVAILABLE', 'RESERVED']);
+
+    if (error) throw new Error(`Beds fetch failed: ${error.message}`);
+    return ((data || []) as unknown as (AssignableBed & { residents: unknown })[])
+      .filter(bed => !toOccupant(bed.residents))
+      .sort((a, b) =>
+        (a.rooms?.unit || '').localeCompare(b.rooms?.unit || '') ||
+        (a.rooms?.room_number || '').localeCompare(b.rooms?.room_number || '', undefined, { numeric: true }) ||
+        a.label.localeCompare(b.label));
+  }
+
+  static async createRoom(client: SupabaseClient, values: NewRoomValues): Promise<void> {
+    const { data, error } = await client
+      .from('rooms')
+      .insert({ unit: values.unit.trim(), room_number: values.room_number.trim(), notes: values.notes?.trim() || null })
+      .select('id')
+      .single();
+
+    if (error) {
+      throw new Error(error.code === '23505' ? `Room ${values.room_number.trim()} already exists` : error.message);
+    }
+
+    const labels = values.bed_labels.map(label => label.trim()).filter(Boolean);
+    if (labels.length === 0) return;
+    const { error: bedsError } = await client
+      .from('beds')
+      .insert(labels.map(label => ({ room_id: data.id, label, bed_type: values.bed_type })));
+
+    if (bedsError) throw new Error(`Room created, but adding beds failed: ${bedsError.message}`);
+  }
+
+  static async setBedStatus(client: SupabaseClient, bedId: string, status: BedStatus, note: string | null): Promise<void> {
+    const { error } = await client
+      .from('beds')
+      .update({ status, status_note: note?.trim() || null })
+      .eq('id', bedId);
+
+    if (error) throw new Error(error.message);
+  }
+}
@@ -0,0 +1,283 @@
+import { addDays, format, parseISO } from 'date-fns';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { CARE_LEVEL_LABELS, CareLevel } from '@/lib/services/IncidentAnalyticsService';
+import { AdtEventType, ResidentStatus } from '@/lib/services/ResidentAdtService';
+import { FacilityTimeService } from '@/lib/services/FacilityTimeService';
+
+// --- Types ---
+export type PayerSource = 'MEDICARE' | 'MEDICAID' | 'PRIVATE_PAY' | 'LTC_INSURANCE' | 'MANAGED_CARE' | 'VA' | 'OTHER';
+
+// Residents counted at midnight; discharged residents are not on the census
+export type CensusStatus = Exclude<ResidentStatus, 'DISCHARGED'>;
+
+export type DailyCensus = {
+  census_date: string; // yyyy-MM-dd, the day that ended at midnight
+  created_at: string;
+  in_house: number;
+  on_leave: number;
+  admissions: number; // New admissions and readmissions after discharge
+  returns_from_leave: number;
+  hospital_leaves: number;
+  discharges: number;
+  beds_total: number;
+  beds_out_of_service: number;
+  beds_available: number;
+  occupancy_pct: number | null; // Null when no beds were in service
+  by_care_level: Partial<Record<CareLevel, number>>;
+  by_payer: Partial<Record<PayerSource, number>>;
+};
+
+export type DailyCensusResident = {
+  census_date: string;
+  resident_id: string;
+  status: CensusStatus;
+  room_number: string | null;
+  care_level: CareLevel | null;
+  payer_source: PayerSource | null;
+  residents?: { profiles: { full_name: string | null } | null } | null; // Present when selected with the row
+};
+
+export type CensusSnapshotResult = {
+  census: DailyCensus;
+  created: boolean; // False if the day had already been snapshotted
+};
+
+type CensusAdtEvent = {
+  event_type: AdtEventType;
+  from_status: ResidentStatus | null;
+};
+
+// A row of census_positions(as_of)
+type CensusPosition = {
+  resident_id: string;
+  status: CensusStatus;
+  room_number: string | null;
+  care_level: CareLevel | null;
+  payer_source: PayerSource | null;
+};
+
+// --- Constants ---
+export const PAYER_SOURCE_LABELS: Record<PayerSource, string> = {
+  MEDICARE: 'Medicare',
+  MEDICAID: 'Medicaid',
+  PRIVATE_PAY: 'Private pay',
+  LTC_INSURANCE: 'Long-term care insurance',
+  MANAGED_CARE: 'Managed care',
+  VA: 'VA',
+  OTHER: 'Other',
+};
+
+export const CENSUS_STATUS_LABELS: Record<CensusStatus, string> = {
+  ADMITTED: 'In house',
+  HOSPITAL_LEAVE: 'Hospital leave',
+};
+
+const CENSUS_DATE_FORMAT = 'yyyy-MM-dd';
+
+// Rows per request when reading census positions; PostgREST caps each response
+const POSITIONS_PAGE_SIZE = 1000;
+
+const CSV_COLUMNS: { header: string; value: (census: DailyCensus) => string | number | null }[] = [
+  { header: 'Date', value: c => c.census_date },
+  { header: 'In House', value: c => c.in_house },
+  { header: 'Hospital Leave', value: c => c.on_leave },
+  { header: 'Total Census', value: c => c.in_house + c.on_leave },
+  { header: 'Admissions', value: c => c.admissions },
+  { header: 'Returns From Leave', value: c => c.returns_from_leave },
+  { header: 'Hospital Leaves', value: c => c.hospital_leaves },
+  { header: 'Discharges', value: c => c.discharges },
+  { header: 'Beds', value: c => c.beds_total },
+  { header: 'Beds Out Of Service', value: c => c.beds_out_of_service },
+  { header: 'Beds Available', value: c => c.beds_available },
+  { header: 'Occupancy %', value: c => c.occupancy_pct },
+  ...(Object.keys(CARE_LEVEL_LABELS) as CareLevel[]).map(level => ({
+    header: `Care Level: ${CARE_LEVEL_LABELS[level]}`,
+    value: (c: DailyCensus) => c.by_care_level[level] || 0,
+  })),
+  ...(Object.keys(PAYER_SOURCE_LABELS) as PayerSource[]).map(payer => ({
+    header: `Payer: ${PAYER_SOURCE_LABELS[payer]}`,
+    value: (c: DailyCensus) => c.by_payer[payer] || 0,
+  })),
+];
+
+const csvCell = (value: string | number | null) => {
+  const text = value === null ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const tally = <K extends string>(keys: (K | null)[]): Partial<Record<K, number>> =>
+  keys.reduce((counts, key) => {
+    if (key) counts[key] = (counts[key] || 0) + 1;
+    return counts;
+  }, {} as Partial<Record<K, number>>);
+
+export class CensusService {
+  static formatDate(date: Date): string {
+    return format(date, CENSUS_DATE_FORMAT);
+  }
+
+  /**
+   * The calendar day `days` after `date` (yyyy-MM-dd)
+   */
+  static addDays(date: string, days: number): string {
+    return format(addDays(parseISO(date), days), CENSUS_DATE_FORMAT);
+  }
+
+  /**
+   * The facility's calendar day today; census days run midnight to midnight on the facility's clock
+   */
+  static today(): string {
+    return FacilityTimeService.formatDate(new Date());
+  }
+
+  /**
+   * Where every resident on the census stood at `asOf`, read page by page
+   */
+  static async fetchPositions(client: SupabaseClient, asOf: Date): Promise<CensusPosition[]> {
+    const positions: CensusPosition[] = [];
+    for (let offset = 0; ; offset += POSITIONS_PAGE_SIZE) {
+      const { data, error } = await client
+        .rpc('census_positions', { as_of: asOf.toISOString() })
+        .range(offset, offset + POSITIONS_PAGE_SIZE - 1);
+      if (error) throw new Error(`Census positions fetch failed: ${error.message}`);
+      const page = (data as CensusPosition[]) || [];
+      positions.push(...page);
+      if (page.length < POSITIONS_PAGE_SIZE) return positions;
+    }
+  }
+
+  static totalCensus(census: Pick<DailyCensus, 'in_house' | 'on_leave'>): number {
+    return census.in_house + census.on_leave;
+  }
+
+  /**
+   * The census for the day `date` as of the following facility midnight, worked out from the ADT history.
+   * Bed counts, care levels and payers are as they are now, which is why the census is snapshotted
+   * just after midnight rather than recomputed later.
+   */
+  static async compute(client: SupabaseClient, date: string): Promise<{ census: Omit<DailyCensus, 'created_at'>; residents: Omit<DailyCensusResident, 'residents'>[] }> {
+    const dayStart = FacilityTimeService.startOfDate(date);
+    const dayEnd = FacilityTimeService.startOfDate(CensusService.addDays(date, 1));
+
+    const [positions, eventsRes, bedsRes, outOfServiceRes] = await Promise.all([
+      CensusService.fetchPositions(client, dayEnd),
+      // Only the day's own movements; where residents stood comes from census_positions
+      client
+        .from('resident_adt_events')
+        .select('event_type, from_status')
+        .gte('effective_at', dayStart.toISOString())
+        .lt('effective_at', dayEnd.toISOString()),
+      client.from('beds').select('id', { count: 'exact', head: true }),
+      client.from('beds').select('id', { count: 'exact', head: true }).eq('status', 'OUT_OF_SERVICE'),
+    ]);
+    if (eventsRes.error) throw new Error(`ADT events fetch failed: ${eventsRes.error.message}`);
+    if (bedsRes.error) throw new Error(`Beds fetch failed: ${bedsRes.error.message}`);
+    if (outOfServiceRes.error) throw new Error(`Beds fetch failed: ${outOfServiceRes.error.message}`);
+
+    const events = (eventsRes.data as CensusAdtEvent[]) || [];
+    const admissions = events.filter(event => event.event_type === 'ADMISSION' || (event.event_type === 'READMISSION' && event.from_status === 'DISCHARGED')).length;
+    const returnsFromLeave = events.filter(event => event.event_type === 'READMISSION' && event.from_status === 'HOSPITAL_LEAVE').length;
+    const hospitalLeaves = events.filter(event => event.event_type === 'HOSPITAL_LEAVE').length;
+    const discharges = events.filter(event => event.event_type === 'DISCHARGE').length;
+
+    const residents: Omit<DailyCensusResident, 'residents'>[] = positions.map(position => ({
+      census_date: date,
+      resident_id: position.resident_id,
+      status: position.status,
+      room_number: position.room_number,
+      care_level: position.care_level,
+      payer_source: position.payer_source,
+    }));
+
+    const inHouse = residents.filter(resident => resident.status === 'ADMITTED').length;
+    const onLeave = residents.length - inHouse;
+    const bedsTotal = bedsRes.count ?? 0;
+    const bedsOutOfService = outOfServiceRes.count ?? 0;
+    const bedsInService = bedsTotal - bedsOutOfService;
+
+    return {
+      census: {
+        census_date: date,
+        in_house: inHouse,
+        on_leave: onLeave,
+        admissions,
+        returns_from_leave: returnsFromLeave,
+        hospital_leaves: hospitalLeaves,
+        discharges,
+        beds_total: bedsTotal,
+        beds_out_of_service: bedsOutOfService,
+        beds_available: Math.max(bedsInService - residents.length, 0),
+        occupancy_pct: bedsInService > 0 ? Math.round((residents.length / bedsInService) * 1000) / 10 : null,
+        by_care_level: tally(residents.map(resident => resident.care_level)),
+        by_payer: tally(residents.map(resident => resident.payer_source)),
+      },
+      residents,
+    };
+  }
+
+  /**
+   * Store the census for a day that has ended. Snapshots are never recomputed, so an existing one is returned as is.
+   * Needs a client that can write the census tables (the service role).
+   */
+  static async takeSnapshot(client: SupabaseClient, date: string): Promise<CensusSnapshotResult> {
+    if (date >= CensusService.today()) {
+      throw new Error(`The census for ${date} can only be taken after midnight`);
+    }
+
+    const { data: existing, error: existingError } = await client
+      .from('daily_census')
+      .select('*')
+      .eq('census_date', date)
+      .maybeSingle();
+    if (existingError) throw new Error(`Census fetch failed: ${existingError.message}`);
+    if (existing) return { census: existing as DailyCensus, created: false };
+
+    const { census, residents } = await CensusService.compute(client, date);
+
+    const { data, error } = await client.from('daily_census').insert(census).select().single();
+    if (error) throw new Error(error.message);
+
+    if (residents.length > 0) {
+      const { error: residentsError } = await client.from('daily_census_residents').insert(residents);
+      if (residentsError) {
+        // Don't leave a census without the residents behind it
+        await client.from('daily_census').delete().eq('census_date', date);
+        throw new Error(residentsError.message);
+      }
+    }
+
+    return { census: data as DailyCensus, created: true };
+  }
+
+  /**
+   * Snapshots from `from` to `to` inclusive (yyyy-MM-dd), oldest first
+   */
+  static async fetchSnapshots(client: SupabaseClient, from: string, to: string): Promise<DailyCensus[]> {
+    const { data, error } = await client
+      .from('daily_census')
+      .select('*')
+      .gte('census_date', from)
+      .lte('census_date', to)
+      .order('census_date', { ascending: true });
+    if (error) throw new Error(`Census fetch failed: ${error.message}`);
+    return (data as DailyCensus[]) || [];
+  }
+
+  static async fetchSnapshotResidents(client: SupabaseClient, date: string): Promise<DailyCensusResident[]> {
+    const { data, error } = await client
+      .from('daily_census_residents')
+      .select('*, residents(profiles(full_name))')
+      .eq('census_date', date)
+      .order('room_number', { ascending: true });
+    if (error) throw new Error(`Census residents fetch failed: ${error.message}`);
+    return (data as DailyCensusResident[]) || [];
+  }
+
+  static toCsv(snapshots: DailyCensus[]): string {
+    const lines = [
+      CSV_COLUMNS.map(column => csvCell(column.header)).join(','),
+      ...snapshots.map(census => CSV_COLUMNS.map(column => csvCell(column.value(census))).join(',')),
+    ];
+    return lines.join('\n');
+  }
+}
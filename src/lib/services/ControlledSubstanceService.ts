@@ -0,0 +1,205 @@
+import { createClient } from '@supabase/supabase-js';
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+// --- Types ---
+export type ControlledEntryType = 'RECEIVED' | 'ADMINISTERED' | 'WASTED' | 'DESTROYED' | 'SHIFT_COUNT';
+
+// Entries staff record by hand; ADMINISTERED rows are written by the medication_log trigger
+export type ManualControlledEntryType = Exclude<ControlledEntryType, 'ADMINISTERED'>;
+
+export type ControlledLedgerEntry = {
+  id: string;
+  created_at: string;
+  entry_number: number;
+  medication_id: string;
+  resident_id: string;
+  entry_type: ControlledEntryType;
+  quantity: number;
+  expected_quantity: number | null;
+  counted_quantity: number | null;
+  balance_after: number;
+  performed_by: string;
+  witnessed_by: string | null;
+  log_id: string | null;
+  notes: string | null;
+  performer?: { full_name: string | null } | null;
+  witness?: { full_name: string | null } | null;
+};
+
+export type ControlledMedication = {
+  id: string;
+  resident_id: string;
+  name: string;
+  dosage: string;
+  count_unit: string | null;
+  units_per_dose: number;
+  end_date: string | null;
+  residents: {
+    room_number: string | null;
+    profiles: { full_name: string | null } | null;
+  } | null;
+  onHand: number; // Latest balance_after, 0 before the first entry
+  lastCount: ControlledLedgerEntry | null; // Most recent shift count
+};
+
+export type ControlledEntryInput = {
+  medicationId: string;
+  residentId: string;
+  entryType: ManualControlledEntryType;
+  quantity: number; // Always positive; the sign is applied from the entry type
+  performedBy: string;
+  witnessedBy: string;
+  notes?: string | null;
+};
+
+// What the browser sends to /api/controlled-substance-entries; the server verifies the witness and fills in both signers
+export type WitnessedEntryRequest = {
+  medicationId: string;
+  entryType: ManualControlledEntryType;
+  quantity: number;
+  notes?: string | null;
+  witnessEmail: string;
+  witnessPassword: string;
+};
+
+// --- Constants ---
+export const CONTROLLED_ENTRY_LABELS: Record<ControlledEntryType, string> = {
+  RECEIVED: 'Received',
+  ADMINISTERED: 'Administered',
+  WASTED: 'Wasted',
+  DESTROYED: 'Destroyed',
+  SHIFT_COUNT: 'Shift count',
+};
+
+export const MANUAL_CONTROLLED_ENTRY_TYPES: ManualControlledEntryType[] = ['RECEIVED', 'WASTED', 'DESTROYED', 'SHIFT_COUNT'];
+
+export class ControlledSubstanceService {
+  /**
+   * Controlled medications with their current count on hand and last shift count
+   */
+  static async fetchControlledMedications(client: SupabaseClient): Promise<ControlledMedication[]> {
+    const { data: meds, error: medsError } = await client
+      .from('medications')
+      .select('id, resident_id, name, dosage, count_unit, units_per_dose, end_date, residents(room_number, profiles(full_name))')
+      .eq('is_controlled', true)
+      .order('name', { ascending: true });
+    if (medsError) throw new Error(`Controlled medications fetch failed: ${medsError.message}`);
+    if (!meds || meds.length === 0) return [];
+
+    const { data: entries, error: entriesError } = await client
+      .from('controlled_substance_ledger')
+      .select('*')
+      .in('medication_id', meds.map(med => med.id))
+      .order('entry_number', { ascending: false });
+    if (entriesError) throw new Error(`Controlled substance ledger fetch failed: ${entriesError.message}`);
+
+    const ledger = (entries || []) as ControlledLedgerEntry[];
+    return (meds as unknown as Omit<ControlledMedication, 'onHand' | 'lastCount'>[]).map(med => {
+      const latest = ledger.find(entry => entry.medication_id === med.id);
+      return {
+        ...med,
+        onHand: latest ? Number(latest.balance_after) : 0,
+        lastCount: ledger.find(entry => entry.medication_id === med.id && entry.entry_type === 'SHIFT_COUNT') || null,
+      };
+    });
+  }
+
+  /**
+   * Full ledger for one medication, newest first
+   */
+  static async fetchLedger(client: SupabaseClient, medicationId: string): Promise<ControlledLedgerEntry[]> {
+    const { data, error } = await client
+      .from('controlled_substance_ledger')
+      .select('*, performer:profiles!performed_by(full_name), witness:profiles!witnessed_by(full_name)')
+      .eq('medication_id', medicationId)
+      .order('entry_number', { ascending: false });
+    if (error) throw new Error(`Controlled substance ledger fetch failed: ${error.message}`);
+    return (data || []) as unknown as ControlledLedgerEntry[];
+  }
+
+  /**
+   * Record a receipt, waste, destruction or shift count. Balances and discrepancy alerts are handled by the database.
+   * Server-side only: the ledger has no INSERT policy, so this needs the service-role client.
+   */
+  static async recordEntry(client: SupabaseClient, input: ControlledEntryInput): Promise<ControlledLedgerEntry> {
+    if (input.witnessedBy === input.performedBy) {
+      throw new Error('The witness must be a different staff member');
+    }
+    if (!(input.quantity >= 0)) {
+      throw new Error('Quantity cannot be negative');
+    }
+
+    const isCount = input.entryType === 'SHIFT_COUNT';
+    const { data, error } = await client
+      .from('controlled_substance_ledger')
+      .insert({
+        medication_id: input.medicationId,
+        resident_id: input.residentId,
+        entry_type: input.entryType,
+        quantity: isCount ? 0 : input.entryType === 'RECEIVED' ? input.quantity : -input.quantity,
+        counted_quantity: isCount ? input.quantity : null,
+        balance_after: 0, // Replaced by the ledger trigger
+        performed_by: input.performedBy,
+        witnessed_by: input.witnessedBy,
+        notes: input.notes || null,
+      })
+      .select()
+      .single();
+
+    if (error) throw new Error(`Controlled substance entry failed: ${error.message}`);
+    return data as ControlledLedgerEntry;
+  }
+
+  /**
+   * Submit a witnessed entry from the browser. The witness's credentials are checked on the server.
+   */
+  static async submitEntry(request: WitnessedEntryRequest): Promise<ControlledLedgerEntry> {
+    const response = await fetch('/api/controlled-substance-entries', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(request),
+    });
+    const body = await response.json().catch(() => null);
+    if (!response.ok) {
+      throw new Error(body?.error || `Controlled substance entry failed (${response.status})`);
+    }
+    return body as ControlledLedgerEntry;
+  }
+
+  /**
+   * Confirm the second signer's identity with their own credentials and return their profile ID.
+   * Server-side only. Uses a throwaway client, and signs it out locally so the witness's other sessions stay signed in.
+   */
+  static async verifyWitness(email: string, password: string): Promise<string> {
+    if (!email || !password) {
+      throw new Error('Witness email and password are required');
+    }
+
+    const witnessClient = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL || '',
+      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || '',
+      { auth: { autoRefreshToken: false, persistSession: false, storageKey: 'witness-verification' } }
+    );
+
+    try {
+      const { data, error } = await witnessClient.auth.signInWithPassword({ email, password });
+      if (error || !data.user) {
+        throw new Error('Witness credentials could not be verified');
+      }
+
+      const { data: profile, error: profileError } = await witnessClient
+        .from('profiles')
+        .select('role')
+        .eq('id', data.user.id)
+        .single();
+      if (profileError) throw new Error(`Witness profile fetch failed: ${profileError.message}`);
+      if (!['ADMIN', 'STAFF'].includes(profile?.role)) {
+        throw new Error('The witness must be a staff member or admin');
+      }
+
+      return data.user.id;
+    } finally {
+      await witnessClient.auth.signOut({ scope: 'local' });
+    }
+  }
+}
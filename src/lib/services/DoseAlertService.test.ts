@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { DoseAlertMedication, DoseAlertService } from '@/lib/services/DoseAlertService';
+import { MarService, MedicationLogEntry } from '@/lib/services/MarService';
+import { MedicationScheduleService } from '@/lib/services/MedicationScheduleService';
+
+// The facility is on America/New_York (see vitest.config.mts) while the process clock is UTC
+const medication: DoseAlertMedication = {
+  id: 'med-1',
+  resident_id: 'resident-1',
+  name: 'Metformin',
+  dosage: '500mg',
+  frequency: 'Once daily at 08:00',
+  notes: null,
+  schedule: { type: 'TIMES_OF_DAY', times: ['08:00'] },
+  start_date: '2024-01-01T05:00:00Z',
+  end_date: null,
+  residents: { room_number: '12', profiles: { full_name: 'Jane Doe' } },
+};
+
+const givenAt = (scheduledFor: string): MedicationLogEntry => ({
+  id: 'log-1',
+  created_at: scheduledFor,
+  medication_id: medication.id,
+  resident_id: medication.resident_id,
+  administered_at: scheduledFor,
+  administered_by: 'nurse-1',
+  status: 'GIVEN',
+  notes: null,
+  scheduled_for: scheduledFor,
+  prn_indication: null,
+  pain_score: null,
+  prn_override_reason: null,
+  effectiveness_due_at: null,
+});
+
+describe('DoseAlertService on a UTC server', () => {
+  it('runs with the process clock in UTC', () => {
+    expect(new Date('2024-05-10T12:00:00Z').getTimezoneOffset()).toBe(0);
+  });
+
+  it('resolves scheduled times in facility time, across DST', () => {
+    const doses = (from: string, to: string) =>
+      MedicationScheduleService.getDueDoses(medication, new Date(from), new Date(to)).map(dose => dose.scheduledAt.toISOString());
+
+    expect(doses('2024-05-10T00:00:00Z', '2024-05-11T00:00:00Z')).toEqual(['2024-05-10T12:00:00.000Z']);
+    expect(doses('2024-03-09T05:00:00Z', '2024-03-11T04:00:00Z')).toEqual(['2024-03-09T13:00:00.000Z', '2024-03-10T12:00:00.000Z']);
+  });
+
+  it('matches a dose documented against its facility-time slot', () => {
+    const now = new Date('2024-05-10T13:30:00Z'); // 09:30 at the facility
+
+    expect(DoseAlertService.evaluate([medication], [givenAt('2024-05-10T12:00:00Z')], now)).toEqual([]);
+
+    const alerts = DoseAlertService.evaluate([medication], [], now);
+    expect(alerts).toHaveLength(1);
+    expect(alerts[0].state).toBe('OVERDUE');
+    expect(alerts[0].scheduledAt.toISOString()).toBe('2024-05-10T12:00:00.000Z');
+  });
+
+  it('shows the due time in facility time', () => {
+    const [alert] = DoseAlertService.evaluate([medication], [], new Date('2024-05-10T15:00:00Z'));
+    expect(DoseAlertService.describe(alert)).toBe('Metformin 500mg for Jane Doe (Room 12) was due at 8:00 AM and has not been documented.');
+  });
+
+  it('picks the shift from the facility clock', () => {
+    expect(MarService.getCurrentShift(new Date('2024-05-10T12:00:00Z')).shift).toBe('MORNING'); // 08:00
+    expect(MarService.getCurrentShift(new Date('2024-05-10T20:00:00Z')).shift).toBe('AFTERNOON'); // 16:00
+
+    const night = MarService.getCurrentShift(new Date('2024-05-11T05:00:00Z')); // 01:00
+    expect(night.shift).toBe('NIGHT');
+    expect(night.from.toISOString()).toBe('2024-05-11T03:00:00.000Z');
+    expect(night.to.toISOString()).toBe('2024-05-11T11:00:00.000Z');
+  });
+});
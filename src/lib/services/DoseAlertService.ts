@@ -0,0 +1,197 @@
+import { addMinutes } from 'date-fns';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { FacilityTimeService } from '@/lib/services/FacilityTimeService';
+import { MarMedication, MarService, MEDICATION_LOG_SELECT, MedicationLogEntry } from '@/lib/services/MarService';
+import { DOSE_GRACE_MINUTES, DueDose, MedicationScheduleService } from '@/lib/services/MedicationScheduleService';
+
+// --- Types ---
+// DUE_SOON: coming up shortly. OVERDUE: past the grace window. ESCALATED: still undocumented long after that.
+export type DoseAlertState = 'DUE_SOON' | 'OVERDUE' | 'ESCALATED';
+
+export type DoseAlertLevel = 'WARNING' | 'ALERT'; // Matches notifications.type
+
+export type DoseAlertMedication = MarMedication & {
+  residents: {
+    room_number: string | null;
+    profiles: { full_name: string | null } | null;
+  } | null;
+};
+
+export type DoseAlert = DueDose & {
+  state: DoseAlertState;
+  medication: DoseAlertMedication;
+};
+
+export type DoseAlertRunResult = {
+  evaluated: number;
+  notified: number; // Alerts newly sent this run
+  notifications: number; // Notification rows inserted across all recipients
+};
+
+// --- Constants ---
+// Minutes before a dose it starts showing as due soon
+export const DUE_SOON_MINUTES = 30;
+// Minutes after the scheduled time an undocumented dose is escalated to admins
+export const ESCALATION_MINUTES = 120;
+// How far back the job looks for undocumented doses; older ones are left to the MAR
+const LOOKBACK_HOURS = 12;
+
+// Notification level for a late dose; due-soon doses are shown on the MAR but never notified
+const levelFor = (state: DoseAlertState): DoseAlertLevel => (state === 'ESCALATED' ? 'ALERT' : 'WARNING');
+
+export class DoseAlertService {
+  /**
+   * Alert state of an undocumented dose at `now`, or null if it needs no attention yet
+   */
+  static getState(scheduledAt: Date, now: Date = new Date()): DoseAlertState | null {
+    if (now > addMinutes(scheduledAt, ESCALATION_MINUTES)) return 'ESCALATED';
+    if (now > addMinutes(scheduledAt, DOSE_GRACE_MINUTES)) return 'OVERDUE';
+    if (now >= addMinutes(scheduledAt, -DUE_SOON_MINUTES)) return 'DUE_SOON';
+    return null;
+  }
+
+  /**
+   * Whether a dose has been documented, either against its slot or (for entries logged without a slot)
+   * by an administration inside the grace window
+   */
+  static isDocumented(dose: DueDose, logs: MedicationLogEntry[]): boolean {
+    if (MarService.findSlotLog(dose.medicationId, dose.scheduledAt, logs)) return true;
+    const graceMs = DOSE_GRACE_MINUTES * 60_000;
+    return logs.some(log => {
+      const effective = log.medication_id === dose.medicationId && !log.scheduled_for ? MarService.getEffectiveLog(log) : null;
+      return !!effective && Math.abs(new Date(effective.administered_at).getTime() - dose.scheduledAt.getTime()) <= graceMs;
+    });
+  }
+
+  /**
+   * Every undocumented dose from the lookback window up to the due-soon horizon, with its state
+   */
+  static evaluate(medications: DoseAlertMedication[], logs: MedicationLogEntry[], now: Date = new Date()): DoseAlert[] {
+    const from = addMinutes(now, -LOOKBACK_HOURS * 60);
+    const to = addMinutes(now, DUE_SOON_MINUTES + 1);
+    const alerts: DoseAlert[] = [];
+
+    medications.forEach(medication => {
+      MedicationScheduleService.getDueDoses(medication, from, to).forEach(dose => {
+        if (DoseAlertService.isDocumented(dose, logs)) return;
+        const state = DoseAlertService.getState(dose.scheduledAt, now);
+        if (state) alerts.push({ ...dose, state, medication });
+      });
+    });
+    return alerts.sort((a, b) => a.scheduledAt.getTime() - b.scheduledAt.getTime());
+  }
+
+  /**
+   * Evaluate all scheduled medications and notify staff about late doses.
+   * Needs a service-role client: it reads every resident's medications and writes other users' notifications.
+   */
+  static async run(client: SupabaseClient, now: Date = new Date()): Promise<DoseAlertRunResult> {
+    const from = addMinutes(now, -LOOKBACK_HOURS * 60);
+    const fromIso = from.toISOString();
+    const nowIso = now.toISOString();
+
+    const [medicationsRes, logsRes] = await Promise.all([
+      client
+        .from('medications')
+        .select('*, residents!inner(room_number, status, profiles(full_name))')
+        .eq('residents.status', 'ADMITTED') // Doses are not given while on hospital leave or after discharge
+        .not('schedule', 'is', null)
+        .lte('start_date', nowIso)
+        .or(`end_date.is.null,end_date.gte.${fromIso}`),
+      client
+        .from('medication_log')
+        .select(MEDICATION_LOG_SELECT)
+        .or(`scheduled_for.gte.${fromIso},administered_at.gte.${addMinutes(from, -DOSE_GRACE_MINUTES).toISOString()}`),
+    ]);
+
+    if (medicationsRes.error) throw new Error(`Medications fetch failed: ${medicationsRes.error.message}`);
+    if (logsRes.error) throw new Error(`Medication log fetch failed: ${logsRes.error.message}`);
+
+    const medications = ((medicationsRes.data || []) as DoseAlertMedication[]).map(med => ({
+      ...med,
+      schedule: MedicationScheduleService.parse(med.schedule),
+    }));
+    const lateDoses = DoseAlertService.evaluate(medications, logsRes.data || [], now)
+      .filter(alert => alert.state !== 'DUE_SOON');
+
+    if (lateDoses.length === 0) {
+      return { evaluated: medications.length, notified: 0, notifications: 0 };
+    }
+
+    // Skip anything already alerted at the same level
+    const { data: sent, error: sentError } = await client
+      .from('medication_dose_alerts')
+      .select('medication_id, scheduled_for, level')
+      .gte('scheduled_for', fromIso);
+    if (sentError) throw new Error(`Dose alert fetch failed: ${sentError.message}`);
+
+    const sentKeys = new Set((sent || []).map(row => `${row.medication_id}|${new Date(row.scheduled_for).getTime()}|${row.level}`));
+    const pending = lateDoses
+      .map(alert => ({ ...alert, level: levelFor(alert.state) }))
+      .filter(alert => !sentKeys.has(`${alert.medicationId}|${alert.scheduledAt.getTime()}|${alert.level}`));
+
+    if (pending.length === 0) {
+      return { evaluated: medications.length, notified: 0, notifications: 0 };
+    }
+
+    const { shiftStaffIds, adminIds } = await DoseAlertService.fetchRecipients(client, now);
+
+    const notifications = pending.flatMap(({ level, ...alert }) => {
+      // Overdue doses go to whoever is on shift; escalations also go to admins
+      const recipients = level === 'ALERT'
+        ? new Set([...shiftStaffIds, ...adminIds])
+        : new Set(shiftStaffIds.length > 0 ? shiftStaffIds : adminIds);
+      const title = level === 'ALERT' ? 'Dose Not Documented' : 'Dose Overdue';
+      const content = DoseAlertService.describe(alert);
+      return [...recipients].map(userId => ({ user_id: userId, title, content, type: level }));
+    });
+
+    // Record the alerts first so a failed notification insert is not retried into duplicates
+    const { error: alertsError } = await client
+      .from('medication_dose_alerts')
+      .upsert(
+        pending.map(alert => ({
+          medication_id: alert.medicationId,
+          resident_id: alert.medication.resident_id,
+          scheduled_for: alert.scheduledAt.toISOString(),
+          level: alert.level,
+        })),
+        { onConflict: 'medication_id,scheduled_for,level', ignoreDuplicates: true }
+      );
+    if (alertsError) throw new Error(`Dose alert insert failed: ${alertsError.message}`);
+
+    if (notifications.length > 0) {
+      const { error: notifyError } = await client.from('notifications').insert(notifications);
+      if (notifyError) throw new Error(`Notification insert failed: ${notifyError.message}`);
+    }
+
+    return { evaluated: medications.length, notified: pending.length, notifications: notifications.length };
+  }
+
+  /**
+   * Notification text for a late dose
+   */
+  static describe(alert: DoseAlert): string {
+    const resident = alert.medication.residents;
+    const name = resident?.profiles?.full_name || 'Unknown resident';
+    const room = resident?.room_number ? ` (Room ${resident.room_number})` : '';
+    return `${alert.medication.name} ${alert.dosage} for ${name}${room} was due at ${FacilityTimeService.format(alert.scheduledAt, 'p')} and has not been documented.`;
+  }
+
+  // Staff working the current (facility-time) shift, and all admins
+  private static async fetchRecipients(client: SupabaseClient, now: Date): Promise<{ shiftStaffIds: string[]; adminIds: string[] }> {
+    const { shift } = MarService.getCurrentShift(now);
+    const [staffRes, adminsRes] = await Promise.all([
+      client.from('staff').select('profile_id').eq('shift', shift),
+      client.from('profiles').select('id').eq('role', 'ADMIN'),
+    ]);
+
+    if (staffRes.error) throw new Error(`Staff fetch failed: ${staffRes.error.message}`);
+    if (adminsRes.error) throw new Error(`Admin fetch failed: ${adminsRes.error.message}`);
+
+    return {
+      shiftStaffIds: (staffRes.data || []).map(row => row.profile_id).filter(Boolean),
+      adminIds: (adminsRes.data || []).map(row => row.id),
+    };
+  }
+}
@@ -0,0 +1,84 @@
+import { endOfDay, format, startOfDay } from 'date-fns';
+
+// IANA timezone the facility runs on; servers usually run in UTC, so server-side day boundaries and printed times use this
+export const FACILITY_TIMEZONE = process.env.NEXT_PUBLIC_FACILITY_TIMEZONE || 'America/New_York';
+
+const partsFormatter = new Intl.DateTimeFormat('en-US', {
+  timeZone: FACILITY_TIMEZONE,
+  hourCycle: 'h23',
+  year: 'numeric',
+  month: '2-digit',
+  day: '2-digit',
+  hour: '2-digit',
+  minute: '2-digit',
+  second: '2-digit',
+});
+
+export class FacilityTimeService {
+  /**
+   * A Date whose local fields read as the facility's wall clock at `date`, for date-fns formatting and arithmetic
+   */
+  static toFacilityTime(date: Date): Date {
+    const parts = Object.fromEntries(partsFormatter.formatToParts(date).map(part => [part.type, part.value]));
+    return new Date(
+      Number(parts.year), Number(parts.month) - 1, Number(parts.day),
+      Number(parts.hour), Number(parts.minute), Number(parts.second), date.getMilliseconds()
+    );
+  }
+
+  /**
+   * The instant at which the facility's wall clock reads the local fields of `wallClock`
+   */
+  static fromFacilityTime(wallClock: Date): Date {
+    const asUtc = Date.UTC(
+      wallClock.getFullYear(), wallClock.getMonth(), wallClock.getDate(),
+      wallClock.getHours(), wallClock.getMinutes(), wallClock.getSeconds(), wallClock.getMilliseconds()
+    );
+    const offsetAt = (instant: number) => {
+      const local = FacilityTimeService.toFacilityTime(new Date(instant));
+      return Date.UTC(
+        local.getFullYear(), local.getMonth(), local.getDate(),
+        local.getHours(), local.getMinutes(), local.getSeconds(), local.getMilliseconds()
+      ) - instant;
+    };
+    // Second pass picks up a DST change between the guess and the answer
+    const guess = asUtc - offsetAt(asUtc);
+    return new Date(asUtc - offsetAt(guess));
+  }
+
+  /**
+   * date-fns `format`, in facility time
+   */
+  static format(date: Date, pattern: string): string {
+    return format(FacilityTimeService.toFacilityTime(date), pattern);
+  }
+
+  /**
+   * The facility's calendar day (yyyy-MM-dd) at `date`
+   */
+  static formatDate(date: Date): string {
+    return FacilityTimeService.format(date, 'yyyy-MM-dd');
+  }
+
+  /**
+   * Facility midnight starting the facility day that contains `date`
+   */
+  static startOfDay(date: Date): Date {
+    return FacilityTimeService.fromFacilityTime(startOfDay(FacilityTimeService.toFacilityTime(date)));
+  }
+
+  /**
+   * Last moment of the facility day that contains `date`
+   */
+  static endOfDay(date: Date): Date {
+    return FacilityTimeService.fromFacilityTime(endOfDay(FacilityTimeService.toFacilityTime(date)));
+  }
+
+  /**
+   * Facility midnight starting the given calendar day (yyyy-MM-dd)
+   */
+  static startOfDate(day: string): Date {
+    const [year, month, date] = day.split('-').map(Number);
+    return FacilityTimeService.fromFacilityTime(new Date(year, month - 1, date));
+  }
+}
@@ -0,0 +1,152 @@
+import { addMinutes } from 'date-fns';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { IncidentSeverity } from '@/lib/services/IncidentWorkflowService';
+
+// --- Types ---
+export type FallLocation = 'BEDROOM' | 'BATHROOM' | 'HALLWAY' | 'DINING_ROOM' | 'COMMON_AREA' | 'OUTDOORS' | 'OTHER';
+
+export type FallActivity = 'TRANSFERRING' | 'WALKING' | 'TOILETING' | 'STANDING' | 'SITTING' | 'IN_BED' | 'REACHING' | 'UNKNOWN' | 'OTHER';
+
+export type Footwear = 'NON_SLIP' | 'SHOES' | 'SLIPPERS' | 'SOCKS' | 'BAREFOOT' | 'UNKNOWN';
+
+export type NeuroCheckProtocol = 'NONE' | 'STANDARD_72H';
+
+// Region codes shown on the body map and stored in incident_fall_details.injury_sites
+export type BodyRegion =
+  | 'HEAD' | 'FACE' | 'NECK' | 'CHEST' | 'ABDOMEN' | 'PELVIS'
+  | 'LEFT_SHOULDER' | 'RIGHT_SHOULDER' | 'LEFT_ARM' | 'RIGHT_ARM' | 'LEFT_HAND' | 'RIGHT_HAND'
+  | 'LEFT_HIP' | 'RIGHT_HIP' | 'LEFT_THIGH' | 'RIGHT_THIGH' | 'LEFT_KNEE' | 'RIGHT_KNEE' | 'LEFT_LEG' | 'RIGHT_LEG' | 'LEFT_FOOT' | 'RIGHT_FOOT'
+  | 'BACK_OF_HEAD' | 'UPPER_BACK' | 'LOWER_BACK' | 'BUTTOCKS';
+
+export type FallDetails = {
+  occurred_at: string;
+  location: FallLocation;
+  location_detail: string | null;
+  activity: FallActivity;
+  footwear: Footwear;
+  witnessed: boolean;
+  head_strike: boolean;
+  neuro_check_protocol: NeuroCheckProtocol;
+  injury_sites: BodyRegion[];
+};
+
+// Incident fields given when a fall is reported; type and status are set by report_fall_incident
+export type NewFallIncident = {
+  title: string;
+  description: string;
+  severity: IncidentSeverity;
+  resident_id: string;
+  reported_by: string;
+  assigned_to: string | null;
+};
+
+// --- Constants ---
+export const FALL_LOCATION_LABELS: Record<FallLocation, string> = {
+  BEDROOM: 'Bedroom',
+  BATHROOM: 'Bathroom',
+  HALLWAY: 'Hallway',
+  DINING_ROOM: 'Dining room',
+  COMMON_AREA: 'Common area',
+  OUTDOORS: 'Outdoors',
+  OTHER: 'Other',
+};
+
+export const FALL_ACTIVITY_LABELS: Record<FallActivity, string> = {
+  TRANSFERRING: 'Transferring',
+  WALKING: 'Walking',
+  TOILETING: 'Toileting',
+  STANDING: 'Standing up',
+  SITTING: 'Sitting',
+  IN_BED: 'In bed',
+  REACHING: 'Reaching or bending',
+  UNKNOWN: 'Unknown',
+  OTHER: 'Other',
+};
+
+export const FOOTWEAR_LABELS: Record<Footwear, string> = {
+  NON_SLIP: 'Non-slip socks/shoes',
+  SHOES: 'Shoes',
+  SLIPPERS: 'Slippers',
+  SOCKS: 'Socks',
+  BAREFOOT: 'Barefoot',
+  UNKNOWN: 'Unknown',
+};
+
+export const NEURO_CHECK_PROTOCOL_LABELS: Record<NeuroCheckProtocol, string> = {
+  NONE: 'Not required',
+  STANDARD_72H: 'Standard (72 hours)',
+};
+
+// Interval in minutes and how many checks at that interval, in order from the fall
+const NEURO_CHECK_STEPS: Record<NeuroCheckProtocol, { everyMinutes: number; times: number }[]> = {
+  NONE: [],
+  STANDARD_72H: [
+    { everyMinutes: 15, times: 4 }, // First hour
+    { everyMinutes: 30, times: 2 }, // Second hour
+    { everyMinutes: 60, times: 4 }, // Next 4 hours
+    { everyMinutes: 240, times: 6 }, // Next 24 hours
+    { everyMinutes: 360, times: 7 }, // To 72 hours
+  ],
+};
+
+export const BODY_REGION_LABELS: Record<BodyRegion, string> = {
+  HEAD: 'Head',
+  FACE: 'Face',
+  NECK: 'Neck',
+  CHEST: 'Chest',
+  ABDOMEN: 'Abdomen',
+  PELVIS: 'Pelvis/groin',
+  LEFT_SHOULDER: 'Left shoulder',
+  RIGHT_SHOULDER: 'Right shoulder',
+  LEFT_ARM: 'Left arm',
+  RIGHT_ARM: 'Right arm',
+  LEFT_HAND: 'Left hand/wrist',
+  RIGHT_HAND: 'Right hand/wrist',
+  LEFT_HIP: 'Left hip',
+  RIGHT_HIP: 'Right hip',
+  LEFT_THIGH: 'Left thigh',
+  RIGHT_THIGH: 'Right thigh',
+  LEFT_KNEE: 'Left knee',
+  RIGHT_KNEE: 'Right knee',
+  LEFT_LEG: 'Left lower leg',
+  RIGHT_LEG: 'Right lower leg',
+  LEFT_FOOT: 'Left foot/ankle',
+  RIGHT_FOOT: 'Right foot/ankle',
+  BACK_OF_HEAD: 'Back of head',
+  UPPER_BACK: 'Upper back',
+  LOWER_BACK: 'Lower back',
+  BUTTOCKS: 'Buttocks/sacrum',
+};
+
+export class FallIncidentService {
+  /**
+   * Neuro checks are needed after a known or suspected head strike; an unwitnessed fall is treated as one
+   */
+  static getDefaultProtocol(witnessed: boolean, headStrike: boolean): NeuroCheckProtocol {
+    return !witnessed || headStrike ? 'STANDARD_72H' : 'NONE';
+  }
+
+  /**
+   * Times neuro checks are due after a fall at `occurredAt`
+   */
+  static getNeuroCheckTimes(protocol: NeuroCheckProtocol, occurredAt: Date): Date[] {
+    const times: Date[] = [];
+    let at = occurredAt;
+    NEURO_CHECK_STEPS[protocol].forEach(step => {
+      for (let i = 0; i < step.times; i++) {
+        at = addMinutes(at, step.everyMinutes);
+        times.push(at);
+      }
+    });
+    return times;
+  }
+
+  /**
+   * Report a FALL incident together with its structured details; neither is saved if either fails
+   */
+  static async reportFall(client: SupabaseClient, incident: NewFallIncident, details: FallDetails): Promise<void> {
+    const { error } = await client.rpc('report_fall_incident', { incident, fall: details });
+
+    if (error) throw new Error(error.message);
+  }
+}
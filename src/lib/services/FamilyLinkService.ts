@@ -0,0 +1,52 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+// --- Types ---
+export type FamilyResidentLink = {
+  id: string;
+  created_at: string;
+  family_profile_id: string;
+  resident_id: string;
+  relationship: string | null;
+  residents?: { profiles: { id: string; full_name: string | null } | null } | null; // Present when selected with the link
+};
+
+export class FamilyLinkService {
+  /**
+   * Residents a family member is linked to
+   */
+  static async fetchLinks(client: SupabaseClient, familyProfileId: string): Promise<FamilyResidentLink[]> {
+    const { data, error } = await client
+      .from('family_resident_links')
+      .select('*, residents(profiles(id, full_name))')
+      .eq('family_profile_id', familyProfileId)
+      .order('created_at', { ascending: true });
+    if (error) throw new Error(`Family links fetch failed: ${error.message}`);
+    return (data as unknown as FamilyResidentLink[]) || [];
+  }
+
+  static async linkResident(
+    client: SupabaseClient,
+    familyProfileId: string,
+    residentId: string,
+    relationship?: string | null,
+  ): Promise<void> {
+    const { error } = await client
+      .from('family_resident_links')
+      .insert({
+        family_profile_id: familyProfileId,
+        resident_id: residentId,
+        relationship: relationship?.trim() || null,
+      });
+    if (error) {
+      throw new Error(error.code === '23505' ? 'This family member is already linked to that resident' : error.message);
+    }
+  }
+
+  static async unlinkResident(client: SupabaseClient, linkId: string): Promise<void> {
+    const { error } = await client
+      .from('family_resident_links')
+      .delete()
+      .eq('id', linkId);
+    if (error) throw new Error(error.message);
+  }
+}
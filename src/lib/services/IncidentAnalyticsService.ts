@@ -0,0 +1,277 @@
+import { differenceInCalendarDays, differenceInMinutes, eachMonthOfInterval, endOfDay, format, max, min, startOfDay, startOfMonth } from 'date-fns';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { INCIDENT_TYPES, IncidentSeverity, IncidentType } from '@/lib/services/IncidentWorkflowService';
+import { FALL_LOCATION_LABELS, FallLocation } from '@/lib/services/FallIncidentService';
+
+// --- Types ---
+export type CareLevel = 'LOW' | 'MEDIUM' | 'HIGH';
+
+export type AnalyticsResident = {
+  id: string;
+  admitted_at: string; // Start of the resident's current or last stay
+  discharged_at: string | null;
+  room_number: string | null;
+  care_level: CareLevel;
+  profiles: { full_name: string | null } | null;
+};
+
+export type AnalyticsIncident = {
+  id: string;
+  created_at: string;
+  incident_type: IncidentType;
+  severity: IncidentSeverity;
+  resident_id: string;
+  incident_fall_details: { occurred_at: string; location: FallLocation } | null;
+};
+
+// Room moves from the ADT history; the room after an event is to_room when it changed, otherwise from_room
+export type AnalyticsRoomEvent = {
+  resident_id: string;
+  effective_at: string;
+  from_room: string | null;
+  to_room: string | null;
+};
+
+export type AnalyticsFilters = {
+  from: Date;
+  to: Date;
+  careLevel: CareLevel | 'ALL';
+};
+
+export type CountBucket = { key: string; label: string; count: number };
+
+export type RepeatFaller = {
+  resident: AnalyticsResident;
+  falls: number;
+  lastFallAt: Date;
+  daysBetweenLastTwo: number;
+};
+
+export type IncidentAnalytics = {
+  incidents: number;
+  falls: number;
+  residentDays: number;
+  incidentRate: number | null; // Per 1,000 resident-days; null without any resident-days
+  fallRate: number | null;
+  byMonth: ({ month: string } & Record<IncidentType, number>)[];
+  byHour: CountBucket[];
+  byWeekday: CountBucket[];
+  byLocation: CountBucket[];
+  byRoom: CountBucket[];
+  repeatFallers: RepeatFaller[];
+};
+
+// --- Constants ---
+export const CARE_LEVEL_LABELS: Record<CareLevel, string> = {
+  LOW: 'Low',
+  MEDIUM: 'Medium',
+  HIGH: 'High',
+};
+
+// A resident with at least this many falls in the period is flagged as a repeat faller
+export const REPEAT_FALL_THRESHOLD = 2;
+
+const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+// Locations are only recorded for falls
+const NOT_RECORDED = 'NOT_RECORDED';
+
+export class IncidentAnalyticsService {
+  /**
+   * When the incident happened: the recorded time of a fall, otherwise when it was reported
+   */
+  static getOccurredAt(incident: AnalyticsIncident): Date {
+    return new Date(incident.incident_fall_details?.occurred_at || incident.created_at);
+  }
+
+  /**
+   * The resident's room at `at`, from their ADT events ordered oldest first; `currentRoom` when they have none
+   */
+  static getRoomAt(events: AnalyticsRoomEvent[], at: Date, currentRoom: string | null): string | null {
+    if (events.length === 0) return currentRoom;
+    const before = events.filter(event => new Date(event.effective_at) <= at);
+    if (before.length === 0) return events[0].from_room || events[0].to_room; // Before the first recorded move
+    const last = before[before.length - 1];
+    return last.to_room || last.from_room;
+  }
+
+  /**
+   * Days each resident was in the facility during the period, summed
+   */
+  static getResidentDays(residents: AnalyticsResident[], from: Date, to: Date): number {
+    const periodEnd = endOfDay(to);
+    return residents.reduce((total, resident) => {
+      const start = max([startOfDay(new Date(resident.admitted_at)), startOfDay(from)]);
+      const end = min([periodEnd, new Date(), ...(resident.discharged_at ? [new Date(resident.discharged_at)] : [])]);
+      if (start > end) return total;
+      return total + differenceInCalendarDays(end, start) + 1;
+    }, 0);
+  }
+
+  /**
+   * Rates and breakdowns of `incidents` for the residents in scope; both should already be filtered
+   */
+  static analyze(
+    incidents: AnalyticsIncident[],
+    residents: AnalyticsResident[],
+    roomEvents: AnalyticsRoomEvent[],
+    from: Date,
+    to: Date,
+  ): IncidentAnalytics {
+    const residentsById = new Map(residents.map(resident => [resident.id, resident]));
+    const roomEventsByResident = new Map<string, AnalyticsRoomEvent[]>();
+    roomEvents.forEach(event => {
+      const events = roomEventsByResident.get(event.resident_id) || [];
+      events.push(event);
+      roomEventsByResident.set(event.resident_id, events);
+    });
+    const falls = incidents.filter(incident => incident.incident_type === 'FALL');
+    const residentDays = IncidentAnalyticsService.getResidentDays(residents, from, to);
+    const rate = (count: number) => residentDays > 0 ? (count / residentDays) * 1000 : null;
+
+    const count = (keys: string[], labelFor: (key: string) => string, keyOf: (incident: AnalyticsIncident) => string): CountBucket[] => {
+      const buckets = keys.map(key => ({ key, label: labelFor(key), count: 0 }));
+      incidents.forEach(incident => {
+        const key = keyOf(incident);
+        let bucket = buckets.find(b => b.key === key);
+        if (!bucket) {
+          bucket = { key, label: labelFor(key), count: 0 };
+          buckets.push(bucket);
+        }
+        bucket.count++;
+      });
+      return buckets;
+    };
+
+    const months = eachMonthOfInterval({ start: startOfMonth(from), end: to });
+    const byMonth = months.map(month => {
+      const row = { month: format(month, 'MMM yyyy') } as { month: string } & Record<IncidentType, number>;
+      INCIDENT_TYPES.forEach(type => { row[type] = 0; });
+      return row;
+    });
+    incidents.forEach(incident => {
+      const row = byMonth.find(r => r.month === format(IncidentAnalyticsService.getOccurredAt(incident), 'MMM yyyy'));
+      if (row) row[incident.incident_type]++;
+    });
+
+    const byLocation = count(
+      [...Object.keys(FALL_LOCATION_LABELS), NOT_RECORDED],
+      key => FALL_LOCATION_LABELS[key as FallLocation] || 'Not recorded',
+      incident => incident.incident_fall_details?.location || NOT_RECORDED
+    ).filter(bucket => bucket.count > 0);
+
+    const byRoom = count(
+      [],
+      key => key || 'Unknown',
+      incident => IncidentAnalyticsService.getRoomAt(
+        roomEventsByResident.get(incident.resident_id) || [],
+        IncidentAnalyticsService.getOccurredAt(incident),
+        residentsById.get(incident.resident_id)?.room_number || null
+      ) || ''
+    ).sort((a, b) => b.count - a.count);
+
+    // Falls per resident, oldest first
+    const fallsByResident = new Map<string, Date[]>();
+    falls.forEach(fall => {
+      const times = fallsByResident.get(fall.resident_id) || [];
+      times.push(IncidentAnalyticsService.getOccurredAt(fall));
+      fallsByResident.set(fall.resident_id, times);
+    });
+    const repeatFallers: RepeatFaller[] = [];
+    fallsByResident.forEach((times, residentId) => {
+      const resident = residentsById.get(residentId);
+      if (!resident || times.length < REPEAT_FALL_THRESHOLD) return;
+      times.sort((a, b) => a.getTime() - b.getTime());
+      const last = times[times.length - 1];
+      repeatFallers.push({
+        resident,
+        falls: times.length,
+        lastFallAt: last,
+        daysBetweenLastTwo: Math.round(differenceInMinutes(last, times[times.length - 2]) / 1440),
+      });
+    });
+    repeatFallers.sort((a, b) => b.falls - a.falls || b.lastFallAt.getTime() - a.lastFallAt.getTime());
+
+    return {
+      incidents: incidents.length,
+      falls: falls.length,
+      residentDays,
+      incidentRate: rate(incidents.length),
+      fallRate: rate(falls.length),
+      byMonth,
+      byHour: count(
+        Array.from({ length: 24 }, (_, hour) => String(hour)),
+        key => `${key.padStart(2, '0')}:00`,
+        incident => String(IncidentAnalyticsService.getOccurredAt(incident).getHours())
+      ),
+      byWeekday: count(
+        WEEKDAYS.map((_, index) => String(index)),
+        key => WEEKDAYS[Number(key)],
+        incident => String((IncidentAnalyticsService.getOccurredAt(incident).getDay() + 6) % 7) // Monday first
+      ),
+      byLocation,
+      byRoom,
+      repeatFallers,
+    };
+  }
+
+  /**
+   * Incidents and residents for the filters, then analyzed
+   */
+  static async fetchAnalytics(client: SupabaseClient, filters: AnalyticsFilters): Promise<IncidentAnalytics> {
+    const from = startOfDay(filters.from);
+    const to = endOfDay(filters.to);
+
+    let residentsQuery = client
+      .from('residents')
+      .select('id, admitted_at, discharged_at, room_number, care_level, profiles(full_name)')
+      .lte('admitted_at', to.toISOString());
+    if (filters.careLevel !== 'ALL') residentsQuery = residentsQuery.eq('care_level', filters.careLevel);
+
+    // Incidents are in the period by when they happened: reported in it, or falls that occurred in it but were reported later
+    const [residentsRes, reportedRes, fallsRes] = await Promise.all([
+      residentsQuery,
+      client
+        .from('incidents')
+        .select('id, created_at, incident_type, severity, resident_id, incident_fall_details(occurred_at, location)')
+        .gte('created_at', from.toISOString())
+        .lte('created_at', to.toISOString()),
+      client
+        .from('incidents')
+        .select('id, created_at, incident_type, severity, resident_id, incident_fall_details!inner(occurred_at, location)')
+        .gte('incident_fall_details.occurred_at', from.toISOString())
+        .lte('incident_fall_details.occurred_at', to.toISOString()),
+    ]);
+
+    if (residentsRes.error) throw new Error(`Residents fetch failed: ${residentsRes.error.message}`);
+    if (reportedRes.error) throw new Error(`Incidents fetch failed: ${reportedRes.error.message}`);
+    if (fallsRes.error) throw new Error(`Incidents fetch failed: ${fallsRes.error.message}`);
+
+    const residents = (residentsRes.data || []) as unknown as AnalyticsResident[];
+    const inScope = new Set(residents.map(resident => resident.id));
+    const incidentsById = new Map<string, AnalyticsIncident>();
+    [...(reportedRes.data || []), ...(fallsRes.data || [])].forEach(incident => {
+      incidentsById.set(incident.id, incident as unknown as AnalyticsIncident);
+    });
+    const incidents = Array.from(incidentsById.values()).filter(incident => {
+      const occurredAt = IncidentAnalyticsService.getOccurredAt(incident);
+      return inScope.has(incident.resident_id) && occurredAt >= from && occurredAt <= to;
+    });
+
+    // Rooms are taken from the ADT history as of each incident, not the resident's current room
+    const residentIds = Array.from(new Set(incidents.map(incident => incident.resident_id)));
+    let roomEvents: AnalyticsRoomEvent[] = [];
+    if (residentIds.length > 0) {
+      const { data, error } = await client
+        .from('resident_adt_events')
+        .select('resident_id, effective_at, from_room, to_room')
+        .in('resident_id', residentIds)
+        .lte('effective_at', to.toISOString())
+        .order('effective_at', { ascending: true });
+      if (error) throw new Error(`ADT events fetch failed: ${error.message}`);
+      roomEvents = (data as AnalyticsRoomEvent[]) || [];
+    }
+
+    return IncidentAnalyticsService.analyze(incidents, residents, roomEvents, from, to);
+  }
+}
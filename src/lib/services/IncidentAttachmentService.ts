@@ -0,0 +1,85 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+// --- Types ---
+// A file in the incident-attachments bucket, stored at {incident_id}/{name}
+export type IncidentAttachment = {
+  name: string;
+  path: string;
+  created_at: string | null;
+  size: number | null;
+  content_type: string | null;
+};
+
+// --- Constants ---
+export const INCIDENT_ATTACHMENTS_BUCKET = 'incident-attachments';
+
+// What the upload picker offers: photos and scanned forms
+export const INCIDENT_ATTACHMENT_ACCEPT = 'image/*,application/pdf';
+
+// Formats the PDF report can embed; other files are listed by name only
+const EMBEDDABLE_IMAGE_TYPES = ['image/jpeg', 'image/png'];
+
+const SIGNED_URL_SECONDS = 60 * 10;
+
+export class IncidentAttachmentService {
+  static isImage(attachment: IncidentAttachment): boolean {
+    return !!attachment.content_type?.startsWith('image/');
+  }
+
+  static isEmbeddableImage(attachment: IncidentAttachment): boolean {
+    return EMBEDDABLE_IMAGE_TYPES.includes(attachment.content_type || '');
+  }
+
+  static formatSize(size: number | null): string {
+    if (size === null) return 'N/A';
+    return size < 1024 * 1024 ? `${(size / 1024).toFixed(1)} KB` : `${(size / 1024 / 1024).toFixed(1)} MB`;
+  }
+
+  static async list(client: SupabaseClient, incidentId: string): Promise<IncidentAttachment[]> {
+    const { data, error } = await client.storage
+      .from(INCIDENT_ATTACHMENTS_BUCKET)
+      .list(incidentId, { limit: 100, sortBy: { column: 'created_at', order: 'asc' } });
+
+    if (error) throw new Error(`Attachments fetch failed: ${error.message}`);
+    // Folders and placeholder objects have no id
+    return (data || []).filter(file => file.id).map(file => ({
+      name: file.name,
+      path: `${incidentId}/${file.name}`,
+      created_at: file.created_at || null,
+      size: file.metadata?.size ?? null,
+      content_type: file.metadata?.mimetype ?? null,
+    }));
+  }
+
+  /**
+   * Short-lived URLs keyed by path, for thumbnails and opening files
+   */
+  static async createSignedUrls(client: SupabaseClient, attachments: IncidentAttachment[]): Promise<Record<string, string>> {
+    if (attachments.length === 0) return {};
+    const { data, error } = await client.storage
+      .from(INCIDENT_ATTACHMENTS_BUCKET)
+      .createSignedUrls(attachments.map(a => a.path), SIGNED_URL_SECONDS);
+
+    if (error) throw new Error(`Attachment URLs failed: ${error.message}`);
+    const urls: Record<string, string> = {};
+    (data || []).forEach(entry => {
+      if (entry.path && entry.signedUrl) urls[entry.path] = entry.signedUrl;
+    });
+    return urls;
+  }
+
+  static async download(client: SupabaseClient, attachment: IncidentAttachment): Promise<Uint8Array> {
+    const { data, error } = await client.storage.from(INCIDENT_ATTACHMENTS_BUCKET).download(attachment.path);
+
+    if (error) throw new Error(`Attachment download failed: ${error.message}`);
+    return new Uint8Array(await data.arrayBuffer());
+  }
+
+  static async remove(client: SupabaseClient, attachment: IncidentAttachment): Promise<void> {
+    const { data, error } = await client.storage.from(INCIDENT_ATTACHMENTS_BUCKET).remove([attachment.path]);
+
+    if (error) throw new Error(error.message);
+    // Storage reports success with nothing removed when RLS hides the object
+    if (!data || data.length === 0) throw new Error('You can only remove attachments you uploaded.');
+  }
+}
@@ -0,0 +1,147 @@
+import { format, startOfDay } from 'date-fns';
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+// --- Types ---
+// A resident or staff member involved in an incident besides the incident's own resident
+export type IncidentInvolvedParty = {
+  id: string;
+  created_at: string;
+  incident_id: string;
+  resident_id: string | null;
+  profile_id: string | null;
+  involvement: string | null;
+  added_by: string;
+  residents?: { room_number: string | null; profiles: { full_name: string | null } | null } | null;
+  profiles?: { full_name: string | null; role: string | null } | null;
+};
+
+export type IncidentWitnessStatement = {
+  id: string;
+  created_at: string;
+  incident_id: string;
+  witness_id: string;
+  statement: string;
+  recorded_by: string;
+  witness_profile?: { full_name: string | null } | null;
+  recorded_by_profile?: { full_name: string | null } | null;
+};
+
+export type IncidentFollowUpAction = {
+  id: string;
+  created_at: string;
+  incident_id: string;
+  description: string;
+  owner_id: string;
+  due_date: string; // yyyy-MM-dd
+  created_by: string;
+  completed_at: string | null;
+  completed_by: string | null;
+  completion_notes: string | null;
+  owner_profile?: { full_name: string | null } | null;
+};
+
+export type OverdueFollowUpAction = IncidentFollowUpAction & {
+  incidents: { title: string; residents: { profiles: { full_name: string | null } | null } | null } | null;
+};
+
+export type IncidentDetails = {
+  parties: IncidentInvolvedParty[];
+  statements: IncidentWitnessStatement[];
+  actions: IncidentFollowUpAction[];
+};
+
+export type NewInvolvedParty = { resident_id: string } | { profile_id: string };
+
+// --- Constants ---
+const PARTY_SELECT = '*, residents(room_number, profiles(full_name)), profiles!profile_id(full_name, role)';
+const STATEMENT_SELECT = '*, witness_profile:profiles!witness_id(full_name), recorded_by_profile:profiles!recorded_by(full_name)';
+const ACTION_SELECT = '*, owner_profile:profiles!owner_id(full_name)';
+
+export class IncidentDetailService {
+  /**
+   * Whether an open action is past its due date
+   */
+  static isOverdue(action: IncidentFollowUpAction, now: Date = new Date()): boolean {
+    return !action.completed_at && action.due_date < format(startOfDay(now), 'yyyy-MM-dd');
+  }
+
+  /**
+   * Involved parties, witness statements (oldest first) and follow-up actions (by due date) of an incident
+   */
+  static async fetchDetails(client: SupabaseClient, incidentId: string): Promise<IncidentDetails> {
+    const [partiesRes, statementsRes, actionsRes] = await Promise.all([
+      client.from('incident_involved_parties').select(PARTY_SELECT).eq('incident_id', incidentId).order('created_at'),
+      client.from('incident_witness_statements').select(STATEMENT_SELECT).eq('incident_id', incidentId).order('created_at'),
+      client.from('incident_follow_up_actions').select(ACTION_SELECT).eq('incident_id', incidentId).order('due_date'),
+    ]);
+
+    if (partiesRes.error) throw new Error(`Involved parties fetch failed: ${partiesRes.error.message}`);
+    if (statementsRes.error) throw new Error(`Witness statements fetch failed: ${statementsRes.error.message}`);
+    if (actionsRes.error) throw new Error(`Follow-up actions fetch failed: ${actionsRes.error.message}`);
+
+    return {
+      parties: (partiesRes.data || []) as unknown as IncidentInvolvedParty[],
+      statements: (statementsRes.data || []) as unknown as IncidentWitnessStatement[],
+      actions: (actionsRes.data || []) as unknown as IncidentFollowUpAction[],
+    };
+  }
+
+  static async addParty(client: SupabaseClient, incidentId: string, party: NewInvolvedParty, involvement: string, addedBy: string): Promise<void> {
+    const { error } = await client
+      .from('incident_involved_parties')
+      .insert({ incident_id: incidentId, ...party, involvement: involvement.trim() || null, added_by: addedBy });
+
+    if (error) throw new Error(error.message);
+  }
+
+  static async removeParty(client: SupabaseClient, partyId: string): Promise<void> {
+    const { error } = await client.from('incident_involved_parties').delete().eq('id', partyId);
+    if (error) throw new Error(error.message);
+  }
+
+  static async addStatement(client: SupabaseClient, incidentId: string, witnessId: string, statement: string, recordedBy: string): Promise<void> {
+    const { error } = await client
+      .from('incident_witness_statements')
+      .insert({ incident_id: incidentId, witness_id: witnessId, statement: statement.trim(), recorded_by: recordedBy });
+
+    if (error) throw new Error(error.message);
+  }
+
+  static async addAction(client: SupabaseClient, incidentId: string, description: string, ownerId: string, dueDate: Date, createdBy: string): Promise<void> {
+    const { error } = await client
+      .from('incident_follow_up_actions')
+      .insert({
+        incident_id: incidentId,
+        description: description.trim(),
+        owner_id: ownerId,
+        due_date: format(dueDate, 'yyyy-MM-dd'),
+        created_by: createdBy,
+      });
+
+    if (error) throw new Error(error.message);
+  }
+
+  static async completeAction(client: SupabaseClient, actionId: string, completedBy: string, notes: string): Promise<void> {
+    const { error } = await client
+      .from('incident_follow_up_actions')
+      .update({ completed_at: new Date().toISOString(), completed_by: completedBy, completion_notes: notes.trim() || null })
+      .eq('id', actionId);
+
+    if (error) throw new Error(error.message);
+  }
+
+  /**
+   * Open follow-up actions past their due date across all incidents, most overdue first
+   */
+  static async fetchOverdueActions(client: SupabaseClient, now: Date = new Date()): Promise<OverdueFollowUpAction[]> {
+    const { data, error } = await client
+      .from('incident_follow_up_actions')
+      .select(`${ACTION_SELECT}, incidents(title, residents(profiles(full_name)))`)
+      .is('completed_at', null)
+      .lt('due_date', format(startOfDay(now), 'yyyy-MM-dd'))
+      .order('due_date');
+
+    if (error) throw new Error(`Overdue actions fetch failed: ${error.message}`);
+    return (data || []) as unknown as OverdueFollowUpAction[];
+  }
+}
@@ -0,0 +1,279 @@
+import { PDFDocument, PDFFont, PDFImage, PDFPage, StandardFonts, rgb } from 'pdf-lib';
+import { format } from 'date-fns';
+import { IncidentReportData, SIGNER_ROLE_LABELS, SIGNER_ROLES } from '@/lib/services/IncidentReportService';
+import {
+  INCIDENT_SEVERITY_LABELS,
+  INCIDENT_STATUS_LABELS,
+  INCIDENT_TYPE_LABELS,
+} from '@/lib/services/IncidentWorkflowService';
+import {
+  BODY_REGION_LABELS,
+  FALL_ACTIVITY_LABELS,
+  FALL_LOCATION_LABELS,
+  FOOTWEAR_LABELS,
+  NEURO_CHECK_PROTOCOL_LABELS,
+} from '@/lib/services/FallIncidentService';
+import { ALLERGY_SEVERITY_LABELS } from '@/lib/services/MedicationSafetyService';
+import { IncidentAttachmentService } from '@/lib/services/IncidentAttachmentService';
+import { FACILITY_TIMEZONE, FacilityTimeService } from '@/lib/services/FacilityTimeService';
+
+// US Letter, in points
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+const MARGIN = 50;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const BODY_SIZE = 10;
+const LINE_GAP = 4;
+const MAX_IMAGE_HEIGHT = 320;
+
+// Rendered on the server, so times are shown on the facility's clock rather than the server's
+const formatTime = (value: string | null | undefined) => value ? FacilityTimeService.format(new Date(value), 'PPp') : 'Not recorded';
+
+// Standard PDF fonts only cover WinAnsi; swap common typography for ASCII and drop anything else
+const toWinAnsi = (text: string) => text
+  .replace(/[‘’]/g, "'")
+  .replace(/[“”]/g, '"')
+  .replace(/[–—]/g, '-')
+  .replace(/→/g, '->')
+  .replace(/\r/g, '')
+  .replace(/[^\n\x20-\x7E\xA0-\xFF]/g, '?');
+
+// Writes top to bottom, starting a new page when the current one is full
+class ReportWriter {
+  private page: PDFPage;
+  private y = PAGE_HEIGHT - MARGIN;
+
+  constructor(private doc: PDFDocument, private font: PDFFont, private bold: PDFFont) {
+    this.page = doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  }
+
+  private ensureSpace(height: number) {
+    if (this.y - height < MARGIN) {
+      this.page = this.doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+      this.y = PAGE_HEIGHT - MARGIN;
+    }
+  }
+
+  private wrap(text: string, font: PDFFont, size: number, width: number): string[] {
+    return toWinAnsi(text).split('\n').flatMap(paragraph => {
+      const lines: string[] = [];
+      let line = '';
+      paragraph.split(/\s+/).filter(Boolean).forEach(word => {
+        const candidate = line ? `${line} ${word}` : word;
+        if (line && font.widthOfTextAtSize(candidate, size) > width) {
+          lines.push(line);
+          line = word;
+        } else {
+          line = candidate;
+        }
+      });
+      lines.push(line);
+      return lines;
+    });
+  }
+
+  text(text: string, { size = BODY_SIZE, bold = false, indent = 0 }: { size?: number; bold?: boolean; indent?: number } = {}) {
+    const font = bold ? this.bold : this.font;
+    this.wrap(text, font, size, CONTENT_WIDTH - indent).forEach(line => {
+      this.ensureSpace(size + LINE_GAP);
+      this.y -= size;
+      this.page.drawText(line, { x: MARGIN + indent, y: this.y, size, font });
+      this.y -= LINE_GAP;
+    });
+  }
+
+  // "Label: value" on one line, wrapping the value under itself
+  field(label: string, value: string | null | undefined) {
+    const labelText = `${label}: `;
+    const labelWidth = this.bold.widthOfTextAtSize(labelText, BODY_SIZE);
+    const lines = this.wrap(value || 'Not recorded', this.font, BODY_SIZE, CONTENT_WIDTH - labelWidth);
+    lines.forEach((line, index) => {
+      this.ensureSpace(BODY_SIZE + LINE_GAP);
+      this.y -= BODY_SIZE;
+      if (index === 0) this.page.drawText(labelText, { x: MARGIN, y: this.y, size: BODY_SIZE, font: this.bold });
+      this.page.drawText(line, { x: MARGIN + labelWidth, y: this.y, size: BODY_SIZE, font: this.font });
+      this.y -= LINE_GAP;
+    });
+  }
+
+  heading(text: string) {
+    this.ensureSpace(40);
+    this.y -= 10;
+    this.text(text.toUpperCase(), { size: 11, bold: true });
+    this.page.drawLine({
+      start: { x: MARGIN, y: this.y },
+      end: { x: PAGE_WIDTH - MARGIN, y: this.y },
+      thickness: 0.5,
+      color: rgb(0.4, 0.4, 0.4),
+    });
+    this.y -= 6;
+  }
+
+  gap(height = 6) {
+    this.y -= height;
+  }
+
+  signatureLine(label: string, name: string | null, signedAt: string | null) {
+    this.ensureSpace(40);
+    this.y -= 24;
+    const lineY = this.y;
+    if (name && signedAt) {
+      this.page.drawText(toWinAnsi(`/s/ ${name}`), { x: MARGIN, y: lineY + 3, size: BODY_SIZE, font: this.font });
+      this.page.drawText(toWinAnsi(FacilityTimeService.format(new Date(signedAt), 'PPp')), { x: MARGIN + 330, y: lineY + 3, size: BODY_SIZE, font: this.font });
+    }
+    this.page.drawLine({ start: { x: MARGIN, y: lineY }, end: { x: MARGIN + 300, y: lineY }, thickness: 0.5 });
+    this.page.drawLine({ start: { x: MARGIN + 330, y: lineY }, end: { x: PAGE_WIDTH - MARGIN, y: lineY }, thickness: 0.5 });
+    this.y -= 12;
+    this.page.drawText(toWinAnsi(label), { x: MARGIN, y: this.y, size: 8, font: this.font });
+    this.page.drawText('Date / time', { x: MARGIN + 330, y: this.y, size: 8, font: this.font });
+    this.y -= LINE_GAP;
+  }
+
+  // Scaled down to fit the content width and MAX_IMAGE_HEIGHT, never up
+  image(image: PDFImage, caption: string) {
+    const scale = Math.min(1, CONTENT_WIDTH / image.width, MAX_IMAGE_HEIGHT / image.height);
+    const { width, height } = image.scale(scale);
+    this.ensureSpace(height + BODY_SIZE + LINE_GAP * 3);
+    this.y -= height;
+    this.page.drawImage(image, { x: MARGIN, y: this.y, width, height });
+    this.y -= LINE_GAP;
+    this.text(caption, { size: 8 });
+    this.y -= LINE_GAP;
+  }
+
+  // Page numbers and a footer on every page, once all pages exist
+  finish(footer: string) {
+    const pages = this.doc.getPages();
+    pages.forEach((page, index) => {
+      page.drawText(toWinAnsi(`${footer}    Page ${index + 1} of ${pages.length}`), {
+        x: MARGIN,
+        y: MARGIN / 2,
+        size: 8,
+        font: this.font,
+        color: rgb(0.4, 0.4, 0.4),
+      });
+    });
+  }
+}
+
+export class IncidentReportPdfService {
+  /**
+   * Regulatory incident report as a PDF. Server-side only.
+   */
+  static async render(data: IncidentReportData): Promise<Uint8Array> {
+    const { incident, parties, statements, actions, history, signatures, allergies, attachments } = data;
+    const resident = incident.residents;
+    const fall = incident.incident_fall_details;
+
+    const doc = await PDFDocument.create();
+    doc.setTitle(`Incident Report - ${incident.title}`);
+    doc.setCreationDate(data.generatedAt);
+    const w = new ReportWriter(doc, await doc.embedFont(StandardFonts.Helvetica), await doc.embedFont(StandardFonts.HelveticaBold));
+
+    w.text('Incident Report', { size: 18, bold: true });
+    w.text(`Incident ID: ${incident.id}`, { size: 8 });
+
+    w.heading('Resident');
+    w.field('Name', resident?.profiles?.full_name);
+    w.field('Room', resident?.room_number);
+    w.field('Care level', resident?.care_level);
+    w.field('Resident since', resident?.created_at ? FacilityTimeService.format(new Date(resident.created_at), 'PP') : null);
+    w.field('Emergency contact', resident?.emergency_contact);
+    w.field('Medical conditions', resident?.medical_conditions?.length ? resident.medical_conditions.join(', ') : 'None recorded');
+    w.field('Allergies', allergies.length
+      ? allergies.map(a => `${a.allergen} (${ALLERGY_SEVERITY_LABELS[a.severity]}${a.reaction ? `, ${a.reaction}` : ''})`).join('; ')
+      : 'No known allergies');
+
+    w.heading('Incident');
+    w.field('Title', incident.title);
+    w.field('Type', INCIDENT_TYPE_LABELS[incident.incident_type]);
+    w.field('Severity', INCIDENT_SEVERITY_LABELS[incident.severity]);
+    w.field('Status', INCIDENT_STATUS_LABELS[incident.status]);
+    w.field('Occurred', formatTime(fall?.occurred_at || incident.created_at));
+    w.field('Reported', `${formatTime(incident.created_at)} by ${incident.reported_by_profile?.full_name || 'Unknown'}`);
+    w.field('Assigned to', incident.assigned_to_profile?.full_name);
+    if (parties.length > 0) {
+      w.field('Others involved', parties.map(p => {
+        const name = p.resident_id ? `${p.residents?.profiles?.full_name || 'Unknown'} (resident)` : `${p.profiles?.full_name || 'Unknown'} (staff)`;
+        return p.involvement ? `${name}: ${p.involvement}` : name;
+      }).join('; '));
+    }
+    w.gap();
+    w.text('Narrative', { bold: true });
+    w.text(incident.description);
+
+    if (fall) {
+      w.heading('Fall Details');
+      w.field('Location', `${FALL_LOCATION_LABELS[fall.location]}${fall.location_detail ? ` (${fall.location_detail})` : ''}`);
+      w.field('Activity', FALL_ACTIVITY_LABELS[fall.activity]);
+      w.field('Footwear', FOOTWEAR_LABELS[fall.footwear]);
+      w.field('Witnessed', fall.witnessed ? 'Yes' : 'No');
+      w.field('Head strike', fall.head_strike ? 'Yes (known or suspected)' : 'No');
+      w.field('Neuro checks', NEURO_CHECK_PROTOCOL_LABELS[fall.neuro_check_protocol]);
+      w.field('Injury sites', fall.injury_sites.length ? fall.injury_sites.map(site => BODY_REGION_LABELS[site] || site).join(', ') : 'None observed');
+    }
+
+    w.heading('Witness Statements');
+    if (statements.length === 0) w.text('No witness statements recorded.');
+    statements.forEach(s => {
+      w.text(`${s.witness_profile?.full_name || 'Unknown'} - ${formatTime(s.created_at)}`, { bold: true });
+      w.text(s.statement, { indent: 12 });
+      w.gap(4);
+    });
+
+    w.heading('Actions Taken');
+    w.field('Root cause', incident.root_cause);
+    w.field('Action plan', incident.action_plan);
+    if (actions.length > 0) {
+      w.gap(4);
+      w.text('Follow-up actions', { bold: true });
+      actions.forEach(action => {
+        const owner = action.owner_profile?.full_name || 'Unknown';
+        const state = action.completed_at ? `completed ${formatTime(action.completed_at)}` : `due ${format(new Date(`${action.due_date}T00:00:00`), 'PP')}`;
+        w.text(`- ${action.description} (${owner}, ${state})${action.completion_notes ? `: ${action.completion_notes}` : ''}`, { indent: 12 });
+      });
+    }
+    if (history.length > 0) {
+      w.gap(4);
+      w.text('Status history', { bold: true });
+      history.forEach(entry => {
+        const change = entry.from_status ? `${INCIDENT_STATUS_LABELS[entry.from_status]} -> ${INCIDENT_STATUS_LABELS[entry.to_status]}` : INCIDENT_STATUS_LABELS[entry.to_status];
+        w.text(`- ${formatTime(entry.created_at)}: ${change} by ${entry.changed_by_profile?.full_name || 'Unknown'}${entry.comment ? ` - ${entry.comment}` : ''}`, { indent: 12 });
+      });
+    }
+
+    w.heading('Notifications');
+    w.field('Family notified', incident.family_notified_at
+      ? `${formatTime(incident.family_notified_at)}${incident.family_notified_contact ? ` - ${incident.family_notified_contact}` : ''}`
+      : 'Not recorded');
+    w.field('Physician notified', incident.physician_notified_at
+      ? `${formatTime(incident.physician_notified_at)}${incident.physician_name ? ` - ${incident.physician_name}` : ''}`
+      : 'Not recorded');
+
+    w.heading('Signatures');
+    SIGNER_ROLES.forEach(role => {
+      const signature = signatures.find(s => s.signer_role === role);
+      w.signatureLine(SIGNER_ROLE_LABELS[role], signature ? signature.signed_by_profile?.full_name || 'Unknown' : null, signature?.signed_at || null);
+    });
+
+    if (attachments.length > 0) {
+      w.heading('Attachments');
+      attachments.forEach(a => {
+        w.text(`- ${a.name} (${IncidentAttachmentService.formatSize(a.size)}${a.created_at ? `, uploaded ${formatTime(a.created_at)}` : ''})`, { indent: 12 });
+      });
+      for (const a of attachments.filter(a => a.image)) {
+        w.gap();
+        try {
+          const image = a.content_type === 'image/png' ? await doc.embedPng(a.image!) : await doc.embedJpg(a.image!);
+          w.image(image, a.name);
+        } catch (err) {
+          console.error(`Could not embed attachment ${a.path}:`, err);
+          w.text(`${a.name}: image could not be embedded.`, { size: 8 });
+        }
+      }
+    }
+
+    w.finish(`Generated ${FacilityTimeService.format(data.generatedAt, 'PPp')} (times in ${FACILITY_TIMEZONE})`);
+    return doc.save();
+  }
+}
@@ -0,0 +1,165 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { IncidentDetails, IncidentDetailService } from '@/lib/services/IncidentDetailService';
+import { FallDetails } from '@/lib/services/FallIncidentService';
+import { IncidentAttachment, IncidentAttachmentService } from '@/lib/services/IncidentAttachmentService';
+import { MedicationSafetyService, ResidentAllergy } from '@/lib/services/MedicationSafetyService';
+import {
+  IncidentSeverity,
+  IncidentStatus,
+  IncidentStatusHistoryEntry,
+  IncidentType,
+  IncidentWorkflowService,
+} from '@/lib/services/IncidentWorkflowService';
+
+// --- Types ---
+export type SignerRole = 'REPORTER' | 'SUPERVISOR' | 'ADMINISTRATOR';
+
+export type IncidentSignature = {
+  id: string;
+  signed_at: string;
+  incident_id: string;
+  signer_role: SignerRole;
+  signed_by: string;
+  signed_by_profile?: { full_name: string | null } | null;
+};
+
+export type IncidentNotificationValues = {
+  family_notified_at: string | null;
+  family_notified_contact: string | null;
+  physician_notified_at: string | null;
+  physician_name: string | null;
+};
+
+export type ReportIncident = IncidentNotificationValues & {
+  id: string;
+  created_at: string;
+  title: string;
+  description: string;
+  incident_type: IncidentType;
+  severity: IncidentSeverity;
+  status: IncidentStatus;
+  root_cause: string | null;
+  action_plan: string | null;
+  closed_at: string | null;
+  reported_by_profile: { full_name: string | null } | null;
+  assigned_to_profile: { full_name: string | null } | null;
+  residents: {
+    id: string;
+    created_at: string;
+    room_number: string | null;
+    care_level: string | null;
+    emergency_contact: string | null;
+    medical_conditions: string[] | null;
+    allergies: unknown;
+    profiles: { full_name: string | null; email: string | null } | null;
+  } | null;
+  incident_fall_details: FallDetails | null;
+};
+
+// JPEG and PNG attachments carry their bytes so the report can embed them
+export type ReportAttachment = IncidentAttachment & {
+  image: Uint8Array | null;
+};
+
+export type IncidentReportData = IncidentDetails & {
+  incident: ReportIncident;
+  allergies: ResidentAllergy[];
+  history: IncidentStatusHistoryEntry[];
+  signatures: IncidentSignature[];
+  attachments: ReportAttachment[];
+  generatedAt: Date;
+};
+
+// --- Constants ---
+// In the order they appear on the report
+export const SIGNER_ROLES: SignerRole[] = ['REPORTER', 'SUPERVISOR', 'ADMINISTRATOR'];
+
+export const SIGNER_ROLE_LABELS: Record<SignerRole, string> = {
+  REPORTER: 'Person completing report',
+  SUPERVISOR: 'Supervisor / nurse in charge',
+  ADMINISTRATOR: 'Administrator',
+};
+
+const REPORT_INCIDENT_SELECT = `
+  *,
+  reported_by_profile:profiles!reported_by ( full_name ),
+  assigned_to_profile:profiles!assigned_to ( full_name ),
+  residents ( id, created_at, room_number, care_level, emergency_contact, medical_conditions, allergies, profiles ( full_name, email ) ),
+  incident_fall_details ( * )
+`;
+
+export class IncidentReportService {
+  static async fetchSignatures(client: SupabaseClient, incidentId: string): Promise<IncidentSignature[]> {
+    const { data, error } = await client
+      .from('incident_signatures')
+      .select('*, signed_by_profile:profiles!signed_by(full_name)')
+      .eq('incident_id', incidentId)
+      .order('signed_at');
+
+    if (error) throw new Error(`Signatures fetch failed: ${error.message}`);
+    return (data || []) as unknown as IncidentSignature[];
+  }
+
+  static async sign(client: SupabaseClient, incidentId: string, role: SignerRole, signedBy: string): Promise<void> {
+    const { error } = await client
+      .from('incident_signatures')
+      .insert({ incident_id: incidentId, signer_role: role, signed_by: signedBy });
+
+    if (error?.code === '23505') {
+      throw new Error(error.message.includes('one_role_per_signer')
+        ? 'You have already signed this report in another role'
+        : 'This role has already been signed');
+    }
+    if (error) throw new Error(error.message);
+  }
+
+  static async saveNotifications(client: SupabaseClient, incidentId: string, values: IncidentNotificationValues): Promise<void> {
+    const { error } = await client
+      .from('incidents')
+      .update({
+        family_notified_at: values.family_notified_at,
+        family_notified_contact: values.family_notified_contact?.trim() || null,
+        physician_notified_at: values.physician_notified_at,
+        physician_name: values.physician_name?.trim() || null,
+      })
+      .eq('id', incidentId);
+
+    if (error) throw new Error(error.message);
+  }
+
+  /**
+   * Everything on the regulatory report, or null if the incident does not exist or is not visible to `client`
+   */
+  static async fetchReportData(client: SupabaseClient, incidentId: string): Promise<IncidentReportData | null> {
+    const { data, error } = await client
+      .from('incidents')
+      .select(REPORT_INCIDENT_SELECT)
+      .eq('id', incidentId)
+      .maybeSingle();
+
+    if (error) throw new Error(`Incident fetch failed: ${error.message}`);
+    if (!data) return null;
+
+    const incident = data as unknown as ReportIncident;
+    const [details, history, signatures, files] = await Promise.all([
+      IncidentDetailService.fetchDetails(client, incidentId),
+      IncidentWorkflowService.fetchHistory(client, incidentId),
+      IncidentReportService.fetchSignatures(client, incidentId),
+      IncidentAttachmentService.list(client, incidentId),
+    ]);
+    const attachments = await Promise.all(files.map(async file => ({
+      ...file,
+      image: IncidentAttachmentService.isEmbeddableImage(file) ? await IncidentAttachmentService.download(client, file) : null,
+    })));
+
+    return {
+      ...details,
+      incident,
+      allergies: MedicationSafetyService.parseAllergies(incident.residents?.allergies),
+      history,
+      signatures,
+      attachments,
+      generatedAt: new Date(),
+    };
+  }
+}
@@ -0,0 +1,259 @@
+import { addHours, addMonths, format, startOfMonth } from 'date-fns';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { FacilityTimeService } from '@/lib/services/FacilityTimeService';
+import { INCIDENT_SEVERITY_LABELS, IncidentSeverity, IncidentStatus, OPEN_INCIDENT_STATUSES } from '@/lib/services/IncidentWorkflowService';
+
+// --- Types ---
+// ACKNOWLEDGE: the incident must move on from REPORTED. RESOLVE: it must be closed.
+export type SlaKind = 'ACKNOWLEDGE' | 'RESOLVE';
+
+// Who is notified about a missed SLA; supervisors first, then admins
+export type EscalationLevel = 'SUPERVISOR' | 'ADMIN';
+
+export type SlaIncident = {
+  id: string;
+  created_at: string;
+  title: string;
+  severity: IncidentSeverity;
+  status: IncidentStatus;
+  assigned_to: string | null;
+  acknowledged_at: string | null;
+  reopened_at: string | null; // Latest reopen; the resolve SLA restarts from it
+  closed_at: string | null;
+};
+
+export type SlaState = {
+  kind: SlaKind;
+  dueAt: Date;
+  completedAt: Date | null;
+  breached: boolean; // Completed late, or still open past due
+  remainingMs: number; // Until due from `now`; negative once overdue. Zero once completed.
+};
+
+export type EscalationIncident = SlaIncident & {
+  assigned_to_profile: { full_name: string | null; supervisor_id: string | null } | null;
+  residents: { profiles: { full_name: string | null } | null } | null;
+};
+
+export type IncidentSlaRunResult = {
+  evaluated: number;
+  escalated: number; // Escalations newly sent this run
+  notifications: number; // Notification rows inserted across all recipients
+};
+
+export type SlaMonthSummary = {
+  month: Date; // First day of the month incidents were reported in
+  incidents: number;
+  acknowledgeBreaches: number;
+  resolveBreaches: number;
+  escalations: number;
+};
+
+// --- Constants ---
+// Hours from being reported to acknowledgement and to closure (from the latest reopen, if any), by severity
+export const INCIDENT_SLA_HOURS: Record<IncidentSeverity, Record<SlaKind, number>> = {
+  CRITICAL: { ACKNOWLEDGE: 1, RESOLVE: 24 },
+  HIGH: { ACKNOWLEDGE: 4, RESOLVE: 72 },
+  MEDIUM: { ACKNOWLEDGE: 24, RESOLVE: 168 },
+  LOW: { ACKNOWLEDGE: 72, RESOLVE: 336 },
+};
+
+export const SLA_KIND_LABELS: Record<SlaKind, string> = {
+  ACKNOWLEDGE: 'Acknowledge',
+  RESOLVE: 'Resolve',
+};
+
+// A running SLA is flagged as nearly due once this fraction of its window is left
+export const SLA_WARNING_FRACTION = 0.25;
+
+// Admins are notified once an incident is this fraction of its SLA window past due (supervisors at the deadline)
+export const ADMIN_ESCALATION_FRACTION = 0.5;
+
+const NOTIFICATION_TYPES: Record<EscalationLevel, 'WARNING' | 'ALERT'> = {
+  SUPERVISOR: 'WARNING',
+  ADMIN: 'ALERT',
+};
+
+const SLA_INCIDENT_COLUMNS = 'id, created_at, title, severity, status, assigned_to, acknowledged_at, reopened_at, closed_at';
+
+export class IncidentSlaService {
+  /**
+   * Deadline and progress of one SLA for an incident at `now`
+   */
+  static getState(incident: SlaIncident, kind: SlaKind, now: Date = new Date()): SlaState {
+    const startedAt = kind === 'RESOLVE' && incident.reopened_at ? incident.reopened_at : incident.created_at;
+    const dueAt = addHours(new Date(startedAt), INCIDENT_SLA_HOURS[incident.severity][kind]);
+    const completed = kind === 'ACKNOWLEDGE' ? incident.acknowledged_at : incident.status === 'CLOSED' ? incident.closed_at : null;
+    const completedAt = completed ? new Date(completed) : null;
+    return {
+      kind,
+      dueAt,
+      completedAt,
+      breached: completedAt ? completedAt > dueAt : now > dueAt,
+      remainingMs: completedAt ? 0 : dueAt.getTime() - now.getTime(),
+    };
+  }
+
+  /**
+   * The SLA an open incident is currently working towards, or null once it is closed
+   */
+  static getActive(incident: SlaIncident, now: Date = new Date()): SlaState | null {
+    if (incident.status === 'CLOSED') return null;
+    return IncidentSlaService.getState(incident, incident.acknowledged_at ? 'RESOLVE' : 'ACKNOWLEDGE', now);
+  }
+
+  /**
+   * Who should have been told about a running SLA by `now`, or null if it is not overdue yet.
+   * Without a supervisor to notify, a missed SLA goes straight to admins.
+   */
+  static getEscalationLevel(incident: SlaIncident, state: SlaState, hasSupervisor: boolean, now: Date = new Date()): EscalationLevel | null {
+    if (state.completedAt || now <= state.dueAt) return null;
+    const windowMs = INCIDENT_SLA_HOURS[incident.severity][state.kind] * 3_600_000;
+    if (!hasSupervisor || now.getTime() - state.dueAt.getTime() > windowMs * ADMIN_ESCALATION_FRACTION) return 'ADMIN';
+    return 'SUPERVISOR';
+  }
+
+  /**
+   * Short countdown text, e.g. "2h 15m" or "3d 4h"
+   */
+  static formatDuration(ms: number): string {
+    const minutes = Math.max(Math.floor(Math.abs(ms) / 60_000), 1);
+    const days = Math.floor(minutes / 1440);
+    const hours = Math.floor((minutes % 1440) / 60);
+    if (days > 0) return `${days}d ${hours}h`;
+    if (hours > 0) return `${hours}h ${minutes % 60}m`;
+    return `${minutes}m`;
+  }
+
+  /**
+   * Escalate every open incident that has missed its SLA.
+   * Needs a service-role client: it reads all incidents and writes other users' notifications.
+   */
+  static async run(client: SupabaseClient, now: Date = new Date()): Promise<IncidentSlaRunResult> {
+    const { data, error } = await client
+      .from('incidents')
+      .select(`${SLA_INCIDENT_COLUMNS}, assigned_to_profile:profiles!assigned_to(full_name, supervisor_id), residents(profiles(full_name))`)
+      .in('status', OPEN_INCIDENT_STATUSES);
+
+    if (error) throw new Error(`Incidents fetch failed: ${error.message}`);
+    const incidents = (data || []) as unknown as EscalationIncident[];
+
+    const due = incidents.flatMap(incident => {
+      const state = IncidentSlaService.getActive(incident, now);
+      const supervisorId = incident.assigned_to_profile?.supervisor_id || null;
+      const level = state ? IncidentSlaService.getEscalationLevel(incident, state, !!supervisorId, now) : null;
+      return state && level ? [{ incident, state, level, supervisorId }] : [];
+    });
+
+    if (due.length === 0) {
+      return { evaluated: incidents.length, escalated: 0, notifications: 0 };
+    }
+
+    // Skip anything already escalated at the same level for the same deadline
+    const { data: sent, error: sentError } = await client
+      .from('incident_sla_escalations')
+      .select('incident_id, sla, level, due_at')
+      .in('incident_id', due.map(item => item.incident.id));
+    if (sentError) throw new Error(`Escalation fetch failed: ${sentError.message}`);
+
+    const sentKeys = new Set((sent || []).map(row => `${row.incident_id}|${row.sla}|${row.level}|${new Date(row.due_at).getTime()}`));
+    const pending = due.filter(item => !sentKeys.has(`${item.incident.id}|${item.state.kind}|${item.level}|${item.state.dueAt.getTime()}`));
+
+    if (pending.length === 0) {
+      return { evaluated: incidents.length, escalated: 0, notifications: 0 };
+    }
+
+    const { data: admins, error: adminsError } = await client.from('profiles').select('id').eq('role', 'ADMIN');
+    if (adminsError) throw new Error(`Admin fetch failed: ${adminsError.message}`);
+    const adminIds = (admins || []).map(row => row.id);
+
+    const escalations = pending.map(item => ({
+      ...item,
+      recipients: item.level === 'SUPERVISOR' && item.supervisorId ? [item.supervisorId] : adminIds,
+    }));
+
+    // Record the escalations first so a failed notification insert is not retried into duplicates
+    const { error: escalationsError } = await client
+      .from('incident_sla_escalations')
+      .upsert(
+        escalations.map(item => ({
+          incident_id: item.incident.id,
+          sla: item.state.kind,
+          level: item.level,
+          due_at: item.state.dueAt.toISOString(),
+          notified_profile_ids: item.recipients,
+        })),
+        { onConflict: 'incident_id,sla,level,due_at', ignoreDuplicates: true }
+      );
+    if (escalationsError) throw new Error(`Escalation insert failed: ${escalationsError.message}`);
+
+    const notifications = escalations.flatMap(item => item.recipients.map(userId => ({
+      user_id: userId,
+      title: item.state.kind === 'ACKNOWLEDGE' ? 'Incident Not Acknowledged' : 'Incident Not Resolved',
+      content: IncidentSlaService.describe(item.incident, item.state, now),
+      type: NOTIFICATION_TYPES[item.level],
+    })));
+
+    if (notifications.length > 0) {
+      const { error: notifyError } = await client.from('notifications').insert(notifications);
+      if (notifyError) throw new Error(`Notification insert failed: ${notifyError.message}`);
+    }
+
+    return { evaluated: incidents.length, escalated: escalations.length, notifications: notifications.length };
+  }
+
+  /**
+   * Notification text for a missed SLA
+   */
+  static describe(incident: EscalationIncident, state: SlaState, now: Date = new Date()): string {
+    const resident = incident.residents?.profiles?.full_name || 'Unknown resident';
+    const assignee = incident.assigned_to_profile?.full_name || 'unassigned';
+    const action = state.kind === 'ACKNOWLEDGE' ? 'acknowledged' : 'resolved';
+    return `${INCIDENT_SEVERITY_LABELS[incident.severity]} incident "${incident.title}" for ${resident} (${assignee}) was due to be ${action} by ${FacilityTimeService.format(state.dueAt, 'Pp')} and is ${IncidentSlaService.formatDuration(now.getTime() - state.dueAt.getTime())} overdue.`;
+  }
+
+  /**
+   * SLA breaches for incidents reported in each of the last `months` months (including this one), oldest first
+   */
+  static async fetchMonthlyBreaches(client: SupabaseClient, months: number, now: Date = new Date()): Promise<SlaMonthSummary[]> {
+    const from = startOfMonth(addMonths(now, -(months - 1)));
+
+    const [incidentsRes, escalationsRes] = await Promise.all([
+      client
+        .from('incidents')
+        .select(SLA_INCIDENT_COLUMNS)
+        .gte('created_at', from.toISOString()),
+      client
+        .from('incident_sla_escalations')
+        .select('incident_id, incidents!inner(created_at)')
+        .gte('incidents.created_at', from.toISOString()),
+    ]);
+
+    if (incidentsRes.error) throw new Error(`Incidents fetch failed: ${incidentsRes.error.message}`);
+    if (escalationsRes.error) throw new Error(`Escalation fetch failed: ${escalationsRes.error.message}`);
+
+    const summaries = Array.from({ length: months }, (_, index) => ({
+      month: addMonths(from, index),
+      incidents: 0,
+      acknowledgeBreaches: 0,
+      resolveBreaches: 0,
+      escalations: 0,
+    }));
+    const summaryFor = (createdAt: string) => summaries.find(summary => format(summary.month, 'yyyy-MM') === format(new Date(createdAt), 'yyyy-MM'));
+
+    ((incidentsRes.data || []) as SlaIncident[]).forEach(incident => {
+      const summary = summaryFor(incident.created_at);
+      if (!summary) return;
+      summary.incidents++;
+      if (IncidentSlaService.getState(incident, 'ACKNOWLEDGE', now).breached) summary.acknowledgeBreaches++;
+      if (IncidentSlaService.getState(incident, 'RESOLVE', now).breached) summary.resolveBreaches++;
+    });
+
+    ((escalationsRes.data || []) as unknown as { incidents: { created_at: string } }[]).forEach(row => {
+      const summary = summaryFor(row.incidents.created_at);
+      if (summary) summary.escalations++;
+    });
+
+    return summaries;
+  }
+}
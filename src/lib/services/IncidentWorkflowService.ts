@@ -0,0 +1,176 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+// --- Types ---
+export type IncidentStatus = 'REPORTED' | 'UNDER_REVIEW' | 'INVESTIGATING' | 'ACTION_PLAN' | 'CLOSED' | 'REOPENED';
+
+export type IncidentSeverity = 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL';
+
+export type IncidentType = 'FALL' | 'MEDICATION_ERROR' | 'BEHAVIORAL' | 'SKIN_INJURY' | 'ELOPEMENT' | 'OTHER';
+
+// Fields a transition can require; they are saved onto the incident with the transition
+export type TransitionField = 'assigned_to' | 'root_cause' | 'action_plan' | 'comment';
+
+export type TransitionValues = Partial<Record<TransitionField, string | null>>;
+
+export type IncidentWorkflowState = {
+  status: IncidentStatus;
+  assigned_to: string | null;
+  root_cause: string | null;
+  action_plan: string | null;
+};
+
+export type IncidentStatusHistoryEntry = {
+  id: string;
+  created_at: string;
+  incident_id: string;
+  from_status: IncidentStatus | null; // Null for the entry recorded when the incident was reported
+  to_status: IncidentStatus;
+  changed_by: string | null;
+  comment: string | null;
+  assigned_to: string | null;
+  root_cause: string | null;
+  action_plan: string | null;
+  changed_by_profile?: { full_name: string | null } | null; // Present when selected with the entry
+};
+
+// --- Constants ---
+export const INCIDENT_STATUS_LABELS: Record<IncidentStatus, string> = {
+  REPORTED: 'Reported',
+  UNDER_REVIEW: 'Under review',
+  INVESTIGATING: 'Investigating',
+  ACTION_PLAN: 'Action plan',
+  CLOSED: 'Closed',
+  REOPENED: 'Reopened',
+};
+
+export const INCIDENT_STATUS_COLORS: Record<IncidentStatus, 'default' | 'primary' | 'info' | 'warning' | 'success' | 'error'> = {
+  REPORTED: 'primary',
+  UNDER_REVIEW: 'info',
+  INVESTIGATING: 'warning',
+  ACTION_PLAN: 'warning',
+  CLOSED: 'success',
+  REOPENED: 'error',
+};
+
+// Least to most severe; matches the incidents.severity CHECK constraint
+export const INCIDENT_SEVERITIES: IncidentSeverity[] = ['LOW', 'MEDIUM', 'HIGH', 'CRITICAL'];
+
+export const INCIDENT_SEVERITY_LABELS: Record<IncidentSeverity, string> = {
+  LOW: 'Low',
+  MEDIUM: 'Medium',
+  HIGH: 'High',
+  CRITICAL: 'Critical',
+};
+
+export const INCIDENT_SEVERITY_COLORS: Record<IncidentSeverity, 'default' | 'warning' | 'error'> = {
+  LOW: 'default',
+  MEDIUM: 'warning',
+  HIGH: 'error',
+  CRITICAL: 'error',
+};
+
+// Matches the incidents.incident_type CHECK constraint; FALL incidents also have an incident_fall_details row
+export const INCIDENT_TYPES: IncidentType[] = ['FALL', 'MEDICATION_ERROR', 'BEHAVIORAL', 'SKIN_INJURY', 'ELOPEMENT', 'OTHER'];
+
+export const INCIDENT_TYPE_LABELS: Record<IncidentType, string> = {
+  FALL: 'Fall',
+  MEDICATION_ERROR: 'Medication error',
+  BEHAVIORAL: 'Behavioral',
+  SKIN_INJURY: 'Skin injury',
+  ELOPEMENT: 'Elopement',
+  OTHER: 'Other',
+};
+
+// Allowed moves from each status; mirrors apply_incident_transition in the database
+export const INCIDENT_TRANSITIONS: Record<IncidentStatus, IncidentStatus[]> = {
+  REPORTED: ['UNDER_REVIEW'],
+  UNDER_REVIEW: ['INVESTIGATING', 'CLOSED'],
+  INVESTIGATING: ['ACTION_PLAN'],
+  ACTION_PLAN: ['INVESTIGATING', 'CLOSED'],
+  CLOSED: ['REOPENED'],
+  REOPENED: ['UNDER_REVIEW', 'INVESTIGATING'],
+};
+
+// Fields that must be filled (on the incident or with the transition) to enter each status
+export const TRANSITION_REQUIREMENTS: Record<IncidentStatus, TransitionField[]> = {
+  REPORTED: [],
+  UNDER_REVIEW: ['assigned_to'],
+  INVESTIGATING: [],
+  ACTION_PLAN: ['root_cause'],
+  CLOSED: ['root_cause', 'action_plan'],
+  REOPENED: ['comment'],
+};
+
+export const TRANSITION_FIELD_LABELS: Record<TransitionField, string> = {
+  assigned_to: 'Reviewer',
+  root_cause: 'Root cause',
+  action_plan: 'Action plan',
+  comment: 'Reason',
+};
+
+// Statuses counted as still open, e.g. for dashboard totals
+export const OPEN_INCIDENT_STATUSES: IncidentStatus[] = ['REPORTED', 'UNDER_REVIEW', 'INVESTIGATING', 'ACTION_PLAN', 'REOPENED'];
+
+const filled = (value: string | null | undefined) => !!value && value.trim().length > 0;
+
+export class IncidentWorkflowService {
+  /**
+   * Statuses an incident can move to next
+   */
+  static getAllowedTransitions(status: IncidentStatus): IncidentStatus[] {
+    return INCIDENT_TRANSITIONS[status] || [];
+  }
+
+  /**
+   * Missing required fields for moving `incident` to `to`, keyed by field, or an empty object if it can move.
+   * Values supplied with the transition take precedence over what is already on the incident.
+   */
+  static validate(incident: IncidentWorkflowState, to: IncidentStatus, values: TransitionValues): Partial<Record<TransitionField, string>> {
+    const errors: Partial<Record<TransitionField, string>> = {};
+    if (!IncidentWorkflowService.getAllowedTransitions(incident.status).includes(to)) {
+      errors.comment = `Cannot move from ${INCIDENT_STATUS_LABELS[incident.status]} to ${INCIDENT_STATUS_LABELS[to]}`;
+      return errors;
+    }
+
+    TRANSITION_REQUIREMENTS[to].forEach(field => {
+      const current = field === 'comment' ? null : incident[field];
+      if (!filled(values[field]) && !filled(current)) {
+        errors[field] = `${TRANSITION_FIELD_LABELS[field]} is required to move to ${INCIDENT_STATUS_LABELS[to]}`;
+      }
+    });
+    return errors;
+  }
+
+  /**
+   * Move an incident to a new status. The database validates the transition again and updates the incident.
+   */
+  static async transition(client: SupabaseClient, incidentId: string, to: IncidentStatus, changedBy: string, values: TransitionValues): Promise<void> {
+    const { error } = await client
+      .from('incident_status_history')
+      .insert({
+        incident_id: incidentId,
+        to_status: to,
+        changed_by: changedBy,
+        comment: values.comment?.trim() || null,
+        assigned_to: values.assigned_to || null,
+        root_cause: values.root_cause?.trim() || null,
+        action_plan: values.action_plan?.trim() || null,
+      });
+
+    if (error) throw new Error(error.message);
+  }
+
+  /**
+   * Status history of an incident, oldest first
+   */
+  static async fetchHistory(client: SupabaseClient, incidentId: string): Promise<IncidentStatusHistoryEntry[]> {
+    const { data, error } = await client
+      .from('incident_status_history')
+      .select('*, changed_by_profile:profiles!changed_by(full_name)')
+      .eq('incident_id', incidentId)
+      .order('created_at', { ascending: true });
+
+    if (error) throw new Error(`Incident history fetch failed: ${error.message}`);
+    return (data || []) as unknown as IncidentStatusHistoryEntry[];
+  }
+}
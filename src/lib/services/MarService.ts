@@ -0,0 +1,241 @@
+import { addDays, addMinutes, startOfDay } from 'date-fns';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { FacilityTimeService } from '@/lib/services/FacilityTimeService';
+import {
+  DOSE_GRACE_MINUTES,
+  DueDose,
+  MedicationSchedule,
+  MedicationScheduleService,
+  SchedulableMedication,
+} from '@/lib/services/MedicationScheduleService';
+
+// --- Types ---
+export type ShiftName = 'MORNING' | 'AFTERNOON' | 'NIGHT'; // Matches staff.shift
+
+export type MedicationLogStatus = 'GIVEN' | 'MISSED' | 'REFUSED';
+
+export type MedicationLogEntry = {
+  id: string;
+  created_at: string;
+  medication_id: string;
+  resident_id: string;
+  administered_at: string;
+  administered_by: string;
+  status: MedicationLogStatus;
+  notes: string | null;
+  scheduled_for: string | null;
+  // PRN doses only
+  prn_indication: string | null;
+  pain_score: number | null;
+  prn_override_reason: string | null;
+  effectiveness_due_at: string | null;
+  medication_prn_followups?: PrnFollowUp[]; // Present when selected with the log
+  medication_log_corrections?: MedicationLogCorrection[]; // Present when selected with the log
+};
+
+// Append-only amendment of a log entry; the latest one for an entry wins
+export type MedicationLogCorrection = {
+  id: string;
+  created_at: string;
+  log_id: string;
+  corrected_by: string;
+  action: 'CORRECT' | 'VOID';
+  reason: string;
+  status: MedicationLogStatus | null; // CORRECT only
+  administered_at: string | null;
+  notes: string | null;
+};
+
+export type PrnOutcome = 'EFFECTIVE' | 'PARTIALLY_EFFECTIVE' | 'NOT_EFFECTIVE';
+
+export type PrnFollowUp = {
+  id: string;
+  created_at: string;
+  log_id: string;
+  checked_by: string | null;
+  outcome: PrnOutcome;
+  pain_score: number | null;
+  notes: string | null;
+};
+
+export type MarMedication = SchedulableMedication & {
+  resident_id: string;
+  name: string;
+  frequency: string;
+  notes: string | null;
+  schedule: MedicationSchedule | null;
+};
+
+// Logged statuses plus the derived states of a slot nobody has logged yet
+export type MarSlotStatus = MedicationLogStatus | 'OVERDUE' | 'DUE' | 'UPCOMING';
+
+export type MarSlot = DueDose & {
+  status: MarSlotStatus;
+  log: MedicationLogEntry | null; // Effective (corrected) entry, ignoring voided ones
+  entries: MedicationLogEntry[]; // Every entry recorded against the slot as originally logged, oldest first
+};
+
+export type TimeRange = { from: Date; to: Date };
+
+// --- Constants ---
+// Local clock hours; NIGHT wraps past midnight into the next day
+export const SHIFT_HOURS: Record<ShiftName, { start: number; end: number; label: string }> = {
+  MORNING: { start: 7, end: 15, label: 'Morning (07:00 - 15:00)' },
+  AFTERNOON: { start: 15, end: 23, label: 'Afternoon (15:00 - 23:00)' },
+  NIGHT: { start: 23, end: 7, label: 'Night (23:00 - 07:00)' },
+};
+
+// Selects a log entry with everything needed to show its effective state
+export const MEDICATION_LOG_SELECT = '*, medication_prn_followups(*), medication_log_corrections(*)';
+
+// Single-letter codes used on the printed MAR
+export const MAR_STATUS_CODES: Record<MarSlotStatus, string> = {
+  GIVEN: 'G',
+  MISSED: 'M',
+  REFUSED: 'R',
+  OVERDUE: 'O',
+  DUE: '',
+  UPCOMING: '',
+};
+
+export class MarService {
+  /**
+   * Load a resident's medications active during the range plus every log entry that falls in it.
+   * Takes the client so it works with both the browser client and the service-role client.
+   */
+  static async fetchResidentMar(client: SupabaseClient, residentId: string, { from, to }: TimeRange): Promise<{ medications: MarMedication[]; logs: MedicationLogEntry[] }> {
+    const fromIso = from.toISOString();
+    const toIso = to.toISOString();
+
+    const [medicationsRes, logsRes] = await Promise.all([
+      client
+        .from('medications')
+        .select('*')
+        .eq('resident_id', residentId)
+        .lt('start_date', toIso)
+        .or(`end_date.is.null,end_date.gte.${fromIso}`)
+        .order('name', { ascending: true }),
+      client
+        .from('medication_log')
+        .select(MEDICATION_LOG_SELECT)
+        .eq('resident_id', residentId)
+        // Scheduled slots in range, or unscheduled doses administered in range
+        .or(`and(scheduled_for.gte.${fromIso},scheduled_for.lt.${toIso}),and(administered_at.gte.${fromIso},administered_at.lt.${toIso})`)
+        .order('administered_at', { ascending: true }),
+    ]);
+
+    if (medicationsRes.error) throw new Error(`Medications fetch failed: ${medicationsRes.error.message}`);
+    if (logsRes.error) throw new Error(`Medication log fetch failed: ${logsRes.error.message}`);
+
+    const medications = (medicationsRes.data || []).map((med: MarMedication) => ({
+      ...med,
+      schedule: MedicationScheduleService.parse(med.schedule),
+    }));
+    return { medications, logs: logsRes.data || [] };
+  }
+
+  /**
+   * Start and end of a shift that begins on `day`, whose local fields give the facility calendar day
+   */
+  static getShiftRange(day: Date, shift: ShiftName): TimeRange {
+    const { start, end } = SHIFT_HOURS[shift];
+    const from = new Date(startOfDay(day));
+    from.setHours(start);
+    const to = new Date(startOfDay(end > start ? day : addDays(day, 1)));
+    to.setHours(end);
+    return { from: FacilityTimeService.fromFacilityTime(from), to: FacilityTimeService.fromFacilityTime(to) };
+  }
+
+  /**
+   * The shift running at `now` by the facility's clock; early-morning hours belong to the previous day's night shift
+   */
+  static getCurrentShift(now: Date = new Date()): TimeRange & { shift: ShiftName } {
+    const wallClock = FacilityTimeService.toFacilityTime(now);
+    const hour = wallClock.getHours();
+    if (hour >= SHIFT_HOURS.MORNING.start && hour < SHIFT_HOURS.MORNING.end) {
+      return { shift: 'MORNING', ...MarService.getShiftRange(wallClock, 'MORNING') };
+    }
+    if (hour >= SHIFT_HOURS.AFTERNOON.start && hour < SHIFT_HOURS.AFTERNOON.end) {
+      return { shift: 'AFTERNOON', ...MarService.getShiftRange(wallClock, 'AFTERNOON') };
+    }
+    const nightStartDay = hour < SHIFT_HOURS.NIGHT.end ? addDays(wallClock, -1) : wallClock;
+    return { shift: 'NIGHT', ...MarService.getShiftRange(nightStartDay, 'NIGHT') };
+  }
+
+  /**
+   * Status of a scheduled slot given its log entry (if any)
+   */
+  static getSlotStatus(scheduledAt: Date, log: MedicationLogEntry | null, now: Date = new Date()): MarSlotStatus {
+    if (log) return log.status;
+    if (now > addMinutes(scheduledAt, DOSE_GRACE_MINUTES)) return 'OVERDUE';
+    if (now >= addMinutes(scheduledAt, -DOSE_GRACE_MINUTES)) return 'DUE';
+    return 'UPCOMING';
+  }
+
+  /**
+   * Latest correction of a log entry, or null if it has never been corrected
+   */
+  static getLatestCorrection(log: MedicationLogEntry): MedicationLogCorrection | null {
+    const corrections = [...(log.medication_log_corrections || [])].sort((a, b) => b.created_at.localeCompare(a.created_at) || b.id.localeCompare(a.id));
+    return corrections[0] || null;
+  }
+
+  /**
+   * A log entry as it currently stands after corrections, or null if it has been voided
+   */
+  static getEffectiveLog(log: MedicationLogEntry): MedicationLogEntry | null {
+    const correction = MarService.getLatestCorrection(log);
+    if (!correction) return log;
+    if (correction.action === 'VOID') return null;
+    return {
+      ...log,
+      status: correction.status || log.status,
+      administered_at: correction.administered_at || log.administered_at,
+      notes: correction.notes ?? log.notes,
+    };
+  }
+
+  /**
+   * Every entry logged against a scheduled slot, oldest first
+   */
+  static findSlotEntries(medicationId: string, scheduledAt: Date, logs: MedicationLogEntry[]): MedicationLogEntry[] {
+    return logs
+      .filter(log => log.medication_id === medicationId && log.scheduled_for && new Date(log.scheduled_for).getTime() === scheduledAt.getTime())
+      .sort((a, b) => a.created_at.localeCompare(b.created_at));
+  }
+
+  /**
+   * Effective log entry for a scheduled slot; the most recent non-voided one wins if there are several
+   */
+  static findSlotLog(medicationId: string, scheduledAt: Date, logs: MedicationLogEntry[]): MedicationLogEntry | null {
+    const effective = MarService.findSlotEntries(medicationId, scheduledAt, logs)
+      .map(log => MarService.getEffectiveLog(log))
+      .filter((log): log is MedicationLogEntry => !!log);
+    return effective[effective.length - 1] || null;
+  }
+
+  /**
+   * All scheduled slots for a medication in [from, to) with their MAR status
+   */
+  static buildSlots(medication: SchedulableMedication, logs: MedicationLogEntry[], { from, to }: TimeRange, now: Date = new Date()): MarSlot[] {
+    return MedicationScheduleService.getDueDoses(medication, from, to).map(dose => {
+      const entries = MarService.findSlotEntries(medication.id, dose.scheduledAt, logs);
+      const log = MarService.findSlotLog(medication.id, dose.scheduledAt, entries);
+      return { ...dose, log, entries, status: MarService.getSlotStatus(dose.scheduledAt, log, now) };
+    });
+  }
+
+  /**
+   * Entries not tied to a scheduled slot (PRN doses, legacy free-text medications) in [from, to).
+   * Voided entries are included so the MAR can show them struck through.
+   */
+  static getUnscheduledLogs(medicationId: string, logs: MedicationLogEntry[], { from, to }: TimeRange): MedicationLogEntry[] {
+    return logs
+      .filter(log => log.medication_id === medicationId && !log.scheduled_for)
+      .filter(log => {
+        const at = new Date(log.administered_at);
+        return at >= from && at < to;
+      })
+      .sort((a, b) => a.administered_at.localeCompare(b.administered_at));
+  }
+}
@@ -0,0 +1,119 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { MarMedication, MarService, MarSlotStatus, MEDICATION_LOG_SELECT, MedicationLogEntry, TimeRange } from '@/lib/services/MarService';
+import { DueDose, MedicationScheduleService } from '@/lib/services/MedicationScheduleService';
+import { MedicationSafetyService, ResidentAllergy } from '@/lib/services/MedicationSafetyService';
+
+// --- Types ---
+export type MedPassMedication = MarMedication & {
+  is_controlled: boolean;
+  residents: {
+    room_number: string | null;
+    allergies: unknown; // JSONB, parsed into MedPassDose.allergies
+    profiles: { full_name: string | null } | null;
+  } | null;
+};
+
+export type MedPassDose = DueDose & {
+  key: string; // medication id + slot time, unique within a pass
+  medication: MedPassMedication;
+  residentName: string;
+  roomNumber: string | null;
+  allergies: ResidentAllergy[];
+  status: MarSlotStatus; // Logged status, or OVERDUE / DUE / UPCOMING while pending
+};
+
+// The five rights confirmed before a dose is given
+export type MedicationRight = 'RESIDENT' | 'MEDICATION' | 'DOSE' | 'ROUTE' | 'TIME';
+
+// --- Constants ---
+export const MEDICATION_RIGHTS: { right: MedicationRight; label: string }[] = [
+  { right: 'RESIDENT', label: 'Right resident' },
+  { right: 'MEDICATION', label: 'Right medication' },
+  { right: 'DOSE', label: 'Right dose' },
+  { right: 'ROUTE', label: 'Right route' },
+  { right: 'TIME', label: 'Right time' },
+];
+
+// Room numbers sort naturally ("2" before "10"); residents without a room go last
+const compareRooms = (a: string | null, b: string | null) => {
+  if (a === b) return 0;
+  if (a === null) return 1;
+  if (b === null) return -1;
+  return a.localeCompare(b, undefined, { numeric: true });
+};
+
+export class MedPassService {
+  /**
+   * Every scheduled dose in the range for all residents, ordered by room then time.
+   * PRN medications are left out; they are given on request, not on a round.
+   */
+  static async fetchDoses(client: SupabaseClient, { from, to }: TimeRange, now: Date = new Date()): Promise<MedPassDose[]> {
+    const fromIso = from.toISOString();
+    const toIso = to.toISOString();
+
+    const [medicationsRes, logsRes] = await Promise.all([
+      client
+        .from('medications')
+        .select('*, residents!inner(room_number, allergies, status, profiles(full_name))')
+        .eq('residents.status', 'ADMITTED') // Residents on hospital leave or discharged are not on the round
+        .not('schedule', 'is', null)
+        .lt('start_date', toIso)
+        .or(`end_date.is.null,end_date.gte.${fromIso}`),
+      client
+        .from('medication_log')
+        .select(MEDICATION_LOG_SELECT)
+        .gte('scheduled_for', fromIso)
+        .lt('scheduled_for', toIso),
+    ]);
+
+    if (medicationsRes.error) throw new Error(`Medications fetch failed: ${medicationsRes.error.message}`);
+    if (logsRes.error) throw new Error(`Medication log fetch failed: ${logsRes.error.message}`);
+
+    const logs: MedicationLogEntry[] = logsRes.data || [];
+    const doses = ((medicationsRes.data || []) as MedPassMedication[])
+      .map(med => ({ ...med, schedule: MedicationScheduleService.parse(med.schedule) }))
+      .filter(med => !MedicationScheduleService.isPrn(med))
+      .flatMap(medication => {
+        const allergies = MedicationSafetyService.parseAllergies(medication.residents?.allergies);
+        return MarService.buildSlots(medication, logs, { from, to }, now).map(slot => ({
+          medicationId: slot.medicationId,
+          scheduledAt: slot.scheduledAt,
+          dosage: slot.dosage,
+          key: `${medication.id}|${slot.scheduledAt.getTime()}`,
+          medication,
+          residentName: medication.residents?.profiles?.full_name || 'Unknown resident',
+          roomNumber: medication.residents?.room_number || null,
+          allergies,
+          status: slot.status,
+        }));
+      });
+
+    return doses.sort((a, b) =>
+      compareRooms(a.roomNumber, b.roomNumber) ||
+      a.residentName.localeCompare(b.residentName) ||
+      a.scheduledAt.getTime() - b.scheduledAt.getTime() ||
+      a.medication.name.localeCompare(b.medication.name)
+    );
+  }
+
+  /**
+   * Whether a dose still needs to be documented
+   */
+  static isPending(dose: MedPassDose): boolean {
+    return dose.status === 'OVERDUE' || dose.status === 'DUE' || dose.status === 'UPCOMING';
+  }
+
+  /**
+   * Effective entry already logged against a dose's slot, e.g. by another nurse since the pass was loaded
+   */
+  static async fetchSlotLog(client: SupabaseClient, dose: DueDose): Promise<MedicationLogEntry | null> {
+    const { data, error } = await client
+      .from('medication_log')
+      .select(MEDICATION_LOG_SELECT)
+      .eq('medication_id', dose.medicationId)
+      .eq('scheduled_for', dose.scheduledAt.toISOString());
+
+    if (error) throw new Error(`Medication log fetch failed: ${error.message}`);
+    return MarService.findSlotLog(dose.medicationId, dose.scheduledAt, data || []);
+  }
+}
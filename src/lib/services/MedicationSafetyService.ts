@@ -0,0 +1,150 @@
+import { z } from 'zod';
+import {
+  CROSS_REACTIVITY_RULES,
+  DRUG_CLASSES,
+  INTERACTION_RULES,
+  InteractionSeverity,
+} from '@/lib/data/medicationSafetyRules';
+
+// --- Schema ---
+export const residentAllergySchema = z.object({
+  allergen: z.string().min(1, 'Allergen is required'),
+  reaction: z.string().optional(),
+  severity: z.enum(['MILD', 'MODERATE', 'SEVERE']),
+});
+
+// --- Types ---
+export type ResidentAllergy = z.infer<typeof residentAllergySchema>;
+export type AllergySeverity = ResidentAllergy['severity'];
+
+// BLOCKING alerts need an override reason before the medication can be saved
+export type SafetyAlertLevel = 'BLOCKING' | 'WARNING';
+
+export type SafetyAlert = {
+  level: SafetyAlertLevel;
+  kind: 'ALLERGY' | 'CROSS_REACTIVITY' | 'INTERACTION';
+  message: string;
+};
+
+export type SafetyCheckInput = {
+  medicationName: string;
+  allergies: ResidentAllergy[];
+  activeMedicationNames: string[]; // The resident's other current medications
+};
+
+export const ALLERGY_SEVERITY_LABELS: Record<AllergySeverity, string> = {
+  MILD: 'Mild',
+  MODERATE: 'Moderate',
+  SEVERE: 'Severe',
+};
+
+const INTERACTION_LEVELS: Record<InteractionSeverity, SafetyAlertLevel> = {
+  CONTRAINDICATED: 'BLOCKING',
+  MAJOR: 'WARNING',
+};
+
+// --- Helpers ---
+const normalize = (text: string) => text.toLowerCase().replace(/[^a-z0-9\s-]/g, ' ').replace(/\s+/g, ' ').trim();
+
+// Whole-word match so e.g. "aspirin" does not match inside another word
+const containsTerm = (text: string, term: string) => ` ${text} `.includes(` ${term} `);
+
+const classLabel = (id: string) => DRUG_CLASSES.find(cls => cls.id === id)?.label || id;
+
+export class MedicationSafetyService {
+  /**
+   * Parse a raw `residents.allergies` value, dropping anything malformed
+   */
+  static parseAllergies(raw: unknown): ResidentAllergy[] {
+    if (!Array.isArray(raw)) return [];
+    return raw.flatMap(item => {
+      const result = residentAllergySchema.safeParse(item);
+      return result.success ? [result.data] : [];
+    });
+  }
+
+  /**
+   * Drug names and class ids a free-text medication or allergen name refers to
+   */
+  static resolveTerms(name: string): Set<string> {
+    const text = normalize(name);
+    const terms = new Set<string>();
+    if (!text) return terms;
+
+    DRUG_CLASSES.forEach(cls => {
+      cls.members.forEach(member => {
+        if (containsTerm(text, member)) {
+          terms.add(member);
+          terms.add(cls.id);
+        }
+      });
+      if ([cls.label, ...(cls.aliases || [])].some(alias => containsTerm(text, normalize(alias)))) {
+        terms.add(cls.id);
+      }
+    });
+
+    // Drugs named in interaction rules without a class (e.g. digoxin)
+    INTERACTION_RULES.forEach(rule => {
+      [rule.a, rule.b].forEach(term => {
+        if (!DRUG_CLASSES.some(cls => cls.id === term) && containsTerm(text, term)) terms.add(term);
+      });
+    });
+    return terms;
+  }
+
+  /**
+   * All allergy and interaction alerts for prescribing `medicationName`, blocking ones first
+   */
+  static check({ medicationName, allergies, activeMedicationNames }: SafetyCheckInput): SafetyAlert[] {
+    const drugText = normalize(medicationName);
+    if (drugText.length < 3) return [];
+
+    const drugTerms = MedicationSafetyService.resolveTerms(medicationName);
+    const alerts: SafetyAlert[] = [];
+
+    allergies.forEach(allergy => {
+      const allergenText = normalize(allergy.allergen);
+      const allergenTerms = MedicationSafetyService.resolveTerms(allergy.allergen);
+      const reaction = allergy.reaction ? ` (${allergy.reaction})` : '';
+      const directMatch = [...allergenTerms].some(term => drugTerms.has(term)) ||
+        (allergenText.length >= 3 && containsTerm(drugText, allergenText));
+
+      if (directMatch) {
+        alerts.push({
+          level: 'BLOCKING',
+          kind: 'ALLERGY',
+          message: `Documented ${ALLERGY_SEVERITY_LABELS[allergy.severity].toLowerCase()} allergy to ${allergy.allergen}${reaction}.`,
+        });
+        return;
+      }
+
+      CROSS_REACTIVITY_RULES.forEach(rule => {
+        if (allergenTerms.has(rule.allergen) && drugTerms.has(rule.reactsWith)) {
+          alerts.push({
+            level: allergy.severity === 'SEVERE' ? 'BLOCKING' : 'WARNING',
+            kind: 'CROSS_REACTIVITY',
+            message: `Allergy to ${allergy.allergen}${reaction}: ${rule.description}`,
+          });
+        }
+      });
+    });
+
+    activeMedicationNames.forEach(otherName => {
+      const otherTerms = MedicationSafetyService.resolveTerms(otherName);
+      const reported = new Set<string>(); // A drug in two classes (e.g. aspirin) can match the same rule text twice
+      INTERACTION_RULES.forEach(rule => {
+        const matches = (drugTerms.has(rule.a) && otherTerms.has(rule.b)) || (drugTerms.has(rule.b) && otherTerms.has(rule.a));
+        if (matches && !reported.has(rule.description)) {
+          reported.add(rule.description);
+          alerts.push({
+            level: INTERACTION_LEVELS[rule.severity],
+            kind: 'INTERACTION',
+            message: `Interacts with ${otherName} (${classLabel(rule.a)} + ${classLabel(rule.b)}): ${rule.description}`,
+          });
+        }
+      });
+    });
+
+    return alerts.sort((a, b) => (a.level === b.level ? 0 : a.level === 'BLOCKING' ? -1 : 1));
+  }
+}
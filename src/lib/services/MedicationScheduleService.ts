@@ -0,0 +1,233 @@
+import { z } from 'zod';
+import { addDays, addHours, differenceInCalendarDays, startOfDay } from 'date-fns';
+import { FacilityTimeService } from '@/lib/services/FacilityTimeService';
+
+// --- Schema ---
+// Times of day are stored as facility-time "HH:mm" strings, weekdays as 0 (Sunday) - 6 (Saturday).
+const timeOfDaySchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Times must be in HH:mm format');
+const timesSchema = z.array(timeOfDaySchema).min(1, 'Add at least one time of day');
+
+const taperingStepSchema = z.object({
+  days: z.number().int().min(1, 'Each step must last at least one day'),
+  dosage: z.string().min(1, 'Each step needs a dosage'),
+  times: timesSchema,
+});
+
+export const medicationScheduleSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('TIMES_OF_DAY'),
+    times: timesSchema,
+  }),
+  z.object({
+    type: z.literal('EVERY_N_HOURS'),
+    interval_hours: z.number().int().min(1, 'Interval must be at least 1 hour').max(24, 'Interval cannot exceed 24 hours'),
+    first_dose_time: timeOfDaySchema,
+  }),
+  z.object({
+    type: z.literal('WEEKDAYS'),
+    weekdays: z.array(z.number().int().min(0).max(6)).min(1, 'Select at least one weekday'),
+    times: timesSchema,
+  }),
+  z.object({
+    type: z.literal('PRN'),
+    min_interval_hours: z.number().min(0, 'Interval cannot be negative'),
+    max_doses_per_day: z.number().int().min(1, 'Max doses must be at least 1').nullable(),
+    // Minutes after a dose that its effectiveness must be re-checked; older rows fall back to the default
+    recheck_minutes: z.number().int().min(15, 'Re-check must be at least 15 minutes later').max(480, 'Re-check cannot be more than 8 hours later').optional(),
+  }),
+  z.object({
+    type: z.literal('TAPERING'),
+    steps: z.array(taperingStepSchema).min(1, 'Add at least one tapering step'),
+  }),
+]);
+
+// --- Types ---
+export type MedicationSchedule = z.infer<typeof medicationScheduleSchema>;
+export type ScheduleType = MedicationSchedule['type'];
+export type TaperingStep = z.infer<typeof taperingStepSchema>;
+
+// Minimal medication shape needed to resolve due times
+export type SchedulableMedication = {
+  id: string;
+  dosage: string;
+  schedule: MedicationSchedule | null;
+  start_date: string;
+  end_date: string | null;
+};
+
+export type DueDose = {
+  medicationId: string;
+  scheduledAt: Date;
+  dosage: string; // Tapering steps override the medication's base dosage
+};
+
+export const SCHEDULE_TYPE_LABELS: Record<ScheduleType, string> = {
+  TIMES_OF_DAY: 'Daily at set times',
+  EVERY_N_HOURS: 'Every N hours',
+  WEEKDAYS: 'Specific weekdays',
+  PRN: 'As needed (PRN)',
+  TAPERING: 'Tapering',
+};
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const COUNT_LABELS = ['', 'Once daily', 'Twice daily', 'Three times daily', 'Four times daily'];
+
+// A dose may be given this many minutes either side of its scheduled time
+export const DOSE_GRACE_MINUTES = 60;
+
+// Longest gap between two doses of any schedule type (weekly schedules), used when looking ahead
+const MAX_LOOKAHEAD_DAYS = 8;
+
+// --- Helpers ---
+// The instant `time` falls at on a facility calendar day, given as a wall-clock date (see FacilityTimeService.toFacilityTime)
+const atTime = (day: Date, time: string): Date => {
+  const [hours, minutes] = time.split(':').map(Number);
+  const wallClock = new Date(day);
+  wallClock.setHours(hours, minutes, 0, 0);
+  return FacilityTimeService.fromFacilityTime(wallClock);
+};
+
+// Facility calendar day of an instant, as a wall-clock date
+const facilityDay = (date: Date): Date => startOfDay(FacilityTimeService.toFacilityTime(date));
+
+const sortTimes = (times: string[]) => [...times].sort();
+
+export class MedicationScheduleService {
+  /**
+   * Parse a raw `medications.schedule` value, returning null for legacy rows or invalid data
+   */
+  static parse(raw: unknown): MedicationSchedule | null {
+    if (!raw) return null;
+    const result = medicationScheduleSchema.safeParse(raw);
+    return result.success ? result.data : null;
+  }
+
+  /**
+   * Sensible starting values when switching the schedule type in the editor
+   */
+  static defaultSchedule(type: ScheduleType): MedicationSchedule {
+    switch (type) {
+      case 'TIMES_OF_DAY':
+        return { type, times: ['08:00'] };
+      case 'EVERY_N_HOURS':
+        return { type, interval_hours: 6, first_dose_time: '06:00' };
+      case 'WEEKDAYS':
+        return { type, weekdays: [1], times: ['08:00'] };
+      case 'PRN':
+        return { type, min_interval_hours: 4, max_doses_per_day: null, recheck_minutes: 60 };
+      case 'TAPERING':
+        return { type, steps: [{ days: 3, dosage: '', times: ['08:00'] }] };
+    }
+  }
+
+  /**
+   * Human-readable summary, stored in `medications.frequency`
+   */
+  static describe(schedule: MedicationSchedule): string {
+    switch (schedule.type) {
+      case 'TIMES_OF_DAY': {
+        const count = COUNT_LABELS[schedule.times.length] || `${schedule.times.length} times daily`;
+        return `${count} at ${sortTimes(schedule.times).join(', ')}`;
+      }
+      case 'EVERY_N_HOURS':
+        return `Every ${schedule.interval_hours} hour${schedule.interval_hours === 1 ? '' : 's'} from ${schedule.first_dose_time}`;
+      case 'WEEKDAYS': {
+        const days = [...schedule.weekdays].sort().map(d => WEEKDAY_LABELS[d]).join(', ');
+        return `${days} at ${sortTimes(schedule.times).join(', ')}`;
+      }
+      case 'PRN': {
+        const max = schedule.max_doses_per_day ? `, max ${schedule.max_doses_per_day}/day` : '';
+        return `As needed (min ${schedule.min_interval_hours}h apart${max})`;
+      }
+      case 'TAPERING':
+        return `Tapering: ${schedule.steps.map(step => `${step.dosage} x${step.days}d`).join(', ')}`;
+    }
+  }
+
+  static isPrn(medication: Pick<SchedulableMedication, 'schedule'>): boolean {
+    return medication.schedule?.type === 'PRN';
+  }
+
+  /**
+   * Resolve every scheduled dose in [from, to). PRN and unscheduled (legacy) medications have none.
+   * Days and times of day are the facility's, whatever the zone this runs in.
+   */
+  static getDueDoses(medication: SchedulableMedication, from: Date, to: Date): DueDose[] {
+    const { schedule } = medication;
+    if (!schedule || schedule.type === 'PRN') return [];
+
+    const firstDay = facilityDay(new Date(medication.start_date));
+    const firstMoment = FacilityTimeService.fromFacilityTime(firstDay);
+    // End date is inclusive of the whole day
+    const lastMoment = medication.end_date ? FacilityTimeService.endOfDay(new Date(medication.end_date)) : null;
+    const rangeStart = from > firstMoment ? from : firstMoment;
+    const rangeEnd = lastMoment && lastMoment < to ? lastMoment : to;
+    if (rangeStart >= rangeEnd) return [];
+
+    const doses: DueDose[] = [];
+    const push = (scheduledAt: Date, dosage = medication.dosage) => {
+      if (scheduledAt >= rangeStart && scheduledAt < rangeEnd) {
+        doses.push({ medicationId: medication.id, scheduledAt, dosage });
+      }
+    };
+
+    if (schedule.type === 'EVERY_N_HOURS') {
+      const anchor = atTime(firstDay, schedule.first_dose_time);
+      const hoursSinceAnchor = Math.max(0, (rangeStart.getTime() - anchor.getTime()) / 3_600_000);
+      let next = addHours(anchor, Math.ceil(hoursSinceAnchor / schedule.interval_hours) * schedule.interval_hours);
+      while (next < rangeEnd) {
+        push(next);
+        next = addHours(next, schedule.interval_hours);
+      }
+      return doses;
+    }
+
+    for (let day = facilityDay(rangeStart); FacilityTimeService.fromFacilityTime(day) < rangeEnd; day = addDays(day, 1)) {
+      if (schedule.type === 'TIMES_OF_DAY') {
+        sortTimes(schedule.times).forEach(time => push(atTime(day, time)));
+      } else if (schedule.type === 'WEEKDAYS') {
+        if (schedule.weekdays.includes(day.getDay())) {
+          sortTimes(schedule.times).forEach(time => push(atTime(day, time)));
+        }
+      } else if (schedule.type === 'TAPERING') {
+        const step = MedicationScheduleService.getTaperingStep(schedule.steps, differenceInCalendarDays(day, firstDay));
+        if (step) {
+          sortTimes(step.times).forEach(time => push(atTime(day, time), step.dosage || medication.dosage));
+        }
+      }
+    }
+    return doses;
+  }
+
+  /**
+   * The next scheduled dose at or after `after`, or null if none is coming up
+   */
+  static getNextDue(medication: SchedulableMedication, after: Date = new Date()): DueDose | null {
+    const doses = MedicationScheduleService.getDueDoses(medication, after, addDays(after, MAX_LOOKAHEAD_DAYS));
+    return doses[0] || null;
+  }
+
+  /**
+   * Today's scheduled dose closest to `at`, used to preselect the slot being logged
+   */
+  static getClosestDue(medication: SchedulableMedication, at: Date = new Date()): DueDose | null {
+    const doses = MedicationScheduleService.getDueDoses(medication, FacilityTimeService.startOfDay(at), FacilityTimeService.endOfDay(at));
+    return doses.reduce<DueDose | null>((closest, dose) => {
+      if (!closest) return dose;
+      const distance = Math.abs(dose.scheduledAt.getTime() - at.getTime());
+      return distance < Math.abs(closest.scheduledAt.getTime() - at.getTime()) ? dose : closest;
+    }, null);
+  }
+
+  // Step active on the given day (0 = start date), or null once the taper has finished
+  private static getTaperingStep(steps: TaperingStep[], dayIndex: number): TaperingStep | null {
+    if (dayIndex < 0) return null;
+    let elapsed = 0;
+    for (const step of steps) {
+      if (dayIndex < elapsed + step.days) return step;
+      elapsed += step.days;
+    }
+    return null;
+  }
+}
@@ -0,0 +1,89 @@
+import { addHours, addMinutes } from 'date-fns';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { MarService, MEDICATION_LOG_SELECT, MedicationLogEntry, PrnOutcome } from '@/lib/services/MarService';
+import { MedicationSchedule } from '@/lib/services/MedicationScheduleService';
+
+// --- Types ---
+export type PrnSchedule = Extract<MedicationSchedule, { type: 'PRN' }>;
+
+export type PrnLimitCheck = {
+  lastGivenAt: Date | null;
+  nextAllowedAt: Date | null; // Earliest time the minimum interval allows another dose
+  givenInLastDay: number; // Doses given in the rolling 24 hours before the check
+  maxPerDay: number | null;
+  intervalViolated: boolean; // Can be overridden with a documented reason
+  maxReached: boolean; // Always blocks
+};
+
+export type PrnFollowUpStatus = 'PENDING' | 'OVERDUE' | 'DONE';
+
+// --- Constants ---
+// Used when a PRN schedule was saved before re-check times were configurable
+export const DEFAULT_RECHECK_MINUTES = 60;
+
+export const PRN_OUTCOME_LABELS: Record<PrnOutcome, string> = {
+  EFFECTIVE: 'Effective',
+  PARTIALLY_EFFECTIVE: 'Partially effective',
+  NOT_EFFECTIVE: 'Not effective',
+};
+
+export class PrnService {
+  /**
+   * Doses of a medication recent enough to count towards its interval or daily maximum.
+   * Includes every status so corrections into or out of GIVEN are seen by checkLimits.
+   */
+  static async fetchRecentDoses(client: SupabaseClient, medicationId: string, schedule: PrnSchedule, at: Date = new Date()): Promise<MedicationLogEntry[]> {
+    const lookbackHours = Math.max(24, schedule.min_interval_hours);
+    const { data, error } = await client
+      .from('medication_log')
+      .select(MEDICATION_LOG_SELECT)
+      .eq('medication_id', medicationId)
+      .gte('administered_at', addHours(at, -lookbackHours).toISOString())
+      .lte('administered_at', at.toISOString())
+      .order('administered_at', { ascending: false });
+
+    if (error) throw new Error(`Recent PRN doses fetch failed: ${error.message}`);
+    return data || [];
+  }
+
+  /**
+   * Check a PRN dose given at `at` against the minimum interval and rolling 24-hour maximum
+   */
+  static checkLimits(schedule: PrnSchedule, recentDoses: MedicationLogEntry[], at: Date = new Date()): PrnLimitCheck {
+    const given = recentDoses
+      .map(log => MarService.getEffectiveLog(log))
+      .filter((log): log is MedicationLogEntry => log?.status === 'GIVEN')
+      .map(log => new Date(log.administered_at))
+      .filter(time => time <= at)
+      .sort((a, b) => b.getTime() - a.getTime());
+
+    const lastGivenAt = given[0] || null;
+    const nextAllowedAt = lastGivenAt ? addMinutes(lastGivenAt, schedule.min_interval_hours * 60) : null;
+    const givenInLastDay = given.filter(time => time > addHours(at, -24)).length;
+
+    return {
+      lastGivenAt,
+      nextAllowedAt,
+      givenInLastDay,
+      maxPerDay: schedule.max_doses_per_day,
+      intervalViolated: !!nextAllowedAt && at < nextAllowedAt,
+      maxReached: schedule.max_doses_per_day !== null && givenInLastDay >= schedule.max_doses_per_day,
+    };
+  }
+
+  /**
+   * When the effectiveness of a dose given at `administeredAt` must be re-checked
+   */
+  static getRecheckDueAt(schedule: PrnSchedule, administeredAt: Date): Date {
+    return addMinutes(administeredAt, schedule.recheck_minutes ?? DEFAULT_RECHECK_MINUTES);
+  }
+
+  /**
+   * Follow-up state of a PRN log entry, or null if it does not need one
+   */
+  static getFollowUpStatus(log: MedicationLogEntry, now: Date = new Date()): PrnFollowUpStatus | null {
+    if (!log.effectiveness_due_at || MarService.getEffectiveLog(log)?.status !== 'GIVEN') return null;
+    if (log.medication_prn_followups && log.medication_prn_followups.length > 0) return 'DONE';
+    return now > new Date(log.effectiveness_due_at) ? 'OVERDUE' : 'PENDING';
+  }
+}
@@ -0,0 +1,190 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+// --- Types ---
+export type ResidentStatus = 'ADMITTED' | 'HOSPITAL_LEAVE' | 'DISCHARGED';
+
+export type AdtEventType = 'ADMISSION' | 'DISCHARGE' | 'HOSPITAL_LEAVE' | 'READMISSION' | 'ROOM_TRANSFER';
+
+export type DischargeReason = 'RETURNED_HOME' | 'OTHER_FACILITY' | 'HOSPITAL' | 'DECEASED' | 'OTHER';
+
+// Fields an event can require, besides when it happened
+export type AdtEventField = 'to_bed_id' | 'discharge_reason' | 'destination';
+
+export type AdtEventValues = {
+  effective_at: Date;
+  to_bed_id?: string | null;
+  discharge_reason?: DischargeReason | null;
+  destination?: string | null;
+  notes?: string | null;
+};
+
+export type ResidentAdtState = {
+  status: ResidentStatus;
+  room_number: string | null;
+  bed_id: string | null; // Null once discharged
+};
+
+export type ResidentAdtEvent = {
+  id: string;
+  created_at: string;
+  resident_id: string;
+  event_type: AdtEventType;
+  effective_at: string;
+  from_status: ResidentStatus | null; // Null for the admission
+  to_status: ResidentStatus;
+  from_room: string | null;
+  to_room: string | null; // Room of to_bed_id, set by the trigger
+  from_bed_id: string | null;
+  to_bed_id: string | null;
+  discharge_reason: DischargeReason | null;
+  destination: string | null;
+  notes: string | null;
+  recorded_by: string | null;
+  recorded_by_profile?: { full_name: string | null } | null; // Present when selected with the event
+};
+
+// --- Constants ---
+export const RESIDENT_STATUS_LABELS: Record<ResidentStatus, string> = {
+  ADMITTED: 'Admitted',
+  HOSPITAL_LEAVE: 'Hospital leave',
+  DISCHARGED: 'Discharged',
+};
+
+export const RESIDENT_STATUS_COLORS: Record<ResidentStatus, 'default' | 'success' | 'warning'> = {
+  ADMITTED: 'success',
+  HOSPITAL_LEAVE: 'warning',
+  DISCHARGED: 'default',
+};
+
+// Residents still on the books (shown in active lists); hospital leave keeps their place
+export const ACTIVE_RESIDENT_STATUSES: ResidentStatus[] = ['ADMITTED', 'HOSPITAL_LEAVE'];
+
+export const ADT_EVENT_TYPE_LABELS: Record<AdtEventType, string> = {
+  ADMISSION: 'Admission',
+  DISCHARGE: 'Discharge',
+  HOSPITAL_LEAVE: 'Hospital leave',
+  READMISSION: 'Readmission',
+  ROOM_TRANSFER: 'Room transfer',
+};
+
+export const DISCHARGE_REASON_LABELS: Record<DischargeReason, string> = {
+  RETURNED_HOME: 'Returned home',
+  OTHER_FACILITY: 'Transferred to another facility',
+  HOSPITAL: 'Hospitalized (not returning)',
+  DECEASED: 'Deceased',
+  OTHER: 'Other',
+};
+
+// Events that can be recorded from each status; mirrors apply_resident_adt_event in the database
+export const ADT_EVENTS_BY_STATUS: Record<ResidentStatus, AdtEventType[]> = {
+  ADMITTED: ['ROOM_TRANSFER', 'HOSPITAL_LEAVE', 'DISCHARGE'],
+  HOSPITAL_LEAVE: ['READMISSION', 'DISCHARGE'],
+  DISCHARGED: ['READMISSION'],
+};
+
+export const ADT_EVENT_FIELD_LABELS: Record<AdtEventField, string> = {
+  to_bed_id: 'New bed',
+  discharge_reason: 'Discharge reason',
+  destination: 'Destination',
+};
+
+const filled = (value: string | null | undefined) => !!value && value.trim().length > 0;
+
+export class ResidentAdtService {
+  /**
+   * Events that can be recorded next for a resident
+   */
+  static getAllowedEvents(status: ResidentStatus): AdtEventType[] {
+    return ADT_EVENTS_BY_STATUS[status] || [];
+  }
+
+  static isActive(status: ResidentStatus): boolean {
+    return ACTIVE_RESIDENT_STATUSES.includes(status);
+  }
+
+  /**
+   * Missing or invalid fields for recording `eventType`, keyed by field, or an empty object if it can be recorded
+   */
+  static validate(resident: ResidentAdtState, eventType: AdtEventType, values: AdtEventValues): Partial<Record<AdtEventField | 'effective_at', string>> {
+    const errors: Partial<Record<AdtEventField | 'effective_at', string>> = {};
+    if (!ResidentAdtService.getAllowedEvents(resident.status).includes(eventType)) {
+      errors.effective_at = `Cannot record ${ADT_EVENT_TYPE_LABELS[eventType].toLowerCase()} for a resident who is ${RESIDENT_STATUS_LABELS[resident.status].toLowerCase()}`;
+      return errors;
+    }
+    if (values.effective_at > new Date()) {
+      errors.effective_at = 'Cannot be in the future';
+    }
+
+    if (eventType === 'ROOM_TRANSFER' && (!values.to_bed_id || values.to_bed_id === resident.bed_id)) {
+      errors.to_bed_id = 'A different bed is required';
+    }
+    if (eventType === 'READMISSION' && !values.to_bed_id && !resident.bed_id) {
+      errors.to_bed_id = 'A bed is required to readmit a discharged resident';
+    }
+    if (eventType === 'DISCHARGE' && !values.discharge_reason) {
+      errors.discharge_reason = 'Discharge reason is required';
+    }
+    if (eventType === 'DISCHARGE' && values.discharge_reason !== 'DECEASED' && !filled(values.destination)) {
+      errors.destination = 'Destination is required';
+    }
+    if (eventType === 'HOSPITAL_LEAVE' && !filled(values.destination)) {
+      errors.destination = 'Hospital is required';
+    }
+    return errors;
+  }
+
+  /**
+   * Record an event. The database validates it again and updates the resident's status, bed and room.
+   */
+  static async recordEvent(client: SupabaseClient, residentId: string, eventType: AdtEventType, recordedBy: string, values: AdtEventValues): Promise<void> {
+    const { error } = await client
+      .from('resident_adt_events')
+      .insert({
+        resident_id: residentId,
+        event_type: eventType,
+        effective_at: values.effective_at.toISOString(),
+        to_bed_id: values.to_bed_id || null,
+        discharge_reason: eventType === 'DISCHARGE' ? values.discharge_reason || null : null,
+        destination: values.destination?.trim() || null,
+        notes: values.notes?.trim() || null,
+        recorded_by: recordedBy,
+      });
+
+    if (error) throw new Error(error.message);
+  }
+
+  /**
+   * ADT history of a resident, oldest first
+   */
+  static async fetchHistory(client: SupabaseClient, residentId: string): Promise<ResidentAdtEvent[]> {
+    const { data, error } = await client
+      .from('resident_adt_events')
+      .select('*, recorded_by_profile:profiles!recorded_by(full_name)')
+      .eq('resident_id', residentId)
+      .order('effective_at', { ascending: true })
+      .order('created_at', { ascending: true });
+
+    if (error) throw new Error(`ADT history fetch failed: ${error.message}`);
+    return (data || []) as unknown as ResidentAdtEvent[];
+  }
+
+  /**
+   * One-line description of an event for history lists
+   */
+  static describe(event: ResidentAdtEvent): string {
+    switch (event.event_type) {
+      case 'ADMISSION':
+        return event.to_room ? `Admitted to room ${event.to_room}` : 'Admitted';
+      case 'ROOM_TRANSFER':
+        return `Moved from room ${event.from_room || '?'} to room ${event.to_room}`;
+      case 'HOSPITAL_LEAVE':
+        return `Hospital leave${event.destination ? ` to ${event.destination}` : ''}`;
+      case 'READMISSION':
+        return `Readmitted${event.to_room ? ` to room ${event.to_room}` : ''}${event.from_status === 'HOSPITAL_LEAVE' ? ' from hospital leave' : ''}`;
+      case 'DISCHARGE':
+        return `Discharged: ${event.discharge_reason ? DISCHARGE_REASON_LABELS[event.discharge_reason] : 'reason not recorded'}${event.destination ? ` (${event.destination})` : ''}`;
+      default:
+        return ADT_EVENT_TYPE_LABELS[event.event_type] || event.event_type;
+    }
+  }
+}
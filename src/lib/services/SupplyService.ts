@@ -0,0 +1,186 @@
+import { addDays, addMinutes, differenceInCalendarDays } from 'date-fns';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { FacilityTimeService } from '@/lib/services/FacilityTimeService';
+import { MarService, MEDICATION_LOG_SELECT, MedicationLogEntry } from '@/lib/services/MarService';
+import { MedicationScheduleService, SchedulableMedication } from '@/lib/services/MedicationScheduleService';
+import { ACTIVE_RESIDENT_STATUSES } from '@/lib/services/ResidentAdtService';
+
+// --- Types ---
+export type SupplyMedication = SchedulableMedication & {
+  resident_id: string;
+  name: string;
+  prescribed_by: string | null;
+  count_unit: string | null;
+  units_per_dose: number;
+  quantity_on_hand: number | null; // Null until the first pharmacy fill is recorded
+  reorder_lead_days: number;
+  reorder_notified_at: string | null;
+};
+
+export type SupplyProjection = {
+  dailyUsage: number; // Units per day; 0 when nothing is scheduled or recently given
+  daysRemaining: number | null; // Null when supply is untracked or not being used
+  runOutDate: Date | null;
+  needsReorder: boolean; // Runs out within the reorder lead time, before the medication ends
+};
+
+export type MedicationFill = {
+  id: string;
+  created_at: string;
+  medication_id: string;
+  resident_id: string;
+  quantity: number;
+  filled_at: string;
+  pharmacy: string | null;
+  prescription_number: string | null;
+  recorded_by: string;
+  notes: string | null;
+};
+
+export type ReorderRunResult = {
+  evaluated: number;
+  notified: number; // Medications newly flagged for reorder this run
+  notifications: number; // Notification rows inserted across all recipients
+};
+
+type ReorderMedication = SupplyMedication & {
+  residents: {
+    room_number: string | null;
+    profiles: { full_name: string | null } | null;
+  } | null;
+};
+
+// --- Constants ---
+export const DEFAULT_REORDER_LEAD_DAYS = 7;
+// Scheduled usage is averaged over this many days ahead (covers weekly schedules)
+const SCHEDULE_WINDOW_DAYS = 7;
+// PRN and unscheduled usage is averaged over this many days of administration history
+export const USAGE_HISTORY_DAYS = 14;
+
+export class SupplyService {
+  /**
+   * Units used per day: from the schedule for scheduled medications, otherwise from
+   * `recentGiven` doses over the last USAGE_HISTORY_DAYS
+   */
+  static getDailyUsage(medication: SupplyMedication, recentGiven: number, now: Date = new Date()): number {
+    if (medication.schedule && !MedicationScheduleService.isPrn(medication)) {
+      const doses = MedicationScheduleService.getDueDoses(medication, now, addDays(now, SCHEDULE_WINDOW_DAYS));
+      return (doses.length / SCHEDULE_WINDOW_DAYS) * medication.units_per_dose;
+    }
+    return (recentGiven / USAGE_HISTORY_DAYS) * medication.units_per_dose;
+  }
+
+  /**
+   * Projected run-out date of a medication's supply and whether it should be reordered now
+   */
+  static project(medication: SupplyMedication, recentGiven: number, now: Date = new Date()): SupplyProjection {
+    const dailyUsage = SupplyService.getDailyUsage(medication, recentGiven, now);
+    if (medication.quantity_on_hand === null || (dailyUsage === 0 && medication.quantity_on_hand > 0)) {
+      return { dailyUsage, daysRemaining: null, runOutDate: null, needsReorder: false };
+    }
+
+    const daysRemaining = dailyUsage > 0 ? medication.quantity_on_hand / dailyUsage : 0;
+    const runOutDate = addMinutes(now, Math.floor(daysRemaining * 24 * 60));
+    // No need to reorder a course that ends before the supply does
+    const endsFirst = !!medication.end_date && new Date(medication.end_date) <= runOutDate;
+
+    return {
+      dailyUsage,
+      daysRemaining,
+      runOutDate,
+      needsReorder: !endsFirst && differenceInCalendarDays(FacilityTimeService.toFacilityTime(runOutDate), FacilityTimeService.toFacilityTime(now)) <= medication.reorder_lead_days,
+    };
+  }
+
+  /**
+   * Number of doses actually given per medication over the usage history window, after corrections
+   */
+  static async fetchRecentGivenCounts(client: SupabaseClient, medicationIds: string[], now: Date = new Date()): Promise<Map<string, number>> {
+    const counts = new Map<string, number>();
+    if (medicationIds.length === 0) return counts;
+
+    const { data, error } = await client
+      .from('medication_log')
+      .select(MEDICATION_LOG_SELECT)
+      .in('medication_id', medicationIds)
+      .gte('administered_at', FacilityTimeService.startOfDay(addDays(now, -USAGE_HISTORY_DAYS)).toISOString())
+      .lte('administered_at', now.toISOString());
+
+    if (error) throw new Error(`Recent doses fetch failed: ${error.message}`);
+
+    ((data || []) as MedicationLogEntry[]).forEach(log => {
+      if (MarService.getEffectiveLog(log)?.status === 'GIVEN') {
+        counts.set(log.medication_id, (counts.get(log.medication_id) || 0) + 1);
+      }
+    });
+    return counts;
+  }
+
+  /**
+   * Notify prescribers (or admins, if the prescriber is unknown) about medications due for reorder.
+   * Each medication is notified once per fill. Needs a service-role client: it writes other users'
+   * notifications and stamps medications, which staff cannot update.
+   */
+  static async run(client: SupabaseClient, now: Date = new Date()): Promise<ReorderRunResult> {
+    const nowIso = now.toISOString();
+    const { data, error } = await client
+      .from('medications')
+      .select('*, residents!inner(room_number, status, profiles(full_name))')
+      .in('residents.status', ACTIVE_RESIDENT_STATUSES) // Residents on hospital leave are expected back; discharged ones are not
+      .not('quantity_on_hand', 'is', null)
+      .is('reorder_notified_at', null)
+      .lte('start_date', nowIso)
+      .or(`end_date.is.null,end_date.gt.${nowIso}`);
+
+    if (error) throw new Error(`Medications fetch failed: ${error.message}`);
+
+    const medications = ((data || []) as ReorderMedication[]).map(med => ({
+      ...med,
+      schedule: MedicationScheduleService.parse(med.schedule),
+    }));
+    const recentGiven = await SupplyService.fetchRecentGivenCounts(client, medications.map(med => med.id), now);
+    const due = medications
+      .map(medication => ({ medication, projection: SupplyService.project(medication, recentGiven.get(medication.id) || 0, now) }))
+      .filter(({ projection }) => projection.needsReorder);
+
+    if (due.length === 0) {
+      return { evaluated: medications.length, notified: 0, notifications: 0 };
+    }
+
+    const { data: admins, error: adminsError } = await client.from('profiles').select('id').eq('role', 'ADMIN');
+    if (adminsError) throw new Error(`Admin fetch failed: ${adminsError.message}`);
+    const adminIds = (admins || []).map(row => row.id);
+
+    const notifications = due.flatMap(({ medication, projection }) => {
+      const recipients = medication.prescribed_by ? [medication.prescribed_by] : adminIds;
+      const content = SupplyService.describe(medication, projection);
+      return recipients.map(userId => ({ user_id: userId, title: 'Medication Reorder Due', content, type: 'WARNING' }));
+    });
+
+    // Stamp first so a failed notification insert is not retried into duplicates
+    const { error: stampError } = await client
+      .from('medications')
+      .update({ reorder_notified_at: nowIso })
+      .in('id', due.map(({ medication }) => medication.id));
+    if (stampError) throw new Error(`Medication update failed: ${stampError.message}`);
+
+    if (notifications.length > 0) {
+      const { error: notifyError } = await client.from('notifications').insert(notifications);
+      if (notifyError) throw new Error(`Notification insert failed: ${notifyError.message}`);
+    }
+
+    return { evaluated: medications.length, notified: due.length, notifications: notifications.length };
+  }
+
+  /**
+   * Notification text for a medication due for reorder
+   */
+  static describe(medication: ReorderMedication, projection: SupplyProjection): string {
+    const resident = medication.residents;
+    const name = resident?.profiles?.full_name || 'Unknown resident';
+    const room = resident?.room_number ? ` (Room ${resident.room_number})` : '';
+    const unit = medication.count_unit || 'units';
+    const runOut = projection.runOutDate ? ` and is projected to run out on ${FacilityTimeService.format(projection.runOutDate, 'PP')}` : '';
+    return `${medication.name} ${medication.dosage} for ${name}${room} has ${medication.quantity_on_hand} ${unit} on hand${runOut}. Please reorder.`;
+  }
+}
@@ -0,0 +1,237 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+// --- Types ---
+// Column names on vital_signs; blood pressure is two vitals recorded as a pair
+export type VitalType = 'systolic_bp' | 'diastolic_bp' | 'pulse' | 'temperature' | 'respiratory_rate' | 'spo2' | 'blood_glucose' | 'pain_score';
+
+// What is charted and entered together; BLOOD_PRESSURE covers systolic and diastolic
+export type VitalChart = 'BLOOD_PRESSURE' | Exclude<VitalType, 'systolic_bp' | 'diastolic_bp'>;
+
+export type VitalValues = Partial<Record<VitalType, number | null>>;
+
+export type VitalSignReading = Record<VitalType, number | null> & {
+  id: string;
+  created_at: string;
+  resident_id: string;
+  taken_at: string;
+  notes: string | null;
+  recorded_by: string | null;
+  abnormal: VitalType[]; // Outside the thresholds in force when recorded
+  recorded_by_profile?: { full_name: string | null } | null; // Present when selected with the reading
+};
+
+export type VitalRange = {
+  low: number | null; // Readings below are abnormal; null for no lower limit
+  high: number | null; // Readings above are abnormal; null for no upper limit
+};
+
+export type VitalThreshold = VitalRange & {
+  isDefault: boolean; // The facility default rather than set for this resident
+  facilityDefault: VitalRange;
+};
+
+export type VitalThresholds = Record<VitalType, VitalThreshold>;
+
+type VitalThresholdRow = {
+  resident_id: string | null;
+  vital_type: VitalType;
+  low: number | null;
+  high: number | null;
+};
+
+// --- Constants ---
+export const VITAL_TYPES: VitalType[] = ['systolic_bp', 'diastolic_bp', 'pulse', 'temperature', 'respiratory_rate', 'spo2', 'blood_glucose', 'pain_score'];
+
+export const VITAL_LABELS: Record<VitalType, string> = {
+  systolic_bp: 'Systolic BP',
+  diastolic_bp: 'Diastolic BP',
+  pulse: 'Pulse',
+  temperature: 'Temperature',
+  respiratory_rate: 'Respirations',
+  spo2: 'SpO2',
+  blood_glucose: 'Blood glucose',
+  pain_score: 'Pain',
+};
+
+export const VITAL_UNITS: Record<VitalType, string> = {
+  systolic_bp: 'mmHg',
+  diastolic_bp: 'mmHg',
+  pulse: 'bpm',
+  temperature: '°F',
+  respiratory_rate: '/min',
+  spo2: '%',
+  blood_glucose: 'mg/dL',
+  pain_score: '/10',
+};
+
+// Accepted input ranges; mirror the CHECK constraints on vital_signs
+export const VITAL_LIMITS: Record<VitalType, { min: number; max: number; step: number }> = {
+  systolic_bp: { min: 40, max: 300, step: 1 },
+  diastolic_bp: { min: 20, max: 200, step: 1 },
+  pulse: { min: 20, max: 250, step: 1 },
+  temperature: { min: 85, max: 110, step: 0.1 },
+  respiratory_rate: { min: 4, max: 60, step: 1 },
+  spo2: { min: 50, max: 100, step: 1 },
+  blood_glucose: { min: 10, max: 700, step: 1 },
+  pain_score: { min: 0, max: 10, step: 1 },
+};
+
+export const VITAL_CHART_LABELS: Record<VitalChart, string> = {
+  BLOOD_PRESSURE: 'Blood pressure',
+  pulse: 'Pulse',
+  temperature: 'Temperature',
+  respiratory_rate: 'Respirations',
+  spo2: 'SpO2',
+  blood_glucose: 'Blood glucose',
+  pain_score: 'Pain',
+};
+
+export const VITAL_CHART_TYPES: Record<VitalChart, VitalType[]> = {
+  BLOOD_PRESSURE: ['systolic_bp', 'diastolic_bp'],
+  pulse: ['pulse'],
+  temperature: ['temperature'],
+  respiratory_rate: ['respiratory_rate'],
+  spo2: ['spo2'],
+  blood_glucose: ['blood_glucose'],
+  pain_score: ['pain_score'],
+};
+
+export class VitalSignsService {
+  /**
+   * Whether `value` is outside `threshold`; matches flag_abnormal_vital_signs in the database
+   */
+  static isAbnormal(value: number | null | undefined, threshold: VitalRange | undefined): boolean {
+    if (value === null || value === undefined || !threshold) return false;
+    return (threshold.low !== null && value < threshold.low) || (threshold.high !== null && value > threshold.high);
+  }
+
+  /**
+   * A reading for display, e.g. "128/84 mmHg" for blood pressure, or null if it was not taken
+   */
+  static format(reading: VitalValues, chart: VitalChart, withUnit = true): string | null {
+    const unit = withUnit ? ` ${VITAL_UNITS[VITAL_CHART_TYPES[chart][0]]}` : '';
+    if (chart === 'BLOOD_PRESSURE') {
+      if (reading.systolic_bp == null || reading.diastolic_bp == null) return null;
+      return `${reading.systolic_bp}/${reading.diastolic_bp}${unit}`;
+    }
+    const value = reading[chart];
+    return value == null ? null : `${value}${unit}`;
+  }
+
+  static formatRange(threshold: VitalRange, type: VitalType): string {
+    if (threshold.low !== null && threshold.high !== null) return `${threshold.low}–${threshold.high} ${VITAL_UNITS[type]}`;
+    if (threshold.low !== null) return `≥ ${threshold.low} ${VITAL_UNITS[type]}`;
+    if (threshold.high !== null) return `≤ ${threshold.high} ${VITAL_UNITS[type]}`;
+    return 'No limits';
+  }
+
+  /**
+   * Values missing or out of the accepted range, keyed by vital, or an empty object if they can be recorded
+   */
+  static validate(values: VitalValues): Partial<Record<VitalType, string>> {
+    const errors: Partial<Record<VitalType, string>> = {};
+    VITAL_TYPES.forEach(type => {
+      const value = values[type];
+      if (value == null) return;
+      const { min, max } = VITAL_LIMITS[type];
+      if (Number.isNaN(value) || value < min || value > max) {
+        errors[type] = `Must be ${min}–${max}`;
+      }
+    });
+    if ((values.systolic_bp == null) !== (values.diastolic_bp == null)) {
+      errors[values.systolic_bp == null ? 'systolic_bp' : 'diastolic_bp'] = 'Enter both systolic and diastolic';
+    }
+    return errors;
+  }
+
+  /**
+   * Readings taken since `from`, newest first
+   */
+  static async fetchReadings(client: SupabaseClient, residentId: string, from: Date): Promise<VitalSignReading[]> {
+    const { data, error } = await client
+      .from('vital_signs')
+      .select('*, recorded_by_profile:profiles!recorded_by(full_name)')
+      .eq('resident_id', residentId)
+      .gte('taken_at', from.toISOString())
+      .order('taken_at', { ascending: false });
+    if (error) throw new Error(`Vital signs fetch failed: ${error.message}`);
+    return (data as VitalSignReading[]) || [];
+  }
+
+  /**
+   * Thresholds in force for a resident: their own where set, else the facility defaults
+   */
+  static async fetchThresholds(client: SupabaseClient, residentId: string): Promise<VitalThresholds> {
+    const { data, error } = await client
+      .from('vital_sign_thresholds')
+      .select('resident_id, vital_type, low, high')
+      .or(`resident_id.eq.${residentId},resident_id.is.null`);
+    if (error) throw new Error(`Vital sign thresholds fetch failed: ${error.message}`);
+
+    const rows = (data as VitalThresholdRow[]) || [];
+    return VITAL_TYPES.reduce((thresholds, type) => {
+      const own = rows.find(r => r.vital_type === type && r.resident_id === residentId);
+      const facility = rows.find(r => r.vital_type === type && r.resident_id === null);
+      const facilityDefault = { low: facility?.low ?? null, high: facility?.high ?? null };
+      thresholds[type] = own
+        ? { low: own.low, high: own.high, isDefault: false, facilityDefault }
+        : { ...facilityDefault, isDefault: true, facilityDefault };
+      return thresholds;
+    }, {} as VitalThresholds);
+  }
+
+  /**
+   * Record a set of readings. The database flags abnormal values and alerts the charge nurse.
+   */
+  static async recordReading(client: SupabaseClient, residentId: string, recordedBy: string, takenAt: Date, values: VitalValues, notes?: string | null): Promise<VitalSignReading> {
+    const { data, error } = await client
+      .from('vital_signs')
+      .insert({
+        resident_id: residentId,
+        taken_at: takenAt.toISOString(),
+        ...VITAL_TYPES.reduce((row, type) => ({ ...row, [type]: values[type] ?? null }), {}),
+        notes: notes?.trim() || null,
+        recorded_by: recordedBy,
+      })
+      .select()
+      .single();
+    if (error) throw new Error(error.message);
+    return data as VitalSignReading;
+  }
+
+  /**
+   * Set a resident's own thresholds; vitals left at the facility default keep following it
+   */
+  static async saveThresholds(client: SupabaseClient, residentId: string, updatedBy: string, ranges: Record<VitalType, VitalRange>, current: VitalThresholds): Promise<void> {
+    const isFacilityDefault = (type: VitalType) =>
+      ranges[type].low === current[type].facilityDefault.low && ranges[type].high === current[type].facilityDefault.high;
+    const custom = VITAL_TYPES.filter(type => !isFacilityDefault(type));
+    const inherited = VITAL_TYPES.filter(type => isFacilityDefault(type) && !current[type].isDefault);
+
+    if (custom.length > 0) {
+      const { error } = await client
+        .from('vital_sign_thresholds')
+        .upsert(
+          custom.map(type => ({
+            resident_id: residentId,
+            vital_type: type,
+            low: ranges[type].low,
+            high: ranges[type].high,
+            updated_by: updatedBy,
+            updated_at: new Date().toISOString(),
+          })),
+          { onConflict: 'resident_id,vital_type' },
+        );
+      if (error) throw new Error(error.message);
+    }
+
+    if (inherited.length > 0) {
+      const { error } = await client
+        .from('vital_sign_thresholds')
+        .delete()
+        .eq('resident_id', residentId)
+        .in('vital_type', inherited);
+      if (error) throw new Error(error.message);
+    }
+  }
+}
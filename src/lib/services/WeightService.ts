@@ -0,0 +1,231 @@
+import { subDays } from 'date-fns';
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+// --- Types ---
+export type WeightMethod = 'STANDING' | 'CHAIR' | 'WHEELCHAIR' | 'BED';
+
+export type WeightFlagStatus = 'OPEN' | 'REVIEWED';
+
+export type ResidentWeight = {
+  id: string;
+  created_at: string;
+  resident_id: string;
+  measured_at: string;
+  weight_lb: number;
+  method: WeightMethod | null;
+  notes: string | null;
+  recorded_by: string | null;
+  recorded_by_profile?: { full_name: string | null } | null; // Present when selected with the weight
+  resident_weight_corrections?: ResidentWeightCorrection[]; // Present when selected with the weight
+};
+
+// Append-only amendment of a weight; the latest one for a weight wins
+export type ResidentWeightCorrection = {
+  id: string;
+  created_at: string;
+  weight_id: string;
+  corrected_by: string;
+  action: 'CORRECT' | 'VOID';
+  reason: string;
+  weight_lb: number | null; // CORRECT only
+  corrected_by_profile?: { full_name: string | null } | null; // Present when selected with the correction
+};
+
+export type WeightChangeFlag = {
+  id: string;
+  created_at: string;
+  resident_id: string;
+  weight_id: string;
+  baseline_weight_id: string;
+  period_days: number;
+  threshold_pct: number;
+  pct_change: number; // Negative for a loss
+  task_id: string | null;
+  status: WeightFlagStatus;
+  reviewed_at: string | null;
+  reviewed_by: string | null;
+  review_notes: string | null;
+  reviewed_by_profile?: { full_name: string | null } | null; // Present when selected with the flag
+  task?: { assigned_to_profile: { full_name: string | null } | null } | null;
+};
+
+// Change from the weight furthest from the latest one within a rule's window
+export type WeightChange = {
+  periodDays: number;
+  thresholdPct: number;
+  baseline: ResidentWeight;
+  pctChange: number;
+  significant: boolean;
+};
+
+// --- Constants ---
+// Significant change rules; mirror flag_weight_change in the database, which checks them in this order
+export const WEIGHT_CHANGE_RULES: { periodDays: number; thresholdPct: number }[] = [
+  { periodDays: 30, thresholdPct: 5 },
+  { periodDays: 180, thresholdPct: 10 },
+];
+
+export const WEIGHT_METHOD_LABELS: Record<WeightMethod, string> = {
+  STANDING: 'Standing scale',
+  CHAIR: 'Chair scale',
+  WHEELCHAIR: 'Wheelchair scale',
+  BED: 'Bed scale',
+};
+
+export const WEIGHT_FLAG_STATUS_LABELS: Record<WeightFlagStatus, string> = {
+  OPEN: 'Awaiting review',
+  REVIEWED: 'Reviewed',
+};
+
+// Accepted range in pounds; mirrors the CHECK constraint on resident_weights
+export const WEIGHT_LIMITS_LB = { min: 40, max: 700 };
+
+export class WeightService {
+  static formatChange(pctChange: number): string {
+    return `${pctChange > 0 ? '+' : ''}${pctChange.toFixed(1)}%`;
+  }
+
+  /**
+   * Latest correction of a weight, or null if it has never been corrected
+   */
+  static getLatestCorrection(weight: ResidentWeight): ResidentWeightCorrection | null {
+    const corrections = [...(weight.resident_weight_corrections || [])].sort((a, b) => b.created_at.localeCompare(a.created_at) || b.id.localeCompare(a.id));
+    return corrections[0] || null;
+  }
+
+  /**
+   * A weight as it currently stands after corrections, or null if it has been voided
+   */
+  static getEffectiveWeight(weight: ResidentWeight): ResidentWeight | null {
+    const correction = WeightService.getLatestCorrection(weight);
+    if (!correction) return weight;
+    if (correction.action === 'VOID') return null;
+    return { ...weight, weight_lb: correction.weight_lb ?? weight.weight_lb };
+  }
+
+  /**
+   * Change in the latest weight over each rule's window, matching how the database flags it.
+   * `weights` must be effective (see getEffectiveWeight) and newest first.
+   */
+  static getChanges(weights: ResidentWeight[]): WeightChange[] {
+    const [latest, ...earlier] = weights;
+    if (!latest) return [];
+    const latestAt = new Date(latest.measured_at);
+
+    return WEIGHT_CHANGE_RULES.flatMap(({ periodDays, thresholdPct }) => {
+      const windowStart = subDays(latestAt, periodDays);
+      const inWindow = earlier.filter(weight => {
+        const measuredAt = new Date(weight.measured_at);
+        return measuredAt < latestAt && measuredAt >= windowStart;
+      });
+      if (inWindow.length === 0) return [];
+
+      const baseline = inWindow.reduce((furthest, weight) =>
+        Math.abs(latest.weight_lb - weight.weight_lb) > Math.abs(latest.weight_lb - furthest.weight_lb) ? weight : furthest);
+      const pctChange = Math.round(((latest.weight_lb - baseline.weight_lb) / baseline.weight_lb) * 1000) / 10;
+      return [{ periodDays, thresholdPct, baseline, pctChange, significant: Math.abs(pctChange) >= thresholdPct }];
+    });
+  }
+
+  /**
+   * Weights measured since `from`, newest first
+   */
+  static async fetchWeights(client: SupabaseClient, residentId: string, from: Date): Promise<ResidentWeight[]> {
+    const { data, error } = await client
+      .from('resident_weights')
+      .select('*, recorded_by_profile:profiles!recorded_by(full_name), resident_weight_corrections(*, corrected_by_profile:profiles!corrected_by(full_name))')
+      .eq('resident_id', residentId)
+      .gte('measured_at', from.toISOString())
+      .order('measured_at', { ascending: false });
+    if (error) throw new Error(`Weights fetch failed: ${error.message}`);
+    return (data as ResidentWeight[]) || [];
+  }
+
+  /**
+   * A resident's flags, open ones first then newest first
+   */
+  static async fetchFlags(client: SupabaseClient, residentId: string): Promise<WeightChangeFlag[]> {
+    const { data, error } = await client
+      .from('weight_change_flags')
+      .select('*, reviewed_by_profile:profiles!reviewed_by(full_name), task:tasks(assigned_to_profile:profiles!assigned_to(full_name))')
+      .eq('resident_id', residentId)
+      .order('status', { ascending: true })
+      .order('created_at', { ascending: false });
+    if (error) throw new Error(`Weight change flags fetch failed: ${error.message}`);
+    return (data as WeightChangeFlag[]) || [];
+  }
+
+  /**
+   * Record a weight. The database flags a significant change, creates the dietitian's task and alerts the charge nurse;
+   * if a flag is already open it escalates that one instead. Returns the flag raised by this weight, if any.
+   */
+  static async recordWeight(
+    client: SupabaseClient,
+    residentId: string,
+    recordedBy: string,
+    values: { measured_at: Date; weight_lb: number; method?: WeightMethod | null; notes?: string | null },
+  ): Promise<WeightChangeFlag | null> {
+    const { data, error } = await client
+      .from('resident_weights')
+      .insert({
+        resident_id: residentId,
+        measured_at: values.measured_at.toISOString(),
+        weight_lb: values.weight_lb,
+        method: values.method || null,
+        notes: values.notes?.trim() || null,
+        recorded_by: recordedBy,
+      })
+      .select('id')
+      .single();
+    if (error) throw new Error(error.message);
+
+    const { data: flag, error: flagError } = await client
+      .from('weight_change_flags')
+      .select('*')
+      .eq('weight_id', data.id)
+      .maybeSingle();
+    if (flagError) throw new Error(`Weight change flag fetch failed: ${flagError.message}`);
+    return flag as WeightChangeFlag | null;
+  }
+
+  /**
+   * Correct a weight recorded wrongly, or void one recorded in error (e.g. for the wrong resident)
+   */
+  static async correctWeight(
+    client: SupabaseClient,
+    weightId: string,
+    correctedBy: string,
+    values: { action: 'CORRECT' | 'VOID'; reason: string; weight_lb?: number | null },
+  ): Promise<void> {
+    if (!values.reason.trim()) {
+      throw new Error('A reason is required');
+    }
+    if (values.action === 'CORRECT' && values.weight_lb == null) {
+      throw new Error('The corrected weight is required');
+    }
+    const { error } = await client
+      .from('resident_weight_corrections')
+      .insert({
+        weight_id: weightId,
+        corrected_by: correctedBy,
+        action: values.action,
+        reason: values.reason.trim(),
+        weight_lb: values.action === 'CORRECT' ? values.weight_lb : null,
+      });
+    if (error) throw new Error(error.message);
+  }
+
+  /**
+   * Record the outcome of a flag's review, which completes the dietitian's task
+   */
+  static async reviewFlag(client: SupabaseClient, flagId: string, notes: string): Promise<void> {
+    if (!notes.trim()) {
+      throw new Error('Review notes are required');
+    }
+    const { error } = await client
+      .from('weight_change_flags')
+      .update({ status: 'REVIEWED', review_notes: notes.trim() })
+      .eq('id', flagId);
+    if (error) throw new Error(error.message);
+  }
+}
@@ -9,6 +9,7 @@ const protectedRoutes = {
   '/dashboard/staff': ['ADMIN', 'STAFF'],
   '/dashboard/family': ['ADMIN', 'FAMILY'],
   '/dashboard/resident': ['ADMIN', 'RESIDENT'],
+  '/print': ['ADMIN', 'STAFF'],
 };
 
 // Auth-related routes that should always pass through
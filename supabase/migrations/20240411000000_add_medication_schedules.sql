@@ -0,0 +1,25 @@
+-- Migration to add structured dosing schedules to medications
+
+-- 1. Add the schedule column
+-- Shape is defined by MedicationSchedule in src/lib/services/MedicationScheduleService.ts:
+--   { "type": "TIMES_OF_DAY", "times": ["08:00", "20:00"] }
+--   { "type": "EVERY_N_HOURS", "interval_hours": 6, "first_dose_time": "06:00" }
+--   { "type": "WEEKDAYS", "weekdays": [1, 3, 5], "times": ["09:00"] }
+--   { "type": "PRN", "min_interval_hours": 4, "max_doses_per_day": 4 }
+--   { "type": "TAPERING", "steps": [{ "days": 3, "dosage": "40mg", "times": ["08:00"] }, ...] }
+-- `frequency` is kept as the human-readable summary of the schedule.
+ALTER TABLE public.medications
+ADD COLUMN schedule JSONB;
+
+-- 2. Make sure anything stored is at least tagged with a known schedule type
+ALTER TABLE public.medications
+ADD CONSTRAINT medications_schedule_type_check CHECK (
+    schedule IS NULL OR
+    schedule->>'type' IN ('TIMES_OF_DAY', 'EVERY_N_HOURS', 'WEEKDAYS', 'PRN', 'TAPERING')
+);
+
+-- 3. Record which scheduled slot a log entry was made against (NULL for unscheduled doses)
+ALTER TABLE public.medication_log
+ADD COLUMN scheduled_for TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX idx_medication_log_scheduled_for ON public.medication_log(scheduled_for);
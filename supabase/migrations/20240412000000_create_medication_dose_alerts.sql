@@ -0,0 +1,28 @@
+-- Migration to record which late-dose alerts have been sent so the dose alert job never repeats one
+
+-- 1. Create medication_dose_alerts table
+CREATE TABLE public.medication_dose_alerts (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+    medication_id UUID NOT NULL REFERENCES public.medications(id) ON DELETE CASCADE,
+    resident_id UUID NOT NULL REFERENCES public.residents(id) ON DELETE CASCADE,
+    scheduled_for TIMESTAMP WITH TIME ZONE NOT NULL,
+    level TEXT NOT NULL CHECK (level IN ('WARNING', 'ALERT')), -- Matches notifications.type
+    UNIQUE (medication_id, scheduled_for, level)
+);
+
+CREATE INDEX idx_medication_dose_alerts_scheduled_for ON public.medication_dose_alerts(scheduled_for);
+
+-- 2. Enable RLS
+ALTER TABLE public.medication_dose_alerts ENABLE ROW LEVEL SECURITY;
+
+-- 3. RLS Policies for medication_dose_alerts
+-- Rows are written by the dose alert job with the service role key, which bypasses RLS
+
+-- Allow ADMIN and STAFF to view sent alerts
+CREATE POLICY "Allow admin and staff to view medication dose alerts"
+ON public.medication_dose_alerts FOR SELECT
+TO authenticated
+USING (
+    (SELECT role FROM public.profiles WHERE id = auth.uid()) IN ('ADMIN', 'STAFF')
+);
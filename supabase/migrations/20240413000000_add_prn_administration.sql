@@ -0,0 +1,97 @@
+-- Migration to capture PRN (as-needed) administration details and effectiveness follow-ups
+
+-- 1. PRN details on the log entry (NULL for scheduled doses)
+ALTER TABLE public.medication_log
+ADD COLUMN prn_indication TEXT,
+ADD COLUMN pain_score SMALLINT CHECK (pain_score BETWEEN 0 AND 10),
+ADD COLUMN prn_override_reason TEXT, -- Why the minimum interval was overridden, if it was
+ADD COLUMN effectiveness_due_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX idx_medication_log_effectiveness_due_at ON public.medication_log(effectiveness_due_at)
+WHERE effectiveness_due_at IS NOT NULL;
+
+-- 2. Create medication_prn_followups table (one re-check per PRN dose)
+CREATE TABLE public.medication_prn_followups (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+    log_id UUID NOT NULL UNIQUE REFERENCES public.medication_log(id) ON DELETE CASCADE,
+    checked_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    outcome TEXT NOT NULL CHECK (outcome IN ('EFFECTIVE', 'PARTIALLY_EFFECTIVE', 'NOT_EFFECTIVE')),
+    pain_score SMALLINT CHECK (pain_score BETWEEN 0 AND 10),
+    notes TEXT
+);
+
+-- 3. Enable RLS
+ALTER TABLE public.medication_prn_followups ENABLE ROW LEVEL SECURITY;
+
+-- 4. RLS Policies for medication_prn_followups
+
+-- Allow ADMIN and STAFF to view follow-ups
+CREATE POLICY "Allow admin and staff to view PRN follow-ups"
+ON public.medication_prn_followups FOR SELECT
+TO authenticated
+USING (
+    (SELECT role FROM public.profiles WHERE id = auth.uid()) IN ('ADMIN', 'STAFF')
+);
+
+-- Allow ADMIN and STAFF to record follow-ups as themselves
+CREATE POLICY "Allow admin and staff to insert PRN follow-ups"
+ON public.medication_prn_followups FOR INSERT
+TO authenticated
+WITH CHECK (
+    (SELECT role FROM public.profiles WHERE id = auth.uid()) IN ('ADMIN', 'STAFF') AND
+    checked_by = auth.uid()
+);
+
+-- 5. Enforce PRN limits when a dose is logged, so two nurses or a stale dialog cannot go past them.
+-- Mirrors PrnService.checkLimits: the daily maximum always blocks; the minimum interval needs an override reason.
+CREATE OR REPLACE FUNCTION public.check_prn_limits()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER -- Sees and locks the medication's doses whatever the caller's RLS
+SET search_path = public
+AS $$
+DECLARE
+    prn JSONB;
+    last_given_at TIMESTAMP WITH TIME ZONE;
+    given_in_last_day INTEGER;
+BEGIN
+    IF NEW.status <> 'GIVEN' THEN
+        RETURN NEW;
+    END IF;
+
+    -- Lock the medication so doses logged at the same moment are checked one after the other
+    SELECT schedule INTO prn
+    FROM medications
+    WHERE id = NEW.medication_id AND schedule->>'type' = 'PRN'
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN NEW;
+    END IF;
+
+    SELECT MAX(administered_at), COUNT(*) FILTER (WHERE administered_at > NEW.administered_at - INTERVAL '24 hours')
+    INTO last_given_at, given_in_last_day
+    FROM medication_log
+    WHERE medication_id = NEW.medication_id
+      AND status = 'GIVEN'
+      AND administered_at <= NEW.administered_at
+      AND administered_at > NEW.administered_at - GREATEST(24, (prn->>'min_interval_hours')::NUMERIC) * INTERVAL '1 hour';
+
+    IF prn->>'max_doses_per_day' IS NOT NULL AND given_in_last_day >= (prn->>'max_doses_per_day')::INTEGER THEN
+        RAISE EXCEPTION 'The maximum of % doses in 24 hours has already been given', prn->>'max_doses_per_day';
+    END IF;
+
+    IF last_given_at IS NOT NULL
+       AND NEW.administered_at < last_given_at + (prn->>'min_interval_hours')::NUMERIC * INTERVAL '1 hour'
+       AND COALESCE(trim(NEW.prn_override_reason), '') = '' THEN
+        RAISE EXCEPTION 'The minimum interval of % hours since the last dose has not passed; record a reason to override it', prn->>'min_interval_hours';
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER medication_log_check_prn_limits
+BEFORE INSERT ON public.medication_log
+FOR EACH ROW EXECUTE FUNCTION public.check_prn_limits();
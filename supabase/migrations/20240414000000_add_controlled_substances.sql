@@ -0,0 +1,120 @@
+-- Migration to add a perpetual inventory for controlled medications
+
+-- 1. Flag controlled medications and how much stock one dose uses
+ALTER TABLE public.medications
+ADD COLUMN is_controlled BOOLEAN NOT NULL DEFAULT FALSE,
+ADD COLUMN count_unit TEXT, -- e.g. 'tablet', 'mL'
+ADD COLUMN units_per_dose NUMERIC NOT NULL DEFAULT 1 CHECK (units_per_dose > 0);
+
+-- 2. Create controlled_substance_ledger table
+-- Every movement of stock is one append-only row; balance_after is the running count on hand.
+CREATE TABLE public.controlled_substance_ledger (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+    entry_number BIGINT GENERATED ALWAYS AS IDENTITY, -- Insert order; created_at ties within a transaction
+    medication_id UUID NOT NULL REFERENCES public.medications(id) ON DELETE CASCADE,
+    resident_id UUID NOT NULL REFERENCES public.residents(id) ON DELETE CASCADE,
+    entry_type TEXT NOT NULL CHECK (entry_type IN ('RECEIVED', 'ADMINISTERED', 'WASTED', 'DESTROYED', 'SHIFT_COUNT')),
+    quantity NUMERIC NOT NULL DEFAULT 0, -- Signed change to the count; 0 for shift counts
+    expected_quantity NUMERIC, -- Shift counts only: balance before the count
+    counted_quantity NUMERIC CHECK (counted_quantity >= 0), -- Shift counts only: physically counted
+    balance_after NUMERIC NOT NULL, -- Set by trigger
+    performed_by UUID NOT NULL REFERENCES public.profiles(id),
+    witnessed_by UUID REFERENCES public.profiles(id),
+    log_id UUID REFERENCES public.medication_log(id) ON DELETE SET NULL, -- ADMINISTERED entries only
+    notes TEXT,
+    -- Everything except an administration needs a second signature from a different person
+    CONSTRAINT controlled_substance_ledger_witness_check CHECK (
+        entry_type = 'ADMINISTERED' OR (witnessed_by IS NOT NULL AND witnessed_by <> performed_by)
+    ),
+    CONSTRAINT controlled_substance_ledger_count_check CHECK (
+        entry_type <> 'SHIFT_COUNT' OR counted_quantity IS NOT NULL
+    )
+);
+
+CREATE INDEX idx_controlled_substance_ledger_medication ON public.controlled_substance_ledger(medication_id, entry_number);
+
+-- 3. Keep the running balance and flag count discrepancies
+CREATE OR REPLACE FUNCTION public.apply_controlled_substance_entry()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER -- Needs to notify admins, which the inserting user cannot do under RLS
+SET search_path = public
+AS $$
+DECLARE
+    previous_balance NUMERIC;
+    medication_name TEXT;
+BEGIN
+    -- Serialise entries per medication so two inserts can't read the same previous balance
+    PERFORM 1 FROM medications WHERE id = NEW.medication_id FOR UPDATE;
+
+    SELECT balance_after INTO previous_balance
+    FROM controlled_substance_ledger
+    WHERE medication_id = NEW.medication_id
+    ORDER BY entry_number DESC
+    LIMIT 1;
+    previous_balance := COALESCE(previous_balance, 0);
+
+    IF NEW.entry_type = 'SHIFT_COUNT' THEN
+        NEW.quantity := 0;
+        NEW.expected_quantity := previous_balance;
+        NEW.balance_after := NEW.counted_quantity;
+
+        IF NEW.counted_quantity <> previous_balance THEN
+            SELECT name INTO medication_name FROM medications WHERE id = NEW.medication_id;
+            INSERT INTO notifications (user_id, title, content, type)
+            SELECT id,
+                   'Controlled Substance Discrepancy',
+                   format('%s count is %s but %s were expected.', medication_name, NEW.counted_quantity, previous_balance),
+                   'ALERT'
+            FROM profiles
+            WHERE role = 'ADMIN';
+        END IF;
+    ELSE
+        NEW.balance_after := previous_balance + NEW.quantity;
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER controlled_substance_ledger_apply
+BEFORE INSERT ON public.controlled_substance_ledger
+FOR EACH ROW EXECUTE FUNCTION public.apply_controlled_substance_entry();
+
+-- 4. Decrement the count whenever a controlled dose is logged as GIVEN
+CREATE OR REPLACE FUNCTION public.record_controlled_administration()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER -- Ledger inserts of ADMINISTERED entries are not allowed directly
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.status = 'GIVEN' THEN
+        INSERT INTO controlled_substance_ledger (medication_id, resident_id, entry_type, quantity, balance_after, performed_by, log_id)
+        SELECT m.id, NEW.resident_id, 'ADMINISTERED', -m.units_per_dose, 0, NEW.administered_by, NEW.id
+        FROM medications m
+        WHERE m.id = NEW.medication_id AND m.is_controlled;
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER medication_log_controlled_administration
+AFTER INSERT ON public.medication_log
+FOR EACH ROW EXECUTE FUNCTION public.record_controlled_administration();
+
+-- 5. Enable RLS
+ALTER TABLE public.controlled_substance_ledger ENABLE ROW LEVEL SECURITY;
+
+-- 6. RLS Policies for controlled_substance_ledger (no UPDATE/DELETE: the ledger is append-only)
+-- No INSERT policy either: receipts, waste and counts go through /api/controlled-substance-entries, which checks the
+-- witness's credentials on the server and inserts with the service role, so a witness cannot be named from the browser.
+
+-- Allow ADMIN and STAFF to view the ledger
+CREATE POLICY "Allow admin and staff to view controlled substance ledger"
+ON public.controlled_substance_ledger FOR SELECT
+TO authenticated
+USING (
+    (SELECT role FROM public.profiles WHERE id = auth.uid()) IN ('ADMIN', 'STAFF')
+);
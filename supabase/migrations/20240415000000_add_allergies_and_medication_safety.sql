@@ -0,0 +1,13 @@
+-- Migration to add structured resident allergies and record prescribing safety overrides
+
+-- 1. Structured allergies on the resident
+-- Shape is defined by ResidentAllergy in src/lib/services/MedicationSafetyService.ts:
+--   [{ "allergen": "Penicillin", "reaction": "Hives", "severity": "SEVERE" }, ...]
+ALTER TABLE public.residents
+ADD COLUMN allergies JSONB NOT NULL DEFAULT '[]'::jsonb
+CONSTRAINT residents_allergies_array_check CHECK (jsonb_typeof(allergies) = 'array');
+
+-- 2. Alerts shown when the medication was prescribed and why they were overridden
+ALTER TABLE public.medications
+ADD COLUMN safety_alerts JSONB, -- SafetyAlert[] acknowledged at prescribe time
+ADD COLUMN safety_override_reason TEXT;
@@ -0,0 +1,158 @@
+-- Migration to add append-only corrections and voids for medication_log entries
+-- Log entries are never updated or deleted; a correction row supersedes the original on the MAR.
+
+-- 1. Create medication_log_corrections table
+CREATE TABLE public.medication_log_corrections (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, clock_timestamp()) NOT NULL, -- Not NOW(): keeps corrections made in one transaction in order
+    log_id UUID NOT NULL REFERENCES public.medication_log(id) ON DELETE CASCADE,
+    corrected_by UUID NOT NULL REFERENCES public.profiles(id),
+    action TEXT NOT NULL CHECK (action IN ('CORRECT', 'VOID')),
+    reason TEXT NOT NULL CHECK (length(trim(reason)) > 0),
+    -- Corrected values (CORRECT only); the latest correction for a log entry wins
+    status TEXT CHECK (status IN ('GIVEN', 'MISSED', 'REFUSED')),
+    administered_at TIMESTAMP WITH TIME ZONE,
+    notes TEXT,
+    CONSTRAINT medication_log_corrections_status_check CHECK (action = 'VOID' OR status IS NOT NULL)
+);
+
+CREATE INDEX idx_medication_log_corrections_log_id ON public.medication_log_corrections(log_id, created_at);
+
+-- 2. Reject corrections to voided entries and keep controlled substance counts in step
+CREATE OR REPLACE FUNCTION public.apply_medication_log_correction()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER -- Ledger inserts of ADMINISTERED entries are not allowed directly
+SET search_path = public
+AS $$
+DECLARE
+    original medication_log%ROWTYPE;
+    previous medication_log_corrections%ROWTYPE;
+    previous_status TEXT;
+    new_status TEXT;
+    dose_units NUMERIC;
+BEGIN
+    SELECT * INTO original FROM medication_log WHERE id = NEW.log_id;
+
+    SELECT * INTO previous
+    FROM medication_log_corrections
+    WHERE log_id = NEW.log_id
+    ORDER BY created_at DESC, id DESC
+    LIMIT 1;
+
+    IF FOUND AND previous.action = 'VOID' THEN
+        RAISE EXCEPTION 'Medication log entry % has been voided and cannot be corrected', NEW.log_id;
+    END IF;
+
+    previous_status := COALESCE(previous.status, original.status);
+    new_status := CASE WHEN NEW.action = 'VOID' THEN 'VOID' ELSE NEW.status END;
+
+    -- Only a change into or out of GIVEN moves stock
+    IF (previous_status = 'GIVEN') <> (new_status = 'GIVEN') THEN
+        SELECT units_per_dose INTO dose_units
+        FROM medications
+        WHERE id = original.medication_id AND is_controlled;
+
+        IF dose_units IS NOT NULL THEN
+            INSERT INTO controlled_substance_ledger (medication_id, resident_id, entry_type, quantity, balance_after, performed_by, log_id, notes)
+            VALUES (
+                original.medication_id,
+                original.resident_id,
+                'ADMINISTERED',
+                CASE WHEN new_status = 'GIVEN' THEN -dose_units ELSE dose_units END,
+                0,
+                NEW.corrected_by,
+                original.id,
+                format('Dose log %s: %s', lower(NEW.action), NEW.reason)
+            );
+        END IF;
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER medication_log_corrections_apply
+BEFORE INSERT ON public.medication_log_corrections
+FOR EACH ROW EXECUTE FUNCTION public.apply_medication_log_correction();
+
+-- 3. Enable RLS
+ALTER TABLE public.medication_log_corrections ENABLE ROW LEVEL SECURITY;
+
+-- 4. RLS Policies for medication_log_corrections (no UPDATE/DELETE: corrections are append-only too)
+
+-- Allow ADMIN and STAFF to view corrections
+CREATE POLICY "Allow admin and staff to view medication log corrections"
+ON public.medication_log_corrections FOR SELECT
+TO authenticated
+USING (
+    (SELECT role FROM public.profiles WHERE id = auth.uid()) IN ('ADMIN', 'STAFF')
+);
+
+-- Allow ADMIN and STAFF to record corrections as themselves
+CREATE POLICY "Allow admin and staff to insert medication log corrections"
+ON public.medication_log_corrections FOR INSERT
+TO authenticated
+WITH CHECK (
+    (SELECT role FROM public.profiles WHERE id = auth.uid()) IN ('ADMIN', 'STAFF') AND
+    corrected_by = auth.uid()
+);
+
+-- 5. PRN limits count doses as corrected: voided doses and doses corrected out of GIVEN no longer count
+CREATE OR REPLACE FUNCTION public.check_prn_limits()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER -- Sees and locks the medication's doses whatever the caller's RLS
+SET search_path = public
+AS $$
+DECLARE
+    prn JSONB;
+    last_given_at TIMESTAMP WITH TIME ZONE;
+    given_in_last_day INTEGER;
+BEGIN
+    IF NEW.status <> 'GIVEN' THEN
+        RETURN NEW;
+    END IF;
+
+    -- Lock the medication so doses logged at the same moment are checked one after the other
+    SELECT schedule INTO prn
+    FROM medications
+    WHERE id = NEW.medication_id AND schedule->>'type' = 'PRN'
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN NEW;
+    END IF;
+
+    SELECT MAX(effective.administered_at), COUNT(*) FILTER (WHERE effective.administered_at > NEW.administered_at - INTERVAL '24 hours')
+    INTO last_given_at, given_in_last_day
+    FROM medication_log l
+    LEFT JOIN LATERAL (
+        SELECT c.action, c.status, c.administered_at
+        FROM medication_log_corrections c
+        WHERE c.log_id = l.id
+        ORDER BY c.created_at DESC, c.id DESC
+        LIMIT 1
+    ) latest ON TRUE
+    CROSS JOIN LATERAL (
+        SELECT COALESCE(latest.status, l.status) AS status, COALESCE(latest.administered_at, l.administered_at) AS administered_at
+    ) effective
+    WHERE l.medication_id = NEW.medication_id
+      AND latest.action IS DISTINCT FROM 'VOID'
+      AND effective.status = 'GIVEN'
+      AND effective.administered_at <= NEW.administered_at
+      AND effective.administered_at > NEW.administered_at - GREATEST(24, (prn->>'min_interval_hours')::NUMERIC) * INTERVAL '1 hour';
+
+    IF prn->>'max_doses_per_day' IS NOT NULL AND given_in_last_day >= (prn->>'max_doses_per_day')::INTEGER THEN
+        RAISE EXCEPTION 'The maximum of % doses in 24 hours has already been given', prn->>'max_doses_per_day';
+    END IF;
+
+    IF last_given_at IS NOT NULL
+       AND NEW.administered_at < last_given_at + (prn->>'min_interval_hours')::NUMERIC * INTERVAL '1 hour'
+       AND COALESCE(trim(NEW.prn_override_reason), '') = '' THEN
+        RAISE EXCEPTION 'The minimum interval of % hours since the last dose has not passed; record a reason to override it', prn->>'min_interval_hours';
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
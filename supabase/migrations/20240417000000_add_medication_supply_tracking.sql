@@ -0,0 +1,145 @@
+-- Migration to track pharmacy fills and the quantity of each medication on hand
+
+-- 1. Supply columns on medications (quantity_on_hand NULL means supply is not tracked)
+ALTER TABLE public.medications
+ADD COLUMN quantity_on_hand NUMERIC CHECK (quantity_on_hand >= 0),
+ADD COLUMN reorder_lead_days INTEGER NOT NULL DEFAULT 7 CHECK (reorder_lead_days BETWEEN 1 AND 60),
+ADD COLUMN reorder_notified_at TIMESTAMP WITH TIME ZONE; -- Cleared by the next fill
+
+-- 2. Create medication_fills table
+CREATE TABLE public.medication_fills (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+    medication_id UUID NOT NULL REFERENCES public.medications(id) ON DELETE CASCADE,
+    resident_id UUID NOT NULL REFERENCES public.residents(id) ON DELETE CASCADE,
+    quantity NUMERIC NOT NULL CHECK (quantity > 0), -- In the same units as medications.units_per_dose
+    filled_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    pharmacy TEXT,
+    prescription_number TEXT,
+    recorded_by UUID NOT NULL REFERENCES public.profiles(id),
+    notes TEXT
+);
+
+CREATE INDEX idx_medication_fills_medication_id ON public.medication_fills(medication_id);
+
+-- 3. Add each fill to the quantity on hand
+CREATE OR REPLACE FUNCTION public.apply_medication_fill()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER -- Staff have no UPDATE policy on medications
+SET search_path = public
+AS $$
+BEGIN
+    UPDATE medications
+    SET quantity_on_hand = COALESCE(quantity_on_hand, 0) + NEW.quantity,
+        reorder_notified_at = NULL
+    WHERE id = NEW.medication_id;
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER medication_fills_apply
+AFTER INSERT ON public.medication_fills
+FOR EACH ROW EXECUTE FUNCTION public.apply_medication_fill();
+
+-- 4. Deduct a dose from the quantity on hand whenever one is logged as GIVEN
+CREATE OR REPLACE FUNCTION public.deduct_medication_supply()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.status = 'GIVEN' THEN
+        UPDATE medications
+        SET quantity_on_hand = GREATEST(quantity_on_hand - units_per_dose, 0)
+        WHERE id = NEW.medication_id AND quantity_on_hand IS NOT NULL;
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER medication_log_deduct_supply
+AFTER INSERT ON public.medication_log
+FOR EACH ROW EXECUTE FUNCTION public.deduct_medication_supply();
+
+-- 5. Corrections into or out of GIVEN also move the quantity on hand
+-- (replaces the function from 20240416000000_create_medication_log_corrections.sql)
+CREATE OR REPLACE FUNCTION public.apply_medication_log_correction()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER -- Ledger inserts of ADMINISTERED entries are not allowed directly
+SET search_path = public
+AS $$
+DECLARE
+    original medication_log%ROWTYPE;
+    previous medication_log_corrections%ROWTYPE;
+    previous_status TEXT;
+    new_status TEXT;
+    medication medications%ROWTYPE;
+    change NUMERIC;
+BEGIN
+    SELECT * INTO original FROM medication_log WHERE id = NEW.log_id;
+
+    SELECT * INTO previous
+    FROM medication_log_corrections
+    WHERE log_id = NEW.log_id
+    ORDER BY created_at DESC, id DESC
+    LIMIT 1;
+
+    IF FOUND AND previous.action = 'VOID' THEN
+        RAISE EXCEPTION 'Medication log entry % has been voided and cannot be corrected', NEW.log_id;
+    END IF;
+
+    previous_status := COALESCE(previous.status, original.status);
+    new_status := CASE WHEN NEW.action = 'VOID' THEN 'VOID' ELSE NEW.status END;
+
+    -- Only a change into or out of GIVEN moves stock
+    IF (previous_status = 'GIVEN') <> (new_status = 'GIVEN') THEN
+        SELECT * INTO medication FROM medications WHERE id = original.medication_id;
+        change := CASE WHEN new_status = 'GIVEN' THEN -medication.units_per_dose ELSE medication.units_per_dose END;
+
+        IF medication.is_controlled THEN
+            INSERT INTO controlled_substance_ledger (medication_id, resident_id, entry_type, quantity, balance_after, performed_by, log_id, notes)
+            VALUES (
+                original.medication_id,
+                original.resident_id,
+                'ADMINISTERED',
+                change,
+                0,
+                NEW.corrected_by,
+                original.id,
+                format('Dose log %s: %s', lower(NEW.action), NEW.reason)
+            );
+        END IF;
+
+        UPDATE medications
+        SET quantity_on_hand = GREATEST(quantity_on_hand + change, 0)
+        WHERE id = original.medication_id AND quantity_on_hand IS NOT NULL;
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+-- 6. Enable RLS
+ALTER TABLE public.medication_fills ENABLE ROW LEVEL SECURITY;
+
+-- 7. RLS Policies for medication_fills
+
+-- Allow ADMIN and STAFF to view fills
+CREATE POLICY "Allow admin and staff to view medication fills"
+ON public.medication_fills FOR SELECT
+TO authenticated
+USING (
+    (SELECT role FROM public.profiles WHERE id = auth.uid()) IN ('ADMIN', 'STAFF')
+);
+
+-- Allow ADMIN and STAFF to record fills as themselves
+CREATE POLICY "Allow admin and staff to insert medication fills"
+ON public.medication_fills FOR INSERT
+TO authenticated
+WITH CHECK (
+    (SELECT role FROM public.profiles WHERE id = auth.uid()) IN ('ADMIN', 'STAFF') AND
+    recorded_by = auth.uid()
+);
@@ -0,0 +1,189 @@
+-- Migration to replace the free-form incident status with a workflow and a status history
+
+-- 1. Move existing incidents onto the workflow statuses
+ALTER TABLE public.incidents DROP CONSTRAINT IF EXISTS incidents_status_check;
+
+UPDATE public.incidents SET status = CASE status
+    WHEN 'OPEN' THEN 'REPORTED'
+    WHEN 'IN_PROGRESS' THEN 'INVESTIGATING'
+    WHEN 'RESOLVED' THEN 'CLOSED'
+    ELSE status
+END;
+
+ALTER TABLE public.incidents
+ADD CONSTRAINT incidents_status_check CHECK (status IN ('REPORTED', 'UNDER_REVIEW', 'INVESTIGATING', 'ACTION_PLAN', 'CLOSED', 'REOPENED')),
+ALTER COLUMN status SET DEFAULT 'REPORTED',
+ADD COLUMN root_cause TEXT,
+ADD COLUMN action_plan TEXT,
+ADD COLUMN closed_at TIMESTAMP WITH TIME ZONE;
+
+-- 2. Create incident_status_history table (append-only; inserting a row performs the transition)
+CREATE TABLE public.incident_status_history (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+    incident_id UUID NOT NULL REFERENCES public.incidents(id) ON DELETE CASCADE,
+    from_status TEXT, -- NULL for the entry recorded when the incident is reported; set by the trigger otherwise
+    to_status TEXT NOT NULL CHECK (to_status IN ('REPORTED', 'UNDER_REVIEW', 'INVESTIGATING', 'ACTION_PLAN', 'CLOSED', 'REOPENED')),
+    changed_by UUID REFERENCES public.profiles(id),
+    comment TEXT,
+    -- Fields supplied with the transition, copied onto the incident
+    assigned_to UUID REFERENCES public.profiles(id),
+    root_cause TEXT,
+    action_plan TEXT
+);
+
+CREATE INDEX idx_incident_status_history_incident_id ON public.incident_status_history(incident_id);
+
+-- Backfill existing incidents before the triggers below exist
+INSERT INTO public.incident_status_history (created_at, incident_id, from_status, to_status, changed_by, comment)
+SELECT created_at, id, NULL, 'REPORTED', reported_by, 'Incident reported'
+FROM public.incidents;
+
+INSERT INTO public.incident_status_history (incident_id, from_status, to_status, comment)
+SELECT id, 'REPORTED', status, 'Status carried over from the previous incident tracker'
+FROM public.incidents
+WHERE status <> 'REPORTED';
+
+-- 3. Validate and apply a transition before its history row is stored
+CREATE OR REPLACE FUNCTION public.apply_incident_transition()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER -- Direct status updates are blocked by incidents_guard_status
+SET search_path = public
+AS $$
+DECLARE
+    incident incidents%ROWTYPE;
+    next_assignee UUID;
+    next_root_cause TEXT;
+    next_action_plan TEXT;
+BEGIN
+    SELECT * INTO incident FROM incidents WHERE id = NEW.incident_id FOR UPDATE;
+
+    -- The initial entry is written by record_incident_reported
+    IF NEW.from_status IS NULL AND NEW.to_status = 'REPORTED'
+       AND NOT EXISTS (SELECT 1 FROM incident_status_history WHERE incident_id = NEW.incident_id) THEN
+        RETURN NEW;
+    END IF;
+
+    NEW.from_status := incident.status;
+
+    IF NOT (
+        (incident.status = 'REPORTED' AND NEW.to_status = 'UNDER_REVIEW') OR
+        (incident.status = 'UNDER_REVIEW' AND NEW.to_status IN ('INVESTIGATING', 'CLOSED')) OR
+        (incident.status = 'INVESTIGATING' AND NEW.to_status = 'ACTION_PLAN') OR
+        (incident.status = 'ACTION_PLAN' AND NEW.to_status IN ('INVESTIGATING', 'CLOSED')) OR
+        (incident.status = 'CLOSED' AND NEW.to_status = 'REOPENED') OR
+        (incident.status = 'REOPENED' AND NEW.to_status IN ('UNDER_REVIEW', 'INVESTIGATING'))
+    ) THEN
+        RAISE EXCEPTION 'Incident cannot move from % to %', incident.status, NEW.to_status;
+    END IF;
+
+    next_assignee := COALESCE(NEW.assigned_to, incident.assigned_to);
+    next_root_cause := COALESCE(NULLIF(trim(NEW.root_cause), ''), incident.root_cause);
+    next_action_plan := COALESCE(NULLIF(trim(NEW.action_plan), ''), incident.action_plan);
+
+    -- Fields required by each target status
+    IF NEW.to_status = 'UNDER_REVIEW' AND next_assignee IS NULL THEN
+        RAISE EXCEPTION 'Assign a reviewer before putting the incident under review';
+    END IF;
+    IF NEW.to_status IN ('ACTION_PLAN', 'CLOSED') AND next_root_cause IS NULL THEN
+        RAISE EXCEPTION 'A root cause is required before moving to %', NEW.to_status;
+    END IF;
+    IF NEW.to_status = 'CLOSED' AND next_action_plan IS NULL THEN
+        RAISE EXCEPTION 'An action plan (or why none is needed) is required before closing';
+    END IF;
+    IF NEW.to_status = 'REOPENED' AND COALESCE(trim(NEW.comment), '') = '' THEN
+        RAISE EXCEPTION 'A reason is required to reopen an incident';
+    END IF;
+
+    PERFORM set_config('app.incident_transition', 'on', true);
+    UPDATE incidents
+    SET status = NEW.to_status,
+        assigned_to = next_assignee,
+        root_cause = next_root_cause,
+        action_plan = next_action_plan,
+        closed_at = CASE WHEN NEW.to_status = 'CLOSED' THEN NOW() ELSE NULL END
+    WHERE id = NEW.incident_id;
+    PERFORM set_config('app.incident_transition', 'off', true);
+
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER incident_status_history_apply
+BEFORE INSERT ON public.incident_status_history
+FOR EACH ROW EXECUTE FUNCTION public.apply_incident_transition();
+
+-- 4. Status only changes through a history entry
+CREATE OR REPLACE FUNCTION public.guard_incident_status()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    IF NEW.status IS DISTINCT FROM OLD.status
+       AND current_setting('app.incident_transition', true) IS DISTINCT FROM 'on' THEN
+        RAISE EXCEPTION 'Incident status must be changed through incident_status_history';
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER incidents_guard_status
+BEFORE UPDATE ON public.incidents
+FOR EACH ROW EXECUTE FUNCTION public.guard_incident_status();
+
+-- 5. Record the initial REPORTED entry for new incidents
+CREATE OR REPLACE FUNCTION public.record_incident_reported()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    -- Incidents must start in REPORTED; anything else goes through the workflow
+    IF NEW.status <> 'REPORTED' THEN
+        RAISE EXCEPTION 'New incidents must be created as REPORTED';
+    END IF;
+
+    INSERT INTO incident_status_history (incident_id, from_status, to_status, changed_by, comment)
+    VALUES (NEW.id, NULL, 'REPORTED', NEW.reported_by, 'Incident reported');
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER incidents_record_reported
+AFTER INSERT ON public.incidents
+FOR EACH ROW EXECUTE FUNCTION public.record_incident_reported();
+
+-- 6. Enable RLS
+ALTER TABLE public.incident_status_history ENABLE ROW LEVEL SECURITY;
+
+-- 7. RLS Policies
+
+-- Incidents had no UPDATE policy, so edits were silently dropped
+CREATE POLICY "Allow admin and staff to update incidents"
+ON public.incidents FOR UPDATE
+TO authenticated
+USING (
+    (SELECT role FROM public.profiles WHERE id = auth.uid()) IN ('ADMIN', 'STAFF')
+)
+WITH CHECK (
+    (SELECT role FROM public.profiles WHERE id = auth.uid()) IN ('ADMIN', 'STAFF')
+);
+
+-- Allow ADMIN and STAFF to view incident history
+CREATE POLICY "Allow admin and staff to view incident status history"
+ON public.incident_status_history FOR SELECT
+TO authenticated
+USING (
+    (SELECT role FROM public.profiles WHERE id = auth.uid()) IN ('ADMIN', 'STAFF')
+);
+
+-- Allow ADMIN and STAFF to transition incidents as themselves (no UPDATE or DELETE: history is append-only)
+CREATE POLICY "Allow admin and staff to insert incident status history"
+ON public.incident_status_history FOR INSERT
+TO authenticated
+WITH CHECK (
+    (SELECT role FROM public.profiles WHERE id = auth.uid()) IN ('ADMIN', 'STAFF') AND
+    changed_by = auth.uid()
+);
@@ -0,0 +1,89 @@
+-- Migration to link family members to residents and alert admins and family about CRITICAL incidents
+
+-- 1. Create family_resident_links table
+CREATE TABLE public.family_resident_links (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+    family_profile_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    resident_id UUID NOT NULL REFERENCES public.residents(id) ON DELETE CASCADE,
+    relationship TEXT, -- e.g. Son, Daughter, Spouse
+    UNIQUE (family_profile_id, resident_id)
+);
+
+CREATE INDEX idx_family_resident_links_resident_id ON public.family_resident_links(resident_id);
+
+-- 2. Notify every admin and the resident's linked family when an incident becomes CRITICAL
+CREATE OR REPLACE FUNCTION public.notify_critical_incident()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER -- Needs to notify other users, which the reporting user cannot do under RLS
+SET search_path = public
+AS $$
+DECLARE
+    resident_name TEXT;
+BEGIN
+    IF NEW.severity <> 'CRITICAL' OR (TG_OP = 'UPDATE' AND OLD.severity = 'CRITICAL') THEN
+        RETURN NEW;
+    END IF;
+
+    SELECT p.full_name INTO resident_name
+    FROM residents r
+    JOIN profiles p ON p.id = r.profile_id
+    WHERE r.id = NEW.resident_id;
+
+    INSERT INTO notifications (user_id, title, content, type)
+    SELECT id,
+           'Critical Incident',
+           format('%s: %s', COALESCE(resident_name, 'Unknown resident'), NEW.title),
+           'ALERT'
+    FROM profiles
+    WHERE role = 'ADMIN';
+
+    -- Family get a plain-language notice rather than the internal incident title
+    INSERT INTO notifications (user_id, title, content, type)
+    SELECT l.family_profile_id,
+           'Critical Incident',
+           format('A critical incident involving %s has been reported. Staff are responding; please contact the facility for details.', COALESCE(resident_name, 'your family member')),
+           'ALERT'
+    FROM family_resident_links l
+    JOIN profiles p ON p.id = l.family_profile_id
+    WHERE l.resident_id = NEW.resident_id
+    AND p.role = 'FAMILY';
+
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER incidents_notify_critical
+AFTER INSERT OR UPDATE OF severity ON public.incidents
+FOR EACH ROW EXECUTE FUNCTION public.notify_critical_incident();
+
+-- 3. Enable RLS
+ALTER TABLE public.family_resident_links ENABLE ROW LEVEL SECURITY;
+
+-- 4. RLS Policies
+
+-- Allow ADMIN and STAFF to view all links, and family members to view their own
+CREATE POLICY "Allow admin, staff and linked family to view family links"
+ON public.family_resident_links FOR SELECT
+TO authenticated
+USING (
+    family_profile_id = auth.uid() OR
+    (SELECT role FROM public.profiles WHERE id = auth.uid()) IN ('ADMIN', 'STAFF')
+);
+
+-- Allow ADMIN and STAFF to link family members to residents
+CREATE POLICY "Allow admin and staff to insert family links"
+ON public.family_resident_links FOR INSERT
+TO authenticated
+WITH CHECK (
+    (SELECT role FROM public.profiles WHERE id = auth.uid()) IN ('ADMIN', 'STAFF')
+);
+
+-- Allow ADMIN and STAFF to remove links
+CREATE POLICY "Allow admin and staff to delete family links"
+ON public.family_resident_links FOR DELETE
+TO authenticated
+USING (
+    (SELECT role FROM public.profiles WHERE id = auth.uid()) IN ('ADMIN', 'STAFF')
+);
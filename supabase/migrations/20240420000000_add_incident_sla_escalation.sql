@@ -0,0 +1,108 @@
+-- Migration to track incident SLAs (acknowledgement and resolution) and record escalations
+
+-- 1. Supervisors, who are notified first when an assignee misses an SLA
+ALTER TABLE public.profiles
+ADD COLUMN supervisor_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+ADD CONSTRAINT profiles_supervisor_not_self CHECK (supervisor_id <> id);
+
+-- Escalations follow supervisor_id, so only admins may change it. The baseline "Users can update their own profile"
+-- policy has no WITH CHECK, so the column is guarded by a trigger; later routing columns are added to this function.
+CREATE OR REPLACE FUNCTION public.guard_profile_routing()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    -- No signed-in user: the service role or a migration
+    IF auth.uid() IS NULL OR public.get_my_role() = 'ADMIN' THEN
+        RETURN NEW;
+    END IF;
+    IF NEW.supervisor_id IS DISTINCT FROM OLD.supervisor_id THEN
+        RAISE EXCEPTION 'Only admins can change a profile''s supervisor';
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER profiles_guard_routing
+BEFORE UPDATE ON public.profiles
+FOR EACH ROW EXECUTE FUNCTION public.guard_profile_routing();
+
+-- 2. When an incident was first acknowledged (moved on from REPORTED) and last reopened; the resolve SLA
+-- restarts when an incident is reopened
+ALTER TABLE public.incidents
+ADD COLUMN acknowledged_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN reopened_at TIMESTAMP WITH TIME ZONE;
+
+UPDATE public.incidents i
+SET acknowledged_at = h.first_transition
+FROM (
+    SELECT incident_id, MIN(created_at) AS first_transition
+    FROM public.incident_status_history
+    WHERE from_status IS NOT NULL
+    GROUP BY incident_id
+) h
+WHERE h.incident_id = i.id;
+
+UPDATE public.incidents i
+SET reopened_at = h.last_reopened
+FROM (
+    SELECT incident_id, MAX(created_at) AS last_reopened
+    FROM public.incident_status_history
+    WHERE to_status = 'REOPENED'
+    GROUP BY incident_id
+) h
+WHERE h.incident_id = i.id;
+
+CREATE OR REPLACE FUNCTION public.record_incident_sla_times()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.from_status IS NOT NULL THEN
+        UPDATE incidents
+        SET acknowledged_at = NEW.created_at
+        WHERE id = NEW.incident_id AND acknowledged_at IS NULL;
+    END IF;
+    IF NEW.to_status = 'REOPENED' THEN
+        UPDATE incidents
+        SET reopened_at = NEW.created_at
+        WHERE id = NEW.incident_id;
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER incident_status_history_sla_times
+AFTER INSERT ON public.incident_status_history
+FOR EACH ROW EXECUTE FUNCTION public.record_incident_sla_times();
+
+-- 3. Create incident_sla_escalations table (one row per incident, SLA, level and deadline, so the job never repeats
+-- one; a reopened incident has a new resolve deadline and can be escalated again)
+CREATE TABLE public.incident_sla_escalations (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+    incident_id UUID NOT NULL REFERENCES public.incidents(id) ON DELETE CASCADE,
+    sla TEXT NOT NULL CHECK (sla IN ('ACKNOWLEDGE', 'RESOLVE')),
+    level TEXT NOT NULL CHECK (level IN ('SUPERVISOR', 'ADMIN')),
+    due_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    notified_profile_ids UUID[] NOT NULL DEFAULT '{}',
+    UNIQUE (incident_id, sla, level, due_at)
+);
+
+CREATE INDEX idx_incident_sla_escalations_incident_id ON public.incident_sla_escalations(incident_id);
+
+-- 4. Enable RLS
+ALTER TABLE public.incident_sla_escalations ENABLE ROW LEVEL SECURITY;
+
+-- 5. RLS Policies
+-- Escalations are written by the escalation job with the service role key, which bypasses RLS
+
+-- Allow ADMIN and STAFF to view escalations
+CREATE POLICY "Allow admin and staff to view incident SLA escalations"
+ON public.incident_sla_escalations FOR SELECT
+TO authenticated
+USING (
+    (SELECT role FROM public.profiles WHERE id = auth.uid()) IN ('ADMIN', 'STAFF')
+);
@@ -0,0 +1,9 @@
+-- Add RLS policy to allow admins to update any profile (e.g. to assign supervisors)
+-- Profiles could only be updated by their owner, so admins could not edit staff.
+-- get_my_role() reads profiles as SECURITY DEFINER, avoiding a recursive policy on profiles itself
+
+CREATE POLICY "Admins can update all profiles"
+ON public.profiles FOR UPDATE
+TO authenticated
+USING (public.get_my_role() = 'ADMIN')
+WITH CHECK (public.get_my_role() = 'ADMIN');
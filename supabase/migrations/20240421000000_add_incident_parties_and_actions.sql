@@ -0,0 +1,136 @@
+-- Migration to record the people involved in an incident, witness statements and follow-up actions
+
+-- 1. Create incident_involved_parties table (residents or staff involved besides the incident's resident)
+CREATE TABLE public.incident_involved_parties (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+    incident_id UUID NOT NULL REFERENCES public.incidents(id) ON DELETE CASCADE,
+    resident_id UUID REFERENCES public.residents(id) ON DELETE CASCADE,
+    profile_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE, -- Staff or admin
+    involvement TEXT, -- e.g. "Injured", "Other party in altercation"
+    added_by UUID NOT NULL REFERENCES public.profiles(id),
+    CONSTRAINT incident_involved_parties_one_party CHECK ((resident_id IS NULL) <> (profile_id IS NULL))
+);
+
+CREATE INDEX idx_incident_involved_parties_incident_id ON public.incident_involved_parties(incident_id);
+CREATE UNIQUE INDEX idx_incident_involved_parties_resident ON public.incident_involved_parties(incident_id, resident_id) WHERE resident_id IS NOT NULL;
+CREATE UNIQUE INDEX idx_incident_involved_parties_profile ON public.incident_involved_parties(incident_id, profile_id) WHERE profile_id IS NOT NULL;
+
+-- 2. Create incident_witness_statements table (append-only: a witness adds a new statement to amend one)
+CREATE TABLE public.incident_witness_statements (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+    incident_id UUID NOT NULL REFERENCES public.incidents(id) ON DELETE CASCADE,
+    witness_id UUID NOT NULL REFERENCES public.profiles(id),
+    statement TEXT NOT NULL CHECK (length(trim(statement)) > 0),
+    recorded_by UUID NOT NULL REFERENCES public.profiles(id) -- The witness, or whoever took the statement down
+);
+
+CREATE INDEX idx_incident_witness_statements_incident_id ON public.incident_witness_statements(incident_id);
+
+-- 3. Create incident_follow_up_actions table
+CREATE TABLE public.incident_follow_up_actions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+    incident_id UUID NOT NULL REFERENCES public.incidents(id) ON DELETE CASCADE,
+    description TEXT NOT NULL CHECK (length(trim(description)) > 0),
+    owner_id UUID NOT NULL REFERENCES public.profiles(id),
+    due_date DATE NOT NULL,
+    created_by UUID NOT NULL REFERENCES public.profiles(id),
+    completed_at TIMESTAMP WITH TIME ZONE,
+    completed_by UUID REFERENCES public.profiles(id),
+    completion_notes TEXT,
+    CONSTRAINT incident_follow_up_actions_completion CHECK ((completed_at IS NULL) = (completed_by IS NULL))
+);
+
+CREATE INDEX idx_incident_follow_up_actions_incident_id ON public.incident_follow_up_actions(incident_id);
+CREATE INDEX idx_incident_follow_up_actions_open_due ON public.incident_follow_up_actions(due_date) WHERE completed_at IS NULL;
+
+-- 4. Enable RLS
+ALTER TABLE public.incident_involved_parties ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.incident_witness_statements ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.incident_follow_up_actions ENABLE ROW LEVEL SECURITY;
+
+-- 5. RLS Policies for incident_involved_parties
+
+-- Allow ADMIN and STAFF to view involved parties
+CREATE POLICY "Allow admin and staff to view incident involved parties"
+ON public.incident_involved_parties FOR SELECT
+TO authenticated
+USING (
+    (SELECT role FROM public.profiles WHERE id = auth.uid()) IN ('ADMIN', 'STAFF')
+);
+
+-- Allow ADMIN and STAFF to add involved parties as themselves
+CREATE POLICY "Allow admin and staff to insert incident involved parties"
+ON public.incident_involved_parties FOR INSERT
+TO authenticated
+WITH CHECK (
+    (SELECT role FROM public.profiles WHERE id = auth.uid()) IN ('ADMIN', 'STAFF') AND
+    added_by = auth.uid()
+);
+
+-- Allow ADMIN and STAFF to remove involved parties added by mistake
+CREATE POLICY "Allow admin and staff to delete incident involved parties"
+ON public.incident_involved_parties FOR DELETE
+TO authenticated
+USING (
+    (SELECT role FROM public.profiles WHERE id = auth.uid()) IN ('ADMIN', 'STAFF')
+);
+
+-- 6. RLS Policies for incident_witness_statements
+
+-- Allow ADMIN and STAFF to view witness statements
+CREATE POLICY "Allow admin and staff to view incident witness statements"
+ON public.incident_witness_statements FOR SELECT
+TO authenticated
+USING (
+    (SELECT role FROM public.profiles WHERE id = auth.uid()) IN ('ADMIN', 'STAFF')
+);
+
+-- Allow ADMIN and STAFF to record statements as themselves (no UPDATE or DELETE: statements are append-only)
+CREATE POLICY "Allow admin and staff to insert incident witness statements"
+ON public.incident_witness_statements FOR INSERT
+TO authenticated
+WITH CHECK (
+    (SELECT role FROM public.profiles WHERE id = auth.uid()) IN ('ADMIN', 'STAFF') AND
+    recorded_by = auth.uid()
+);
+
+-- 7. RLS Policies for incident_follow_up_actions
+
+-- Allow ADMIN and STAFF to view follow-up actions
+CREATE POLICY "Allow admin and staff to view incident follow-up actions"
+ON public.incident_follow_up_actions FOR SELECT
+TO authenticated
+USING (
+    (SELECT role FROM public.profiles WHERE id = auth.uid()) IN ('ADMIN', 'STAFF')
+);
+
+-- Allow ADMIN and STAFF to create follow-up actions as themselves
+CREATE POLICY "Allow admin and staff to insert incident follow-up actions"
+ON public.incident_follow_up_actions FOR INSERT
+TO authenticated
+WITH CHECK (
+    (SELECT role FROM public.profiles WHERE id = auth.uid()) IN ('ADMIN', 'STAFF') AND
+    created_by = auth.uid()
+);
+
+-- Allow ADMIN and STAFF to reschedule and complete follow-up actions
+CREATE POLICY "Allow admin and staff to update incident follow-up actions"
+ON public.incident_follow_up_actions FOR UPDATE
+TO authenticated
+USING (
+    (SELECT role FROM public.profiles WHERE id = auth.uid()) IN ('ADMIN', 'STAFF')
+)
+WITH CHECK (
+    (SELECT role FROM public.profiles WHERE id = auth.uid()) IN ('ADMIN', 'STAFF')
+);
+
+-- Allow ADMIN to delete follow-up actions
+CREATE POLICY "Allow admin to delete incident follow-up actions"
+ON public.incident_follow_up_actions FOR DELETE
+TO authenticated
+USING (
+    (SELECT role FROM public.profiles WHERE id = auth.uid()) = 'ADMIN'
+);
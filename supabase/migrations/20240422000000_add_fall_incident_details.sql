@@ -0,0 +1,90 @@
+-- Migration to add incident types and a structured record for falls
+
+-- 1. Incident type; existing incidents become OTHER
+ALTER TABLE public.incidents
+ADD COLUMN incident_type TEXT NOT NULL DEFAULT 'OTHER'
+    CHECK (incident_type IN ('FALL', 'MEDICATION_ERROR', 'BEHAVIORAL', 'SKIN_INJURY', 'ELOPEMENT', 'OTHER'));
+
+CREATE INDEX idx_incidents_incident_type ON public.incidents(incident_type);
+
+-- 2. Create incident_fall_details table (one row per FALL incident)
+CREATE TABLE public.incident_fall_details (
+    incident_id UUID PRIMARY KEY REFERENCES public.incidents(id) ON DELETE CASCADE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+    occurred_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    location TEXT NOT NULL CHECK (location IN ('BEDROOM', 'BATHROOM', 'HALLWAY', 'DINING_ROOM', 'COMMON_AREA', 'OUTDOORS', 'OTHER')),
+    location_detail TEXT,
+    activity TEXT NOT NULL CHECK (activity IN ('TRANSFERRING', 'WALKING', 'TOILETING', 'STANDING', 'SITTING', 'IN_BED', 'REACHING', 'UNKNOWN', 'OTHER')),
+    footwear TEXT NOT NULL CHECK (footwear IN ('NON_SLIP', 'SHOES', 'SLIPPERS', 'SOCKS', 'BAREFOOT', 'UNKNOWN')),
+    witnessed BOOLEAN NOT NULL,
+    head_strike BOOLEAN NOT NULL, -- Known or suspected; unwitnessed falls are usually treated as a suspected head strike
+    neuro_check_protocol TEXT NOT NULL CHECK (neuro_check_protocol IN ('NONE', 'STANDARD_72H')),
+    injury_sites TEXT[] NOT NULL DEFAULT '{}' -- Body map region codes, e.g. HEAD, LEFT_HIP
+);
+
+CREATE INDEX idx_incident_fall_details_occurred_at ON public.incident_fall_details(occurred_at);
+CREATE INDEX idx_incident_fall_details_injury_sites ON public.incident_fall_details USING GIN (injury_sites);
+
+-- 3. Report a FALL incident and its details together, so a failed details insert leaves no incident behind to be
+-- reported again. Runs with the caller's RLS, like inserting both rows directly.
+CREATE OR REPLACE FUNCTION public.report_fall_incident(incident JSONB, fall JSONB)
+RETURNS public.incidents
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    created incidents%ROWTYPE;
+BEGIN
+    INSERT INTO incidents (incident_type, title, description, severity, status, resident_id, reported_by, assigned_to)
+    VALUES (
+        'FALL',
+        incident->>'title',
+        incident->>'description',
+        incident->>'severity',
+        'REPORTED',
+        (incident->>'resident_id')::UUID,
+        (incident->>'reported_by')::UUID,
+        NULLIF(incident->>'assigned_to', '')::UUID
+    )
+    RETURNING * INTO created;
+
+    INSERT INTO incident_fall_details (
+        incident_id, occurred_at, location, location_detail, activity, footwear, witnessed, head_strike, neuro_check_protocol, injury_sites
+    )
+    VALUES (
+        created.id,
+        (fall->>'occurred_at')::TIMESTAMP WITH TIME ZONE,
+        fall->>'location',
+        NULLIF(trim(fall->>'location_detail'), ''),
+        fall->>'activity',
+        fall->>'footwear',
+        (fall->>'witnessed')::BOOLEAN,
+        (fall->>'head_strike')::BOOLEAN,
+        fall->>'neuro_check_protocol',
+        ARRAY(SELECT jsonb_array_elements_text(COALESCE(fall->'injury_sites', '[]'::JSONB)))
+    );
+
+    RETURN created;
+END;
+$$;
+
+-- 4. Enable RLS
+ALTER TABLE public.incident_fall_details ENABLE ROW LEVEL SECURITY;
+
+-- 5. RLS Policies
+
+-- Allow ADMIN and STAFF to view fall details
+CREATE POLICY "Allow admin and staff to view incident fall details"
+ON public.incident_fall_details FOR SELECT
+TO authenticated
+USING (
+    (SELECT role FROM public.profiles WHERE id = auth.uid()) IN ('ADMIN', 'STAFF')
+);
+
+-- Allow ADMIN and STAFF to record fall details for FALL incidents
+CREATE POLICY "Allow admin and staff to insert incident fall details"
+ON public.incident_fall_details FOR INSERT
+TO authenticated
+WITH CHECK (
+    (SELECT role FROM public.profiles WHERE id = auth.uid()) IN ('ADMIN', 'STAFF') AND
+    (SELECT incident_type FROM public.incidents WHERE id = incident_id) = 'FALL'
+);
@@ -0,0 +1,67 @@
+-- Migration to record who was notified about an incident and sign-offs for the regulatory report
+
+-- 1. Family and physician notification
+ALTER TABLE public.incidents
+ADD COLUMN family_notified_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN family_notified_contact TEXT, -- Who was told, e.g. "Jane Doe (daughter), by phone"
+ADD COLUMN physician_notified_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN physician_name TEXT;
+
+-- 2. Create incident_signatures table (one electronic signature per role per incident, and one role per signer)
+CREATE TABLE public.incident_signatures (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    signed_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+    incident_id UUID NOT NULL REFERENCES public.incidents(id) ON DELETE CASCADE,
+    signer_role TEXT NOT NULL CHECK (signer_role IN ('REPORTER', 'SUPERVISOR', 'ADMINISTRATOR')),
+    signed_by UUID NOT NULL REFERENCES public.profiles(id),
+    CONSTRAINT incident_signatures_one_per_role UNIQUE (incident_id, signer_role),
+    CONSTRAINT incident_signatures_one_role_per_signer UNIQUE (incident_id, signed_by) -- Reviews must be independent
+);
+
+CREATE INDEX idx_incident_signatures_incident_id ON public.incident_signatures(incident_id);
+
+-- 3. Only the person who reported the incident can sign as its reporter
+CREATE OR REPLACE FUNCTION public.check_incident_signature()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    IF NEW.signer_role = 'REPORTER'
+       AND NOT EXISTS (SELECT 1 FROM incidents WHERE id = NEW.incident_id AND reported_by = NEW.signed_by) THEN
+        RAISE EXCEPTION 'Only the person who reported the incident can sign as reporter';
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER incident_signatures_check
+BEFORE INSERT ON public.incident_signatures
+FOR EACH ROW EXECUTE FUNCTION public.check_incident_signature();
+
+-- 4. Enable RLS
+ALTER TABLE public.incident_signatures ENABLE ROW LEVEL SECURITY;
+
+-- 5. RLS Policies
+
+-- Allow ADMIN and STAFF to view signatures
+CREATE POLICY "Allow admin and staff to view incident signatures"
+ON public.incident_signatures FOR SELECT
+TO authenticated
+USING (
+    (SELECT role FROM public.profiles WHERE id = auth.uid()) IN ('ADMIN', 'STAFF')
+);
+
+-- Staff sign as themselves; only admins sign as ADMINISTRATOR (no UPDATE or DELETE: signatures are final)
+CREATE POLICY "Allow admin and staff to sign incidents"
+ON public.incident_signatures FOR INSERT
+TO authenticated
+WITH CHECK (
+    signed_by = auth.uid() AND
+    (
+        (SELECT role FROM public.profiles WHERE id = auth.uid()) = 'ADMIN' OR
+        (
+            (SELECT role FROM public.profiles WHERE id = auth.uid()) = 'STAFF' AND
+            signer_role <> 'ADMINISTRATOR'
+        )
+    )
+);
@@ -0,0 +1,39 @@
+-- Migration to store incident attachments (scene photos, scanned witness forms) under {incident_id}/{file name}
+
+-- 1. Create private incident-attachments bucket
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('incident-attachments', 'incident-attachments', false)
+ON CONFLICT (id) DO NOTHING;
+
+-- 2. RLS Policies on storage.objects
+
+-- Allow ADMIN and STAFF to view and download incident attachments
+CREATE POLICY "Allow admin and staff to view incident attachments"
+ON storage.objects FOR SELECT
+TO authenticated
+USING (
+    bucket_id = 'incident-attachments' AND
+    (SELECT role FROM public.profiles WHERE id = auth.uid()) IN ('ADMIN', 'STAFF')
+);
+
+-- Allow ADMIN and STAFF to upload into an existing incident's folder (no UPDATE: attachments are not overwritten)
+CREATE POLICY "Allow admin and staff to upload incident attachments"
+ON storage.objects FOR INSERT
+TO authenticated
+WITH CHECK (
+    bucket_id = 'incident-attachments' AND
+    (SELECT role FROM public.profiles WHERE id = auth.uid()) IN ('ADMIN', 'STAFF') AND
+    EXISTS (SELECT 1 FROM public.incidents WHERE id::text = (storage.foldername(name))[1])
+);
+
+-- Uploaders can remove their own attachments; admins can remove any
+CREATE POLICY "Allow uploader or admin to delete incident attachments"
+ON storage.objects FOR DELETE
+TO authenticated
+USING (
+    bucket_id = 'incident-attachments' AND
+    (
+        owner = auth.uid() OR
+        (SELECT role FROM public.profiles WHERE id = auth.uid()) = 'ADMIN'
+    )
+);
@@ -0,0 +1,189 @@
+-- Migration to track admissions, discharges, hospital leave, readmissions and room transfers for residents
+
+-- 1. Census status on residents (changed only through resident_adt_events)
+ALTER TABLE public.residents
+ADD COLUMN status TEXT NOT NULL DEFAULT 'ADMITTED' CHECK (status IN ('ADMITTED', 'HOSPITAL_LEAVE', 'DISCHARGED')),
+ADD COLUMN admitted_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN discharged_at TIMESTAMP WITH TIME ZONE;
+
+UPDATE public.residents SET admitted_at = created_at;
+
+ALTER TABLE public.residents
+ALTER COLUMN admitted_at SET DEFAULT TIMEZONE('utc'::text, NOW()),
+ALTER COLUMN admitted_at SET NOT NULL;
+
+CREATE INDEX idx_residents_status ON public.residents(status);
+
+-- 2. Create resident_adt_events table (append-only; inserting a row applies the event)
+CREATE TABLE public.resident_adt_events (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+    resident_id UUID NOT NULL REFERENCES public.residents(id) ON DELETE CASCADE,
+    event_type TEXT NOT NULL CHECK (event_type IN ('ADMISSION', 'DISCHARGE', 'HOSPITAL_LEAVE', 'READMISSION', 'ROOM_TRANSFER')),
+    effective_at TIMESTAMP WITH TIME ZONE NOT NULL, -- When it happened, which may be earlier than when it was recorded
+    from_status TEXT, -- NULL for the admission; set by the trigger otherwise
+    to_status TEXT NOT NULL CHECK (to_status IN ('ADMITTED', 'HOSPITAL_LEAVE', 'DISCHARGED')), -- Set by the trigger
+    from_room TEXT, -- Set by the trigger
+    to_room TEXT, -- Required for ROOM_TRANSFER; optional on READMISSION
+    discharge_reason TEXT CHECK (discharge_reason IN ('RETURNED_HOME', 'OTHER_FACILITY', 'HOSPITAL', 'DECEASED', 'OTHER')),
+    destination TEXT, -- Where the resident went, e.g. hospital or facility name
+    notes TEXT,
+    recorded_by UUID REFERENCES public.profiles(id)
+);
+
+CREATE INDEX idx_resident_adt_events_resident_id ON public.resident_adt_events(resident_id, effective_at);
+CREATE INDEX idx_resident_adt_events_effective_at ON public.resident_adt_events(effective_at);
+
+-- Backfill an admission for existing residents before the triggers below exist
+INSERT INTO public.resident_adt_events (created_at, resident_id, event_type, effective_at, from_status, to_status, to_room, notes)
+SELECT created_at, id, 'ADMISSION', admitted_at, NULL, 'ADMITTED', room_number, 'Admission carried over from the resident record'
+FROM public.residents;
+
+-- 3. Validate and apply an event before it is stored
+CREATE OR REPLACE FUNCTION public.apply_resident_adt_event()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER -- Direct status and room updates are blocked by residents_guard_adt
+SET search_path = public
+AS $$
+DECLARE
+    resident residents%ROWTYPE;
+    last_effective_at TIMESTAMP WITH TIME ZONE;
+BEGIN
+    -- The admission is written by record_resident_admission
+    IF NEW.event_type = 'ADMISSION'
+       AND NOT EXISTS (SELECT 1 FROM resident_adt_events WHERE resident_id = NEW.resident_id) THEN
+        NEW.from_status := NULL;
+        NEW.to_status := 'ADMITTED';
+        RETURN NEW;
+    END IF;
+
+    SELECT * INTO resident FROM residents WHERE id = NEW.resident_id FOR UPDATE;
+    SELECT MAX(effective_at) INTO last_effective_at FROM resident_adt_events WHERE resident_id = NEW.resident_id;
+
+    IF NEW.effective_at > NOW() THEN
+        RAISE EXCEPTION 'ADT events cannot be recorded in the future';
+    END IF;
+    IF NEW.effective_at < last_effective_at THEN
+        RAISE EXCEPTION 'The resident''s last movement was at %; record events in order', last_effective_at;
+    END IF;
+
+    NEW.from_status := resident.status;
+    NEW.from_room := resident.room_number;
+    NEW.to_status := CASE NEW.event_type
+        WHEN 'DISCHARGE' THEN 'DISCHARGED'
+        WHEN 'HOSPITAL_LEAVE' THEN 'HOSPITAL_LEAVE'
+        ELSE 'ADMITTED'
+    END;
+
+    IF NOT (
+        (NEW.event_type = 'HOSPITAL_LEAVE' AND resident.status = 'ADMITTED') OR
+        (NEW.event_type = 'READMISSION' AND resident.status IN ('HOSPITAL_LEAVE', 'DISCHARGED')) OR
+        (NEW.event_type = 'DISCHARGE' AND resident.status IN ('ADMITTED', 'HOSPITAL_LEAVE')) OR
+        (NEW.event_type = 'ROOM_TRANSFER' AND resident.status = 'ADMITTED')
+    ) THEN
+        RAISE EXCEPTION 'Cannot record % for a resident who is %', NEW.event_type, resident.status;
+    END IF;
+
+    -- Fields required by each event
+    IF NEW.event_type = 'DISCHARGE' AND NEW.discharge_reason IS NULL THEN
+        RAISE EXCEPTION 'A discharge reason is required';
+    END IF;
+    IF NEW.event_type = 'DISCHARGE' AND NEW.discharge_reason <> 'DECEASED' AND COALESCE(trim(NEW.destination), '') = '' THEN
+        RAISE EXCEPTION 'A discharge destination is required';
+    END IF;
+    IF NEW.event_type = 'HOSPITAL_LEAVE' AND COALESCE(trim(NEW.destination), '') = '' THEN
+        RAISE EXCEPTION 'The hospital is required for hospital leave';
+    END IF;
+    IF NEW.event_type = 'ROOM_TRANSFER' AND (COALESCE(trim(NEW.to_room), '') = '' OR trim(NEW.to_room) = resident.room_number) THEN
+        RAISE EXCEPTION 'A different room is required for a room transfer';
+    END IF;
+    IF NEW.event_type <> 'DISCHARGE' THEN
+        NEW.discharge_reason := NULL;
+    END IF;
+    NEW.to_room := NULLIF(trim(NEW.to_room), '');
+
+    PERFORM set_config('app.resident_adt_event', 'on', true);
+    UPDATE residents
+    SET status = NEW.to_status,
+        room_number = COALESCE(NEW.to_room, room_number),
+        admitted_at = CASE WHEN NEW.event_type = 'READMISSION' AND resident.status = 'DISCHARGED' THEN NEW.effective_at ELSE admitted_at END,
+        discharged_at = CASE WHEN NEW.event_type = 'DISCHARGE' THEN NEW.effective_at WHEN NEW.to_status = 'ADMITTED' THEN NULL ELSE discharged_at END
+    WHERE id = NEW.resident_id;
+    PERFORM set_config('app.resident_adt_event', 'off', true);
+
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER resident_adt_events_apply
+BEFORE INSERT ON public.resident_adt_events
+FOR EACH ROW EXECUTE FUNCTION public.apply_resident_adt_event();
+
+-- 4. Status and room only change through an ADT event, and residents are discharged rather than deleted
+CREATE OR REPLACE FUNCTION public.guard_resident_adt()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    IF TG_OP = 'DELETE' THEN
+        RAISE EXCEPTION 'Residents cannot be deleted; record a discharge instead';
+    END IF;
+    IF (NEW.status IS DISTINCT FROM OLD.status
+        OR NEW.room_number IS DISTINCT FROM OLD.room_number
+        OR NEW.admitted_at IS DISTINCT FROM OLD.admitted_at
+        OR NEW.discharged_at IS DISTINCT FROM OLD.discharged_at)
+       AND current_setting('app.resident_adt_event', true) IS DISTINCT FROM 'on' THEN
+        RAISE EXCEPTION 'Resident status and room must be changed through resident_adt_events';
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER residents_guard_adt
+BEFORE UPDATE OR DELETE ON public.residents
+FOR EACH ROW EXECUTE FUNCTION public.guard_resident_adt();
+
+-- 5. Record the admission for new residents
+CREATE OR REPLACE FUNCTION public.record_resident_admission()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.status <> 'ADMITTED' THEN
+        RAISE EXCEPTION 'New residents must be created as ADMITTED';
+    END IF;
+
+    INSERT INTO resident_adt_events (resident_id, event_type, effective_at, to_status, to_room, recorded_by)
+    VALUES (NEW.id, 'ADMISSION', NEW.admitted_at, 'ADMITTED', NEW.room_number, auth.uid());
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER residents_record_admission
+AFTER INSERT ON public.residents
+FOR EACH ROW EXECUTE FUNCTION public.record_resident_admission();
+
+-- 6. Enable RLS
+ALTER TABLE public.resident_adt_events ENABLE ROW LEVEL SECURITY;
+
+-- 7. RLS Policies
+
+-- Allow ADMIN and STAFF to view ADT history
+CREATE POLICY "Allow admin and staff to view resident ADT events"
+ON public.resident_adt_events FOR SELECT
+TO authenticated
+USING (
+    (SELECT role FROM public.profiles WHERE id = auth.uid()) IN ('ADMIN', 'STAFF')
+);
+
+-- Allow ADMIN and STAFF to record events as themselves (no UPDATE or DELETE: history is append-only)
+CREATE POLICY "Allow admin and staff to insert resident ADT events"
+ON public.resident_adt_events FOR INSERT
+TO authenticated
+WITH CHECK (
+    (SELECT role FROM public.profiles WHERE id = auth.uid()) IN ('ADMIN', 'STAFF') AND
+    recorded_by = auth.uid()
+);
@@ -0,0 +1,326 @@
+-- Migration to make rooms and beds first-class; residents are assigned to beds through ADT events
+
+-- 1. Create rooms table
+CREATE TABLE public.rooms (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+    unit TEXT NOT NULL, -- Unit or wing, e.g. "North Wing"
+    room_number TEXT NOT NULL UNIQUE,
+    notes TEXT
+);
+
+CREATE INDEX idx_rooms_unit ON public.rooms(unit);
+
+-- 2. Create beds table
+CREATE TABLE public.beds (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+    room_id UUID NOT NULL REFERENCES public.rooms(id) ON DELETE CASCADE,
+    label TEXT NOT NULL, -- e.g. "A"; shown as room-label, e.g. "101-A"
+    bed_type TEXT NOT NULL DEFAULT 'STANDARD' CHECK (bed_type IN ('STANDARD', 'LOW', 'BARIATRIC', 'HOSPITAL')),
+    status TEXT NOT NULL DEFAULT 'AVAILABLE' CHECK (status IN ('AVAILABLE', 'OCCUPIED', 'RESERVED', 'CLEANING', 'OUT_OF_SERVICE')),
+    status_note TEXT, -- e.g. who the bed is reserved for, or why it is out of service
+    status_changed_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+    UNIQUE (room_id, label)
+);
+
+CREATE INDEX idx_beds_room_id ON public.beds(room_id);
+
+-- 3. Bed assignment on residents and ADT events
+ALTER TABLE public.residents
+ADD COLUMN bed_id UUID UNIQUE REFERENCES public.beds(id); -- NULL once discharged; room_number keeps the last room
+
+ALTER TABLE public.resident_adt_events
+ADD COLUMN from_bed_id UUID REFERENCES public.beds(id), -- Set by the trigger
+ADD COLUMN to_bed_id UUID REFERENCES public.beds(id); -- Required for ROOM_TRANSFER and for READMISSION after discharge
+
+-- Backfill a room per distinct room number and a bed per current resident, before the triggers below change
+CREATE TEMP TABLE resident_bed_backfill ON COMMIT DROP AS
+SELECT id AS resident_id, status, trim(room_number) AS room_number,
+       chr(64 + (ROW_NUMBER() OVER (PARTITION BY trim(room_number) ORDER BY created_at))::int) AS label
+FROM public.residents
+WHERE status <> 'DISCHARGED' AND trim(room_number) <> '';
+
+INSERT INTO public.rooms (unit, room_number, notes)
+SELECT DISTINCT 'Unassigned', room_number, 'Created from existing resident room numbers; set the unit and check for duplicates'
+FROM resident_bed_backfill;
+
+INSERT INTO public.beds (room_id, label, status, status_note)
+SELECT rooms.id, b.label,
+       CASE WHEN b.status = 'HOSPITAL_LEAVE' THEN 'RESERVED' ELSE 'OCCUPIED' END,
+       CASE WHEN b.status = 'HOSPITAL_LEAVE' THEN 'Held during hospital leave' END
+FROM resident_bed_backfill b
+JOIN public.rooms ON rooms.room_number = b.room_number;
+
+UPDATE public.residents
+SET bed_id = beds.id
+FROM resident_bed_backfill b
+JOIN public.rooms ON rooms.room_number = b.room_number
+JOIN public.beds ON beds.room_id = rooms.id AND beds.label = b.label
+WHERE residents.id = b.resident_id;
+
+-- 4. Validate and apply an ADT event, moving the resident between beds
+CREATE OR REPLACE FUNCTION public.apply_resident_adt_event()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER -- Direct status, room and bed updates are blocked by residents_guard_adt and beds_guard_status
+SET search_path = public
+AS $$
+DECLARE
+    resident residents%ROWTYPE;
+    last_effective_at TIMESTAMP WITH TIME ZONE;
+    next_bed_id UUID;
+BEGIN
+    -- The admission is written by record_resident_admission
+    IF NEW.event_type = 'ADMISSION'
+       AND NOT EXISTS (SELECT 1 FROM resident_adt_events WHERE resident_id = NEW.resident_id) THEN
+        NEW.from_status := NULL;
+        NEW.to_status := 'ADMITTED';
+        RETURN NEW;
+    END IF;
+
+    SELECT * INTO resident FROM residents WHERE id = NEW.resident_id FOR UPDATE;
+    SELECT MAX(effective_at) INTO last_effective_at FROM resident_adt_events WHERE resident_id = NEW.resident_id;
+
+    IF NEW.effective_at > NOW() THEN
+        RAISE EXCEPTION 'ADT events cannot be recorded in the future';
+    END IF;
+    IF NEW.effective_at < last_effective_at THEN
+        RAISE EXCEPTION 'The resident''s last movement was at %; record events in order', last_effective_at;
+    END IF;
+
+    NEW.from_status := resident.status;
+    NEW.from_room := resident.room_number;
+    NEW.from_bed_id := resident.bed_id;
+    NEW.to_status := CASE NEW.event_type
+        WHEN 'DISCHARGE' THEN 'DISCHARGED'
+        WHEN 'HOSPITAL_LEAVE' THEN 'HOSPITAL_LEAVE'
+        ELSE 'ADMITTED'
+    END;
+
+    IF NOT (
+        (NEW.event_type = 'HOSPITAL_LEAVE' AND resident.status = 'ADMITTED') OR
+        (NEW.event_type = 'READMISSION' AND resident.status IN ('HOSPITAL_LEAVE', 'DISCHARGED')) OR
+        (NEW.event_type = 'DISCHARGE' AND resident.status IN ('ADMITTED', 'HOSPITAL_LEAVE')) OR
+        (NEW.event_type = 'ROOM_TRANSFER' AND resident.status = 'ADMITTED')
+    ) THEN
+        RAISE EXCEPTION 'Cannot record % for a resident who is %', NEW.event_type, resident.status;
+    END IF;
+
+    -- Fields required by each event
+    IF NEW.event_type = 'DISCHARGE' AND NEW.discharge_reason IS NULL THEN
+        RAISE EXCEPTION 'A discharge reason is required';
+    END IF;
+    IF NEW.event_type = 'DISCHARGE' AND NEW.discharge_reason <> 'DECEASED' AND COALESCE(trim(NEW.destination), '') = '' THEN
+        RAISE EXCEPTION 'A discharge destination is required';
+    END IF;
+    IF NEW.event_type = 'HOSPITAL_LEAVE' AND COALESCE(trim(NEW.destination), '') = '' THEN
+        RAISE EXCEPTION 'The hospital is required for hospital leave';
+    END IF;
+    IF NEW.event_type NOT IN ('ROOM_TRANSFER', 'READMISSION') OR NEW.to_bed_id = resident.bed_id THEN
+        NEW.to_bed_id := NULL;
+    END IF;
+    IF NEW.event_type = 'ROOM_TRANSFER' AND NEW.to_bed_id IS NULL THEN
+        RAISE EXCEPTION 'A different bed is required for a room transfer';
+    END IF;
+    IF NEW.event_type = 'READMISSION' AND NEW.to_bed_id IS NULL AND resident.bed_id IS NULL THEN
+        RAISE EXCEPTION 'A bed is required to readmit a discharged resident';
+    END IF;
+    IF NEW.event_type <> 'DISCHARGE' THEN
+        NEW.discharge_reason := NULL;
+    END IF;
+
+    -- The new bed must be free: available, or reserved with no occupant. Reservations (status_note) are advisory;
+    -- the app asks for confirmation before assigning a bed reserved for someone else.
+    IF NEW.to_bed_id IS NOT NULL THEN
+        PERFORM 1 FROM beds WHERE id = NEW.to_bed_id FOR UPDATE;
+        IF NOT EXISTS (SELECT 1 FROM beds WHERE id = NEW.to_bed_id AND status IN ('AVAILABLE', 'RESERVED'))
+           OR EXISTS (SELECT 1 FROM residents WHERE bed_id = NEW.to_bed_id) THEN
+            RAISE EXCEPTION 'That bed is not available';
+        END IF;
+        SELECT rooms.room_number INTO NEW.to_room FROM beds JOIN rooms ON rooms.id = beds.room_id WHERE beds.id = NEW.to_bed_id;
+    ELSE
+        NEW.to_room := NULL;
+    END IF;
+
+    next_bed_id := CASE
+        WHEN NEW.event_type = 'DISCHARGE' THEN NULL
+        ELSE COALESCE(NEW.to_bed_id, resident.bed_id)
+    END;
+
+    PERFORM set_config('app.resident_adt_event', 'on', true);
+
+    -- A bed the resident leaves needs cleaning; the one they are in is occupied, or held while on hospital leave
+    IF resident.bed_id IS NOT NULL AND resident.bed_id IS DISTINCT FROM next_bed_id THEN
+        UPDATE beds SET status = 'CLEANING', status_note = NULL WHERE id = resident.bed_id;
+    END IF;
+    UPDATE residents
+    SET status = NEW.to_status,
+        bed_id = next_bed_id,
+        room_number = COALESCE(NEW.to_room, room_number),
+        admitted_at = CASE WHEN NEW.event_type = 'READMISSION' AND resident.status = 'DISCHARGED' THEN NEW.effective_at ELSE admitted_at END,
+        discharged_at = CASE WHEN NEW.event_type = 'DISCHARGE' THEN NEW.effective_at WHEN NEW.to_status = 'ADMITTED' THEN NULL ELSE discharged_at END
+    WHERE id = NEW.resident_id;
+    IF next_bed_id IS NOT NULL THEN
+        UPDATE beds
+        SET status = CASE WHEN NEW.to_status = 'HOSPITAL_LEAVE' THEN 'RESERVED' ELSE 'OCCUPIED' END,
+            status_note = CASE WHEN NEW.to_status = 'HOSPITAL_LEAVE' THEN 'Held during hospital leave' END
+        WHERE id = next_bed_id;
+    END IF;
+
+    PERFORM set_config('app.resident_adt_event', 'off', true);
+
+    RETURN NEW;
+END;
+$$;
+
+-- 5. Bed assignment is also guarded, alongside status and room
+CREATE OR REPLACE FUNCTION public.guard_resident_adt()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    IF TG_OP = 'DELETE' THEN
+        RAISE EXCEPTION 'Residents cannot be deleted; record a discharge instead';
+    END IF;
+    IF (NEW.status IS DISTINCT FROM OLD.status
+        OR NEW.room_number IS DISTINCT FROM OLD.room_number
+        OR NEW.bed_id IS DISTINCT FROM OLD.bed_id
+        OR NEW.admitted_at IS DISTINCT FROM OLD.admitted_at
+        OR NEW.discharged_at IS DISTINCT FROM OLD.discharged_at)
+       AND current_setting('app.resident_adt_event', true) IS DISTINCT FROM 'on' THEN
+        RAISE EXCEPTION 'Resident status, room and bed must be changed through resident_adt_events';
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+-- 6. New residents are admitted into a free bed, which sets their room number
+CREATE OR REPLACE FUNCTION public.prepare_resident_admission()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.bed_id IS NULL THEN
+        RAISE EXCEPTION 'A bed is required to admit a resident';
+    END IF;
+    -- Same rule as apply_resident_adt_event: reserved beds are advisory and can be taken
+    PERFORM 1 FROM beds WHERE id = NEW.bed_id FOR UPDATE;
+    IF NOT EXISTS (SELECT 1 FROM beds WHERE id = NEW.bed_id AND status IN ('AVAILABLE', 'RESERVED'))
+       OR EXISTS (SELECT 1 FROM residents WHERE bed_id = NEW.bed_id) THEN
+        RAISE EXCEPTION 'That bed is not available';
+    END IF;
+
+    SELECT rooms.room_number INTO NEW.room_number FROM beds JOIN rooms ON rooms.id = beds.room_id WHERE beds.id = NEW.bed_id;
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER residents_prepare_admission
+BEFORE INSERT ON public.residents
+FOR EACH ROW EXECUTE FUNCTION public.prepare_resident_admission();
+
+CREATE OR REPLACE FUNCTION public.record_resident_admission()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.status <> 'ADMITTED' THEN
+        RAISE EXCEPTION 'New residents must be created as ADMITTED';
+    END IF;
+
+    PERFORM set_config('app.resident_adt_event', 'on', true);
+    UPDATE beds SET status = 'OCCUPIED', status_note = NULL WHERE id = NEW.bed_id;
+    PERFORM set_config('app.resident_adt_event', 'off', true);
+
+    INSERT INTO resident_adt_events (resident_id, event_type, effective_at, to_status, to_room, to_bed_id, recorded_by)
+    VALUES (NEW.id, 'ADMISSION', NEW.admitted_at, 'ADMITTED', NEW.room_number, NEW.bed_id, auth.uid());
+    RETURN NEW;
+END;
+$$;
+
+-- 7. Beds with a resident change status only through ADT events; others are set by staff
+CREATE OR REPLACE FUNCTION public.guard_bed_status()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    IF NEW.status IS DISTINCT FROM OLD.status THEN
+        IF current_setting('app.resident_adt_event', true) IS DISTINCT FROM 'on' THEN
+            IF EXISTS (SELECT 1 FROM residents WHERE bed_id = OLD.id) THEN
+                RAISE EXCEPTION 'This bed is assigned to a resident; record an ADT event instead';
+            END IF;
+            IF NEW.status = 'OCCUPIED' THEN
+                RAISE EXCEPTION 'A bed becomes occupied when a resident is admitted or transferred into it';
+            END IF;
+        END IF;
+        NEW.status_changed_at := NOW();
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER beds_guard_status
+BEFORE UPDATE ON public.beds
+FOR EACH ROW EXECUTE FUNCTION public.guard_bed_status();
+
+-- 8. Enable RLS
+ALTER TABLE public.rooms ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.beds ENABLE ROW LEVEL SECURITY;
+
+-- 9. RLS Policies
+
+-- Allow ADMIN and STAFF to view rooms and beds
+CREATE POLICY "Allow admin and staff to view rooms"
+ON public.rooms FOR SELECT
+TO authenticated
+USING (
+    (SELECT role FROM public.profiles WHERE id = auth.uid()) IN ('ADMIN', 'STAFF')
+);
+
+CREATE POLICY "Allow admin and staff to view beds"
+ON public.beds FOR SELECT
+TO authenticated
+USING (
+    (SELECT role FROM public.profiles WHERE id = auth.uid()) IN ('ADMIN', 'STAFF')
+);
+
+-- Only ADMIN sets up rooms and beds (deleting a bed that was ever assigned fails on its references)
+CREATE POLICY "Allow admin to manage rooms"
+ON public.rooms FOR ALL
+TO authenticated
+USING (
+    (SELECT role FROM public.profiles WHERE id = auth.uid()) = 'ADMIN'
+)
+WITH CHECK (
+    (SELECT role FROM public.profiles WHERE id = auth.uid()) = 'ADMIN'
+);
+
+CREATE POLICY "Allow admin to add beds"
+ON public.beds FOR INSERT
+TO authenticated
+WITH CHECK (
+    (SELECT role FROM public.profiles WHERE id = auth.uid()) = 'ADMIN'
+);
+
+CREATE POLICY "Allow admin to delete beds"
+ON public.beds FOR DELETE
+TO authenticated
+USING (
+    (SELECT role FROM public.profiles WHERE id = auth.uid()) = 'ADMIN'
+);
+
+-- Allow ADMIN and STAFF to update beds, e.g. marking a bed clean or out of service
+CREATE POLICY "Allow admin and staff to update beds"
+ON public.beds FOR UPDATE
+TO authenticated
+USING (
+    (SELECT role FROM public.profiles WHERE id = auth.uid()) IN ('ADMIN', 'STAFF')
+)
+WITH CHECK (
+    (SELECT role FROM public.profiles WHERE id = auth.uid()) IN ('ADMIN', 'STAFF')
+);
@@ -0,0 +1,79 @@
+-- Migration to record each resident's payer and store a daily midnight census
+
+-- 1. Primary payer on residents
+ALTER TABLE public.residents
+ADD COLUMN payer_source TEXT NOT NULL DEFAULT 'PRIVATE_PAY'
+    CHECK (payer_source IN ('MEDICARE', 'MEDICAID', 'PRIVATE_PAY', 'LTC_INSURANCE', 'MANAGED_CARE', 'VA', 'OTHER'));
+
+-- 2. Create daily_census table (one row per day, taken shortly after midnight and never changed)
+CREATE TABLE public.daily_census (
+    census_date DATE PRIMARY KEY, -- The day that ended at midnight
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+    in_house INTEGER NOT NULL, -- Admitted and in the building at midnight
+    on_leave INTEGER NOT NULL, -- On hospital leave with their bed held
+    admissions INTEGER NOT NULL, -- New admissions and readmissions after discharge during the day
+    returns_from_leave INTEGER NOT NULL,
+    hospital_leaves INTEGER NOT NULL,
+    discharges INTEGER NOT NULL,
+    beds_total INTEGER NOT NULL,
+    beds_out_of_service INTEGER NOT NULL,
+    beds_available INTEGER NOT NULL, -- Operational beds neither occupied nor held
+    occupancy_pct NUMERIC(5, 1), -- (in_house + on_leave) / operational beds; NULL with no operational beds
+    by_care_level JSONB NOT NULL DEFAULT '{}'::jsonb, -- Counts of in_house + on_leave, e.g. {"LOW": 3}
+    by_payer JSONB NOT NULL DEFAULT '{}'::jsonb
+);
+
+-- 3. Create daily_census_residents table (who was counted, as they were at the time)
+CREATE TABLE public.daily_census_residents (
+    census_date DATE NOT NULL REFERENCES public.daily_census(census_date) ON DELETE CASCADE,
+    resident_id UUID NOT NULL REFERENCES public.residents(id),
+    status TEXT NOT NULL CHECK (status IN ('ADMITTED', 'HOSPITAL_LEAVE')),
+    room_number TEXT,
+    care_level TEXT,
+    payer_source TEXT,
+    PRIMARY KEY (census_date, resident_id)
+);
+
+CREATE INDEX idx_daily_census_residents_resident_id ON public.daily_census_residents(resident_id);
+
+-- 4. Enable RLS
+ALTER TABLE public.daily_census ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.daily_census_residents ENABLE ROW LEVEL SECURITY;
+
+-- 5. RLS Policies (snapshots are written by the census job with the service role; no INSERT, UPDATE or DELETE for users)
+
+-- Allow ADMIN and STAFF to view the census
+CREATE POLICY "Allow admin and staff to view daily census"
+ON public.daily_census FOR SELECT
+TO authenticated
+USING (
+    (SELECT role FROM public.profiles WHERE id = auth.uid()) IN ('ADMIN', 'STAFF')
+);
+
+CREATE POLICY "Allow admin and staff to view daily census residents"
+ON public.daily_census_residents FOR SELECT
+TO authenticated
+USING (
+    (SELECT role FROM public.profiles WHERE id = auth.uid()) IN ('ADMIN', 'STAFF')
+);
+
+-- 6. Where each resident stood at a point in time: the status and room after their last ADT event before it.
+-- Worked out here so the census job does not have to read the whole ADT history.
+CREATE OR REPLACE FUNCTION public.census_positions(as_of TIMESTAMP WITH TIME ZONE)
+RETURNS TABLE (resident_id UUID, status TEXT, room_number TEXT, care_level TEXT, payer_source TEXT)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+    SELECT last_event.resident_id, last_event.to_status, last_event.room_number, residents.care_level, residents.payer_source
+    FROM (
+        SELECT DISTINCT ON (e.resident_id)
+               e.resident_id, e.to_status, COALESCE(e.to_room, e.from_room) AS room_number
+        FROM resident_adt_events e
+        WHERE e.effective_at < as_of
+        ORDER BY e.resident_id, e.effective_at DESC, e.created_at DESC
+    ) last_event
+    JOIN residents ON residents.id = last_event.resident_id
+    WHERE last_event.to_status <> 'DISCHARGED'
+    ORDER BY last_event.resident_id;
+$$;
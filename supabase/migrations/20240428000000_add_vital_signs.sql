@@ -0,0 +1,252 @@
+-- Migration to chart vital signs, with per-resident alert thresholds and ALERT notifications for the charge nurse
+
+-- 1. Charge nurses, who are alerted about out-of-range vital signs on their shift
+ALTER TABLE public.profiles
+ADD COLUMN is_charge_nurse BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- Alerts follow is_charge_nurse, so only admins may change it (see guard_profile_routing in 20240420)
+CREATE OR REPLACE FUNCTION public.guard_profile_routing()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    -- No signed-in user: the service role or a migration
+    IF auth.uid() IS NULL OR public.get_my_role() = 'ADMIN' THEN
+        RETURN NEW;
+    END IF;
+    IF NEW.supervisor_id IS DISTINCT FROM OLD.supervisor_id THEN
+        RAISE EXCEPTION 'Only admins can change a profile''s supervisor';
+    END IF;
+    IF NEW.is_charge_nurse IS DISTINCT FROM OLD.is_charge_nurse THEN
+        RAISE EXCEPTION 'Only admins can change who is a charge nurse';
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+-- 2. Create vital_signs table (one row per set of readings taken together; any subset may be recorded)
+CREATE TABLE public.vital_signs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+    resident_id UUID NOT NULL REFERENCES public.residents(id) ON DELETE CASCADE,
+    taken_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    systolic_bp INTEGER CHECK (systolic_bp BETWEEN 40 AND 300), -- mmHg
+    diastolic_bp INTEGER CHECK (diastolic_bp BETWEEN 20 AND 200), -- mmHg
+    pulse INTEGER CHECK (pulse BETWEEN 20 AND 250), -- beats/min
+    temperature NUMERIC(4, 1) CHECK (temperature BETWEEN 85 AND 110), -- °F
+    respiratory_rate INTEGER CHECK (respiratory_rate BETWEEN 4 AND 60), -- breaths/min
+    spo2 INTEGER CHECK (spo2 BETWEEN 50 AND 100), -- %
+    blood_glucose INTEGER CHECK (blood_glucose BETWEEN 10 AND 700), -- mg/dL
+    pain_score INTEGER CHECK (pain_score BETWEEN 0 AND 10), -- 0-10 numeric rating scale
+    notes TEXT,
+    recorded_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    abnormal TEXT[] NOT NULL DEFAULT '{}', -- Vitals outside the resident's thresholds when recorded; set by the trigger
+    CONSTRAINT vital_signs_blood_pressure_pair CHECK ((systolic_bp IS NULL) = (diastolic_bp IS NULL)),
+    CONSTRAINT vital_signs_not_empty CHECK (
+        COALESCE(systolic_bp, pulse, temperature, respiratory_rate, spo2, blood_glucose, pain_score) IS NOT NULL
+    )
+);
+
+CREATE INDEX idx_vital_signs_resident_taken_at ON public.vital_signs(resident_id, taken_at DESC);
+
+-- 3. Create vital_sign_thresholds table (rows without a resident are the facility defaults)
+CREATE TABLE public.vital_sign_thresholds (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+    resident_id UUID REFERENCES public.residents(id) ON DELETE CASCADE,
+    vital_type TEXT NOT NULL CHECK (vital_type IN ('systolic_bp', 'diastolic_bp', 'pulse', 'temperature', 'respiratory_rate', 'spo2', 'blood_glucose', 'pain_score')),
+    low NUMERIC, -- Readings below this are abnormal; NULL for no lower limit
+    high NUMERIC, -- Readings above this are abnormal; NULL for no upper limit
+    updated_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    UNIQUE (resident_id, vital_type),
+    CONSTRAINT vital_sign_thresholds_range CHECK (low IS NULL OR high IS NULL OR low <= high)
+);
+
+-- NULLs are distinct in the UNIQUE above, so the defaults need their own index
+CREATE UNIQUE INDEX idx_vital_sign_thresholds_default_type ON public.vital_sign_thresholds(vital_type) WHERE resident_id IS NULL;
+
+INSERT INTO public.vital_sign_thresholds (vital_type, low, high) VALUES
+    ('systolic_bp', 90, 160),
+    ('diastolic_bp', 50, 100),
+    ('pulse', 50, 110),
+    ('temperature', 95, 100.4),
+    ('respiratory_rate', 12, 24),
+    ('spo2', 90, NULL),
+    ('blood_glucose', 70, 250),
+    ('pain_score', NULL, 6);
+
+-- 4. Flag readings outside the resident's thresholds (their own, else the facility default)
+CREATE OR REPLACE FUNCTION public.flag_abnormal_vital_signs()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    reading JSONB := to_jsonb(NEW);
+BEGIN
+    IF NEW.taken_at > NOW() THEN
+        RAISE EXCEPTION 'Vital signs cannot be recorded in the future';
+    END IF;
+
+    SELECT COALESCE(array_agg(t.vital_type ORDER BY t.vital_type), '{}')
+    INTO NEW.abnormal
+    FROM (
+        SELECT DISTINCT ON (vital_type) vital_type, low, high
+        FROM vital_sign_thresholds
+        WHERE resident_id = NEW.resident_id OR resident_id IS NULL
+        ORDER BY vital_type, resident_id NULLS LAST
+    ) t
+    WHERE (reading ->> t.vital_type) IS NOT NULL
+    AND ((reading ->> t.vital_type)::numeric < t.low OR (reading ->> t.vital_type)::numeric > t.high);
+
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER vital_signs_flag_abnormal
+BEFORE INSERT ON public.vital_signs
+FOR EACH ROW EXECUTE FUNCTION public.flag_abnormal_vital_signs();
+
+-- 5. The facility's IANA timezone, for shift hours; the database runs in UTC.
+-- Set it with: ALTER DATABASE postgres SET app.facility_timezone = 'America/Chicago';
+-- and keep it the same as NEXT_PUBLIC_FACILITY_TIMEZONE in the app
+CREATE OR REPLACE FUNCTION public.facility_timezone()
+RETURNS text
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT COALESCE(NULLIF(current_setting('app.facility_timezone', true), ''), 'America/New_York')
+$$;
+
+-- 6. Alert the charge nurse on shift (shift hours match SHIFT_HOURS in MarService), else every charge nurse, else admins
+CREATE OR REPLACE FUNCTION public.notify_abnormal_vital_signs()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER -- Needs to notify other users, which the recording user cannot do under RLS
+SET search_path = public
+AS $$
+DECLARE
+    resident_name TEXT;
+    room TEXT;
+    current_shift TEXT;
+    local_hour INTEGER := EXTRACT(HOUR FROM NOW() AT TIME ZONE facility_timezone());
+    summary TEXT;
+    message TEXT;
+    reading JSONB := to_jsonb(NEW);
+BEGIN
+    IF cardinality(NEW.abnormal) = 0 THEN
+        RETURN NEW;
+    END IF;
+
+    SELECT p.full_name, r.room_number INTO resident_name, room
+    FROM residents r
+    JOIN profiles p ON p.id = r.profile_id
+    WHERE r.id = NEW.resident_id;
+
+    SELECT string_agg(
+        format('%s %s', CASE v
+            WHEN 'systolic_bp' THEN 'Systolic BP'
+            WHEN 'diastolic_bp' THEN 'Diastolic BP'
+            WHEN 'pulse' THEN 'Pulse'
+            WHEN 'temperature' THEN 'Temperature'
+            WHEN 'respiratory_rate' THEN 'Respirations'
+            WHEN 'spo2' THEN 'SpO2'
+            WHEN 'blood_glucose' THEN 'Blood glucose'
+            WHEN 'pain_score' THEN 'Pain'
+        END, reading ->> v),
+        ', ')
+    INTO summary
+    FROM unnest(NEW.abnormal) AS v;
+
+    current_shift := CASE
+        WHEN local_hour >= 7 AND local_hour < 15 THEN 'MORNING'
+        WHEN local_hour >= 15 AND local_hour < 23 THEN 'AFTERNOON'
+        ELSE 'NIGHT'
+    END;
+
+    message := format('%s%s: %s', COALESCE(resident_name, 'Unknown resident'), COALESCE(' (Room ' || room || ')', ''), summary);
+
+    INSERT INTO notifications (user_id, title, content, type)
+    SELECT p.id, 'Abnormal Vital Signs', message, 'ALERT'
+    FROM profiles p
+    JOIN staff s ON s.profile_id = p.id
+    WHERE p.is_charge_nurse AND p.status = 'active' AND s.shift = current_shift;
+
+    IF NOT FOUND THEN
+        INSERT INTO notifications (user_id, title, content, type)
+        SELECT id, 'Abnormal Vital Signs', message, 'ALERT'
+        FROM profiles
+        WHERE is_charge_nurse AND status = 'active';
+    END IF;
+
+    IF NOT FOUND THEN
+        INSERT INTO notifications (user_id, title, content, type)
+        SELECT id, 'Abnormal Vital Signs', message, 'ALERT'
+        FROM profiles
+        WHERE role = 'ADMIN';
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER vital_signs_notify_abnormal
+AFTER INSERT ON public.vital_signs
+FOR EACH ROW EXECUTE FUNCTION public.notify_abnormal_vital_signs();
+
+-- 7. Enable RLS
+ALTER TABLE public.vital_signs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.vital_sign_thresholds ENABLE ROW LEVEL SECURITY;
+
+-- 8. RLS Policies (readings are part of the clinical record: no UPDATE or DELETE)
+
+-- Allow ADMIN and STAFF to view vital signs
+CREATE POLICY "Allow admin and staff to view vital signs"
+ON public.vital_signs FOR SELECT
+TO authenticated
+USING (
+    (SELECT role FROM public.profiles WHERE id = auth.uid()) IN ('ADMIN', 'STAFF')
+);
+
+-- Allow ADMIN and STAFF to record vital signs as themselves
+CREATE POLICY "Allow admin and staff to record vital signs"
+ON public.vital_signs FOR INSERT
+TO authenticated
+WITH CHECK (
+    recorded_by = auth.uid() AND
+    (SELECT role FROM public.profiles WHERE id = auth.uid()) IN ('ADMIN', 'STAFF')
+);
+
+-- Allow ADMIN and STAFF to view thresholds
+CREATE POLICY "Allow admin and staff to view vital sign thresholds"
+ON public.vital_sign_thresholds FOR SELECT
+TO authenticated
+USING (
+    (SELECT role FROM public.profiles WHERE id = auth.uid()) IN ('ADMIN', 'STAFF')
+);
+
+-- Allow ADMIN and STAFF to set a resident's thresholds; only ADMIN can change the facility defaults
+CREATE POLICY "Allow admin and staff to insert vital sign thresholds"
+ON public.vital_sign_thresholds FOR INSERT
+TO authenticated
+WITH CHECK (
+    (resident_id IS NOT NULL AND (SELECT role FROM public.profiles WHERE id = auth.uid()) IN ('ADMIN', 'STAFF')) OR
+    (SELECT role FROM public.profiles WHERE id = auth.uid()) = 'ADMIN'
+);
+
+CREATE POLICY "Allow admin and staff to update vital sign thresholds"
+ON public.vital_sign_thresholds FOR UPDATE
+TO authenticated
+USING (
+    (resident_id IS NOT NULL AND (SELECT role FROM public.profiles WHERE id = auth.uid()) IN ('ADMIN', 'STAFF')) OR
+    (SELECT role FROM public.profiles WHERE id = auth.uid()) = 'ADMIN'
+);
+
+CREATE POLICY "Allow admin and staff to delete vital sign thresholds"
+ON public.vital_sign_thresholds FOR DELETE
+TO authenticated
+USING (
+    resident_id IS NOT NULL AND
+    (SELECT role FROM public.profiles WHERE id = auth.uid()) IN ('ADMIN', 'STAFF')
+);
@@ -0,0 +1,390 @@
+-- Migration to track resident weights and flag significant changes (5% over 30 days, 10% over 180 days)
+-- for dietitian review, with an alert to the charge nurse
+
+-- 1. Dietitians, who are given a review task for each significant weight change
+ALTER TABLE public.profiles
+ADD COLUMN is_dietitian BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- Review tasks follow is_dietitian, so only admins may change it (see guard_profile_routing in 20240420)
+CREATE OR REPLACE FUNCTION public.guard_profile_routing()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    -- No signed-in user: the service role or a migration
+    IF auth.uid() IS NULL OR public.get_my_role() = 'ADMIN' THEN
+        RETURN NEW;
+    END IF;
+    IF NEW.supervisor_id IS DISTINCT FROM OLD.supervisor_id THEN
+        RAISE EXCEPTION 'Only admins can change a profile''s supervisor';
+    END IF;
+    IF NEW.is_charge_nurse IS DISTINCT FROM OLD.is_charge_nurse THEN
+        RAISE EXCEPTION 'Only admins can change who is a charge nurse';
+    END IF;
+    IF NEW.is_dietitian IS DISTINCT FROM OLD.is_dietitian THEN
+        RAISE EXCEPTION 'Only admins can change who is a dietitian';
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+-- 2. Tasks can be about a resident
+ALTER TABLE public.tasks
+ADD COLUMN resident_id UUID REFERENCES public.residents(id) ON DELETE CASCADE;
+
+-- 3. Create resident_weights table
+CREATE TABLE public.resident_weights (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+    resident_id UUID NOT NULL REFERENCES public.residents(id) ON DELETE CASCADE,
+    measured_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    weight_lb NUMERIC(5, 1) NOT NULL CHECK (weight_lb BETWEEN 40 AND 700),
+    method TEXT CHECK (method IN ('STANDING', 'CHAIR', 'WHEELCHAIR', 'BED')), -- Scale used; compare like with like
+    notes TEXT,
+    recorded_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL
+);
+
+CREATE INDEX idx_resident_weights_resident_measured_at ON public.resident_weights(resident_id, measured_at DESC);
+
+-- 4. Create resident_weight_corrections table (append-only, like medication_log_corrections; the latest one for a weight wins).
+-- Voided weights are left out of later change checks. Corrections do not re-run the rules: a flag already raised
+-- stays open for the dietitian, who sees the correction on the weight chart.
+CREATE TABLE public.resident_weight_corrections (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, clock_timestamp()) NOT NULL, -- Not NOW(): keeps corrections made in one transaction in order
+    weight_id UUID NOT NULL REFERENCES public.resident_weights(id) ON DELETE CASCADE,
+    corrected_by UUID NOT NULL REFERENCES public.profiles(id),
+    action TEXT NOT NULL CHECK (action IN ('CORRECT', 'VOID')),
+    reason TEXT NOT NULL CHECK (length(trim(reason)) > 0),
+    weight_lb NUMERIC(5, 1) CHECK (weight_lb BETWEEN 40 AND 700), -- Corrected weight (CORRECT only)
+    CONSTRAINT resident_weight_corrections_weight_check CHECK ((action = 'CORRECT') = (weight_lb IS NOT NULL))
+);
+
+CREATE INDEX idx_resident_weight_corrections_weight_id ON public.resident_weight_corrections(weight_id, created_at);
+
+CREATE OR REPLACE FUNCTION public.check_resident_weight_correction()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    IF (SELECT action FROM resident_weight_corrections WHERE weight_id = NEW.weight_id ORDER BY created_at DESC, id DESC LIMIT 1) = 'VOID' THEN
+        RAISE EXCEPTION 'This weight has been voided and cannot be corrected';
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER resident_weight_corrections_check
+BEFORE INSERT ON public.resident_weight_corrections
+FOR EACH ROW EXECUTE FUNCTION public.check_resident_weight_correction();
+
+-- 5. Create weight_change_flags table (one per weight that crossed a rule, reviewed by the dietitian)
+CREATE TABLE public.weight_change_flags (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+    resident_id UUID NOT NULL REFERENCES public.residents(id) ON DELETE CASCADE,
+    weight_id UUID NOT NULL UNIQUE REFERENCES public.resident_weights(id) ON DELETE CASCADE,
+    baseline_weight_id UUID NOT NULL REFERENCES public.resident_weights(id) ON DELETE CASCADE,
+    period_days INTEGER NOT NULL CHECK (period_days IN (30, 180)),
+    threshold_pct NUMERIC(4, 1) NOT NULL,
+    pct_change NUMERIC(5, 1) NOT NULL, -- Negative for a loss
+    task_id UUID REFERENCES public.tasks(id) ON DELETE SET NULL,
+    status TEXT NOT NULL DEFAULT 'OPEN' CHECK (status IN ('OPEN', 'REVIEWED')),
+    reviewed_at TIMESTAMP WITH TIME ZONE,
+    reviewed_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    review_notes TEXT,
+    CONSTRAINT weight_change_flags_review_complete CHECK (
+        status = 'OPEN' OR (reviewed_at IS NOT NULL AND reviewed_by IS NOT NULL AND COALESCE(trim(review_notes), '') <> '')
+    )
+);
+
+CREATE INDEX idx_weight_change_flags_resident_id ON public.weight_change_flags(resident_id);
+
+-- 6. Alerts for the charge nurse on shift (shift hours match SHIFT_HOURS in MarService), else every charge nurse, else admins
+CREATE OR REPLACE FUNCTION public.notify_charge_nurses(alert_title TEXT, alert_content TEXT)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    local_hour INTEGER := EXTRACT(HOUR FROM NOW() AT TIME ZONE facility_timezone());
+    current_shift TEXT := CASE
+        WHEN local_hour >= 7 AND local_hour < 15 THEN 'MORNING'
+        WHEN local_hour >= 15 AND local_hour < 23 THEN 'AFTERNOON'
+        ELSE 'NIGHT'
+    END;
+BEGIN
+    INSERT INTO notifications (user_id, title, content, type)
+    SELECT p.id, alert_title, alert_content, 'ALERT'
+    FROM profiles p
+    JOIN staff s ON s.profile_id = p.id
+    WHERE p.is_charge_nurse AND p.status = 'active' AND s.shift = current_shift;
+
+    IF NOT FOUND THEN
+        INSERT INTO notifications (user_id, title, content, type)
+        SELECT id, alert_title, alert_content, 'ALERT'
+        FROM profiles
+        WHERE is_charge_nurse AND status = 'active';
+    END IF;
+
+    IF NOT FOUND THEN
+        INSERT INTO notifications (user_id, title, content, type)
+        SELECT id, alert_title, alert_content, 'ALERT'
+        FROM profiles
+        WHERE role = 'ADMIN';
+    END IF;
+END;
+$$;
+
+-- Abnormal vital signs now go through the shared helper
+CREATE OR REPLACE FUNCTION public.notify_abnormal_vital_signs()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER -- Needs to notify other users, which the recording user cannot do under RLS
+SET search_path = public
+AS $$
+DECLARE
+    resident_name TEXT;
+    room TEXT;
+    summary TEXT;
+    reading JSONB := to_jsonb(NEW);
+BEGIN
+    IF cardinality(NEW.abnormal) = 0 THEN
+        RETURN NEW;
+    END IF;
+
+    SELECT p.full_name, r.room_number INTO resident_name, room
+    FROM residents r
+    JOIN profiles p ON p.id = r.profile_id
+    WHERE r.id = NEW.resident_id;
+
+    SELECT string_agg(
+        format('%s %s', CASE v
+            WHEN 'systolic_bp' THEN 'Systolic BP'
+            WHEN 'diastolic_bp' THEN 'Diastolic BP'
+            WHEN 'pulse' THEN 'Pulse'
+            WHEN 'temperature' THEN 'Temperature'
+            WHEN 'respiratory_rate' THEN 'Respirations'
+            WHEN 'spo2' THEN 'SpO2'
+            WHEN 'blood_glucose' THEN 'Blood glucose'
+            WHEN 'pain_score' THEN 'Pain'
+        END, reading ->> v),
+        ', ')
+    INTO summary
+    FROM unnest(NEW.abnormal) AS v;
+
+    PERFORM notify_charge_nurses(
+        'Abnormal Vital Signs',
+        format('%s%s: %s', COALESCE(resident_name, 'Unknown resident'), COALESCE(' (Room ' || room || ')', ''), summary)
+    );
+    RETURN NEW;
+END;
+$$;
+
+-- 7. Flag a weight that differs from any earlier weight in the window by the rule's percentage, using corrected
+-- values and leaving out voided weights. The 30-day rule is checked first. While the resident has a flag still open,
+-- a further significant change escalates that flag's task and alerts the charge nurse instead of opening another.
+CREATE OR REPLACE FUNCTION public.flag_weight_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER -- Creates tasks and notifications for other users
+SET search_path = public
+AS $$
+DECLARE
+    rule RECORD;
+    baseline RECORD;
+    change NUMERIC;
+    resident_name TEXT;
+    room TEXT;
+    dietitian_id UUID;
+    new_task_id UUID;
+    open_flag weight_change_flags%ROWTYPE;
+BEGIN
+    IF NEW.measured_at > NOW() THEN
+        RAISE EXCEPTION 'Weights cannot be recorded in the future';
+    END IF;
+
+    SELECT * INTO open_flag
+    FROM weight_change_flags
+    WHERE resident_id = NEW.resident_id AND status = 'OPEN'
+    ORDER BY created_at DESC
+    LIMIT 1;
+
+    FOR rule IN SELECT * FROM (VALUES (30, 5.0), (180, 10.0)) AS r(period_days, threshold_pct) LOOP
+        SELECT w.id, COALESCE(c.weight_lb, w.weight_lb) AS weight_lb INTO baseline
+        FROM resident_weights w
+        LEFT JOIN LATERAL (
+            SELECT action, weight_lb
+            FROM resident_weight_corrections
+            WHERE weight_id = w.id
+            ORDER BY created_at DESC, id DESC
+            LIMIT 1
+        ) c ON TRUE
+        WHERE w.resident_id = NEW.resident_id
+        AND w.id <> NEW.id
+        AND c.action IS DISTINCT FROM 'VOID'
+        AND w.measured_at < NEW.measured_at
+        AND w.measured_at >= NEW.measured_at - make_interval(days => rule.period_days)
+        ORDER BY abs(NEW.weight_lb - COALESCE(c.weight_lb, w.weight_lb)) DESC, w.measured_at
+        LIMIT 1;
+
+        CONTINUE WHEN baseline.id IS NULL;
+        change := round((NEW.weight_lb - baseline.weight_lb) / baseline.weight_lb * 100, 1);
+        CONTINUE WHEN abs(change) < rule.threshold_pct;
+
+        SELECT p.full_name, r.room_number INTO resident_name, room
+        FROM residents r
+        JOIN profiles p ON p.id = r.profile_id
+        WHERE r.id = NEW.resident_id;
+
+        IF open_flag.id IS NOT NULL THEN
+            UPDATE tasks
+            SET priority = 'HIGH',
+                description = concat_ws(E'\n', description, format('Since flagged: %s %s%% (%s lb to %s lb) within %s days.',
+                    CASE WHEN change < 0 THEN 'lost' ELSE 'gained' END, abs(change), baseline.weight_lb, NEW.weight_lb, rule.period_days))
+            WHERE id = open_flag.task_id;
+
+            PERFORM notify_charge_nurses(
+                'Continuing Weight Change',
+                format('%s%s: %s%s%% in %s days (%s lb to %s lb). The change flagged on %s is still awaiting dietitian review.',
+                       COALESCE(resident_name, 'Unknown resident'), COALESCE(' (Room ' || room || ')', ''),
+                       CASE WHEN change > 0 THEN '+' ELSE '' END, change, rule.period_days, baseline.weight_lb, NEW.weight_lb,
+                       to_char(open_flag.created_at AT TIME ZONE facility_timezone(), 'Mon DD'))
+            );
+            EXIT;
+        END IF;
+
+        -- The dietitian reviews it; an admin if no dietitian has been set up
+        SELECT id INTO dietitian_id
+        FROM profiles
+        WHERE (is_dietitian AND status = 'active') OR role = 'ADMIN'
+        ORDER BY is_dietitian DESC, created_at
+        LIMIT 1;
+
+        INSERT INTO tasks (title, description, assigned_to, due_date, priority, status, resident_id)
+        VALUES (
+            format('Weight review: %s', COALESCE(resident_name, 'Unknown resident')),
+            format('%s %s%% (%s lb to %s lb) within %s days. Review nutrition and record the outcome on the resident''s weight chart.',
+                   CASE WHEN change < 0 THEN 'Lost' ELSE 'Gained' END, abs(change), baseline.weight_lb, NEW.weight_lb, rule.period_days),
+            dietitian_id,
+            NOW() + INTERVAL '72 hours',
+            CASE WHEN change < 0 THEN 'HIGH' ELSE 'MEDIUM' END,
+            'TODO',
+            NEW.resident_id
+        )
+        RETURNING id INTO new_task_id;
+
+        INSERT INTO weight_change_flags (resident_id, weight_id, baseline_weight_id, period_days, threshold_pct, pct_change, task_id)
+        VALUES (NEW.resident_id, NEW.id, baseline.id, rule.period_days, rule.threshold_pct, change, new_task_id);
+
+        PERFORM notify_charge_nurses(
+            'Significant Weight Change',
+            format('%s%s: %s%s%% in %s days (%s lb to %s lb)', COALESCE(resident_name, 'Unknown resident'), COALESCE(' (Room ' || room || ')', ''),
+                   CASE WHEN change > 0 THEN '+' ELSE '' END, change, rule.period_days, baseline.weight_lb, NEW.weight_lb)
+        );
+        EXIT;
+    END LOOP;
+
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER resident_weights_flag_change
+AFTER INSERT ON public.resident_weights
+FOR EACH ROW EXECUTE FUNCTION public.flag_weight_change();
+
+-- 8. Reviewing a flag only sets the review fields, and completes its task
+CREATE OR REPLACE FUNCTION public.review_weight_change_flag()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER -- Tasks have no UPDATE policy
+SET search_path = public
+AS $$
+BEGIN
+    IF OLD.status = 'REVIEWED' THEN
+        RAISE EXCEPTION 'This weight change has already been reviewed';
+    END IF;
+    IF (NEW.resident_id, NEW.weight_id, NEW.baseline_weight_id, NEW.period_days, NEW.threshold_pct, NEW.pct_change, NEW.task_id, NEW.created_at)
+       IS DISTINCT FROM (OLD.resident_id, OLD.weight_id, OLD.baseline_weight_id, OLD.period_days, OLD.threshold_pct, OLD.pct_change, OLD.task_id, OLD.created_at) THEN
+        RAISE EXCEPTION 'Only the review of a weight change can be updated';
+    END IF;
+    IF NEW.status = 'REVIEWED' THEN
+        NEW.reviewed_at := NOW();
+        NEW.reviewed_by := auth.uid();
+        UPDATE tasks SET status = 'COMPLETED' WHERE id = NEW.task_id;
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER weight_change_flags_review
+BEFORE UPDATE ON public.weight_change_flags
+FOR EACH ROW EXECUTE FUNCTION public.review_weight_change_flag();
+
+-- 9. Enable RLS
+ALTER TABLE public.resident_weights ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.resident_weight_corrections ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.weight_change_flags ENABLE ROW LEVEL SECURITY;
+
+-- 10. RLS Policies (weights and their corrections are part of the clinical record: no UPDATE or DELETE;
+-- flags are created by the trigger)
+
+-- Allow ADMIN and STAFF to view weights
+CREATE POLICY "Allow admin and staff to view resident weights"
+ON public.resident_weights FOR SELECT
+TO authenticated
+USING (
+    (SELECT role FROM public.profiles WHERE id = auth.uid()) IN ('ADMIN', 'STAFF')
+);
+
+-- Allow ADMIN and STAFF to record weights as themselves
+CREATE POLICY "Allow admin and staff to record resident weights"
+ON public.resident_weights FOR INSERT
+TO authenticated
+WITH CHECK (
+    recorded_by = auth.uid() AND
+    (SELECT role FROM public.profiles WHERE id = auth.uid()) IN ('ADMIN', 'STAFF')
+);
+
+-- Allow ADMIN and STAFF to view weight corrections
+CREATE POLICY "Allow admin and staff to view resident weight corrections"
+ON public.resident_weight_corrections FOR SELECT
+TO authenticated
+USING (
+    (SELECT role FROM public.profiles WHERE id = auth.uid()) IN ('ADMIN', 'STAFF')
+);
+
+-- Allow ADMIN and STAFF to correct or void weights as themselves
+CREATE POLICY "Allow admin and staff to insert resident weight corrections"
+ON public.resident_weight_corrections FOR INSERT
+TO authenticated
+WITH CHECK (
+    corrected_by = auth.uid() AND
+    (SELECT role FROM public.profiles WHERE id = auth.uid()) IN ('ADMIN', 'STAFF')
+);
+
+-- Allow ADMIN and STAFF to view weight change flags
+CREATE POLICY "Allow admin and staff to view weight change flags"
+ON public.weight_change_flags FOR SELECT
+TO authenticated
+USING (
+    (SELECT role FROM public.profiles WHERE id = auth.uid()) IN ('ADMIN', 'STAFF')
+);
+
+-- Allow ADMIN and STAFF to review weight change flags
+CREATE POLICY "Allow admin and staff to review weight change flags"
+ON public.weight_change_flags FOR UPDATE
+TO authenticated
+USING (
+    (SELECT role FROM public.profiles WHERE id = auth.uid()) IN ('ADMIN', 'STAFF')
+);
+
+-- Allow ADMIN and STAFF to see who is handling a resident's tasks
+CREATE POLICY "Allow admin and staff to view resident tasks"
+ON public.tasks FOR SELECT
+TO authenticated
+USING (
+    resident_id IS NOT NULL AND
+    (SELECT role FROM public.profiles WHERE id = auth.uid()) IN ('ADMIN', 'STAFF')
+);
@@ -0,0 +1,389 @@
+-- Migration to define scored clinical assessment forms and keep each resident's assessment history,
+-- with the date each is due again and the care level its result suggests, and corrections or voids of assessments
+-- entered in error
+
+-- 1. Create assessment_forms table (a form is data: add one by inserting a row). Once a form has been used its
+-- questions and bands are fixed (see section 5): to change them, retire it and add a new one.
+CREATE TABLE public.assessment_forms (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+    code TEXT NOT NULL UNIQUE,
+    name TEXT NOT NULL,
+    description TEXT,
+    -- [{ "key": "...", "text": "...", "options": [{ "label": "...", "points": 0 }, ...] }, ...]
+    questions JSONB NOT NULL CHECK (jsonb_typeof(questions) = 'array' AND jsonb_array_length(questions) > 0),
+    -- [{ "min": 0, "max": 9, "label": "...", "severity": "NONE|LOW|MODERATE|HIGH", "care_level": "LOW|MEDIUM|HIGH" or null }, ...]
+    -- Bands must cover every possible score; care_level is the level the band suggests, null for no suggestion
+    risk_bands JSONB NOT NULL CHECK (jsonb_typeof(risk_bands) = 'array' AND jsonb_array_length(risk_bands) > 0),
+    reassess_days INTEGER NOT NULL CHECK (reassess_days > 0), -- Due again this many days after each assessment
+    active BOOLEAN NOT NULL DEFAULT TRUE -- Retired forms keep their history but cannot be completed
+);
+
+INSERT INTO public.assessment_forms (code, name, description, questions, risk_bands, reassess_days) VALUES
+(
+    'BRADEN',
+    'Braden Scale',
+    'Pressure injury risk. Lower scores mean higher risk.',
+    '[
+        {"key": "sensory_perception", "text": "Sensory perception", "options": [
+            {"label": "Completely limited", "points": 1}, {"label": "Very limited", "points": 2},
+            {"label": "Slightly limited", "points": 3}, {"label": "No impairment", "points": 4}]},
+        {"key": "moisture", "text": "Moisture", "options": [
+            {"label": "Constantly moist", "points": 1}, {"label": "Very moist", "points": 2},
+            {"label": "Occasionally moist", "points": 3}, {"label": "Rarely moist", "points": 4}]},
+        {"key": "activity", "text": "Activity", "options": [
+            {"label": "Bedfast", "points": 1}, {"label": "Chairfast", "points": 2},
+            {"label": "Walks occasionally", "points": 3}, {"label": "Walks frequently", "points": 4}]},
+        {"key": "mobility", "text": "Mobility", "options": [
+            {"label": "Completely immobile", "points": 1}, {"label": "Very limited", "points": 2},
+            {"label": "Slightly limited", "points": 3}, {"label": "No limitation", "points": 4}]},
+        {"key": "nutrition", "text": "Nutrition", "options": [
+            {"label": "Very poor", "points": 1}, {"label": "Probably inadequate", "points": 2},
+            {"label": "Adequate", "points": 3}, {"label": "Excellent", "points": 4}]},
+        {"key": "friction_shear", "text": "Friction and shear", "options": [
+            {"label": "Problem", "points": 1}, {"label": "Potential problem", "points": 2},
+            {"label": "No apparent problem", "points": 3}]}
+    ]',
+    '[
+        {"min": 6, "max": 9, "label": "Very high risk", "severity": "HIGH", "care_level": "HIGH"},
+        {"min": 10, "max": 12, "label": "High risk", "severity": "HIGH", "care_level": "HIGH"},
+        {"min": 13, "max": 14, "label": "Moderate risk", "severity": "MODERATE", "care_level": "MEDIUM"},
+        {"min": 15, "max": 18, "label": "At risk", "severity": "LOW", "care_level": "MEDIUM"},
+        {"min": 19, "max": 23, "label": "No risk", "severity": "NONE", "care_level": "LOW"}
+    ]',
+    7
+),
+(
+    'MORSE',
+    'Morse Fall Scale',
+    'Fall risk. Reassess after any fall.',
+    '[
+        {"key": "history_of_falling", "text": "History of falling (immediate or within 3 months)", "options": [
+            {"label": "No", "points": 0}, {"label": "Yes", "points": 25}]},
+        {"key": "secondary_diagnosis", "text": "Secondary diagnosis", "options": [
+            {"label": "No", "points": 0}, {"label": "Yes", "points": 15}]},
+        {"key": "ambulatory_aid", "text": "Ambulatory aid", "options": [
+            {"label": "None, bed rest or nurse assist", "points": 0}, {"label": "Crutches, cane or walker", "points": 15},
+            {"label": "Furniture", "points": 30}]},
+        {"key": "iv_therapy", "text": "IV or heparin lock", "options": [
+            {"label": "No", "points": 0}, {"label": "Yes", "points": 20}]},
+        {"key": "gait", "text": "Gait", "options": [
+            {"label": "Normal, bed rest or wheelchair", "points": 0}, {"label": "Weak", "points": 10},
+            {"label": "Impaired", "points": 20}]},
+        {"key": "mental_status", "text": "Mental status", "options": [
+            {"label": "Oriented to own ability", "points": 0}, {"label": "Overestimates or forgets limitations", "points": 15}]}
+    ]',
+    '[
+        {"min": 0, "max": 24, "label": "Low risk", "severity": "LOW", "care_level": "LOW"},
+        {"min": 25, "max": 44, "label": "Moderate risk", "severity": "MODERATE", "care_level": "MEDIUM"},
+        {"min": 45, "max": 125, "label": "High risk", "severity": "HIGH", "care_level": "HIGH"}
+    ]',
+    90
+),
+(
+    'MMSE',
+    'Mini-Mental State Examination',
+    'Cognitive screening. Lower scores mean greater impairment.',
+    '[
+        {"key": "orientation_time", "text": "Orientation to time (year, season, date, day, month)", "options": [
+            {"label": "0", "points": 0}, {"label": "1", "points": 1}, {"label": "2", "points": 2},
+            {"label": "3", "points": 3}, {"label": "4", "points": 4}, {"label": "5", "points": 5}]},
+        {"key": "orientation_place", "text": "Orientation to place (state, county, town, building, floor)", "options": [
+            {"label": "0", "points": 0}, {"label": "1", "points": 1}, {"label": "2", "points": 2},
+            {"label": "3", "points": 3}, {"label": "4", "points": 4}, {"label": "5", "points": 5}]},
+        {"key": "registration", "text": "Registration (repeat three objects)", "options": [
+            {"label": "0", "points": 0}, {"label": "1", "points": 1}, {"label": "2", "points": 2},
+            {"label": "3", "points": 3}]},
+        {"key": "attention", "text": "Attention and calculation (serial sevens or spell WORLD backwards)", "options": [
+            {"label": "0", "points": 0}, {"label": "1", "points": 1}, {"label": "2", "points": 2},
+            {"label": "3", "points": 3}, {"label": "4", "points": 4}, {"label": "5", "points": 5}]},
+        {"key": "recall", "text": "Recall (the three objects)", "options": [
+            {"label": "0", "points": 0}, {"label": "1", "points": 1}, {"label": "2", "points": 2},
+            {"label": "3", "points": 3}]},
+        {"key": "naming", "text": "Naming (pencil and watch)", "options": [
+            {"label": "0", "points": 0}, {"label": "1", "points": 1}, {"label": "2", "points": 2}]},
+        {"key": "repetition", "text": "Repetition (\"No ifs, ands or buts\")", "options": [
+            {"label": "0", "points": 0}, {"label": "1", "points": 1}]},
+        {"key": "command", "text": "Three-stage command", "options": [
+            {"label": "0", "points": 0}, {"label": "1", "points": 1}, {"label": "2", "points": 2},
+            {"label": "3", "points": 3}]},
+        {"key": "reading", "text": "Reading (\"Close your eyes\")", "options": [
+            {"label": "0", "points": 0}, {"label": "1", "points": 1}]},
+        {"key": "writing", "text": "Writing (a sentence)", "options": [
+            {"label": "0", "points": 0}, {"label": "1", "points": 1}]},
+        {"key": "copying", "text": "Copying (intersecting pentagons)", "options": [
+            {"label": "0", "points": 0}, {"label": "1", "points": 1}]}
+    ]',
+    '[
+        {"min": 0, "max": 17, "label": "Severe cognitive impairment", "severity": "HIGH", "care_level": "HIGH"},
+        {"min": 18, "max": 23, "label": "Mild cognitive impairment", "severity": "MODERATE", "care_level": "MEDIUM"},
+        {"min": 24, "max": 30, "label": "No cognitive impairment", "severity": "NONE", "care_level": "LOW"}
+    ]',
+    90
+),
+(
+    'PHQ9',
+    'PHQ-9',
+    'Depression screening: how often over the last 2 weeks the resident has been bothered by each problem. Follow up at once on any answer to the last question other than "Not at all".',
+    '[
+        {"key": "interest", "text": "Little interest or pleasure in doing things", "options": [
+            {"label": "Not at all", "points": 0}, {"label": "Several days", "points": 1},
+            {"label": "More than half the days", "points": 2}, {"label": "Nearly every day", "points": 3}]},
+        {"key": "mood", "text": "Feeling down, depressed, or hopeless", "options": [
+            {"label": "Not at all", "points": 0}, {"label": "Several days", "points": 1},
+            {"label": "More than half the days", "points": 2}, {"label": "Nearly every day", "points": 3}]},
+        {"key": "sleep", "text": "Trouble falling or staying asleep, or sleeping too much", "options": [
+            {"label": "Not at all", "points": 0}, {"label": "Several days", "points": 1},
+            {"label": "More than half the days", "points": 2}, {"label": "Nearly every day", "points": 3}]},
+        {"key": "energy", "text": "Feeling tired or having little energy", "options": [
+            {"label": "Not at all", "points": 0}, {"label": "Several days", "points": 1},
+            {"label": "More than half the days", "points": 2}, {"label": "Nearly every day", "points": 3}]},
+        {"key": "appetite", "text": "Poor appetite or overeating", "options": [
+            {"label": "Not at all", "points": 0}, {"label": "Several days", "points": 1},
+            {"label": "More than half the days", "points": 2}, {"label": "Nearly every day", "points": 3}]},
+        {"key": "self_worth", "text": "Feeling bad about yourself, or that you are a failure or have let yourself or your family down", "options": [
+            {"label": "Not at all", "points": 0}, {"label": "Several days", "points": 1},
+            {"label": "More than half the days", "points": 2}, {"label": "Nearly every day", "points": 3}]},
+        {"key": "concentration", "text": "Trouble concentrating on things, such as reading the newspaper or watching television", "options": [
+            {"label": "Not at all", "points": 0}, {"label": "Several days", "points": 1},
+            {"label": "More than half the days", "points": 2}, {"label": "Nearly every day", "points": 3}]},
+        {"key": "psychomotor", "text": "Moving or speaking so slowly that other people could have noticed, or being so fidgety or restless that you have been moving around a lot more than usual", "options": [
+            {"label": "Not at all", "points": 0}, {"label": "Several days", "points": 1},
+            {"label": "More than half the days", "points": 2}, {"label": "Nearly every day", "points": 3}]},
+        {"key": "self_harm", "text": "Thoughts that you would be better off dead, or of hurting yourself in some way", "options": [
+            {"label": "Not at all", "points": 0}, {"label": "Several days", "points": 1},
+            {"label": "More than half the days", "points": 2}, {"label": "Nearly every day", "points": 3}]}
+    ]',
+    '[
+        {"min": 0, "max": 4, "label": "Minimal depression", "severity": "NONE", "care_level": null},
+        {"min": 5, "max": 9, "label": "Mild depression", "severity": "LOW", "care_level": null},
+        {"min": 10, "max": 14, "label": "Moderate depression", "severity": "MODERATE", "care_level": null},
+        {"min": 15, "max": 19, "label": "Moderately severe depression", "severity": "HIGH", "care_level": null},
+        {"min": 20, "max": 27, "label": "Severe depression", "severity": "HIGH", "care_level": null}
+    ]',
+    90
+);
+
+-- 2. Create resident_assessments table (append-only; the trigger scores each assessment)
+CREATE TABLE public.resident_assessments (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+    resident_id UUID NOT NULL REFERENCES public.residents(id) ON DELETE CASCADE,
+    form_id UUID NOT NULL REFERENCES public.assessment_forms(id),
+    assessed_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    answers JSONB NOT NULL, -- { question key: index of the chosen option }
+    total_score INTEGER NOT NULL,
+    risk_band TEXT NOT NULL, -- Label of the band the score fell in when assessed
+    severity TEXT NOT NULL CHECK (severity IN ('NONE', 'LOW', 'MODERATE', 'HIGH')),
+    suggested_care_level TEXT CHECK (suggested_care_level IN ('LOW', 'MEDIUM', 'HIGH')),
+    next_due_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    notes TEXT,
+    completed_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL
+);
+
+CREATE INDEX idx_resident_assessments_resident_form ON public.resident_assessments(resident_id, form_id, assessed_at DESC);
+
+-- 3. Score assessments from the form, so the result never depends on the client
+CREATE OR REPLACE FUNCTION public.score_assessment_answers(form public.assessment_forms, answers JSONB, OUT total INTEGER, OUT band JSONB)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    question JSONB;
+    answer INTEGER;
+BEGIN
+    total := 0;
+    FOR question IN SELECT * FROM jsonb_array_elements(form.questions) LOOP
+        IF jsonb_typeof(answers -> (question ->> 'key')) IS DISTINCT FROM 'number' THEN
+            RAISE EXCEPTION 'Question "%" has not been answered', question ->> 'text';
+        END IF;
+        answer := (answers ->> (question ->> 'key'))::integer;
+        IF answer < 0 OR answer >= jsonb_array_length(question -> 'options') THEN
+            RAISE EXCEPTION 'Invalid answer to question "%"', question ->> 'text';
+        END IF;
+        total := total + (question -> 'options' -> answer ->> 'points')::integer;
+    END LOOP;
+
+    SELECT b INTO band
+    FROM jsonb_array_elements(form.risk_bands) AS b
+    WHERE total BETWEEN (b ->> 'min')::integer AND (b ->> 'max')::integer
+    LIMIT 1;
+    IF band IS NULL THEN
+        RAISE EXCEPTION 'Score % is outside every risk band of %', total, form.name;
+    END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.score_resident_assessment()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    form assessment_forms%ROWTYPE;
+    scored RECORD;
+BEGIN
+    IF NEW.assessed_at > NOW() THEN
+        RAISE EXCEPTION 'Assessments cannot be recorded in the future';
+    END IF;
+
+    SELECT * INTO form FROM assessment_forms WHERE id = NEW.form_id;
+    IF NOT FOUND OR NOT form.active THEN
+        RAISE EXCEPTION 'This assessment form is not available';
+    END IF;
+
+    SELECT * INTO scored FROM public.score_assessment_answers(form, NEW.answers);
+    NEW.total_score := scored.total;
+    NEW.risk_band := scored.band ->> 'label';
+    NEW.severity := scored.band ->> 'severity';
+    NEW.suggested_care_level := scored.band ->> 'care_level';
+    NEW.next_due_at := NEW.assessed_at + make_interval(days => form.reassess_days);
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER resident_assessments_score
+BEFORE INSERT ON public.resident_assessments
+FOR EACH ROW EXECUTE FUNCTION public.score_resident_assessment();
+
+-- 4. Create resident_assessment_corrections table (append-only, like medication_log_corrections; the latest one for an
+-- assessment wins). Corrected answers are scored against the assessment's form, even a retired one. A voided
+-- assessment no longer counts: the previous one sets when the form is due and what care level it suggests.
+CREATE TABLE public.resident_assessment_corrections (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, clock_timestamp()) NOT NULL, -- Not NOW(): keeps corrections made in one transaction in order
+    assessment_id UUID NOT NULL REFERENCES public.resident_assessments(id) ON DELETE CASCADE,
+    corrected_by UUID NOT NULL REFERENCES public.profiles(id),
+    action TEXT NOT NULL CHECK (action IN ('CORRECT', 'VOID')),
+    reason TEXT NOT NULL CHECK (length(trim(reason)) > 0),
+    -- Corrected answers and notes, and the result the trigger scores from them (CORRECT only)
+    answers JSONB,
+    notes TEXT,
+    total_score INTEGER,
+    risk_band TEXT,
+    severity TEXT CHECK (severity IN ('NONE', 'LOW', 'MODERATE', 'HIGH')),
+    suggested_care_level TEXT CHECK (suggested_care_level IN ('LOW', 'MEDIUM', 'HIGH')),
+    CONSTRAINT resident_assessment_corrections_answers_check CHECK ((action = 'CORRECT') = (answers IS NOT NULL))
+);
+
+CREATE INDEX idx_resident_assessment_corrections_assessment_id ON public.resident_assessment_corrections(assessment_id, created_at);
+
+CREATE OR REPLACE FUNCTION public.check_resident_assessment_correction()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    form assessment_forms%ROWTYPE;
+    scored RECORD;
+BEGIN
+    IF (SELECT action FROM resident_assessment_corrections WHERE assessment_id = NEW.assessment_id ORDER BY created_at DESC, id DESC LIMIT 1) = 'VOID' THEN
+        RAISE EXCEPTION 'This assessment has been voided and cannot be corrected';
+    END IF;
+
+    IF NEW.action = 'VOID' THEN
+        NEW.notes := NULL;
+        NEW.total_score := NULL;
+        NEW.risk_band := NULL;
+        NEW.severity := NULL;
+        NEW.suggested_care_level := NULL;
+        RETURN NEW;
+    END IF;
+
+    SELECT f.* INTO form
+    FROM resident_assessments a
+    JOIN assessment_forms f ON f.id = a.form_id
+    WHERE a.id = NEW.assessment_id;
+
+    SELECT * INTO scored FROM public.score_assessment_answers(form, NEW.answers);
+    NEW.total_score := scored.total;
+    NEW.risk_band := scored.band ->> 'label';
+    NEW.severity := scored.band ->> 'severity';
+    NEW.suggested_care_level := scored.band ->> 'care_level';
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER resident_assessment_corrections_check
+BEFORE INSERT ON public.resident_assessment_corrections
+FOR EACH ROW EXECUTE FUNCTION public.check_resident_assessment_correction();
+
+-- 5. Lock a form's questions and bands once it has been used, so past scores and answers keep their meaning
+CREATE OR REPLACE FUNCTION public.guard_assessment_form_changes()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    IF (NEW.questions IS DISTINCT FROM OLD.questions OR NEW.risk_bands IS DISTINCT FROM OLD.risk_bands)
+        AND EXISTS (SELECT 1 FROM resident_assessments WHERE form_id = OLD.id) THEN
+        RAISE EXCEPTION '% is already in use: retire it and add a new form instead of changing its questions or bands', OLD.name;
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER assessment_forms_guard_changes
+BEFORE UPDATE ON public.assessment_forms
+FOR EACH ROW EXECUTE FUNCTION public.guard_assessment_form_changes();
+
+-- 6. Enable RLS
+ALTER TABLE public.assessment_forms ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.resident_assessments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.resident_assessment_corrections ENABLE ROW LEVEL SECURITY;
+
+-- 7. RLS Policies (assessments and their corrections are part of the clinical record: no UPDATE or DELETE)
+
+-- Allow ADMIN and STAFF to view assessment forms
+CREATE POLICY "Allow admin and staff to view assessment forms"
+ON public.assessment_forms FOR SELECT
+TO authenticated
+USING (
+    (SELECT role FROM public.profiles WHERE id = auth.uid()) IN ('ADMIN', 'STAFF')
+);
+
+-- Allow ADMIN to define assessment forms
+CREATE POLICY "Allow admin to create assessment forms"
+ON public.assessment_forms FOR INSERT
+TO authenticated
+WITH CHECK (
+    (SELECT role FROM public.profiles WHERE id = auth.uid()) = 'ADMIN'
+);
+
+-- Allow ADMIN to retire assessment forms (a used form's questions and bands are locked by the trigger)
+CREATE POLICY "Allow admin to update assessment forms"
+ON public.assessment_forms FOR UPDATE
+TO authenticated
+USING (
+    (SELECT role FROM public.profiles WHERE id = auth.uid()) = 'ADMIN'
+);
+
+-- Allow ADMIN and STAFF to view assessments
+CREATE POLICY "Allow admin and staff to view resident assessments"
+ON public.resident_assessments FOR SELECT
+TO authenticated
+USING (
+    (SELECT role FROM public.profiles WHERE id = auth.uid()) IN ('ADMIN', 'STAFF')
+);
+
+-- Allow ADMIN and STAFF to complete assessments as themselves
+CREATE POLICY "Allow admin and staff to complete resident assessments"
+ON public.resident_assessments FOR INSERT
+TO authenticated
+WITH CHECK (
+    completed_by = auth.uid() AND
+    (SELECT role FROM public.profiles WHERE id = auth.uid()) IN ('ADMIN', 'STAFF')
+);
+
+-- Allow ADMIN and STAFF to view assessment corrections
+CREATE POLICY "Allow admin and staff to view resident assessment corrections"
+ON public.resident_assessment_corrections FOR SELECT
+TO authenticated
+USING (
+    (SELECT role FROM public.profiles WHERE id = auth.uid()) IN ('ADMIN', 'STAFF')
+);
+
+-- Allow ADMIN and STAFF to correct or void assessments as themselves
+CREATE POLICY "Allow admin and staff to insert resident assessment corrections"
+ON public.resident_assessment_corrections FOR INSERT
+TO authenticated
+WITH CHECK (
+    corrected_by = auth.uid() AND
+    (SELECT role FROM public.profiles WHERE id = auth.uid()) IN ('ADMIN', 'STAFF')
+);
@@ -0,0 +1,100 @@
+-- Migration to chart Activities of Daily Living per resident per shift, using MDS self-performance and support codes
+
+-- 1. Create adl_entries table (append-only; one entry per activity per shift)
+CREATE TABLE public.adl_entries (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+    resident_id UUID NOT NULL REFERENCES public.residents(id) ON DELETE CASCADE,
+    shift_date DATE NOT NULL, -- Day the shift started; NIGHT runs past midnight
+    shift TEXT NOT NULL CHECK (shift IN ('MORNING', 'AFTERNOON', 'NIGHT')), -- Matches staff.shift
+    activity TEXT NOT NULL CHECK (activity IN ('BATHING', 'DRESSING', 'TOILETING', 'EATING', 'TRANSFER', 'MOBILITY')),
+    -- 0 Independent, 1 Supervision, 2 Limited assistance, 3 Extensive assistance, 4 Total dependence,
+    -- 7 Occurred only once or twice, 8 Did not occur
+    self_performance INTEGER NOT NULL CHECK (self_performance IN (0, 1, 2, 3, 4, 7, 8)),
+    -- 0 No setup or physical help, 1 Setup help only, 2 One person physical assist, 3 Two+ persons physical assist,
+    -- 8 Did not occur
+    support INTEGER NOT NULL CHECK (support IN (0, 1, 2, 3, 8)),
+    notes TEXT,
+    recorded_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    UNIQUE (resident_id, shift_date, shift, activity),
+    CONSTRAINT adl_entries_did_not_occur CHECK ((self_performance = 8) = (support = 8))
+);
+
+CREATE INDEX idx_adl_entries_resident_shift_date ON public.adl_entries(resident_id, shift_date DESC);
+
+-- 2. Create adl_entry_corrections table (append-only, like medication_log_corrections; the latest one for an entry wins).
+-- An entry charted in error is voided rather than deleted, and stays on the flowsheet struck through.
+CREATE TABLE public.adl_entry_corrections (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, clock_timestamp()) NOT NULL, -- Not NOW(): keeps corrections made in one transaction in order
+    entry_id UUID NOT NULL REFERENCES public.adl_entries(id) ON DELETE CASCADE,
+    corrected_by UUID NOT NULL REFERENCES public.profiles(id),
+    action TEXT NOT NULL CHECK (action IN ('CORRECT', 'VOID')),
+    reason TEXT NOT NULL CHECK (length(trim(reason)) > 0),
+    -- Corrected codes and notes (CORRECT only)
+    self_performance INTEGER CHECK (self_performance IN (0, 1, 2, 3, 4, 7, 8)),
+    support INTEGER CHECK (support IN (0, 1, 2, 3, 8)),
+    notes TEXT,
+    CONSTRAINT adl_entry_corrections_codes_check CHECK (
+        (action = 'CORRECT') = (self_performance IS NOT NULL AND support IS NOT NULL)
+    ),
+    CONSTRAINT adl_entry_corrections_did_not_occur CHECK ((self_performance = 8) = (support = 8))
+);
+
+CREATE INDEX idx_adl_entry_corrections_entry_id ON public.adl_entry_corrections(entry_id, created_at);
+
+CREATE OR REPLACE FUNCTION public.check_adl_entry_correction()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    IF (SELECT action FROM adl_entry_corrections WHERE entry_id = NEW.entry_id ORDER BY created_at DESC, id DESC LIMIT 1) = 'VOID' THEN
+        RAISE EXCEPTION 'This ADL entry has been voided and cannot be corrected';
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER adl_entry_corrections_check
+BEFORE INSERT ON public.adl_entry_corrections
+FOR EACH ROW EXECUTE FUNCTION public.check_adl_entry_correction();
+
+-- 3. Enable RLS
+ALTER TABLE public.adl_entries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.adl_entry_corrections ENABLE ROW LEVEL SECURITY;
+
+-- 4. RLS Policies (ADL entries and their corrections are part of the clinical record: no UPDATE or DELETE)
+
+-- Allow ADMIN and STAFF to view ADL entries
+CREATE POLICY "Allow admin and staff to view ADL entries"
+ON public.adl_entries FOR SELECT
+TO authenticated
+USING (
+    (SELECT role FROM public.profiles WHERE id = auth.uid()) IN ('ADMIN', 'STAFF')
+);
+
+-- Allow ADMIN and STAFF to chart ADLs as themselves
+CREATE POLICY "Allow admin and staff to record ADL entries"
+ON public.adl_entries FOR INSERT
+TO authenticated
+WITH CHECK (
+    recorded_by = auth.uid() AND
+    (SELECT role FROM public.profiles WHERE id = auth.uid()) IN ('ADMIN', 'STAFF')
+);
+
+-- Allow ADMIN and STAFF to view ADL entry corrections
+CREATE POLICY "Allow admin and staff to view ADL entry corrections"
+ON public.adl_entry_corrections FOR SELECT
+TO authenticated
+USING (
+    (SELECT role FROM public.profiles WHERE id = auth.uid()) IN ('ADMIN', 'STAFF')
+);
+
+-- Allow ADMIN and STAFF to correct ADL entries as themselves
+CREATE POLICY "Allow admin and staff to insert ADL entry corrections"
+ON public.adl_entry_corrections FOR INSERT
+TO authenticated
+WITH CHECK (
+    corrected_by = auth.uid() AND
+    (SELECT role FROM public.profiles WHERE id = auth.uid()) IN ('ADMIN', 'STAFF')
+);
@@ -0,0 +1,18 @@
+import { dirname, resolve } from "path";
+import { fileURLToPath } from "url";
+import { defineConfig } from "vitest/config";
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+
+export default defineConfig({
+  resolve: {
+    alias: { "@": resolve(__dirname, "src") },
+  },
+  test: {
+    // Run like the cron server: UTC clock, facility on US Eastern time
+    env: {
+      TZ: "UTC",
+      NEXT_PUBLIC_FACILITY_TIMEZONE: "America/New_York",
+    },
+  },
+});